@@ -0,0 +1,126 @@
+import {
+  parseApiToken,
+  createApiToken,
+  validateApiToken,
+  API_TOKEN_SCOPES,
+  MAX_API_TOKEN_EXPIRY_DAYS,
+} from '../auth/apiTokens';
+import { hashToken } from '../auth/session';
+import { openApiDocument } from '../openapi';
+import { poolReturning } from './helpers/pool';
+
+describe('parseApiToken', () => {
+  it('accepts a named token with scopes and an expiry', () => {
+    expect(parseApiToken({
+      name: ' CI script ',
+      scopes: ['bookings:read', 'bookings:read', 'pages:read'],
+      expiresInDays: 90,
+    })).toEqual({
+      token: { name: 'CI script', scopes: ['bookings:read', 'pages:read'], expiresInDays: 90 },
+    });
+  });
+
+  it('treats a missing expiry as never expiring', () => {
+    expect(parseApiToken({ name: 'Sync', scopes: ['pages:write'] })).toEqual({
+      token: { name: 'Sync', scopes: ['pages:write'], expiresInDays: null },
+    });
+  });
+
+  it('rejects a blank name, no scopes, or an unknown scope', () => {
+    expect(parseApiToken({ name: '  ', scopes: ['pages:read'] })).toHaveProperty('error');
+    expect(parseApiToken({ name: 'Sync', scopes: [] })).toHaveProperty('error');
+    expect(parseApiToken({ name: 'Sync', scopes: ['admin'] })).toHaveProperty('error');
+  });
+
+  it('rejects expiries outside 1 to the maximum days', () => {
+    expect(parseApiToken({ name: 'Sync', scopes: ['pages:read'], expiresInDays: 0 })).toHaveProperty('error');
+    expect(parseApiToken({
+      name: 'Sync',
+      scopes: ['pages:read'],
+      expiresInDays: MAX_API_TOKEN_EXPIRY_DAYS + 1,
+    })).toHaveProperty('error');
+  });
+});
+
+describe('createApiToken', () => {
+  it('stores only the hash and a short prefix of the token it returns', async () => {
+    const pool = poolReturning([{
+      id: 'tok-1',
+      name: 'Sync',
+      token_prefix: 'ca_pat_abcdef',
+      scopes: ['pages:read'],
+      expires_at: null,
+      last_used_at: null,
+      created_at: new Date('2026-01-01T00:00:00Z'),
+    }]);
+
+    const { token, apiToken } = await createApiToken(pool, 'user-1', {
+      name: 'Sync',
+      scopes: ['pages:read'],
+      expiresInDays: null,
+    });
+
+    expect(token).toMatch(/^ca_pat_[0-9a-f]{64}$/);
+    const params = pool.query.mock.calls[0][1];
+    expect(params[2]).toBe(hashToken(token));
+    expect(params[3]).toBe(token.slice(0, 13));
+    expect(params).not.toContain(token);
+    expect(apiToken).toMatchObject({ id: 'tok-1', prefix: 'ca_pat_abcdef', expiresAt: null });
+  });
+});
+
+describe('validateApiToken', () => {
+  it('looks a token up by its hash and returns the owner and scopes', async () => {
+    const pool = poolReturning([{
+      id: 'tok-1',
+      user_id: 'user-1',
+      scopes: ['bookings:read'],
+      emoji_id: '🐶🍕🚀',
+      tier: 'pro',
+    }]);
+
+    const auth = await validateApiToken(pool, 'ca_pat_secret');
+
+    expect(pool.query.mock.calls[0][1]).toEqual([hashToken('ca_pat_secret')]);
+    expect(auth).toEqual({
+      session: { userId: 'user-1', emojiId: '🐶🍕🚀', tier: 'pro' },
+      tokenId: 'tok-1',
+      scopes: ['bookings:read'],
+    });
+  });
+
+  it('returns null for unknown or expired tokens', async () => {
+    expect(await validateApiToken(poolReturning([]), 'ca_pat_secret')).toBeNull();
+  });
+
+  it('does not query for strings that are not API tokens', async () => {
+    const pool = poolReturning([]);
+    expect(await validateApiToken(pool, 'a-session-token')).toBeNull();
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+});
+
+describe('openApiDocument', () => {
+  it('names a known scope on every dashboard operation', () => {
+    const paths = openApiDocument.paths as Record<string, Record<string, any>>;
+    const dashboardOperations = Object.entries(paths)
+      .filter(([path]) => path.startsWith('/api/dashboard/'))
+      .flatMap(([, item]) => Object.entries(item).filter(([key]) => key !== 'parameters'));
+
+    expect(dashboardOperations.length).toBeGreaterThan(0);
+    for (const [, operation] of dashboardOperations) {
+      expect(API_TOKEN_SCOPES).toContain(operation['x-required-scope']);
+    }
+  });
+
+  it('describes the meeting-type endpoints with the scopes they require', () => {
+    const paths = openApiDocument.paths as Record<string, Record<string, any>>;
+    const list = paths['/api/dashboard/pages/{id}/meeting-types'];
+    const one = paths['/api/dashboard/pages/{id}/meeting-types/{typeId}'];
+
+    expect(list.get['x-required-scope']).toBe('pages:read');
+    expect(list.post['x-required-scope']).toBe('pages:write');
+    expect(one.patch['x-required-scope']).toBe('pages:write');
+    expect(one.delete['x-required-scope']).toBe('pages:write');
+  });
+});
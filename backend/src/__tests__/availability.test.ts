@@ -0,0 +1,520 @@
+import {
+  bookingConflict,
+  computeAvailableSlots,
+  groupSlotsByDate,
+  resolveWindow,
+  rulesForPage,
+  slotConflict,
+  AvailabilityRules,
+} from '../services/availability';
+import { parseWeeklyAvailability } from '../services/weeklyAvailability';
+import { parseDateOverride } from '../services/dateOverrides';
+import type { SchedulingPage } from '../store/interfaces';
+
+// Monday 2 March 2026, midnight UTC
+const NOW = new Date('2026-03-02T00:00:00Z');
+
+function rules(overrides: Partial<AvailabilityRules> = {}): AvailabilityRules {
+  return {
+    durationMinutes: 60,
+    bufferMinutes: 0,
+    bufferBeforeMinutes: 0,
+    maxBookingsPerDay: null,
+    maxBookingsPerWeek: null,
+    slotIncrementMinutes: null,
+    minNoticeHours: 0,
+    dateRangeDays: 7,
+    includeWeekends: false,
+    availabilityStart: '09:00',
+    availabilityEnd: '12:00',
+    ownerTimezone: 'UTC',
+    ...overrides,
+  };
+}
+
+function starts(slots: { start: string }[]): string[] {
+  return slots.map(s => s.start);
+}
+
+describe('rulesForPage', () => {
+  it('applies defaults for missing optional fields', () => {
+    const page = {
+      slug: 'abc',
+      calendarUrls: [],
+      ownerName: 'Ada',
+      defaultDurationMinutes: 45,
+      createdAt: 0,
+      expiresAt: null,
+    } as unknown as SchedulingPage;
+
+    expect(rulesForPage(page)).toEqual({
+      durationMinutes: 45,
+      bufferMinutes: 0,
+      bufferBeforeMinutes: 0,
+      maxBookingsPerDay: null,
+      maxBookingsPerWeek: null,
+      slotIncrementMinutes: null,
+      minNoticeHours: 8,
+      dateRangeDays: 60,
+      includeWeekends: false,
+      availabilityStart: '09:00',
+      availabilityEnd: '17:00',
+      ownerTimezone: 'UTC',
+    });
+  });
+});
+
+describe('resolveWindow', () => {
+  it('starts at the minimum-notice cut-off and ends at the date range', () => {
+    const w = resolveWindow(rules({ minNoticeHours: 8, dateRangeDays: 14 }), { now: NOW });
+    expect(w.from.toISOString()).toBe('2026-03-02T08:00:00.000Z');
+    expect(w.to.toISOString()).toBe('2026-03-16T00:00:00.000Z');
+  });
+
+  it('narrows to an explicit from/to but never widens past the page limits', () => {
+    const w = resolveWindow(rules(), {
+      now: NOW,
+      from: new Date('2026-03-01T00:00:00Z'),
+      to: new Date('2026-03-04T00:00:00Z'),
+    });
+    expect(w.from.toISOString()).toBe('2026-03-02T00:00:00.000Z');
+    expect(w.to.toISOString()).toBe('2026-03-04T00:00:00.000Z');
+  });
+});
+
+describe('computeAvailableSlots', () => {
+  it('generates back-to-back slots inside the availability hours', () => {
+    const slots = computeAvailableSlots(rules({ dateRangeDays: 1 }), [], { now: NOW });
+    expect(slots).toEqual([
+      { start: '2026-03-02T09:00:00.000Z', end: '2026-03-02T10:00:00.000Z' },
+      { start: '2026-03-02T10:00:00.000Z', end: '2026-03-02T11:00:00.000Z' },
+      { start: '2026-03-02T11:00:00.000Z', end: '2026-03-02T12:00:00.000Z' },
+    ]);
+  });
+
+  it('keeps the buffers before and after a slot clear of busy time', () => {
+    const slots = computeAvailableSlots(
+      rules({ dateRangeDays: 1, durationMinutes: 30, bufferBeforeMinutes: 15, bufferMinutes: 30 }),
+      [{ start: '2026-03-02T10:00:00Z', end: '2026-03-02T10:30:00Z' }],
+      { now: NOW }
+    );
+    // Buffers no longer widen the step; they only matter next to busy time
+    expect(starts(slots)).toEqual([
+      '2026-03-02T09:00:00.000Z',
+      '2026-03-02T11:00:00.000Z',
+      '2026-03-02T11:30:00.000Z',
+    ]);
+  });
+
+  it('starts slots every increment when one is set', () => {
+    const slots = computeAvailableSlots(
+      rules({ dateRangeDays: 1, durationMinutes: 45, slotIncrementMinutes: 15 }),
+      [],
+      { now: NOW }
+    );
+    expect(starts(slots)).toEqual([
+      '2026-03-02T09:00:00.000Z',
+      '2026-03-02T09:15:00.000Z',
+      '2026-03-02T09:30:00.000Z',
+      '2026-03-02T09:45:00.000Z',
+      '2026-03-02T10:00:00.000Z',
+      '2026-03-02T10:15:00.000Z',
+      '2026-03-02T10:30:00.000Z',
+      '2026-03-02T10:45:00.000Z',
+      '2026-03-02T11:00:00.000Z',
+      '2026-03-02T11:15:00.000Z',
+    ]);
+  });
+
+  it('keeps the buffers around the page\'s own bookings too', () => {
+    const r = rules({ dateRangeDays: 1, durationMinutes: 30, bufferMinutes: 15 });
+    const busy = [{ start: '2026-03-02T10:00:00Z', end: '2026-03-02T10:30:00Z' }];
+
+    expect(starts(computeAvailableSlots(r, busy, { now: NOW }))).toEqual([
+      '2026-03-02T09:00:00.000Z',
+      '2026-03-02T10:30:00.000Z',
+      '2026-03-02T11:00:00.000Z',
+      '2026-03-02T11:30:00.000Z',
+    ]);
+    expect(starts(computeAvailableSlots(r, [], { now: NOW }, busy))).toEqual([
+      '2026-03-02T09:00:00.000Z',
+      '2026-03-02T11:00:00.000Z',
+      '2026-03-02T11:30:00.000Z',
+    ]);
+  });
+
+  it('offers nothing on a day that has reached its booking cap', () => {
+    const slots = computeAvailableSlots(
+      rules({ dateRangeDays: 2, maxBookingsPerDay: 1 }),
+      [],
+      { now: NOW },
+      [{ start: '2026-03-02T11:00:00Z', end: '2026-03-02T12:00:00Z' }]
+    );
+    expect(starts(slots)).toEqual([
+      '2026-03-03T09:00:00.000Z',
+      '2026-03-03T10:00:00.000Z',
+      '2026-03-03T11:00:00.000Z',
+    ]);
+  });
+
+  it('offers nothing for the rest of a week that has reached its booking cap', () => {
+    const slots = computeAvailableSlots(
+      rules({ dateRangeDays: 8, maxBookingsPerWeek: 2 }),
+      [],
+      { now: NOW },
+      [
+        { start: '2026-03-02T09:00:00Z', end: '2026-03-02T10:00:00Z' },
+        { start: '2026-03-03T09:00:00Z', end: '2026-03-03T10:00:00Z' },
+      ]
+    );
+    // The next week starts on Monday 9 March
+    expect(starts(slots)).toEqual([
+      '2026-03-09T09:00:00.000Z',
+      '2026-03-09T10:00:00.000Z',
+      '2026-03-09T11:00:00.000Z',
+    ]);
+  });
+
+  it('removes slots that overlap a busy interval', () => {
+    const slots = computeAvailableSlots(
+      rules({ dateRangeDays: 1 }),
+      [{ start: '2026-03-02T09:30:00Z', end: '2026-03-02T10:15:00Z' }],
+      { now: NOW }
+    );
+    expect(starts(slots)).toEqual(['2026-03-02T11:00:00.000Z']);
+  });
+
+  it('treats a busy interval that only touches a slot edge as free', () => {
+    const slots = computeAvailableSlots(
+      rules({ dateRangeDays: 1 }),
+      [{ start: '2026-03-02T10:00:00Z', end: '2026-03-02T11:00:00Z' }],
+      { now: NOW }
+    );
+    expect(starts(slots)).toEqual([
+      '2026-03-02T09:00:00.000Z',
+      '2026-03-02T11:00:00.000Z',
+    ]);
+  });
+
+  it('honours the minimum notice period', () => {
+    const slots = computeAvailableSlots(
+      rules({ dateRangeDays: 1, minNoticeHours: 10 }),
+      [],
+      { now: NOW }
+    );
+    expect(starts(slots)).toEqual(['2026-03-02T10:00:00.000Z', '2026-03-02T11:00:00.000Z']);
+  });
+
+  it('skips weekends unless they are included', () => {
+    const weekdaysOnly = computeAvailableSlots(rules({ availabilityEnd: '10:00' }), [], { now: NOW });
+    expect(weekdaysOnly).toHaveLength(5);
+
+    const withWeekends = computeAvailableSlots(
+      rules({ availabilityEnd: '10:00', includeWeekends: true }),
+      [],
+      { now: NOW }
+    );
+    expect(withWeekends).toHaveLength(7);
+  });
+
+  it('keeps availability on the owner wall clock across a DST change', () => {
+    // UK clocks go forward on Sunday 29 March 2026
+    const slots = computeAvailableSlots(
+      rules({ ownerTimezone: 'Europe/London', availabilityEnd: '10:00', dateRangeDays: 30 }),
+      [],
+      { now: NOW, from: new Date('2026-03-27T00:00:00Z'), to: new Date('2026-03-31T00:00:00Z') }
+    );
+    expect(starts(slots)).toEqual([
+      '2026-03-27T09:00:00.000Z', // Friday, GMT
+      '2026-03-30T08:00:00.000Z', // Monday, BST
+    ]);
+  });
+
+  it('uses the owner timezone for the weekend rule', () => {
+    // 09:00 Monday in Auckland is still Sunday evening in UTC
+    const slots = computeAvailableSlots(
+      rules({ ownerTimezone: 'Pacific/Auckland', availabilityEnd: '10:00', dateRangeDays: 2 }),
+      [],
+      { now: new Date('2026-03-01T00:00:00Z') }
+    );
+    expect(starts(slots)).toEqual(['2026-03-01T20:00:00.000Z', '2026-03-02T20:00:00.000Z']);
+  });
+
+  it('follows a weekly schedule with several ranges per day', () => {
+    // Mon/Wed 10-12 and 14-16, Fri mornings only
+    const slots = computeAvailableSlots(
+      rules({
+        includeWeekends: true,
+        weeklyAvailability: [
+          { weekday: 1, start: '10:00', end: '12:00' },
+          { weekday: 1, start: '14:00', end: '16:00' },
+          { weekday: 3, start: '10:00', end: '12:00' },
+          { weekday: 3, start: '14:00', end: '16:00' },
+          { weekday: 5, start: '09:00', end: '11:00' },
+        ],
+      }),
+      [],
+      { now: NOW }
+    );
+
+    expect(starts(slots)).toEqual([
+      '2026-03-02T10:00:00.000Z',
+      '2026-03-02T11:00:00.000Z',
+      '2026-03-02T14:00:00.000Z',
+      '2026-03-02T15:00:00.000Z',
+      '2026-03-04T10:00:00.000Z',
+      '2026-03-04T11:00:00.000Z',
+      '2026-03-04T14:00:00.000Z',
+      '2026-03-04T15:00:00.000Z',
+      '2026-03-06T09:00:00.000Z',
+      '2026-03-06T10:00:00.000Z',
+    ]);
+  });
+
+  it('starts each range afresh rather than carrying the step across the gap', () => {
+    const slots = computeAvailableSlots(
+      rules({
+        dateRangeDays: 1,
+        durationMinutes: 45,
+        weeklyAvailability: [
+          { weekday: 1, start: '09:00', end: '10:30' },
+          { weekday: 1, start: '13:15', end: '14:00' },
+        ],
+      }),
+      [],
+      { now: NOW }
+    );
+
+    expect(starts(slots)).toEqual([
+      '2026-03-02T09:00:00.000Z',
+      '2026-03-02T09:45:00.000Z',
+      '2026-03-02T13:15:00.000Z',
+    ]);
+  });
+
+  it('reads weekdays of the schedule in the owner timezone', () => {
+    // Saturday 09:00 in Auckland is Friday evening in UTC
+    const slots = computeAvailableSlots(
+      rules({
+        ownerTimezone: 'Pacific/Auckland',
+        weeklyAvailability: [{ weekday: 6, start: '09:00', end: '10:00' }],
+      }),
+      [],
+      { now: NOW }
+    );
+    expect(starts(slots)).toEqual(['2026-03-06T20:00:00.000Z']);
+  });
+
+  it('replaces the weekly hours on dates with an override', () => {
+    const slots = computeAvailableSlots(
+      rules({
+        dateOverrides: [
+          { startDate: '2026-03-03', endDate: '2026-03-04', ranges: [], label: 'Conference' },
+          { startDate: '2026-03-05', endDate: '2026-03-05', ranges: [{ start: '10:00', end: '11:00' }] },
+          // Weekend dates can be opened even though weekends are excluded
+          { startDate: '2026-03-07', endDate: '2026-03-07', ranges: [{ start: '10:00', end: '12:00' }] },
+        ],
+      }),
+      [],
+      { now: NOW }
+    );
+
+    expect(starts(slots)).toEqual([
+      '2026-03-02T09:00:00.000Z',
+      '2026-03-02T10:00:00.000Z',
+      '2026-03-02T11:00:00.000Z',
+      '2026-03-05T10:00:00.000Z',
+      '2026-03-06T09:00:00.000Z',
+      '2026-03-06T10:00:00.000Z',
+      '2026-03-06T11:00:00.000Z',
+      '2026-03-07T10:00:00.000Z',
+      '2026-03-07T11:00:00.000Z',
+    ]);
+  });
+
+  it('reads override dates in the owner timezone', () => {
+    // Tuesday 3 March 09:00 in Auckland (UTC+13) is 20:00 UTC on Monday
+    const slots = computeAvailableSlots(
+      rules({
+        ownerTimezone: 'Pacific/Auckland',
+        dateRangeDays: 2,
+        dateOverrides: [{ startDate: '2026-03-03', endDate: '2026-03-03', ranges: [] }],
+      }),
+      [],
+      { now: NOW }
+    );
+    // Only Wednesday in Auckland remains
+    expect(starts(slots)).toEqual([
+      '2026-03-03T20:00:00.000Z',
+      '2026-03-03T21:00:00.000Z',
+      '2026-03-03T22:00:00.000Z',
+    ]);
+  });
+
+  it('returns nothing when the window is empty', () => {
+    const slots = computeAvailableSlots(rules(), [], {
+      now: NOW,
+      from: new Date('2026-04-01T00:00:00Z'),
+    });
+    expect(slots).toEqual([]);
+  });
+});
+
+describe('bookingConflict', () => {
+  const booked = [{ start: '2026-03-02T10:00:00Z', end: '2026-03-02T11:00:00Z' }];
+
+  it('reports a slot within a booking\'s buffer as taken', () => {
+    const r = rules({ bufferMinutes: 30 });
+    expect(bookingConflict(r, { start: '2026-03-02T11:00:00Z', end: '2026-03-02T12:00:00Z' }, booked))
+      .toBe('taken');
+    expect(bookingConflict(r, { start: '2026-03-02T11:30:00Z', end: '2026-03-02T12:30:00Z' }, booked))
+      .toBeNull();
+  });
+
+  it('reports a slot on a day at its cap as full', () => {
+    const r = rules({ maxBookingsPerDay: 1 });
+    expect(bookingConflict(r, { start: '2026-03-02T14:00:00Z', end: '2026-03-02T15:00:00Z' }, booked))
+      .toBe('full');
+    expect(bookingConflict(r, { start: '2026-03-03T14:00:00Z', end: '2026-03-03T15:00:00Z' }, booked))
+      .toBeNull();
+  });
+});
+
+describe('slotConflict', () => {
+  const slot = (start: string, end: string) => ({ start, end });
+
+  it('accepts a slot the page offers', () => {
+    expect(slotConflict(rules(), slot('2026-03-02T10:00:00Z', '2026-03-02T11:00:00Z'), [], [], NOW))
+      .toBeNull();
+  });
+
+  it('reports a slot outside the page\'s hours or off its grid as unavailable', () => {
+    const r = rules();
+    expect(slotConflict(r, slot('2026-03-02T20:00:00Z', '2026-03-02T21:00:00Z'), [], [], NOW))
+      .toBe('unavailable');
+    expect(slotConflict(r, slot('2026-03-07T10:00:00Z', '2026-03-07T11:00:00Z'), [], [], NOW))
+      .toBe('unavailable');
+    expect(slotConflict(r, slot('2026-03-02T10:15:00Z', '2026-03-02T11:15:00Z'), [], [], NOW))
+      .toBe('unavailable');
+    expect(slotConflict(r, slot('2026-03-02T10:00:00Z', '2026-03-02T12:00:00Z'), [], [], NOW))
+      .toBe('unavailable');
+  });
+
+  it('reports a slot within a calendar event\'s buffer as unavailable', () => {
+    const r = rules({ bufferBeforeMinutes: 30 });
+    const busy = [slot('2026-03-02T09:00:00Z', '2026-03-02T09:45:00Z')];
+    expect(slotConflict(r, slot('2026-03-02T10:00:00Z', '2026-03-02T11:00:00Z'), busy, [], NOW))
+      .toBe('unavailable');
+    expect(slotConflict(r, slot('2026-03-02T11:00:00Z', '2026-03-02T12:00:00Z'), busy, [], NOW))
+      .toBeNull();
+  });
+
+  it('reports a slot sooner than the minimum notice or past the date range as unavailable', () => {
+    const r = rules({ minNoticeHours: 24, dateRangeDays: 7 });
+    expect(slotConflict(r, slot('2026-03-02T10:00:00Z', '2026-03-02T11:00:00Z'), [], [], NOW))
+      .toBe('unavailable');
+    expect(slotConflict(r, slot('2026-03-12T10:00:00Z', '2026-03-12T11:00:00Z'), [], [], NOW))
+      .toBe('unavailable');
+  });
+});
+
+describe('groupSlotsByDate', () => {
+  const slots = [
+    { start: '2026-03-02T09:00:00.000Z', end: '2026-03-02T10:00:00.000Z' },
+    { start: '2026-03-02T16:00:00.000Z', end: '2026-03-02T17:00:00.000Z' },
+    { start: '2026-03-03T09:00:00.000Z', end: '2026-03-03T10:00:00.000Z' },
+  ];
+
+  it('groups by UTC date', () => {
+    expect(groupSlotsByDate(slots, 'UTC').map(d => [d.date, d.slots.length])).toEqual([
+      ['2026-03-02', 2],
+      ['2026-03-03', 1],
+    ]);
+  });
+
+  it('groups by the visitor timezone date', () => {
+    // Tokyo is UTC+9: 16:00Z on the 2nd is 01:00 on the 3rd
+    expect(groupSlotsByDate(slots, 'Asia/Tokyo').map(d => [d.date, d.slots.length])).toEqual([
+      ['2026-03-02', 1],
+      ['2026-03-03', 2],
+    ]);
+  });
+});
+
+describe('parseWeeklyAvailability', () => {
+  it('sorts ranges by weekday and start time', () => {
+    expect(parseWeeklyAvailability([
+      { weekday: 3, start: '14:00', end: '17:00' },
+      { weekday: 1, start: '09:00', end: '12:00' },
+      { weekday: 3, start: '10:00', end: '12:00' },
+    ])).toEqual({
+      ranges: [
+        { weekday: 1, start: '09:00', end: '12:00' },
+        { weekday: 3, start: '10:00', end: '12:00' },
+        { weekday: 3, start: '14:00', end: '17:00' },
+      ],
+    });
+  });
+
+  it('rejects malformed ranges', () => {
+    expect(parseWeeklyAvailability({})).toHaveProperty('error');
+    expect(parseWeeklyAvailability([])).toHaveProperty('error');
+    expect(parseWeeklyAvailability([{ weekday: 7, start: '09:00', end: '10:00' }])).toHaveProperty('error');
+    expect(parseWeeklyAvailability([{ weekday: 1, start: '9:00', end: '10:00' }])).toHaveProperty('error');
+    expect(parseWeeklyAvailability([{ weekday: 1, start: '10:00', end: '10:00' }])).toHaveProperty('error');
+  });
+
+  it('rejects overlapping ranges on the same day only', () => {
+    expect(parseWeeklyAvailability([
+      { weekday: 1, start: '09:00', end: '12:00' },
+      { weekday: 1, start: '11:00', end: '13:00' },
+    ])).toHaveProperty('error');
+    expect(parseWeeklyAvailability([
+      { weekday: 1, start: '09:00', end: '12:00' },
+      { weekday: 1, start: '12:00', end: '13:00' },
+      { weekday: 2, start: '11:00', end: '13:00' },
+    ])).toHaveProperty('ranges');
+  });
+});
+
+describe('parseDateOverride', () => {
+  const TODAY = '2026-03-02';
+
+  it('defaults the end date to the start date and sorts the hours', () => {
+    expect(parseDateOverride({
+      startDate: '2026-03-07',
+      ranges: [{ start: '14:00', end: '15:00' }, { start: '09:00', end: '10:00' }],
+      label: '  Open day ',
+    }, TODAY)).toEqual({
+      override: {
+        startDate: '2026-03-07',
+        endDate: '2026-03-07',
+        ranges: [{ start: '09:00', end: '10:00' }, { start: '14:00', end: '15:00' }],
+        label: 'Open day',
+      },
+    });
+  });
+
+  it('treats missing hours as unavailable', () => {
+    expect(parseDateOverride({ startDate: '2026-08-03', endDate: '2026-08-14' }, TODAY)).toEqual({
+      override: { startDate: '2026-08-03', endDate: '2026-08-14', ranges: [], label: undefined },
+    });
+  });
+
+  it('rejects invalid, reversed, past and overly long date ranges', () => {
+    expect(parseDateOverride({ startDate: '2026-02-30' }, TODAY)).toHaveProperty('error');
+    expect(parseDateOverride({ startDate: '2026-03-10', endDate: '2026-03-09' }, TODAY)).toHaveProperty('error');
+    expect(parseDateOverride({ startDate: '2026-03-01' }, TODAY)).toHaveProperty('error');
+    expect(parseDateOverride({ startDate: '2026-03-02', endDate: '2027-03-03' }, TODAY)).toHaveProperty('error');
+    // A range that is still running is fine
+    expect(parseDateOverride({ startDate: '2026-02-25', endDate: '2026-03-02' }, TODAY)).toHaveProperty('override');
+  });
+
+  it('rejects malformed or overlapping hours', () => {
+    expect(parseDateOverride({ startDate: '2026-03-07', ranges: 'all day' }, TODAY)).toHaveProperty('error');
+    expect(parseDateOverride({
+      startDate: '2026-03-07',
+      ranges: [{ start: '09:00', end: '12:00' }, { start: '11:00', end: '13:00' }],
+    }, TODAY)).toHaveProperty('error');
+  });
+});
@@ -0,0 +1,279 @@
+import express from 'express';
+import request from 'supertest';
+import { pagesRouter } from '../routes/pages';
+import * as store from '../store';
+import * as calendar from '../services/calendar';
+import { futureSlot, initMemoryStores } from './helpers/booking';
+
+jest.mock('../services/email');
+jest.mock('../services/calendar');
+
+const mockFetchCalendars = calendar.fetchAndParseMultipleCalendars as jest.MockedFunction<
+  typeof calendar.fetchAndParseMultipleCalendars
+>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/pages', pagesRouter);
+
+const SLUG = 'conflicttestpage';
+const CAPPED_SLUG = 'cappedtestpage';
+
+function requestBody(slot: { startIso: string; endIso: string }, email = 'ada@example.com') {
+  return {
+    requesterName: 'Ada Lovelace',
+    requesterEmail: email,
+    reason: 'Discuss the analytical engine',
+    ...slot,
+  };
+}
+
+beforeAll(async () => {
+  initMemoryStores();
+
+  await store.pagesStore.create({
+    slug: SLUG,
+    calendarUrls: ['https://calendar.example.com/feed.ics'],
+    ownerName: 'Grace Hopper',
+    defaultDurationMinutes: 30,
+    bufferMinutes: 0,
+    dateRangeDays: 30,
+    minNoticeHours: 0,
+    includeWeekends: false,
+    availabilityStart: '09:00',
+    availabilityEnd: '17:00',
+    ownerTimezone: 'UTC',
+    createdAt: Date.now(),
+    expiresAt: null,
+  });
+
+  // One meeting a day, with half an hour clear either side
+  await store.pagesStore.create({
+    slug: CAPPED_SLUG,
+    calendarUrls: ['https://calendar.example.com/feed.ics'],
+    ownerName: 'Grace Hopper',
+    defaultDurationMinutes: 30,
+    bufferMinutes: 30,
+    bufferBeforeMinutes: 30,
+    maxBookingsPerDay: 1,
+    dateRangeDays: 30,
+    minNoticeHours: 0,
+    includeWeekends: false,
+    availabilityStart: '09:00',
+    availabilityEnd: '17:00',
+    ownerTimezone: 'UTC',
+    createdAt: Date.now(),
+    expiresAt: null,
+  });
+});
+
+beforeEach(() => {
+  mockFetchCalendars.mockResolvedValue({ busySlots: [], stale: false });
+});
+
+describe('in-memory bookings store', () => {
+  it('refuses an overlapping booking for the same page', async () => {
+    const base = {
+      pageId: 'p1',
+      requesterName: 'A',
+      requesterEmail: 'a@example.com',
+      reason: 'x',
+      startTime: '2030-01-07T10:00:00.000Z',
+      endTime: '2030-01-07T10:30:00.000Z',
+    };
+    expect(await store.bookingsStore.createIfAvailable(base)).not.toBeNull();
+    expect(
+      await store.bookingsStore.createIfAvailable({
+        ...base,
+        startTime: '2030-01-07T10:15:00.000Z',
+        endTime: '2030-01-07T10:45:00.000Z',
+      })
+    ).toBeNull();
+  });
+
+  it('allows adjacent bookings and bookings on other pages', async () => {
+    const base = {
+      pageId: 'p2',
+      requesterName: 'A',
+      requesterEmail: 'a@example.com',
+      reason: 'x',
+      startTime: '2030-01-07T10:00:00.000Z',
+      endTime: '2030-01-07T10:30:00.000Z',
+    };
+    expect(await store.bookingsStore.createIfAvailable(base)).not.toBeNull();
+    expect(
+      await store.bookingsStore.createIfAvailable({
+        ...base,
+        startTime: '2030-01-07T10:30:00.000Z',
+        endTime: '2030-01-07T11:00:00.000Z',
+      })
+    ).not.toBeNull();
+    expect(await store.bookingsStore.createIfAvailable({ ...base, pageId: 'p3' })).not.toBeNull();
+  });
+});
+
+describe('POST /api/pages/:slug/requests', () => {
+  it('rejects a slot held by another requester\'s pending request', async () => {
+    const slot = futureSlot(3, 10);
+    await request(app).post(`/api/pages/${SLUG}/requests`).send(requestBody(slot)).expect(202);
+
+    const res = await request(app)
+      .post(`/api/pages/${SLUG}/requests`)
+      .send(requestBody(slot, 'someone@example.com'));
+    expect(res.status).toBe(409);
+    expect(res.body.error).toMatch(/taken/);
+  });
+
+  it('lets the same requester resubmit their own held slot, replacing the hold', async () => {
+    const slot = futureSlot(4, 10);
+    await request(app).post(`/api/pages/${SLUG}/requests`).send(requestBody(slot)).expect(202);
+    await request(app)
+      .post(`/api/pages/${SLUG}/requests`)
+      .send(requestBody(slot, 'ADA@example.com'))
+      .expect(202);
+
+    const holds = await store.pendingRequestsStore.listOverlapping(
+      SLUG,
+      new Date(slot.startIso),
+      new Date(slot.endIso)
+    );
+    expect(holds).toHaveLength(1);
+  });
+
+  it('does not let one requester hold overlapping slots', async () => {
+    const slot = futureSlot(4, 12);
+    await request(app).post(`/api/pages/${SLUG}/requests`).send(requestBody(slot)).expect(202);
+
+    const overlapping = {
+      startIso: new Date(new Date(slot.startIso).getTime() + 15 * 60 * 1000).toISOString(),
+      endIso: new Date(new Date(slot.endIso).getTime() + 15 * 60 * 1000).toISOString(),
+    };
+    const res = await request(app)
+      .post(`/api/pages/${SLUG}/requests`)
+      .send(requestBody(overlapping, 'Ada@Example.com'));
+    expect(res.status).toBe(409);
+  });
+
+  it('rejects a slot outside the page\'s working hours', async () => {
+    const res = await request(app).post(`/api/pages/${SLUG}/requests`).send(requestBody(futureSlot(7, 18)));
+    expect(res.status).toBe(409);
+    expect(res.body.error).toMatch(/not available/);
+  });
+
+  it('rejects a slot within the buffer after a calendar event', async () => {
+    const event = futureSlot(9, 11, 60);
+    mockFetchCalendars.mockResolvedValue({
+      busySlots: [{ start: event.startIso, end: event.endIso }],
+      stale: false,
+    });
+
+    const res = await request(app)
+      .post(`/api/pages/${CAPPED_SLUG}/requests`)
+      .send(requestBody(futureSlot(9, 12)));
+    expect(res.status).toBe(409);
+    expect(res.body.error).toMatch(/not available/);
+
+    await request(app).post(`/api/pages/${CAPPED_SLUG}/requests`).send(requestBody(futureSlot(9, 13))).expect(202);
+  });
+
+  it('rejects an invalid time range', async () => {
+    const slot = futureSlot(5, 10);
+    const res = await request(app)
+      .post(`/api/pages/${SLUG}/requests`)
+      .send(requestBody({ startIso: slot.endIso, endIso: slot.startIso }));
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects an unknown timezone', async () => {
+    const res = await request(app)
+      .post(`/api/pages/${SLUG}/requests`)
+      .send({ ...requestBody(futureSlot(5, 11)), timezone: 'Mars/Olympus' });
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Invalid timezone.');
+  });
+});
+
+describe('GET /api/pages/:slug/requests/:token/confirm', () => {
+  it('confirms the first request and refuses a second for the same slot', async () => {
+    const slot = futureSlot(6, 14);
+    const first = await store.pendingRequestsStore.create({
+      slug: SLUG, requesterName: 'A', requesterEmail: 'a@example.com', reason: 'first request', ...slot,
+    });
+    const second = await store.pendingRequestsStore.create({
+      slug: SLUG, requesterName: 'B', requesterEmail: 'b@example.com', reason: 'second request', ...slot,
+    });
+
+    const ok = await request(app).get(`/api/pages/${SLUG}/requests/${first.token}/confirm`);
+    expect(ok.status).toBe(200);
+    expect(ok.text).toMatch(/has been sent/);
+
+    const clash = await request(app).get(`/api/pages/${SLUG}/requests/${second.token}/confirm`);
+    expect(clash.status).toBe(409);
+    expect(clash.text).toMatch(/just been taken/);
+  });
+});
+
+describe('GET /api/pages/:slug/slots', () => {
+  it('does not offer booked or held slots', async () => {
+    const slot = futureSlot(8, 11);
+    await store.pendingRequestsStore.create({
+      slug: SLUG, requesterName: 'A', requesterEmail: 'a@example.com', reason: 'holding a slot', ...slot,
+    });
+
+    const date = slot.startIso.slice(0, 10);
+    const res = await request(app)
+      .get(`/api/pages/${SLUG}/slots`)
+      .query({ from: date, to: date, tz: 'UTC' })
+      .expect(200);
+
+    const starts = res.body.days.flatMap((d: any) => d.slots.map((s: any) => s.start));
+    expect(starts).toContain(`${date}T10:30:00.000Z`);
+    expect(starts).not.toContain(slot.startIso);
+    expect(starts).toContain(`${date}T11:30:00.000Z`);
+  });
+
+  it('never includes raw busy intervals in the response', async () => {
+    mockFetchCalendars.mockResolvedValue({
+      busySlots: [{ start: '2030-01-01T00:00:00.000Z', end: '2030-01-01T01:00:00.000Z' }],
+      stale: false,
+    });
+    const res = await request(app).get(`/api/pages/${SLUG}/slots`).expect(200);
+    expect(res.body).not.toHaveProperty('busySlots');
+    expect(JSON.stringify(res.body)).not.toContain('2030-01-01T00:00');
+  });
+
+  it('rejects an unknown timezone', async () => {
+    await request(app).get(`/api/pages/${SLUG}/slots`).query({ tz: 'Mars/Olympus' }).expect(400);
+  });
+});
+
+describe('buffers and booking caps', () => {
+  it('rejects a slot within the buffer of a held one', async () => {
+    const slot = futureSlot(10, 10);
+    await request(app).post(`/api/pages/${CAPPED_SLUG}/requests`).send(requestBody(slot)).expect(202);
+
+    const res = await request(app)
+      .post(`/api/pages/${CAPPED_SLUG}/requests`)
+      .send(requestBody(futureSlot(10, 9), 'someone@example.com'));
+    expect(res.status).toBe(409);
+    expect(res.body.error).toMatch(/taken/);
+  });
+
+  it('rejects and stops offering a day that has reached its cap', async () => {
+    const slot = futureSlot(14, 10);
+    await request(app).post(`/api/pages/${CAPPED_SLUG}/requests`).send(requestBody(slot)).expect(202);
+
+    const res = await request(app)
+      .post(`/api/pages/${CAPPED_SLUG}/requests`)
+      .send(requestBody(futureSlot(14, 15), 'someone@example.com'));
+    expect(res.status).toBe(409);
+    expect(res.body.error).toMatch(/no more meetings/);
+
+    const date = slot.startIso.slice(0, 10);
+    const slots = await request(app)
+      .get(`/api/pages/${CAPPED_SLUG}/slots`)
+      .query({ from: date, to: date, tz: 'UTC' })
+      .expect(200);
+    expect(slots.body.days).toEqual([]);
+  });
+});
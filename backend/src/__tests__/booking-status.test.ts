@@ -0,0 +1,159 @@
+import express from 'express';
+import request from 'supertest';
+import { canTransition, isBookingStatus } from '../services/bookingStatus';
+import { createDashboardRouter } from '../routes/dashboard';
+import * as email from '../services/email';
+import * as reminders from '../services/reminders';
+import * as webhooks from '../services/webhooks';
+
+jest.mock('../services/email');
+jest.mock('../services/reminders');
+jest.mock('../services/webhooks');
+jest.mock('../auth', () => ({
+  ...jest.requireActual('../auth/middleware'),
+  requireAuth: () => (req: any, _res: any, next: any) => {
+    req.session = { userId: 'user-1', emojiId: '🐶🍕🚀', tier: 'free' };
+    next();
+  },
+}));
+
+const mockSendStatusEmail = email.sendBookingStatusEmail as jest.MockedFunction<
+  typeof email.sendBookingStatusEmail
+>;
+
+const mockScheduleReminders = reminders.scheduleBookingReminders as jest.MockedFunction<
+  typeof reminders.scheduleBookingReminders
+>;
+
+const mockEmitEvent = webhooks.emitBookingEvent as jest.MockedFunction<
+  typeof webhooks.emitBookingEvent
+>;
+
+const BOOKING_ROW = {
+  status: 'requested',
+  requester_name: 'Ada Lovelace',
+  requester_email: 'ada@example.com',
+  start_time: new Date('2030-01-07T10:00:00Z'),
+  end_time: new Date('2030-01-07T10:30:00Z'),
+  timezone: 'Europe/London',
+  owner_name: 'Grace Hopper',
+};
+
+function makeApp(pool: any) {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/dashboard', createDashboardRouter(pool));
+  return app;
+}
+
+describe('booking status transitions', () => {
+  it('lets a requested booking be accepted, declined or cancelled', () => {
+    expect(canTransition('requested', 'accepted')).toBe(true);
+    expect(canTransition('requested', 'declined')).toBe(true);
+    expect(canTransition('requested', 'cancelled')).toBe(true);
+  });
+
+  it('only lets an accepted booking be cancelled', () => {
+    expect(canTransition('accepted', 'cancelled')).toBe(true);
+    expect(canTransition('accepted', 'declined')).toBe(false);
+    expect(canTransition('accepted', 'requested')).toBe(false);
+  });
+
+  it('treats declined and cancelled as terminal', () => {
+    expect(canTransition('declined', 'accepted')).toBe(false);
+    expect(canTransition('cancelled', 'accepted')).toBe(false);
+  });
+
+  it('recognises only known statuses', () => {
+    expect(isBookingStatus('accepted')).toBe(true);
+    expect(isBookingStatus('confirmed')).toBe(false);
+    expect(isBookingStatus(undefined)).toBe(false);
+  });
+});
+
+describe('PATCH /api/dashboard/pages/:id/requests/:requestId', () => {
+  beforeEach(() => {
+    mockSendStatusEmail.mockReset();
+    mockSendStatusEmail.mockResolvedValue(undefined);
+  });
+
+  it('accepts a request and emails the requester with the message', async () => {
+    const pool = {
+      query: jest.fn()
+        .mockResolvedValueOnce({ rows: [BOOKING_ROW] })
+        .mockResolvedValueOnce({ rows: [{ revision: 1 }], rowCount: 1 }),
+    };
+
+    const res = await request(makeApp(pool))
+      .patch('/api/dashboard/pages/page-1/requests/booking-1')
+      .send({ status: 'accepted', message: '  See you then  ' })
+      .expect(200);
+
+    expect(res.body).toEqual({ ok: true, status: 'accepted', emailSent: true });
+    expect(pool.query.mock.calls[1][1]).toEqual(['accepted', 'See you then', 'booking-1', 'requested']);
+    expect(mockSendStatusEmail).toHaveBeenCalledWith(expect.objectContaining({
+      requesterEmail: 'ada@example.com',
+      ownerName: 'Grace Hopper',
+      status: 'accepted',
+      sequence: 1,
+      message: 'See you then',
+      startIso: '2030-01-07T10:00:00.000Z',
+    }));
+    expect(mockScheduleReminders).toHaveBeenCalledWith(pool, 'booking-1', expect.any(String));
+    expect(mockEmitEvent).toHaveBeenCalledWith(pool, 'request.confirmed', 'booking-1');
+  });
+
+  it('returns 404 when the request is not on one of the user\'s pages', async () => {
+    const pool = { query: jest.fn().mockResolvedValueOnce({ rows: [] }) };
+
+    await request(makeApp(pool))
+      .patch('/api/dashboard/pages/page-1/requests/booking-1')
+      .send({ status: 'declined' })
+      .expect(404);
+
+    expect(pool.query).toHaveBeenCalledTimes(1);
+    expect(mockSendStatusEmail).not.toHaveBeenCalled();
+  });
+
+  it('rejects a transition out of a terminal status', async () => {
+    const pool = {
+      query: jest.fn().mockResolvedValueOnce({ rows: [{ ...BOOKING_ROW, status: 'declined' }] }),
+    };
+
+    const res = await request(makeApp(pool))
+      .patch('/api/dashboard/pages/page-1/requests/booking-1')
+      .send({ status: 'accepted' })
+      .expect(409);
+
+    expect(res.body.error).toMatch(/declined/);
+    expect(mockSendStatusEmail).not.toHaveBeenCalled();
+  });
+
+  it('rejects an unknown status', async () => {
+    const pool = { query: jest.fn() };
+
+    await request(makeApp(pool))
+      .patch('/api/dashboard/pages/page-1/requests/booking-1')
+      .send({ status: 'requested' })
+      .expect(400);
+
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+
+  it('keeps the new status but reports when the email could not be sent', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockSendStatusEmail.mockRejectedValue(new Error('Mailgun down'));
+    const pool = {
+      query: jest.fn()
+        .mockResolvedValueOnce({ rows: [BOOKING_ROW] })
+        .mockResolvedValueOnce({ rows: [{ revision: 1 }], rowCount: 1 }),
+    };
+
+    const res = await request(makeApp(pool))
+      .patch('/api/dashboard/pages/page-1/requests/booking-1')
+      .send({ status: 'declined' })
+      .expect(200);
+
+    expect(res.body).toEqual({ ok: true, status: 'declined', emailSent: false });
+  });
+});
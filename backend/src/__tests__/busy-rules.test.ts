@@ -0,0 +1,199 @@
+import axios from 'axios';
+import { calendarCacheKey, fetchAndParseCalendar } from '../services/calendar';
+import type { BusyFilter } from '../services/calendar';
+import { BusyRules, DEFAULT_BUSY_RULES, parseSummaryPatterns, summaryMatcher } from '../services/busyRules';
+
+jest.mock('axios');
+
+const mockGet = axios.get as jest.MockedFunction<typeof axios.get>;
+
+const FEED_URL = 'https://calendar.example.com/feed.ics';
+const OWNER = 'owner@example.com';
+
+function feed(...events: string[][]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flat(), 'END:VCALENDAR'].join('\r\n');
+}
+
+/** A one-hour event on Monday 7 January 2030 at the given UTC hour. */
+function event(uid: string, hour: number, ...lines: string[]): string[] {
+  const hh = String(hour).padStart(2, '0');
+  const end = String(hour + 1).padStart(2, '0');
+  return [
+    'BEGIN:VEVENT',
+    `UID:${uid}@example.com`,
+    `DTSTART:20300107T${hh}0000Z`,
+    `DTEND:20300107T${end}0000Z`,
+    ...lines,
+    'END:VEVENT',
+  ];
+}
+
+const data = feed(
+  event('plain', 8, 'SUMMARY:Standup'),
+  [
+    'BEGIN:VEVENT',
+    'UID:holiday@example.com',
+    'DTSTART;VALUE=DATE:20300107',
+    'DTEND;VALUE=DATE:20300108',
+    'SUMMARY:Bank holiday',
+    'END:VEVENT',
+  ],
+  event('tentative', 9, 'SUMMARY:Maybe lunch', 'STATUS:TENTATIVE'),
+  event('outlook-tentative', 10, 'SUMMARY:Vendor call', 'X-MICROSOFT-CDO-BUSYSTATUS:TENTATIVE'),
+  event(
+    'declined', 11,
+    'SUMMARY:All hands',
+    'ORGANIZER:mailto:boss@example.com',
+    `ATTENDEE;CN=Owner;PARTSTAT=DECLINED:mailto:${OWNER.toUpperCase()}`,
+    'ATTENDEE;PARTSTAT=ACCEPTED:mailto:someone@example.com',
+  ),
+  event(
+    'maybe', 12,
+    'SUMMARY:Offsite planning',
+    `ATTENDEE;PARTSTAT=TENTATIVE:mailto:${OWNER}`,
+  ),
+  event('focus', 13, 'SUMMARY:Focus time (auto)'),
+);
+
+async function busyHours(filter?: BusyFilter): Promise<string[]> {
+  mockGet.mockResolvedValueOnce({ status: 200, data, headers: {} } as any);
+  const slots = await fetchAndParseCalendar(
+    FEED_URL,
+    new Date('2030-01-06T00:00:00Z'),
+    new Date('2030-01-09T00:00:00Z'),
+    filter
+  );
+  // Identify events by start hour; the all-day event starts at local midnight
+  return slots.map((s) => s.start === new Date(2030, 0, 7).toISOString() ? 'holiday' : s.start.slice(11, 13));
+}
+
+function rules(overrides: Partial<BusyRules>): BusyRules {
+  return { ...DEFAULT_BUSY_RULES, ...overrides };
+}
+
+beforeEach(() => {
+  mockGet.mockReset();
+});
+
+describe('busy rules while parsing', () => {
+  it('blocks every event by default', async () => {
+    const all = await busyHours();
+    expect(all.sort()).toEqual(['08', '09', '10', '11', '12', '13', 'holiday']);
+    expect((await busyHours({ rules: DEFAULT_BUSY_RULES, ownerEmail: OWNER })).sort()).toEqual(all.sort());
+  });
+
+  it('lets all-day events through when they do not block', async () => {
+    expect(await busyHours({ rules: rules({ allDayBusy: false }) })).not.toContain('holiday');
+  });
+
+  it('treats tentative events and the owner\'s tentative replies as free', async () => {
+    const hours = await busyHours({ rules: rules({ tentativeBusy: false }), ownerEmail: OWNER });
+    expect(hours.sort()).toEqual(['08', '11', '13', 'holiday']);
+  });
+
+  it('ignores invitations the owner declined, matching their address case-insensitively', async () => {
+    expect(await busyHours({ rules: rules({ ignoreDeclined: true }), ownerEmail: OWNER })).not.toContain('11');
+    // Without the owner's address there is nothing to match
+    expect(await busyHours({ rules: rules({ ignoreDeclined: true }) })).toContain('11');
+  });
+
+  it('ignores events whose summary matches a pattern', async () => {
+    const hours = await busyHours({ rules: rules({ ignoreSummaries: ['focus*', 'HOLIDAY'] }) });
+    expect(hours.sort()).toEqual(['08', '09', '10', '11', '12']);
+  });
+
+  it('applies the rules to moved instances of a series', async () => {
+    mockGet.mockResolvedValueOnce({
+      status: 200,
+      headers: {},
+      data: feed(
+        [
+          'BEGIN:VEVENT',
+          'UID:series@example.com',
+          'DTSTART:20300107T090000Z',
+          'DTEND:20300107T100000Z',
+          'RRULE:FREQ=DAILY;COUNT=3',
+          'SUMMARY:Review',
+          'END:VEVENT',
+        ],
+        [
+          'BEGIN:VEVENT',
+          'UID:series@example.com',
+          'RECURRENCE-ID:20300108T090000Z',
+          'DTSTART:20300108T140000Z',
+          'DTEND:20300108T150000Z',
+          'SUMMARY:Review (optional)',
+          'END:VEVENT',
+        ],
+      ),
+    } as any);
+
+    const slots = await fetchAndParseCalendar(
+      FEED_URL,
+      new Date('2030-01-07T00:00:00Z'),
+      new Date('2030-01-10T00:00:00Z'),
+      { rules: rules({ ignoreSummaries: ['*optional*'] }) }
+    );
+
+    expect(slots.map((s) => s.start)).toEqual(['2030-01-07T09:00:00.000Z', '2030-01-09T09:00:00.000Z']);
+  });
+});
+
+describe('parseSummaryPatterns', () => {
+  it('trims, drops blanks and removes duplicates', () => {
+    expect(parseSummaryPatterns(['  Focus* ', '', 'Focus*', 'Lunch'])).toEqual({ patterns: ['Focus*', 'Lunch'] });
+  });
+
+  it('rejects anything that is not a list of strings', () => {
+    expect(parseSummaryPatterns('Focus')).toHaveProperty('error');
+    expect(parseSummaryPatterns(['Focus', 3])).toHaveProperty('error');
+  });
+
+  it('rejects patterns that are too many, too long or match everything', () => {
+    expect(parseSummaryPatterns(Array.from({ length: 11 }, (_, i) => `p${i}`))).toHaveProperty('error');
+    expect(parseSummaryPatterns(['x'.repeat(101)])).toHaveProperty('error');
+    expect(parseSummaryPatterns(['**'])).toHaveProperty('error');
+  });
+});
+
+describe('summaryMatcher', () => {
+  it('treats the rest of the pattern literally', () => {
+    const matches = summaryMatcher(['1:1 (weekly)', 'a.b']);
+    expect(matches('My 1:1 (Weekly) sync')).toBe(true);
+    expect(matches('axb')).toBe(false);
+  });
+
+  it('matches wildcards in order', () => {
+    const matches = summaryMatcher(['focus*block']);
+    expect(matches('Deep FOCUS time block')).toBe(true);
+    expect(matches('Block for focus')).toBe(false);
+  });
+
+  it('stays fast with many wildcards on a long summary', () => {
+    const matches = summaryMatcher(['a*a*a*a*a*a*a*a*a*a*a*a*a*a*a*a*b']);
+    const started = Date.now();
+    expect(matches('a'.repeat(10_000))).toBe(false);
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+});
+
+describe('calendarCacheKey', () => {
+  it('keeps the plain URL key for default rules', () => {
+    expect(calendarCacheKey(FEED_URL, { rules: DEFAULT_BUSY_RULES, ownerEmail: OWNER })).toBe(calendarCacheKey(FEED_URL));
+  });
+
+  it('separates entries by rules, and by owner only when the rules use it', () => {
+    const allDay = calendarCacheKey(FEED_URL, { rules: rules({ allDayBusy: false }) });
+    expect(allDay).not.toBe(calendarCacheKey(FEED_URL));
+    expect(calendarCacheKey(FEED_URL, { rules: rules({ allDayBusy: false }), ownerEmail: OWNER })).toBe(allDay);
+
+    const declined = rules({ ignoreDeclined: true });
+    expect(calendarCacheKey(FEED_URL, { rules: declined, ownerEmail: OWNER }))
+      .not.toBe(calendarCacheKey(FEED_URL, { rules: declined, ownerEmail: 'other@example.com' }));
+  });
+
+  it('does not depend on pattern order', () => {
+    expect(calendarCacheKey(FEED_URL, { rules: rules({ ignoreSummaries: ['a', 'b'] }) }))
+      .toBe(calendarCacheKey(FEED_URL, { rules: rules({ ignoreSummaries: ['b', 'a'] }) }));
+  });
+});
@@ -0,0 +1,289 @@
+import axios from 'axios';
+import * as store from '../store';
+import {
+  calendarCacheKey,
+  fetchAndParseCalendarCached,
+  fetchAndParseMultipleCalendars,
+  getCalendarCacheMetrics,
+  getCalendarFeedHealth,
+} from '../services/calendar';
+
+jest.mock('axios');
+
+const mockGet = axios.get as jest.MockedFunction<typeof axios.get>;
+
+const NOW = new Date('2030-01-01T00:00:00Z').getTime();
+const TTL_MS = 300 * 1000;
+const FROM = new Date('2030-01-01T00:00:00Z');
+const TO = new Date('2030-02-01T00:00:00Z');
+
+function feed(...events: [string, string][]): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    ...events.flatMap(([start, end], i) => [
+      'BEGIN:VEVENT',
+      `UID:event-${i}@example.com`,
+      `DTSTART:${start}`,
+      `DTEND:${end}`,
+      'SUMMARY:Busy',
+      'END:VEVENT',
+    ]),
+    'END:VCALENDAR',
+  ].join('\r\n');
+}
+
+function ok(data: string, headers: Record<string, string> = {}) {
+  return { status: 200, data, headers } as any;
+}
+
+const notModified = { status: 304, data: '', headers: {} } as any;
+
+let url: string;
+let counter = 0;
+let now: number;
+
+beforeAll(() => {
+  jest.useFakeTimers({ doNotFake: ['Date', 'nextTick', 'setImmediate', 'queueMicrotask'] });
+  store.initStores();
+  jest.useRealTimers();
+});
+
+beforeEach(() => {
+  // A fresh URL per test keeps cache entries from leaking between tests
+  url = `https://calendar.example.com/${++counter}/basic.ics`;
+  now = NOW;
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+  mockGet.mockReset();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('fetchAndParseCalendarCached', () => {
+  it('serves a fresh feed from the cache without downloading it again', async () => {
+    mockGet.mockResolvedValueOnce(ok(feed(['20300107T100000Z', '20300107T110000Z'])));
+    const before = getCalendarCacheMetrics();
+
+    const first = await fetchAndParseCalendarCached(url, FROM, TO);
+    now += TTL_MS - 1000;
+    const second = await fetchAndParseCalendarCached(url, FROM, TO);
+
+    expect(mockGet).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(first);
+    expect(first).toEqual({
+      busySlots: [{ start: '2030-01-07T10:00:00.000Z', end: '2030-01-07T11:00:00.000Z' }],
+      stale: false,
+    });
+
+    const after = getCalendarCacheMetrics();
+    expect(after.misses - before.misses).toBe(1);
+    expect(after.hits - before.hits).toBe(1);
+  });
+
+  it('revalidates an expired feed with ETag and Last-Modified and keeps it on 304', async () => {
+    mockGet
+      .mockResolvedValueOnce(ok(feed(['20300107T100000Z', '20300107T110000Z']), {
+        etag: '"v1"',
+        'last-modified': 'Mon, 31 Dec 2029 12:00:00 GMT',
+      }))
+      .mockResolvedValueOnce(notModified);
+    const before = getCalendarCacheMetrics();
+
+    await fetchAndParseCalendarCached(url, FROM, TO);
+    now += TTL_MS + 1000;
+    const { busySlots } = await fetchAndParseCalendarCached(url, FROM, TO);
+
+    const headers = (mockGet.mock.calls[1][1] as any).headers;
+    expect(headers['If-None-Match']).toBe('"v1"');
+    expect(headers['If-Modified-Since']).toBe('Mon, 31 Dec 2029 12:00:00 GMT');
+    expect(busySlots).toHaveLength(1);
+    expect(getCalendarCacheMetrics().revalidations - before.revalidations).toBe(1);
+
+    // The 304 renewed the TTL
+    now += TTL_MS - 1000;
+    await fetchAndParseCalendarCached(url, FROM, TO);
+    expect(mockGet).toHaveBeenCalledTimes(2);
+  });
+
+  it('replaces the cached slots when the feed has changed', async () => {
+    mockGet
+      .mockResolvedValueOnce(ok(feed(['20300107T100000Z', '20300107T110000Z']), { etag: '"v1"' }))
+      .mockResolvedValueOnce(ok(feed(['20300108T100000Z', '20300108T110000Z']), { etag: '"v2"' }));
+
+    await fetchAndParseCalendarCached(url, FROM, TO);
+    now += TTL_MS + 1000;
+    const { busySlots } = await fetchAndParseCalendarCached(url, FROM, TO);
+
+    expect(busySlots).toEqual([{ start: '2030-01-08T10:00:00.000Z', end: '2030-01-08T11:00:00.000Z' }]);
+    expect((await store.calendarFeedCacheStore.get(calendarCacheKey(url)))?.etag).toBe('"v2"');
+  });
+
+  it('honours a longer provider max-age', async () => {
+    mockGet.mockResolvedValueOnce(ok(feed(), { 'cache-control': 'private, max-age=900' }));
+
+    await fetchAndParseCalendarCached(url, FROM, TO);
+    now += 600 * 1000;
+    await fetchAndParseCalendarCached(url, FROM, TO);
+
+    expect(mockGet).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns only the slots inside the requested range', async () => {
+    mockGet.mockResolvedValueOnce(ok(feed(
+      ['20300107T100000Z', '20300107T110000Z'],
+      ['20300301T100000Z', '20300301T110000Z'],
+    )));
+
+    const january = await fetchAndParseCalendarCached(url, FROM, TO);
+    const march = await fetchAndParseCalendarCached(
+      url,
+      new Date('2030-03-01T00:00:00Z'),
+      new Date('2030-03-02T00:00:00Z')
+    );
+
+    expect(mockGet).toHaveBeenCalledTimes(1);
+    expect(january.busySlots.map((s) => s.start)).toEqual(['2030-01-07T10:00:00.000Z']);
+    expect(march.busySlots.map((s) => s.start)).toEqual(['2030-03-01T10:00:00.000Z']);
+  });
+
+  it('shares one download between concurrent requests for the same feed', async () => {
+    mockGet.mockResolvedValueOnce(ok(feed(['20300107T100000Z', '20300107T110000Z'])));
+
+    const results = await Promise.all([
+      fetchAndParseCalendarCached(url, FROM, TO),
+      fetchAndParseCalendarCached(url, FROM, TO),
+      fetchAndParseCalendarCached(url, FROM, TO),
+    ]);
+
+    expect(mockGet).toHaveBeenCalledTimes(1);
+    expect(results.every((r) => r.busySlots.length === 1)).toBe(true);
+  });
+
+  it('keys entries by a hash so the feed URL is never stored', async () => {
+    mockGet.mockResolvedValueOnce(ok(feed()));
+    await fetchAndParseCalendarCached(url, FROM, TO);
+
+    const entry = await store.calendarFeedCacheStore.get(calendarCacheKey(url));
+    expect(entry?.key).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.stringify(entry)).not.toContain('calendar.example.com');
+  });
+
+  it('still answers when the cache store fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(store.calendarFeedCacheStore, 'get').mockRejectedValue(new Error('db down'));
+    jest.spyOn(store.calendarFeedCacheStore, 'set').mockRejectedValue(new Error('db down'));
+    mockGet.mockResolvedValueOnce(ok(feed(['20300107T100000Z', '20300107T110000Z'])));
+    const before = getCalendarCacheMetrics();
+
+    const { busySlots } = await fetchAndParseCalendarCached(url, FROM, TO);
+
+    expect(busySlots).toHaveLength(1);
+    expect(getCalendarCacheMetrics().errors - before.errors).toBe(2);
+  });
+
+  it('propagates a download failure when there is no good copy to fall back on', async () => {
+    mockGet.mockRejectedValueOnce(new Error('timeout'));
+    const before = getCalendarCacheMetrics();
+
+    await expect(fetchAndParseCalendarCached(url, FROM, TO)).rejects.toThrow('timeout');
+    expect(getCalendarCacheMetrics().errors - before.errors).toBe(1);
+  });
+});
+
+describe('failing feeds', () => {
+  it('serves the last good copy, marked stale, while a feed is failing', async () => {
+    mockGet
+      .mockResolvedValueOnce(ok(feed(['20300107T100000Z', '20300107T110000Z'])))
+      .mockRejectedValueOnce(new Error('timeout of 5000ms exceeded'));
+
+    await fetchAndParseCalendarCached(url, FROM, TO);
+    now += TTL_MS + 1000;
+    const result = await fetchAndParseCalendarCached(url, FROM, TO);
+
+    expect(result).toEqual({
+      busySlots: [{ start: '2030-01-07T10:00:00.000Z', end: '2030-01-07T11:00:00.000Z' }],
+      stale: true,
+    });
+  });
+
+  it('backs off between retries and recovers once the feed answers again', async () => {
+    mockGet
+      .mockResolvedValueOnce(ok(feed(['20300107T100000Z', '20300107T110000Z'])))
+      .mockRejectedValueOnce(new Error('timeout of 5000ms exceeded'))
+      .mockResolvedValueOnce(ok(feed()));
+
+    await fetchAndParseCalendarCached(url, FROM, TO);
+    now += TTL_MS + 1000;
+    await fetchAndParseCalendarCached(url, FROM, TO);
+
+    // Within the retry interval the stale copy is served without a request
+    now += 30 * 1000;
+    expect((await fetchAndParseCalendarCached(url, FROM, TO)).stale).toBe(true);
+    expect(mockGet).toHaveBeenCalledTimes(2);
+
+    now += 60 * 1000;
+    expect(await fetchAndParseCalendarCached(url, FROM, TO)).toEqual({ busySlots: [], stale: false });
+    expect(mockGet).toHaveBeenCalledTimes(3);
+  });
+
+  it('keeps other feeds\' data when one feed fails', async () => {
+    const healthy = `${url}-healthy`;
+    mockGet.mockImplementation(async (requested: any) => {
+      if (requested === healthy) return ok(feed(['20300108T100000Z', '20300108T110000Z']));
+      throw new Error('timeout of 5000ms exceeded');
+    });
+
+    // Give the failing feed a good copy first
+    mockGet.mockResolvedValueOnce(ok(feed(['20300107T100000Z', '20300107T110000Z'])));
+    await fetchAndParseCalendarCached(url, FROM, TO);
+    now += TTL_MS + 1000;
+
+    const result = await fetchAndParseMultipleCalendars([url, healthy], FROM, TO);
+
+    expect(result.stale).toBe(true);
+    expect(result.busySlots.map((s) => s.start)).toEqual([
+      '2030-01-07T10:00:00.000Z',
+      '2030-01-08T10:00:00.000Z',
+    ]);
+  });
+
+  it('reports when each feed started failing', async () => {
+    const healthy = `${url}-healthy`;
+    const unseen = `${url}-unseen`;
+    mockGet
+      .mockResolvedValueOnce(ok(feed()))
+      .mockResolvedValueOnce(ok(feed()))
+      .mockRejectedValueOnce(new Error('Request failed with status code 404'))
+      .mockRejectedValueOnce(new Error('Request failed with status code 404'));
+
+    await fetchAndParseCalendarCached(url, FROM, TO);
+    await fetchAndParseCalendarCached(healthy, FROM, TO);
+    const failedAt = now + TTL_MS + 1000;
+    now = failedAt;
+    await fetchAndParseCalendarCached(url, FROM, TO);
+    // A later failure does not move the start of the outage
+    now += 2 * 60 * 1000;
+    await fetchAndParseCalendarCached(url, FROM, TO);
+
+    const [failing, ok_, unknown] = await getCalendarFeedHealth([url, healthy, unseen]);
+    expect(failing).toEqual({
+      status: 'failing',
+      failingSince: new Date(failedAt).toISOString(),
+      lastSuccessAt: new Date(NOW).toISOString(),
+      lastError: 'Request failed with status code 404',
+    });
+    expect(ok_.status).toBe('ok');
+    expect(unknown.status).toBe('unknown');
+  });
+
+  it('records a failing feed that has never been fetched successfully', async () => {
+    mockGet.mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND'));
+
+    await expect(fetchAndParseCalendarCached(url, FROM, TO)).rejects.toThrow('ENOTFOUND');
+    const [health] = await getCalendarFeedHealth([url]);
+    expect(health.status).toBe('failing');
+    expect(health.lastSuccessAt).toBeNull();
+  });
+});
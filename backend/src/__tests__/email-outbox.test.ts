@@ -0,0 +1,121 @@
+import {
+  sealEmail,
+  openEmail,
+  queueEmail,
+  listDeadLetters,
+  retryDeadLetter,
+  EMAIL_JOB,
+} from '../services/emailOutbox';
+import { sendBookingStatusEmail } from '../services/email';
+import { OutgoingEmail } from '../services/emailTransport';
+import * as db from '../db/client';
+import { poolReturning } from './helpers/pool';
+
+jest.mock('../db/client');
+
+const mockGetPool = db.getPool as jest.MockedFunction<typeof db.getPool>;
+
+const KEY = 'a'.repeat(64);
+
+const MESSAGE: OutgoingEmail = {
+  to: 'ada@example.com',
+  subject: 'Your appointment with Grace Hopper is confirmed',
+  text: 'See you on Monday.',
+  html: '<p>See you on Monday.</p>',
+  attachments: [
+    { filename: 'invite.ics', contentType: 'text/calendar; method=REQUEST', content: 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n' },
+    { filename: 'notes.bin', contentType: 'application/octet-stream', content: Buffer.from([0, 1, 254, 255]) },
+  ],
+};
+
+afterEach(() => {
+  delete process.env.EMAIL_ENCRYPTION_KEY;
+});
+
+describe('sealEmail / openEmail', () => {
+  it('round-trips a message, including binary attachments', () => {
+    const payload = JSON.parse(JSON.stringify(sealEmail(MESSAGE)));
+    expect(openEmail(payload)).toEqual(MESSAGE);
+  });
+
+  it('encrypts the message when a key is configured', () => {
+    process.env.EMAIL_ENCRYPTION_KEY = KEY;
+    const payload = JSON.parse(JSON.stringify(sealEmail(MESSAGE)));
+
+    expect(JSON.stringify(payload)).not.toContain('ada@example.com');
+    expect(openEmail(payload)).toEqual(MESSAGE);
+  });
+});
+
+describe('queueing', () => {
+  it('stores an email as a job instead of sending it when there is a database', async () => {
+    const pool = poolReturning([], 1);
+    mockGetPool.mockReturnValue(pool);
+
+    await sendBookingStatusEmail({
+      bookingId: 'booking-1',
+      sequence: 1,
+      requesterEmail: 'ada@example.com',
+      requesterName: 'Ada Lovelace',
+      ownerName: 'Grace Hopper',
+      status: 'declined',
+      startIso: '2030-01-07T10:00:00.000Z',
+      endIso: '2030-01-07T10:30:00.000Z',
+    });
+
+    expect(pool.query).toHaveBeenCalledTimes(1);
+    const [sql, [kind, payload]] = pool.query.mock.calls[0];
+    expect(sql).toMatch(/^INSERT INTO jobs/);
+    expect(kind).toBe(EMAIL_JOB);
+    expect(openEmail(JSON.parse(payload)).to).toBe('ada@example.com');
+  });
+
+  it('queues a job to run straight away', async () => {
+    const pool = poolReturning([], 1);
+    const before = Date.now();
+    await queueEmail(pool, MESSAGE);
+
+    const [, [, , runAt, dedupeKey]] = pool.query.mock.calls[0];
+    expect(new Date(runAt).getTime()).toBeGreaterThanOrEqual(before - 1000);
+    expect(dedupeKey).toBeNull();
+  });
+});
+
+describe('dead letters', () => {
+  it('lists failed emails with the recipient masked', async () => {
+    const failedAt = new Date('2030-01-07T10:00:00Z');
+    const pool = poolReturning([
+      { id: 'job-1', payload: sealEmail(MESSAGE), attempts: 5, last_error: 'SMTP 550', failed_at: failedAt },
+    ]);
+
+    expect(await listDeadLetters(pool)).toEqual([{
+      id: 'job-1',
+      to: 'a***@example.com',
+      subject: MESSAGE.subject,
+      attempts: 5,
+      lastError: 'SMTP 550',
+      failedAt: failedAt.toISOString(),
+    }]);
+  });
+
+  it('still lists an email it can no longer decrypt', async () => {
+    process.env.EMAIL_ENCRYPTION_KEY = KEY;
+    const payload = sealEmail(MESSAGE);
+    process.env.EMAIL_ENCRYPTION_KEY = 'b'.repeat(64);
+    const pool = poolReturning([
+      { id: 'job-1', payload, attempts: 5, last_error: null, failed_at: new Date() },
+    ]);
+
+    const [letter] = await listDeadLetters(pool);
+    expect(letter.to).toBe('***');
+    expect(letter.subject).toBe('(unreadable)');
+  });
+
+  it('puts a failed email back in the queue', async () => {
+    const pool = poolReturning([], 1);
+    expect(await retryDeadLetter(pool, 'job-1')).toBe(true);
+    expect(pool.query.mock.calls[0][0]).toMatch(/SET failed_at = NULL, attempts = 0/);
+
+    expect(await retryDeadLetter(poolReturning([], 0), 'job-2')).toBe(false);
+  });
+});
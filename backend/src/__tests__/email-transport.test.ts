@@ -0,0 +1,169 @@
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import {
+  createEmailTransport,
+  ConsoleTransport,
+  FileTransport,
+  MailgunTransport,
+  SmtpTransport,
+  OutgoingEmail,
+} from '../services/emailTransport';
+
+const MESSAGE: OutgoingEmail = {
+  to: 'ada@example.com',
+  subject: 'Your appointment with Grace Hopper is confirmed',
+  text: 'See you on Monday.',
+  html: '<p>See you on Monday.</p>',
+  attachments: [
+    { filename: 'invite.ics', contentType: 'text/calendar; method=REQUEST', content: 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n' },
+  ],
+};
+
+interface ReceivedMail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+/**
+ * Just enough of an SMTP server to accept one plaintext session and record
+ * what was delivered.
+ */
+function startSmtpStandIn(): Promise<{ port: number; received: ReceivedMail[]; close: () => Promise<void> }> {
+  const received: ReceivedMail[] = [];
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+    let current: ReceivedMail = { from: '', to: [], data: '' };
+
+    socket.write('220 stand-in ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8');
+
+      while (true) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          current.data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          received.push(current);
+          current = { from: '', to: [], data: '' };
+          socket.write('250 OK queued\r\n');
+          continue;
+        }
+
+        const lineEnd = buffer.indexOf('\r\n');
+        if (lineEnd === -1) return;
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        const verb = line.slice(0, 4).toUpperCase();
+
+        if (verb === 'EHLO' || verb === 'HELO') socket.write('250 stand-in\r\n');
+        else if (verb === 'MAIL') { current.from = line; socket.write('250 OK\r\n'); }
+        else if (verb === 'RCPT') { current.to.push(line); socket.write('250 OK\r\n'); }
+        else if (verb === 'DATA') { inData = true; socket.write('354 End data with <CR><LF>.<CR><LF>\r\n'); }
+        else if (verb === 'QUIT') { socket.end('221 Bye\r\n'); return; }
+        else socket.write('250 OK\r\n');
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      resolve({
+        port,
+        received,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+describe('createEmailTransport', () => {
+  it('defaults to the console transport when nothing is configured', () => {
+    expect(createEmailTransport({})).toBeInstanceOf(ConsoleTransport);
+  });
+
+  it('keeps using Mailgun for existing deployments that only set the Mailgun variables', () => {
+    const transport = createEmailTransport({
+      MAILGUN_API_KEY: 'key',
+      MAILGUN_DOMAIN: 'mg.example.com',
+      MAILGUN_FROM_EMAIL: 'noreply@example.com',
+    });
+    expect(transport).toBeInstanceOf(MailgunTransport);
+  });
+
+  it('selects SMTP and file transports by name', () => {
+    expect(
+      createEmailTransport({ EMAIL_TRANSPORT: 'smtp', SMTP_HOST: 'localhost', EMAIL_FROM: 'a@example.com' })
+    ).toBeInstanceOf(SmtpTransport);
+    expect(createEmailTransport({ EMAIL_TRANSPORT: 'FILE' })).toBeInstanceOf(FileTransport);
+  });
+
+  it('fails fast on an unknown or incomplete configuration', () => {
+    expect(() => createEmailTransport({ EMAIL_TRANSPORT: 'carrier-pigeon' })).toThrow(/Unknown EMAIL_TRANSPORT/);
+    expect(() => createEmailTransport({ EMAIL_TRANSPORT: 'smtp', EMAIL_FROM: 'a@example.com' })).toThrow(/SMTP_HOST/);
+    expect(() => createEmailTransport({ EMAIL_TRANSPORT: 'mailgun' })).toThrow(/MAILGUN_API_KEY/);
+  });
+});
+
+describe('SmtpTransport', () => {
+  it('delivers the message and its attachments to the SMTP server', async () => {
+    const smtp = await startSmtpStandIn();
+    try {
+      const transport = new SmtpTransport({
+        host: '127.0.0.1',
+        port: smtp.port,
+        secure: false,
+        from: 'CalAnywhere <noreply@example.com>',
+      });
+      await transport.send(MESSAGE);
+
+      expect(smtp.received).toHaveLength(1);
+      const [mail] = smtp.received;
+      expect(mail.from).toContain('<noreply@example.com>');
+      expect(mail.to).toEqual([expect.stringContaining('<ada@example.com>')]);
+      expect(mail.data).toContain(`Subject: ${MESSAGE.subject}`);
+      expect(mail.data).toMatch(/Content-Type: text\/calendar; method=REQUEST/i);
+      expect(mail.data).toContain('filename=invite.ics');
+    } finally {
+      await smtp.close();
+    }
+  });
+
+  it('reports a failure when the server cannot be reached', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const smtp = await startSmtpStandIn();
+    await smtp.close();
+
+    const transport = new SmtpTransport({ host: '127.0.0.1', port: smtp.port, secure: false, from: 'a@example.com' });
+    await expect(transport.send(MESSAGE)).rejects.toThrow(/Email send failed/);
+  });
+});
+
+describe('FileTransport', () => {
+  it('writes each message as an .eml file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'calanywhere-mail-'));
+    try {
+      const transport = new FileTransport(dir, 'noreply@example.com');
+      await transport.send(MESSAGE);
+      await transport.send({ ...MESSAGE, to: 'grace@example.com', attachments: [] });
+
+      const files = (await fs.readdir(dir)).sort();
+      expect(files).toHaveLength(2);
+      expect(files.every((f) => f.endsWith('.eml'))).toBe(true);
+
+      const first = await fs.readFile(path.join(dir, files[0]), 'utf8');
+      expect(first).toContain('To: ada@example.com');
+      expect(first).toContain(`Subject: ${MESSAGE.subject}`);
+      expect(first).toContain('filename=invite.ics');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
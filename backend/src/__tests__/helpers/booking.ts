@@ -0,0 +1,24 @@
+import * as store from '../../store';
+
+/**
+ * A slot `minutes` long at `hourUtc` on the first weekday at least
+ * `daysAhead` days from now: inside a page with weekday hours in UTC.
+ */
+export function futureSlot(daysAhead: number, hourUtc: number, minutes = 30) {
+  const d = new Date();
+  d.setUTCDate(d.getUTCDate() + daysAhead);
+  while (d.getUTCDay() === 0 || d.getUTCDay() === 6) d.setUTCDate(d.getUTCDate() + 1);
+  d.setUTCHours(hourUtc, 0, 0, 0);
+  return {
+    startIso: d.toISOString(),
+    endIso: new Date(d.getTime() + minutes * 60 * 1000).toISOString(),
+  };
+}
+
+/** Starts the in-memory stores for a test file. */
+export function initMemoryStores(): void {
+  // Purge timers are irrelevant in tests; keep them from holding the process open
+  jest.useFakeTimers({ doNotFake: ['Date', 'nextTick', 'setImmediate', 'queueMicrotask'] });
+  store.initStores();
+  jest.useRealTimers();
+}
@@ -0,0 +1,24 @@
+/** How a fake pool answers queries whose SQL starts with `pattern`. */
+export type QueryResponse = [pattern: RegExp, result: (params: any[]) => any];
+
+/**
+ * A pool whose query results are chosen by the start of the SQL, using the
+ * first matching response. Other queries return no rows.
+ */
+export function fakePool(responses: QueryResponse[] = []) {
+  const query = jest.fn(async (sql: string, params: any[] = []) => {
+    const match = responses.find(([re]) => re.test(sql.trim()));
+    return match ? match[1](params) : { rows: [], rowCount: 0 };
+  });
+  return { query } as any;
+}
+
+/** A pool that returns the same rows for every query. */
+export function poolReturning(rows: any[] = [], rowCount = rows.length) {
+  return fakePool([[/^/, () => ({ rows, rowCount })]]);
+}
+
+/** The calls to a fake pool whose SQL starts with `re`. */
+export function callsMatching(pool: any, re: RegExp): any[][] {
+  return pool.query.mock.calls.filter(([sql]: [string]) => re.test(sql.trim()));
+}
@@ -0,0 +1,193 @@
+import express from 'express';
+import request from 'supertest';
+import { pagesRouter } from '../routes/pages';
+import * as store from '../store';
+import * as calendar from '../services/calendar';
+import * as email from '../services/email';
+import { LANGUAGES, parseLanguage, translator } from '../i18n';
+import { en } from '../i18n/en';
+import { de } from '../i18n/de';
+import { fr } from '../i18n/fr';
+import { futureSlot, initMemoryStores } from './helpers/booking';
+
+jest.mock('../services/email');
+jest.mock('../services/calendar');
+jest.mock('../db/client');
+
+const mockFetchCalendars = calendar.fetchAndParseMultipleCalendars as jest.MockedFunction<
+  typeof calendar.fetchAndParseMultipleCalendars
+>;
+const mockVerificationEmail = email.sendVerificationEmail as jest.MockedFunction<
+  typeof email.sendVerificationEmail
+>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/pages', pagesRouter);
+
+const SLUG = 'languagetestpage';
+const GERMAN_SLUG = 'germanlanguagetestpage';
+
+function page(slug: string) {
+  return {
+    slug,
+    calendarUrls: ['https://calendar.example.com/feed.ics'],
+    ownerName: 'Grace Hopper',
+    defaultDurationMinutes: 30,
+    bufferMinutes: 0,
+    dateRangeDays: 30,
+    minNoticeHours: 0,
+    includeWeekends: false,
+    availabilityStart: '09:00',
+    availabilityEnd: '17:00',
+    ownerTimezone: 'UTC',
+    createdAt: Date.now(),
+    expiresAt: null,
+  };
+}
+
+beforeAll(async () => {
+  initMemoryStores();
+
+  await store.pagesStore.create(page(SLUG));
+  await store.pagesStore.create({ ...page(GERMAN_SLUG), language: 'de' });
+});
+
+beforeEach(() => {
+  mockFetchCalendars.mockResolvedValue({ busySlots: [], stale: false });
+});
+
+describe('catalogues', () => {
+  it('translate every English message', () => {
+    const keys = Object.keys(en).sort();
+    for (const catalogue of [de, fr]) {
+      expect(Object.keys(catalogue).sort()).toEqual(keys);
+    }
+  });
+
+  it('keep the placeholders of the English message', () => {
+    const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort();
+    for (const key of Object.keys(en) as (keyof typeof en)[]) {
+      expect([key, placeholders(de[key])]).toEqual([key, placeholders(en[key])]);
+      expect([key, placeholders(fr[key])]).toEqual([key, placeholders(en[key])]);
+    }
+  });
+});
+
+describe('translator', () => {
+  it('fills in placeholders', () => {
+    const { t } = translator('de');
+    expect(t('email.greeting', { name: 'Ada' })).toBe('Hallo Ada,');
+    expect(translator().t('email.greeting', { name: 'Ada' })).toBe('Hi Ada,');
+  });
+
+  it('escapes the message but not the params for HTML', () => {
+    const { tHtml } = translator('en');
+    expect(tHtml('email.invite.lead', { requester: '<b>Ada</b>' })).toBe(
+      'You accepted <b>Ada</b>&#39;s request. Open the attachment to add it to your calendar.'
+    );
+  });
+});
+
+describe('parseLanguage', () => {
+  it('accepts the supported languages and nothing', () => {
+    for (const language of LANGUAGES) {
+      expect(parseLanguage(language)).toEqual({ language });
+    }
+    expect(parseLanguage(null)).toEqual({ language: null });
+    expect(parseLanguage(undefined)).toEqual({ language: null });
+  });
+
+  it('rejects anything else', () => {
+    expect(parseLanguage('es')).toHaveProperty('error');
+    expect(parseLanguage('DE')).toHaveProperty('error');
+  });
+});
+
+describe('GET /api/pages/:slug', () => {
+  it('answers in the best language for the browser', async () => {
+    const res = await request(app)
+      .get(`/api/pages/${SLUG}`)
+      .set('Accept-Language', 'es-ES, fr-CA;q=0.8, en;q=0.5')
+      .expect(200);
+    expect(res.body.language).toBe('fr');
+  });
+
+  it('falls back to English', async () => {
+    const res = await request(app)
+      .get(`/api/pages/${SLUG}`)
+      .set('Accept-Language', 'pt-BR')
+      .expect(200);
+    expect(res.body.language).toBe('en');
+  });
+
+  it('uses the language the owner chose', async () => {
+    const res = await request(app)
+      .get(`/api/pages/${GERMAN_SLUG}`)
+      .set('Accept-Language', 'fr')
+      .expect(200);
+    expect(res.body.language).toBe('de');
+  });
+});
+
+describe('requests in another language', () => {
+  const base = {
+    requesterName: 'Ada Lovelace',
+    requesterEmail: 'ada@example.com',
+    reason: 'Discuss the analytical engine',
+  };
+
+  it('keeps the page\'s language with the request and uses it for the email', async () => {
+    const slot = futureSlot(3, 10);
+    await request(app)
+      .post(`/api/pages/${SLUG}/requests`)
+      .send({ ...base, ...slot, language: 'fr' })
+      .expect(202);
+
+    const [pending] = await store.pendingRequestsStore.listOverlapping(
+      SLUG,
+      new Date(slot.startIso),
+      new Date(slot.endIso)
+    );
+    expect(pending.language).toBe('fr');
+    expect(mockVerificationEmail).toHaveBeenLastCalledWith(
+      expect.objectContaining({ language: 'fr' })
+    );
+  });
+
+  it('uses the page\'s language when the request names none', async () => {
+    await request(app)
+      .post(`/api/pages/${GERMAN_SLUG}/requests`)
+      .send({ ...base, ...futureSlot(4, 10) })
+      .expect(202);
+    expect(mockVerificationEmail).toHaveBeenLastCalledWith(
+      expect.objectContaining({ language: 'de' })
+    );
+  });
+
+  it('rejects an unsupported language', async () => {
+    const res = await request(app)
+      .post(`/api/pages/${SLUG}/requests`)
+      .send({ ...base, ...futureSlot(5, 10), language: 'xx' });
+    expect(res.status).toBe(400);
+  });
+
+  it('confirms in the requester\'s language', async () => {
+    const pending = await store.pendingRequestsStore.create({
+      slug: SLUG, ...base, ...futureSlot(6, 14), language: 'de',
+    });
+    const res = await request(app)
+      .get(`/api/pages/${SLUG}/requests/${pending.token}/confirm`)
+      .expect(200);
+    expect(res.text).toContain('<html lang="de">');
+    expect(res.text).toContain('Ihre Terminanfrage wurde gesendet!');
+  });
+
+  it('negotiates the language of an expired link', async () => {
+    const res = await request(app)
+      .get(`/api/pages/${SLUG}/requests/not-a-token/confirm`)
+      .set('Accept-Language', 'fr-FR')
+      .expect(200);
+    expect(res.text).toContain('Ce lien a expiré ou a déjà été utilisé.');
+  });
+});
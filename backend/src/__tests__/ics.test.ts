@@ -0,0 +1,193 @@
+import ical from 'node-ical';
+import axios from 'axios';
+import { buildIcsEvent, IcsEventInput } from '../services/ics';
+
+jest.mock('axios');
+
+const mockPost = axios.post as jest.MockedFunction<typeof axios.post>;
+
+function invite(overrides: Partial<IcsEventInput> = {}): IcsEventInput {
+  return {
+    uid: 'booking-1@calanywhere',
+    startIso: '2030-01-07T10:00:00.000Z',
+    endIso: '2030-01-07T10:30:00.000Z',
+    summary: 'Ada Lovelace and Grace Hopper',
+    description: 'Discuss the analytical engine',
+    organizer: { name: 'Grace Hopper', email: 'grace@example.com' },
+    attendees: [{ name: 'Ada Lovelace', email: 'ada@example.com' }],
+    stamp: new Date('2029-12-01T09:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+function parseEvent(ics: string): any {
+  const parsed = ical.sync.parseICS(ics);
+  return parsed['booking-1@calanywhere'];
+}
+
+describe('buildIcsEvent', () => {
+  it('round-trips the event through node-ical', () => {
+    const event = parseEvent(buildIcsEvent(invite()));
+
+    expect(event.type).toBe('VEVENT');
+    expect(event.method).toBe('REQUEST');
+    expect(event.status).toBe('CONFIRMED');
+    expect(event.start.toISOString()).toBe('2030-01-07T10:00:00.000Z');
+    expect(event.end.toISOString()).toBe('2030-01-07T10:30:00.000Z');
+    expect(event.summary).toBe('Ada Lovelace and Grace Hopper');
+    expect(event.description).toBe('Discuss the analytical engine');
+    expect(event.organizer.val).toBe('mailto:grace@example.com');
+    expect(event.organizer.params.CN).toBe('Grace Hopper');
+    expect(event.attendee.val).toBe('mailto:ada@example.com');
+    expect(event.attendee.params.CN).toBe('Ada Lovelace');
+  });
+
+  it('writes times in UTC and uses CRLF line endings', () => {
+    const ics = buildIcsEvent(invite({ startIso: '2030-07-07T10:00:00+02:00' }));
+    expect(ics).toContain('\r\nDTSTART:20300707T080000Z\r\n');
+    expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+  });
+
+  it('escapes text and quotes parameters with special characters', () => {
+    const event = parseEvent(buildIcsEvent(invite({
+      description: 'Agenda:\n1. Budget, timeline; risks\n2. Back\\slash',
+      organizer: { name: 'Hopper, Grace', email: 'grace@example.com' },
+    })));
+
+    expect(event.description).toBe('Agenda:\n1. Budget, timeline; risks\n2. Back\\slash');
+    expect(event.organizer.params.CN).toBe('Hopper, Grace');
+  });
+
+  it('folds long lines at 75 octets without splitting multi-byte characters', () => {
+    const description = 'Café ☕ '.repeat(40);
+    const ics = buildIcsEvent(invite({ description }));
+
+    for (const line of ics.split('\r\n')) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+    }
+    expect(parseEvent(ics).description).toBe(description);
+  });
+
+  it('marks a cancellation with the CANCEL method and a higher sequence', () => {
+    const event = parseEvent(buildIcsEvent(invite({ method: 'CANCEL', sequence: 1 })));
+    expect(event.method).toBe('CANCEL');
+    expect(event.status).toBe('CANCELLED');
+    expect(Number(event.sequence)).toBe(1);
+  });
+});
+
+describe('sendBookingStatusEmail attachments', () => {
+  const ENV = process.env;
+  let email: typeof import('../services/email');
+
+  beforeAll(() => {
+    process.env = {
+      ...ENV,
+      MAILGUN_API_KEY: 'key',
+      MAILGUN_DOMAIN: 'mg.example.com',
+      MAILGUN_FROM_EMAIL: 'noreply@example.com',
+    };
+    jest.isolateModules(() => {
+      email = require('../services/email');
+    });
+  });
+
+  afterAll(() => {
+    process.env = ENV;
+  });
+
+  beforeEach(() => {
+    mockPost.mockReset();
+    mockPost.mockResolvedValue({ data: {} });
+  });
+
+  const payload = {
+    bookingId: 'booking-1',
+    sequence: 1,
+    requesterEmail: 'ada@example.com',
+    requesterName: 'Ada Lovelace',
+    ownerName: 'Grace Hopper',
+    ownerEmail: 'grace@example.com',
+    reason: 'Discuss the analytical engine',
+    startIso: '2030-01-07T10:00:00.000Z',
+    endIso: '2030-01-07T10:30:00.000Z',
+  };
+
+  async function attachmentFrom(callIndex: number): Promise<{ file: File; ics: string }> {
+    const form = mockPost.mock.calls[callIndex][1] as FormData;
+    const file = form.get('attachment') as File;
+    return { file, ics: await file.text() };
+  }
+
+  it('attaches a REQUEST invite for the requester and the owner on acceptance', async () => {
+    await email.sendBookingStatusEmail({ ...payload, status: 'accepted' });
+
+    expect(mockPost).toHaveBeenCalledTimes(2);
+    const toRequester = mockPost.mock.calls[0][1] as FormData;
+    const toOwner = mockPost.mock.calls[1][1] as FormData;
+    expect(toRequester.get('to')).toBe('ada@example.com');
+    expect(toOwner.get('to')).toBe('grace@example.com');
+
+    const { file, ics } = await attachmentFrom(0);
+    expect(file.name).toBe('invite.ics');
+    expect(file.type).toMatch(/method=request/i);
+    expect(parseEvent(ics).description).toBe('Discuss the analytical engine');
+  });
+
+  it('numbers each invite with the booking\'s revision', async () => {
+    await email.sendBookingStatusEmail({ ...payload, status: 'accepted', sequence: 3 });
+
+    for (const call of [0, 1]) {
+      const { ics } = await attachmentFrom(call);
+      expect(Number(parseEvent(ics).sequence)).toBe(3);
+    }
+  });
+
+  it('attaches a CANCEL invite when an accepted booking is cancelled', async () => {
+    await email.sendBookingStatusEmail({ ...payload, status: 'cancelled' });
+
+    const { ics } = await attachmentFrom(0);
+    expect(parseEvent(ics).method).toBe('CANCEL');
+  });
+
+  it('sends a declined email without an attachment', async () => {
+    await email.sendBookingStatusEmail({ ...payload, status: 'declined' });
+
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    expect(mockPost.mock.calls[0][1]).toBeInstanceOf(URLSearchParams);
+  });
+
+  it('takes an accepted time off both calendars when it is moved, before a decline', async () => {
+    const moved = { startIso: '2030-01-08T14:00:00.000Z', endIso: '2030-01-08T14:30:00.000Z' };
+
+    await email.sendBookingStatusEmail({ ...payload, status: 'accepted', sequence: 1 });
+    await email.sendBookingChangeEmail({
+      ...payload,
+      ...moved,
+      sequence: 2,
+      change: 'rescheduled',
+      previousStartIso: payload.startIso,
+      previousEndIso: payload.endIso,
+      wasAccepted: true,
+    });
+    await email.sendInviteWithdrawnEmail({ ...payload, sequence: 2, change: 'rescheduled' });
+    await email.sendBookingStatusEmail({ ...payload, ...moved, status: 'declined', sequence: 3 });
+
+    // The acceptance invite, then a cancellation for each side
+    expect(mockPost).toHaveBeenCalledTimes(5);
+    const [toRequester, toOwner, ownerCancel, requesterCancel] = await Promise.all(
+      [0, 1, 2, 3].map(async (call) => parseEvent((await attachmentFrom(call)).ics))
+    );
+    expect([toRequester.method, toOwner.method]).toEqual(['REQUEST', 'REQUEST']);
+    expect((mockPost.mock.calls[2][1] as FormData).get('to')).toBe('grace@example.com');
+    expect((mockPost.mock.calls[3][1] as FormData).get('to')).toBe('ada@example.com');
+    for (const cancel of [ownerCancel, requesterCancel]) {
+      expect(cancel.method).toBe('CANCEL');
+      expect(cancel.start.toISOString()).toBe(payload.startIso);
+      expect(Number(cancel.sequence)).toBeGreaterThan(Number(toRequester.sequence));
+    }
+
+    // Declining the new time has nothing left to withdraw
+    expect(mockPost.mock.calls[4][1]).toBeInstanceOf(URLSearchParams);
+  });
+});
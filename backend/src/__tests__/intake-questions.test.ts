@@ -0,0 +1,185 @@
+import express from 'express';
+import request from 'supertest';
+import { pagesRouter } from '../routes/pages';
+import * as store from '../store';
+import * as calendar from '../services/calendar';
+import * as email from '../services/email';
+import {
+  parseIntakeQuestions,
+  parseIntakeAnswers,
+  IntakeQuestion,
+  MAX_INTAKE_QUESTIONS,
+} from '../services/intakeQuestions';
+import { futureSlot, initMemoryStores } from './helpers/booking';
+
+jest.mock('../services/email');
+jest.mock('../services/calendar');
+jest.mock('../db/client');
+
+const mockFetchCalendars = calendar.fetchAndParseMultipleCalendars as jest.MockedFunction<
+  typeof calendar.fetchAndParseMultipleCalendars
+>;
+const mockVerificationEmail = email.sendVerificationEmail as jest.MockedFunction<
+  typeof email.sendVerificationEmail
+>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/pages', pagesRouter);
+
+const SLUG = 'intaketestpage';
+
+const QUESTIONS: IntakeQuestion[] = [
+  { id: '11111111-1111-4111-8111-111111111111', label: 'Company', type: 'short_text', required: true },
+  { id: '22222222-2222-4222-8222-222222222222', label: 'Phone', type: 'phone', required: false },
+  {
+    id: '33333333-3333-4333-8333-333333333333',
+    label: 'Topics',
+    type: 'multiple_choice',
+    required: false,
+    options: ['Pricing', 'Support', 'Partnerships'],
+  },
+  {
+    id: '44444444-4444-4444-8444-444444444444',
+    label: 'How did you hear about us?',
+    type: 'single_choice',
+    required: false,
+    options: ['Search', 'A friend'],
+  },
+];
+const [company, phone, topics, source] = QUESTIONS.map((q) => q.id);
+
+beforeAll(async () => {
+  initMemoryStores();
+
+  await store.pagesStore.create({
+    slug: SLUG,
+    calendarUrls: ['https://calendar.example.com/feed.ics'],
+    ownerName: 'Grace Hopper',
+    defaultDurationMinutes: 30,
+    bufferMinutes: 0,
+    dateRangeDays: 30,
+    minNoticeHours: 0,
+    includeWeekends: false,
+    availabilityStart: '09:00',
+    availabilityEnd: '17:00',
+    ownerTimezone: 'UTC',
+    intakeQuestions: QUESTIONS,
+    createdAt: Date.now(),
+    expiresAt: null,
+  });
+});
+
+beforeEach(() => {
+  mockFetchCalendars.mockResolvedValue({ busySlots: [], stale: false });
+});
+
+describe('parseIntakeQuestions', () => {
+  it('trims labels and options, keeps ids and gives new questions one', () => {
+    const result = parseIntakeQuestions([
+      { id: company, label: ' Company ', type: 'short_text', required: true },
+      { label: 'Topics', type: 'multiple_choice', options: [' Pricing ', '', 'Support', 'Pricing'] },
+    ]);
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.questions[0]).toEqual({ id: company, label: 'Company', type: 'short_text', required: true });
+    expect(result.questions[1]).toMatchObject({
+      label: 'Topics',
+      type: 'multiple_choice',
+      required: false,
+      options: ['Pricing', 'Support'],
+    });
+    expect(result.questions[1].id).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('rejects unknown types, missing labels and choice questions without two options', () => {
+    expect(parseIntakeQuestions([{ label: 'Age', type: 'number' }])).toEqual({
+      error: 'Question 1 has an unknown type.',
+    });
+    expect(parseIntakeQuestions([{ label: ' ', type: 'short_text' }])).toHaveProperty('error');
+    expect(parseIntakeQuestions([{ label: 'Pick', type: 'single_choice', options: ['Only'] }]))
+      .toEqual({ error: 'Question 1 needs at least two options.' });
+  });
+
+  it('limits the number of questions', () => {
+    const many = Array.from({ length: MAX_INTAKE_QUESTIONS + 1 }, (_, i) => ({
+      label: `Question ${i}`,
+      type: 'short_text',
+    }));
+    expect(parseIntakeQuestions(many)).toHaveProperty('error');
+  });
+});
+
+describe('parseIntakeAnswers', () => {
+  it('returns answers in question order with their labels, skipping blank optional ones', () => {
+    expect(parseIntakeAnswers(QUESTIONS, {
+      [topics]: ['Support', 'Pricing'],
+      [company]: ' Acme ',
+      [phone]: '',
+      unknown: 'ignored',
+    })).toEqual({
+      answers: [
+        { questionId: company, label: 'Company', answer: 'Acme' },
+        { questionId: topics, label: 'Topics', answer: ['Pricing', 'Support'] },
+      ],
+    });
+  });
+
+  it('requires answers to required questions', () => {
+    expect(parseIntakeAnswers(QUESTIONS, {})).toEqual({ error: 'Please answer "Company".' });
+  });
+
+  it('checks phone numbers and choices', () => {
+    expect(parseIntakeAnswers(QUESTIONS, { [company]: 'Acme', [phone]: '+44 20 7946 0958' }))
+      .not.toHaveProperty('error');
+    expect(parseIntakeAnswers(QUESTIONS, { [company]: 'Acme', [phone]: 'call me' }))
+      .toHaveProperty('error');
+    expect(parseIntakeAnswers(QUESTIONS, { [company]: 'Acme', [phone]: '123' }))
+      .toHaveProperty('error');
+    expect(parseIntakeAnswers(QUESTIONS, { [company]: 'Acme', [source]: 'A billboard' }))
+      .toHaveProperty('error');
+    expect(parseIntakeAnswers(QUESTIONS, { [company]: 'Acme', [topics]: ['Sales'] }))
+      .toHaveProperty('error');
+  });
+
+  it('accepts no answers when the page asks nothing', () => {
+    expect(parseIntakeAnswers([], undefined)).toEqual({ answers: [] });
+  });
+});
+
+describe('POST /api/pages/:slug/requests with intake questions', () => {
+  const base = {
+    requesterName: 'Ada Lovelace',
+    requesterEmail: 'ada@example.com',
+    reason: 'Discuss the analytical engine',
+    timezone: 'UTC',
+  };
+
+  it('rejects a request missing a required answer', async () => {
+    const res = await request(app)
+      .post(`/api/pages/${SLUG}/requests`)
+      .send({ ...base, ...futureSlot(3, 10) });
+
+    expect(res.status).toBe(400);
+    expect(res.body.error).toBe('Please answer "Company".');
+    expect(mockVerificationEmail).not.toHaveBeenCalled();
+  });
+
+  it('stores the answers on the pending request', async () => {
+    const slot = futureSlot(4, 11);
+    const res = await request(app)
+      .post(`/api/pages/${SLUG}/requests`)
+      .send({ ...base, ...slot, answers: { [company]: 'Acme', [source]: 'Search' } });
+
+    expect(res.status).toBe(202);
+    const pending = await store.pendingRequestsStore.listOverlapping(
+      SLUG,
+      new Date(slot.startIso),
+      new Date(slot.endIso)
+    );
+    expect(pending[0].intakeAnswers).toEqual([
+      { questionId: company, label: 'Company', answer: 'Acme' },
+      { questionId: source, label: 'How did you hear about us?', answer: 'Search' },
+    ]);
+  });
+});
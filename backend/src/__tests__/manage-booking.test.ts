@@ -0,0 +1,360 @@
+import express from 'express';
+import request from 'supertest';
+import { pagesRouter } from '../routes/pages';
+import * as store from '../store';
+import * as calendar from '../services/calendar';
+import * as email from '../services/email';
+import * as dbClient from '../db/client';
+import * as encryption from '../utils/encryption';
+import * as webhooks from '../services/webhooks';
+import { createManageToken, verifyManageToken } from '../utils/manageToken';
+import type { Booking, NewBooking } from '../store/interfaces';
+import { futureSlot, initMemoryStores } from './helpers/booking';
+
+jest.mock('../services/email');
+jest.mock('../services/calendar');
+jest.mock('../db/client');
+jest.mock('../utils/encryption');
+jest.mock('../services/webhooks');
+
+const mockFetchCalendars = calendar.fetchAndParseMultipleCalendars as jest.MockedFunction<
+  typeof calendar.fetchAndParseMultipleCalendars
+>;
+const mockRequestSentEmail = email.sendRequestSentEmail as jest.MockedFunction<
+  typeof email.sendRequestSentEmail
+>;
+const mockChangeEmail = email.sendBookingChangeEmail as jest.MockedFunction<
+  typeof email.sendBookingChangeEmail
+>;
+const mockWithdrawnEmail = email.sendInviteWithdrawnEmail as jest.MockedFunction<
+  typeof email.sendInviteWithdrawnEmail
+>;
+const mockGetPool = dbClient.getPool as jest.MockedFunction<typeof dbClient.getPool>;
+const mockEmitEvent = webhooks.emitBookingEvent as jest.MockedFunction<
+  typeof webhooks.emitBookingEvent
+>;
+const mockDecrypt = encryption.decrypt as jest.MockedFunction<typeof encryption.decrypt>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/pages', pagesRouter);
+
+const SLUG = 'managetestpage';
+const OTHER_SLUG = 'othermanagepage';
+
+async function book(
+  slot: { startIso: string; endIso: string },
+  details: Partial<NewBooking> = {}
+): Promise<Booking> {
+  const booking = await store.bookingsStore.createIfAvailable({
+    ...details,
+    pageId: SLUG,
+    requesterName: 'Ada Lovelace',
+    requesterEmail: 'ada@example.com',
+    reason: 'Discuss the analytical engine',
+    startTime: slot.startIso,
+    endTime: slot.endIso,
+    timezone: 'UTC',
+  });
+  if (!booking) throw new Error('slot already booked');
+  return booking;
+}
+
+function pageFor(slug: string) {
+  return {
+    slug,
+    calendarUrls: ['https://calendar.example.com/feed.ics'],
+    ownerName: 'Grace Hopper',
+    defaultDurationMinutes: 30,
+    // Starts every quarter hour, so a booking can move to a time overlapping its own
+    slotIncrementMinutes: 15,
+    bufferMinutes: 0,
+    dateRangeDays: 30,
+    minNoticeHours: 0,
+    includeWeekends: false,
+    availabilityStart: '09:00',
+    availabilityEnd: '17:00',
+    ownerTimezone: 'UTC',
+    createdAt: Date.now(),
+    expiresAt: null,
+  };
+}
+
+beforeAll(async () => {
+  initMemoryStores();
+
+  await store.pagesStore.create(pageFor(SLUG));
+  await store.pagesStore.create(pageFor(OTHER_SLUG));
+});
+
+beforeEach(() => {
+  mockFetchCalendars.mockResolvedValue({ busySlots: [], stale: false });
+  mockRequestSentEmail.mockClear();
+  mockChangeEmail.mockClear();
+  mockWithdrawnEmail.mockClear();
+  mockEmitEvent.mockClear();
+  // The owner's notification address is only looked up in the database
+  mockGetPool.mockReturnValue({
+    query: jest.fn().mockResolvedValue({
+      rows: [{ notification_email_enc: 'enc', notification_email_iv: 'iv', notification_email_tag: 'tag' }],
+    }),
+  } as any);
+  mockDecrypt.mockReturnValue('grace@example.com');
+});
+
+describe('manage tokens', () => {
+  it('round-trips a booking id', () => {
+    expect(verifyManageToken(createManageToken('abc-123'))).toBe('abc-123');
+  });
+
+  it('rejects a token signed for another booking', () => {
+    const [, signature] = createManageToken('abc-123').split('.');
+    expect(verifyManageToken(`abc-124.${signature}`)).toBeNull();
+    expect(verifyManageToken('abc-123')).toBeNull();
+    expect(verifyManageToken('')).toBeNull();
+  });
+});
+
+describe('confirming a request', () => {
+  it('emails the requester a link to manage the booking', async () => {
+    const slot = futureSlot(3, 9);
+    const pending = await store.pendingRequestsStore.create({
+      slug: SLUG,
+      requesterName: 'Ada Lovelace',
+      requesterEmail: 'ada@example.com',
+      reason: 'Discuss the analytical engine',
+      ...slot,
+    });
+
+    const res = await request(app).get(`/api/pages/${SLUG}/requests/${pending.token}/confirm`).expect(200);
+    expect(res.text).toContain('Reschedule or cancel');
+
+    expect(mockRequestSentEmail).toHaveBeenCalledTimes(1);
+    const { manageUrl } = mockRequestSentEmail.mock.calls[0][0];
+    const token = manageUrl.split(`/s/${SLUG}/manage/`)[1];
+    const [booking] = await store.bookingsStore.listOverlapping(
+      SLUG,
+      new Date(slot.startIso),
+      new Date(slot.endIso)
+    );
+    expect(verifyManageToken(token)).toBe(booking.id);
+  });
+});
+
+describe('GET /api/pages/:slug/bookings/:token', () => {
+  it('describes the booking', async () => {
+    const slot = futureSlot(4, 9);
+    const booking = await book(slot);
+    const res = await request(app)
+      .get(`/api/pages/${SLUG}/bookings/${createManageToken(booking.id)}`)
+      .expect(200);
+    expect(res.body).toMatchObject({
+      ownerName: 'Grace Hopper',
+      status: 'requested',
+      startIso: slot.startIso,
+      endIso: slot.endIso,
+      changeable: true,
+    });
+    expect(res.body).not.toHaveProperty('requesterEmail');
+  });
+
+  it('rejects a forged token or another page\'s booking', async () => {
+    const booking = await book(futureSlot(4, 10));
+    await request(app).get(`/api/pages/${SLUG}/bookings/${booking.id}.forged`).expect(404);
+    await request(app)
+      .get(`/api/pages/${OTHER_SLUG}/bookings/${createManageToken(booking.id)}`)
+      .expect(404);
+  });
+});
+
+describe('GET /api/pages/:slug/bookings/:token/slots', () => {
+  it('offers the booking\'s own length once its meeting type is gone', async () => {
+    const slot = futureSlot(15, 10, 60);
+    const booking = await book(slot, { meetingTypeId: 'removed-type', meetingTypeName: 'Workshop' });
+    const token = createManageToken(booking.id);
+    const date = slot.startIso.slice(0, 10);
+
+    const res = await request(app)
+      .get(`/api/pages/${SLUG}/bookings/${token}/slots`)
+      .query({ from: date, to: date, tz: 'UTC' })
+      .expect(200);
+    const slots = res.body.days.flatMap((d: any) => d.slots);
+    expect(slots.length).toBeGreaterThan(0);
+    for (const s of slots) {
+      expect(new Date(s.end).getTime() - new Date(s.start).getTime()).toBe(60 * 60 * 1000);
+    }
+
+    // Its own time is not taken, so it can move to an overlapping one
+    const overlapping = slots.find((s: any) => s.start === `${date}T10:30:00.000Z`);
+    expect(overlapping).toBeDefined();
+    await request(app)
+      .post(`/api/pages/${SLUG}/bookings/${token}/reschedule`)
+      .send({ startIso: overlapping.start, endIso: overlapping.end })
+      .expect(200);
+  });
+
+  it('rejects a forged token', async () => {
+    await request(app).get(`/api/pages/${SLUG}/bookings/nope.forged/slots`).expect(404);
+  });
+});
+
+describe('POST /api/pages/:slug/bookings/:token/cancel', () => {
+  it('frees the slot and tells the owner', async () => {
+    const slot = futureSlot(5, 9);
+    const booking = await book(slot);
+    const token = createManageToken(booking.id);
+
+    const res = await request(app)
+      .post(`/api/pages/${SLUG}/bookings/${token}/cancel`)
+      .send({ message: 'Something came up' })
+      .expect(200);
+    expect(res.body.status).toBe('cancelled');
+    expect(await store.bookingsStore.listOverlapping(
+      SLUG,
+      new Date(slot.startIso),
+      new Date(slot.endIso)
+    )).toHaveLength(0);
+
+    expect(mockChangeEmail).toHaveBeenCalledWith(expect.objectContaining({
+      ownerEmail: 'grace@example.com',
+      change: 'cancelled',
+      message: 'Something came up',
+      wasAccepted: false,
+    }));
+    expect(mockEmitEvent).toHaveBeenCalledWith(expect.anything(), 'booking.cancelled', booking.id);
+
+    // A second cancel has nothing left to do
+    await request(app).post(`/api/pages/${SLUG}/bookings/${token}/cancel`).send({}).expect(409);
+  });
+
+  it('withdraws both invites for an accepted booking', async () => {
+    const booking = await book(futureSlot(5, 11));
+    const [stored] = await store.bookingsStore.listOverlapping(
+      SLUG,
+      new Date(booking.startTime),
+      new Date(booking.endTime)
+    );
+    stored.status = 'accepted';
+
+    await request(app)
+      .post(`/api/pages/${SLUG}/bookings/${createManageToken(booking.id)}/cancel`)
+      .send({})
+      .expect(200);
+    expect(mockChangeEmail).toHaveBeenCalledWith(expect.objectContaining({ wasAccepted: true, sequence: 1 }));
+    expect(mockWithdrawnEmail).toHaveBeenCalledWith(expect.objectContaining({
+      bookingId: booking.id,
+      requesterEmail: 'ada@example.com',
+      change: 'cancelled',
+      startIso: booking.startTime,
+      sequence: 1,
+    }));
+  });
+
+  it('leaves calendars alone when a booking was never accepted', async () => {
+    const booking = await book(futureSlot(5, 13));
+
+    await request(app)
+      .post(`/api/pages/${SLUG}/bookings/${createManageToken(booking.id)}/cancel`)
+      .send({})
+      .expect(200);
+    expect(mockChangeEmail).toHaveBeenCalledWith(expect.objectContaining({ wasAccepted: false }));
+    expect(mockWithdrawnEmail).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/pages/:slug/bookings/:token/reschedule', () => {
+  it('moves the booking and asks the owner to accept it again', async () => {
+    const slot = futureSlot(6, 9);
+    const booking = await book(slot);
+    const [stored] = await store.bookingsStore.listOverlapping(
+      SLUG,
+      new Date(slot.startIso),
+      new Date(slot.endIso)
+    );
+    stored.status = 'accepted';
+
+    const next = futureSlot(6, 13);
+    const res = await request(app)
+      .post(`/api/pages/${SLUG}/bookings/${createManageToken(booking.id)}/reschedule`)
+      .send(next)
+      .expect(200);
+    expect(res.body).toEqual({ status: 'requested', ...next });
+
+    expect(mockChangeEmail).toHaveBeenCalledWith(expect.objectContaining({
+      change: 'rescheduled',
+      startIso: next.startIso,
+      previousStartIso: slot.startIso,
+      wasAccepted: true,
+      sequence: 1,
+    }));
+    // The old time comes out of the requester's calendar as well as the owner's
+    expect(mockWithdrawnEmail).toHaveBeenCalledWith(expect.objectContaining({
+      change: 'rescheduled',
+      startIso: slot.startIso,
+      endIso: slot.endIso,
+      sequence: 1,
+    }));
+    expect(mockEmitEvent).toHaveBeenCalledWith(expect.anything(), 'booking.rescheduled', booking.id);
+  });
+
+  it('allows a new time overlapping the booking\'s own', async () => {
+    const slot = futureSlot(7, 9);
+    const booking = await book(slot);
+    const next = {
+      startIso: new Date(new Date(slot.startIso).getTime() + 15 * 60 * 1000).toISOString(),
+      endIso: new Date(new Date(slot.endIso).getTime() + 15 * 60 * 1000).toISOString(),
+    };
+    await request(app)
+      .post(`/api/pages/${SLUG}/bookings/${createManageToken(booking.id)}/reschedule`)
+      .send(next)
+      .expect(200);
+  });
+
+  it('refuses a slot that is taken', async () => {
+    const booking = await book(futureSlot(8, 9));
+    const taken = futureSlot(8, 10);
+    await book(taken);
+
+    const res = await request(app)
+      .post(`/api/pages/${SLUG}/bookings/${createManageToken(booking.id)}/reschedule`)
+      .send(taken)
+      .expect(409);
+    expect(res.body.error).toMatch(/just been taken/);
+    expect(mockChangeEmail).not.toHaveBeenCalled();
+  });
+
+  it('refuses a slot of a different length', async () => {
+    const booking = await book(futureSlot(9, 9));
+    const slot = futureSlot(9, 12);
+    await request(app)
+      .post(`/api/pages/${SLUG}/bookings/${createManageToken(booking.id)}/reschedule`)
+      .send({ startIso: slot.startIso, endIso: futureSlot(9, 14).endIso })
+      .expect(400);
+  });
+
+  it('refuses a slot outside the page\'s working hours', async () => {
+    const booking = await book(futureSlot(10, 9));
+    const res = await request(app)
+      .post(`/api/pages/${SLUG}/bookings/${createManageToken(booking.id)}/reschedule`)
+      .send(futureSlot(10, 18))
+      .expect(409);
+    expect(res.body.error).toMatch(/not available/);
+    expect(mockChangeEmail).not.toHaveBeenCalled();
+  });
+
+  it('refuses a slot over an event in the owner\'s calendar', async () => {
+    const booking = await book(futureSlot(11, 10));
+    const event = futureSlot(11, 12, 60);
+    mockFetchCalendars.mockResolvedValue({
+      busySlots: [{ start: event.startIso, end: event.endIso }],
+      stale: false,
+    });
+
+    const res = await request(app)
+      .post(`/api/pages/${SLUG}/bookings/${createManageToken(booking.id)}/reschedule`)
+      .send(futureSlot(11, 12))
+      .expect(409);
+    expect(res.body.error).toMatch(/not available/);
+    expect(mockChangeEmail).not.toHaveBeenCalled();
+  });
+});
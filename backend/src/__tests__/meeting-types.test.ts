@@ -0,0 +1,189 @@
+import express from 'express';
+import request from 'supertest';
+import { pagesRouter } from '../routes/pages';
+import * as store from '../store';
+import * as calendar from '../services/calendar';
+import * as email from '../services/email';
+import { parseMeetingType } from '../services/meetingTypes';
+import { initMemoryStores } from './helpers/booking';
+
+jest.mock('../services/email');
+jest.mock('../services/calendar');
+
+const mockFetchCalendars = calendar.fetchAndParseMultipleCalendars as jest.MockedFunction<
+  typeof calendar.fetchAndParseMultipleCalendars
+>;
+const mockVerificationEmail = email.sendVerificationEmail as jest.MockedFunction<
+  typeof email.sendVerificationEmail
+>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/pages', pagesRouter);
+
+const SLUG = 'meetingtypespage';
+const CHAT = {
+  id: '11111111-1111-4111-8111-111111111111',
+  name: 'Quick chat',
+  durationMinutes: 15,
+  bufferMinutes: 0,
+  bufferBeforeMinutes: 0,
+};
+const WORKSHOP = {
+  id: '22222222-2222-4222-8222-222222222222',
+  name: 'Workshop',
+  description: 'A working session',
+  durationMinutes: 60,
+  bufferMinutes: 30,
+  bufferBeforeMinutes: 0,
+  // Tuesday afternoons only
+  weeklyAvailability: [{ weekday: 2, start: '13:00', end: '17:00' }],
+};
+
+// A Tuesday comfortably inside the page's range, as YYYY-MM-DD in UTC
+function nextTuesday(): string {
+  const d = new Date();
+  d.setUTCDate(d.getUTCDate() + 7);
+  while (d.getUTCDay() !== 2) d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+async function slotStarts(date: string, type?: string): Promise<string[]> {
+  const res = await request(app)
+    .get(`/api/pages/${SLUG}/slots`)
+    .query({ from: date, to: date, tz: 'UTC', ...(type ? { type } : {}) })
+    .expect(200);
+  return res.body.days.flatMap((d: any) => d.slots.map((s: any) => s.start.slice(11, 16)));
+}
+
+function requestBody(date: string, start: string, minutes: number, meetingTypeId?: string) {
+  const startIso = `${date}T${start}:00.000Z`;
+  return {
+    requesterName: 'Ada Lovelace',
+    requesterEmail: 'ada@example.com',
+    reason: 'Discuss the analytical engine',
+    startIso,
+    endIso: new Date(new Date(startIso).getTime() + minutes * 60 * 1000).toISOString(),
+    meetingTypeId,
+  };
+}
+
+beforeAll(async () => {
+  initMemoryStores();
+
+  await store.pagesStore.create({
+    slug: SLUG,
+    calendarUrls: ['https://calendar.example.com/feed.ics'],
+    ownerName: 'Grace Hopper',
+    defaultDurationMinutes: 30,
+    bufferMinutes: 0,
+    dateRangeDays: 30,
+    minNoticeHours: 0,
+    includeWeekends: false,
+    availabilityStart: '09:00',
+    availabilityEnd: '10:00',
+    ownerTimezone: 'UTC',
+    meetingTypes: [CHAT, WORKSHOP],
+    createdAt: Date.now(),
+    expiresAt: null,
+  });
+});
+
+beforeEach(() => {
+  mockFetchCalendars.mockResolvedValue({ busySlots: [], stale: false });
+  mockVerificationEmail.mockClear();
+});
+
+describe('GET /api/pages/:slug', () => {
+  it('lists the meeting types in order', async () => {
+    const res = await request(app).get(`/api/pages/${SLUG}`).expect(200);
+    expect(res.body.meetingTypes.map((t: any) => t.name)).toEqual(['Quick chat', 'Workshop']);
+    expect(res.body.meetingTypes[1].weeklyAvailability).toEqual(WORKSHOP.weeklyAvailability);
+  });
+});
+
+describe('GET /api/pages/:slug/slots with meeting types', () => {
+  it('uses the first meeting type when none is chosen', async () => {
+    expect(await slotStarts(nextTuesday())).toEqual(['09:00', '09:15', '09:30', '09:45']);
+  });
+
+  it('uses the chosen type\'s duration and hours', async () => {
+    expect(await slotStarts(nextTuesday(), WORKSHOP.id)).toEqual(['13:00', '14:00', '15:00', '16:00']);
+  });
+
+  it('rejects an unknown meeting type', async () => {
+    await request(app).get(`/api/pages/${SLUG}/slots`).query({ type: 'nope' }).expect(400);
+  });
+});
+
+describe('POST /api/pages/:slug/requests with meeting types', () => {
+  it('records the meeting type on the request and the booking', async () => {
+    const date = nextTuesday();
+    await request(app)
+      .post(`/api/pages/${SLUG}/requests`)
+      .send(requestBody(date, '14:00', 60, WORKSHOP.id))
+      .expect(202);
+    expect(mockVerificationEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ meetingTypeName: 'Workshop' })
+    );
+
+    const [pending] = await store.pendingRequestsStore.listOverlapping(
+      SLUG,
+      new Date(`${date}T14:00:00Z`),
+      new Date(`${date}T15:00:00Z`)
+    );
+    expect(pending).toMatchObject({ meetingTypeId: WORKSHOP.id, meetingTypeName: 'Workshop' });
+
+    await request(app).get(`/api/pages/${SLUG}/requests/${pending.token}/confirm`).expect(200);
+    const [booking] = await store.bookingsStore.listOverlapping(
+      SLUG,
+      new Date(`${date}T14:00:00Z`),
+      new Date(`${date}T15:00:00Z`)
+    );
+    expect(booking).toMatchObject({ meetingTypeId: WORKSHOP.id, meetingTypeName: 'Workshop' });
+  });
+
+  it('rejects a slot that does not match the meeting type\'s duration', async () => {
+    await request(app)
+      .post(`/api/pages/${SLUG}/requests`)
+      .send(requestBody(nextTuesday(), '13:00', 30, WORKSHOP.id))
+      .expect(400);
+  });
+
+  it('rejects a meeting type from another page', async () => {
+    await request(app)
+      .post(`/api/pages/${SLUG}/requests`)
+      .send(requestBody(nextTuesday(), '09:00', 15, '33333333-3333-4333-8333-333333333333'))
+      .expect(400);
+  });
+});
+
+describe('parseMeetingType', () => {
+  it('trims text and defaults to the page\'s hours and no buffer', () => {
+    expect(parseMeetingType({ name: ' Intro call ', description: '  ', durationMinutes: 20 })).toEqual({
+      meetingType: {
+        name: 'Intro call',
+        description: undefined,
+        durationMinutes: 20,
+        bufferMinutes: 0,
+        bufferBeforeMinutes: 0,
+        weeklyAvailability: undefined,
+      },
+    });
+  });
+
+  it('validates its own weekly hours', () => {
+    expect(parseMeetingType({
+      name: 'Workshop',
+      durationMinutes: 60,
+      weeklyAvailability: [{ weekday: 2, start: '17:00', end: '13:00' }],
+    })).toHaveProperty('error');
+  });
+
+  it('rejects a missing name and out-of-range durations and buffers', () => {
+    expect(parseMeetingType({ name: '', durationMinutes: 30 })).toHaveProperty('error');
+    expect(parseMeetingType({ name: 'Chat', durationMinutes: 0 })).toHaveProperty('error');
+    expect(parseMeetingType({ name: 'Chat', durationMinutes: 30.5 })).toHaveProperty('error');
+    expect(parseMeetingType({ name: 'Chat', durationMinutes: 30, bufferMinutes: -5 })).toHaveProperty('error');
+  });
+});
@@ -1,12 +1,18 @@
-import { requireAuth } from '../auth/middleware';
+import { requireAuth, requireScope, requireSession } from '../auth/middleware';
 import * as sessionModule from '../auth/session';
+import * as apiTokensModule from '../auth/apiTokens';
 
 jest.mock('../auth/session');
+jest.mock('../auth/apiTokens');
 
 const mockValidateSession = sessionModule.validateSession as jest.MockedFunction<typeof sessionModule.validateSession>;
+const mockValidateApiToken = apiTokensModule.validateApiToken as jest.MockedFunction<typeof apiTokensModule.validateApiToken>;
 
-function makeReqRes(cookie?: string) {
-  const req: any = { cookies: cookie ? { ca_session: cookie } : {} };
+function makeReqRes(cookie?: string, authorization?: string) {
+  const req: any = {
+    cookies: cookie ? { ca_session: cookie } : {},
+    headers: authorization ? { authorization } : {},
+  };
   const res: any = {
     status: jest.fn().mockReturnThis(),
     json: jest.fn().mockReturnThis(),
@@ -52,3 +58,74 @@ describe('requireAuth middleware', () => {
     expect(res.status).not.toHaveBeenCalled();
   });
 });
+
+describe('requireAuth with an API token', () => {
+  const session = { userId: 'user-1', emojiId: '🐶🍕🚀', tier: 'free' };
+
+  beforeEach(() => {
+    mockValidateSession.mockReset();
+    mockValidateApiToken.mockReset();
+  });
+
+  it('attaches the session and token scopes for a valid bearer token', async () => {
+    mockValidateApiToken.mockResolvedValue({ session, tokenId: 'tok-1', scopes: ['pages:read'] });
+    const pool: any = {};
+    const { req, res, next } = makeReqRes(undefined, 'Bearer ca_pat_abc');
+
+    await requireAuth(pool)(req, res, next);
+
+    expect(mockValidateApiToken).toHaveBeenCalledWith(pool, 'ca_pat_abc');
+    expect(req.session).toEqual(session);
+    expect(req.apiToken).toEqual({ id: 'tok-1', scopes: ['pages:read'] });
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns 401 for an unknown or expired token without trying the cookie', async () => {
+    mockValidateApiToken.mockResolvedValue(null);
+    const { req, res, next } = makeReqRes('validcookie', 'Bearer ca_pat_revoked');
+
+    await requireAuth({} as any)(req, res, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith({ error: 'Invalid or expired API token' });
+    expect(mockValidateSession).not.toHaveBeenCalled();
+    expect(next).not.toHaveBeenCalled();
+  });
+});
+
+describe('requireScope and requireSession', () => {
+  it('lets cookie sessions through every scope', () => {
+    const { req, res, next } = makeReqRes('validtoken');
+    requireScope('bookings:write')(req, res, next);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns 403 when the token lacks the scope', () => {
+    const { req, res, next } = makeReqRes();
+    req.apiToken = { id: 'tok-1', scopes: ['bookings:read'] };
+
+    requireScope('bookings:write')(req, res, next);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('lets a token with the scope through', () => {
+    const { req, res, next } = makeReqRes();
+    req.apiToken = { id: 'tok-1', scopes: ['bookings:read', 'bookings:write'] };
+
+    requireScope('bookings:write')(req, res, next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses API tokens where only the signed-in owner may act', () => {
+    const { req, res, next } = makeReqRes();
+    req.apiToken = { id: 'tok-1', scopes: ['pages:write'] };
+
+    requireSession(req, res, next);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
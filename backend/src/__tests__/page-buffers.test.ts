@@ -0,0 +1,71 @@
+import express from 'express';
+import request from 'supertest';
+import { createDashboardRouter } from '../routes/dashboard';
+
+jest.mock('../services/email');
+jest.mock('../services/reminders');
+jest.mock('../services/webhooks');
+jest.mock('../auth', () => ({
+  ...jest.requireActual('../auth/middleware'),
+  requireAuth: () => (req: any, _res: any, next: any) => {
+    req.session = { userId: 'user-1', emojiId: '🐶🍕🚀', tier: 'free' };
+    next();
+  },
+}));
+
+const PAGE = {
+  ownerName: 'Grace Hopper',
+  calendarUrls: ['https://calendar.example.com/feed.ics'],
+};
+
+function makeApp(pool: any) {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/dashboard', createDashboardRouter(pool));
+  return app;
+}
+
+describe('POST /api/dashboard/pages', () => {
+  it.each([-5, 7.5, 241, '15', null])('rejects a buffer before meetings of %p', async (bufferBeforeMinutes) => {
+    const pool = { query: jest.fn(), connect: jest.fn() };
+
+    const res = await request(makeApp(pool))
+      .post('/api/dashboard/pages')
+      .send({ ...PAGE, bufferBeforeMinutes })
+      .expect(400);
+
+    expect(res.body.error).toMatch(/Buffers must be a whole number of minutes/);
+    expect(pool.query).not.toHaveBeenCalled();
+    expect(pool.connect).not.toHaveBeenCalled();
+  });
+
+  it('rejects a buffer after meetings out of range', async () => {
+    const pool = { query: jest.fn(), connect: jest.fn() };
+
+    await request(makeApp(pool))
+      .post('/api/dashboard/pages')
+      .send({ ...PAGE, bufferMinutes: -1 })
+      .expect(400);
+
+    expect(pool.connect).not.toHaveBeenCalled();
+  });
+});
+
+describe('PATCH /api/dashboard/pages/:id', () => {
+  it.each([-5, 7.5, 241, '15', null])('rejects a buffer before meetings of %p', async (bufferBeforeMinutes) => {
+    const pool = {
+      query: jest.fn().mockResolvedValueOnce({ rows: [{ id: 'page-1' }] }),
+      connect: jest.fn(),
+    };
+
+    const res = await request(makeApp(pool))
+      .patch('/api/dashboard/pages/page-1')
+      .send({ bufferBeforeMinutes })
+      .expect(400);
+
+    expect(res.body.error).toMatch(/Buffers must be a whole number of minutes/);
+    // Only the ownership check ran; nothing was written
+    expect(pool.query).toHaveBeenCalledTimes(1);
+    expect(pool.connect).not.toHaveBeenCalled();
+  });
+});
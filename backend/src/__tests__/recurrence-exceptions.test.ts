@@ -0,0 +1,134 @@
+import axios from 'axios';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { fetchAndParseCalendar } from '../services/calendar';
+
+jest.mock('axios');
+
+const mockGet = axios.get as jest.MockedFunction<typeof axios.get>;
+
+function fixture(name: string): string {
+  return readFileSync(path.join(__dirname, 'fixtures', name), 'utf8');
+}
+
+function serve(data: string) {
+  mockGet.mockResolvedValueOnce({ status: 200, data, headers: {} } as any);
+}
+
+async function busy(data: string, from: string, to: string) {
+  serve(data);
+  return fetchAndParseCalendar('https://calendar.example.com/feed.ics', new Date(from), new Date(to));
+}
+
+function feed(...events: string[][]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flat(), 'END:VCALENDAR'].join('\r\n');
+}
+
+function vevent(...lines: string[]): string[] {
+  return ['BEGIN:VEVENT', 'UID:series@example.com', ...lines, 'END:VEVENT'];
+}
+
+beforeEach(() => {
+  mockGet.mockReset();
+});
+
+describe('Google Calendar export', () => {
+  it('blocks moved instances at their new time, not the original', async () => {
+    const slots = await busy(fixture('google-moved-instances.ics'), '2030-01-01T00:00:00Z', '2030-02-01T00:00:00Z');
+
+    expect(slots).toEqual([
+      // 31 Dec instance moved into the range to Wednesday 2 Jan
+      { start: '2030-01-02T14:00:00.000Z', end: '2030-01-02T15:00:00.000Z' },
+      { start: '2030-01-07T15:00:00.000Z', end: '2030-01-07T16:00:00.000Z' },
+      // 14 Jan instance moved to Tuesday and extended to two hours
+      { start: '2030-01-15T19:00:00.000Z', end: '2030-01-15T21:00:00.000Z' },
+      // 21 Jan cancelled; 28 Jan postponed out of the range
+    ]);
+  });
+
+  it('blocks an instance moved out of the range where it now falls', async () => {
+    const slots = await busy(fixture('google-moved-instances.ics'), '2030-02-04T00:00:00Z', '2030-02-06T00:00:00Z');
+
+    expect(slots).toEqual([
+      { start: '2030-02-04T15:00:00.000Z', end: '2030-02-04T16:00:00.000Z' },
+      { start: '2030-02-05T15:00:00.000Z', end: '2030-02-05T16:00:00.000Z' },
+    ]);
+  });
+});
+
+describe('Outlook export', () => {
+  it('honours EXDATE, free instances and moved instances with Windows time zone names', async () => {
+    const slots = await busy(fixture('outlook-exceptions.ics'), '2030-01-07T00:00:00Z', '2030-01-12T00:00:00Z');
+
+    expect(slots).toEqual([
+      { start: '2030-01-07T08:00:00.000Z', end: '2030-01-07T08:15:00.000Z' },
+      // 8 Jan deleted, 9 Jan marked free
+      { start: '2030-01-10T13:00:00.000Z', end: '2030-01-10T13:30:00.000Z' },
+      { start: '2030-01-11T08:00:00.000Z', end: '2030-01-11T08:15:00.000Z' },
+    ]);
+  });
+});
+
+describe('Proton Calendar export', () => {
+  it('handles overrides that appear before their series', async () => {
+    const slots = await busy(fixture('proton-overrides-first.ics'), '2030-01-07T00:00:00Z', '2030-01-31T00:00:00Z');
+
+    expect(slots).toEqual([
+      { start: '2030-01-10T19:00:00.000Z', end: '2030-01-10T20:30:00.000Z' },
+      // All-day values are local midnight
+      { start: new Date(2030, 0, 21).toISOString(), end: new Date(2030, 0, 22).toISOString() },
+      { start: new Date(2030, 0, 23).toISOString(), end: new Date(2030, 0, 24).toISOString() },
+      { start: '2030-01-24T17:00:00.000Z', end: '2030-01-24T18:00:00.000Z' },
+    ]);
+  });
+});
+
+describe('instance matching', () => {
+  it('excludes only the named instance of a series that recurs several times a day', async () => {
+    const slots = await busy(feed(vevent(
+      'DTSTART:20300107T090000Z',
+      'DTEND:20300107T093000Z',
+      'RRULE:FREQ=DAILY;BYHOUR=9,15;COUNT=4',
+      'EXDATE:20300107T150000Z',
+    )), '2030-01-07T00:00:00Z', '2030-01-09T00:00:00Z');
+
+    expect(slots.map((s) => s.start)).toEqual([
+      '2030-01-07T09:00:00.000Z',
+      '2030-01-08T09:00:00.000Z',
+      '2030-01-08T15:00:00.000Z',
+    ]);
+  });
+
+  it('still excludes by date when an EXDATE time does not match the series', async () => {
+    const slots = await busy(feed(vevent(
+      'DTSTART:20300107T090000Z',
+      'DTEND:20300107T100000Z',
+      'RRULE:FREQ=DAILY;COUNT=3',
+      'EXDATE:20300108T000000Z',
+    )), '2030-01-07T00:00:00Z', '2030-01-10T00:00:00Z');
+
+    expect(slots.map((s) => s.start)).toEqual(['2030-01-07T09:00:00.000Z', '2030-01-09T09:00:00.000Z']);
+  });
+
+  it('keeps the series duration for an override without an end', async () => {
+    const slots = await busy(feed(
+      vevent('DTSTART:20300107T090000Z', 'DTEND:20300107T100000Z', 'RRULE:FREQ=DAILY;COUNT=2'),
+      vevent('RECURRENCE-ID:20300108T090000Z', 'DTSTART:20300108T120000Z'),
+    ), '2030-01-07T00:00:00Z', '2030-01-10T00:00:00Z');
+
+    expect(slots).toEqual([
+      { start: '2030-01-07T09:00:00.000Z', end: '2030-01-07T10:00:00.000Z' },
+      { start: '2030-01-08T12:00:00.000Z', end: '2030-01-08T13:00:00.000Z' },
+    ]);
+  });
+
+  it('ignores a cancelled one-off event', async () => {
+    const slots = await busy(feed(vevent(
+      'DTSTART:20300107T090000Z',
+      'DTEND:20300107T100000Z',
+      'STATUS:CANCELLED',
+    )), '2030-01-07T00:00:00Z', '2030-01-08T00:00:00Z');
+
+    expect(slots).toEqual([]);
+  });
+});
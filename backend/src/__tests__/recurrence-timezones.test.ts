@@ -0,0 +1,200 @@
+import axios from 'axios';
+import { fetchAndParseCalendar } from '../services/calendar';
+
+jest.mock('axios');
+
+const mockGet = axios.get as jest.MockedFunction<typeof axios.get>;
+
+const FEED_URL = 'https://calendar.example.com/feed.ics';
+
+// A VTIMEZONE under a name no runtime knows, with the EU rules
+const CUSTOM_BERLIN = [
+  'BEGIN:VTIMEZONE',
+  'TZID:Custom Berlin',
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:+0100',
+  'TZOFFSETTO:+0200',
+  'TZNAME:CEST',
+  'DTSTART:19700329T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:+0200',
+  'TZOFFSETTO:+0100',
+  'TZNAME:CET',
+  'DTSTART:19701025T030000',
+  'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+function feed(...components: string[][]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...components.flat(), 'END:VCALENDAR'].join('\r\n');
+}
+
+/** A Monday 09:00–10:00 series from 7 January 2030 in the given TZID. */
+function weeklyNine(tzid: string, rrule = 'FREQ=WEEKLY;BYDAY=MO', ...extra: string[]): string[] {
+  return [
+    'BEGIN:VEVENT',
+    'UID:weekly@example.com',
+    `DTSTART;TZID=${tzid}:20300107T090000`,
+    `DTEND;TZID=${tzid}:20300107T100000`,
+    `RRULE:${rrule}`,
+    ...extra,
+    'END:VEVENT',
+  ];
+}
+
+async function starts(data: string, from: string, to: string): Promise<string[]> {
+  mockGet.mockResolvedValueOnce({ status: 200, data, headers: {} } as any);
+  const slots = await fetchAndParseCalendar(FEED_URL, new Date(from), new Date(to));
+  return slots.map((s) => s.start);
+}
+
+beforeEach(() => {
+  mockGet.mockReset();
+});
+
+describe('recurring events across DST transitions', () => {
+  it('keeps Europe/London meetings at 09:00 local through March and October', async () => {
+    const data = feed(weeklyNine('Europe/London'));
+
+    expect(await starts(data, '2030-03-24T00:00:00Z', '2030-04-02T00:00:00Z')).toEqual([
+      '2030-03-25T09:00:00.000Z', // GMT
+      '2030-04-01T08:00:00.000Z', // BST from 31 March
+    ]);
+    expect(await starts(data, '2030-10-20T00:00:00Z', '2030-10-29T00:00:00Z')).toEqual([
+      '2030-10-21T08:00:00.000Z',
+      '2030-10-28T09:00:00.000Z', // GMT from 27 October
+    ]);
+  });
+
+  it('follows the US transition dates for America/New_York', async () => {
+    const data = feed(weeklyNine('America/New_York'));
+
+    expect(await starts(data, '2030-03-03T00:00:00Z', '2030-03-12T00:00:00Z')).toEqual([
+      '2030-03-04T14:00:00.000Z',
+      '2030-03-11T13:00:00.000Z', // EDT from 10 March
+    ]);
+    expect(await starts(data, '2030-10-27T00:00:00Z', '2030-11-05T00:00:00Z')).toEqual([
+      '2030-10-28T13:00:00.000Z',
+      '2030-11-04T14:00:00.000Z', // EST from 3 November
+    ]);
+  });
+
+  it('handles southern-hemisphere DST for Australia/Sydney', async () => {
+    const data = feed(weeklyNine('Australia/Sydney'));
+
+    expect(await starts(data, '2030-03-30T00:00:00Z', '2030-04-08T00:00:00Z')).toEqual([
+      '2030-03-31T22:00:00.000Z', // AEDT
+      '2030-04-07T23:00:00.000Z', // AEST from 7 April
+    ]);
+    expect(await starts(data, '2030-09-29T00:00:00Z', '2030-10-07T00:00:00Z')).toEqual([
+      '2030-09-29T23:00:00.000Z',
+      '2030-10-06T22:00:00.000Z', // AEDT from 6 October
+    ]);
+  });
+
+  it('resolves Windows zone names', async () => {
+    const data = feed(weeklyNine('GMT Standard Time'));
+
+    expect(await starts(data, '2030-03-24T00:00:00Z', '2030-04-02T00:00:00Z')).toEqual([
+      '2030-03-25T09:00:00.000Z',
+      '2030-04-01T08:00:00.000Z',
+    ]);
+  });
+});
+
+describe('zones defined by an embedded VTIMEZONE', () => {
+  const data = feed(
+    CUSTOM_BERLIN,
+    weeklyNine('Custom Berlin', undefined, 'EXDATE;TZID=Custom Berlin:20300408T090000'),
+    [
+      'BEGIN:VEVENT',
+      'UID:weekly@example.com',
+      'RECURRENCE-ID;TZID=Custom Berlin:20300415T090000',
+      'DTSTART;TZID=Custom Berlin:20300416T110000',
+      'DTEND;TZID=Custom Berlin:20300416T120000',
+      'END:VEVENT',
+    ],
+    [
+      'BEGIN:VEVENT',
+      'UID:single@example.com',
+      'DTSTART;TZID=Custom Berlin:20300709T090000',
+      'DTEND;TZID=Custom Berlin:20300709T100000',
+      'END:VEVENT',
+    ],
+  );
+
+  it('applies the VTIMEZONE offsets to the series, its exceptions and overrides', async () => {
+    expect(await starts(data, '2030-03-24T00:00:00Z', '2030-04-17T00:00:00Z')).toEqual([
+      '2030-03-25T08:00:00.000Z', // CET
+      '2030-04-01T07:00:00.000Z', // CEST from 31 March
+      // 8 April excluded; 15 April moved to Tuesday 11:00
+      '2030-04-16T09:00:00.000Z',
+    ]);
+    expect(await starts(data, '2030-10-20T00:00:00Z', '2030-10-29T00:00:00Z')).toEqual([
+      '2030-10-21T07:00:00.000Z',
+      '2030-10-28T08:00:00.000Z',
+    ]);
+  });
+
+  it('converts one-off events in the zone', async () => {
+    expect(await starts(data, '2030-07-09T00:00:00Z', '2030-07-10T00:00:00Z')).toEqual([
+      '2030-07-09T07:00:00.000Z',
+    ]);
+  });
+});
+
+describe('manual expansion fallback', () => {
+  let fetchWithoutNodeIcalRules: typeof fetchAndParseCalendar;
+
+  beforeAll(() => {
+    // Replace node-ical's parsed rules with ones that throw, as unsupported
+    // rules do, so the series is expanded with rrule instead
+    jest.isolateModules(() => {
+      jest.doMock('node-ical', () => {
+        const actual = jest.requireActual('node-ical');
+        const parseICS = (text: string) => {
+          const parsed = actual.sync.parseICS(text);
+          for (const item of Object.values<any>(parsed)) {
+            if (!item.rrule) continue;
+            const text = item.rrule.toString();
+            item.rrule = {
+              toString: () => text,
+              between: () => { throw new Error('Unsupported rule'); },
+            };
+          }
+          return parsed;
+        };
+        return { ...actual, sync: { ...actual.sync, parseICS } };
+      });
+      fetchWithoutNodeIcalRules = require('../services/calendar').fetchAndParseCalendar;
+    });
+  });
+
+  afterAll(() => {
+    jest.dontMock('node-ical');
+  });
+
+  it('keeps wall-clock time and honours UNTIL east of UTC', async () => {
+    mockGet.mockResolvedValueOnce({
+      status: 200,
+      // UNTIL names the 1 April occurrence, 09:00 CEST
+      data: feed(weeklyNine('Europe/Berlin', 'FREQ=WEEKLY;BYDAY=MO;UNTIL=20300401T070000Z')),
+      headers: {},
+    } as any);
+
+    const slots = await fetchWithoutNodeIcalRules(
+      FEED_URL,
+      new Date('2030-03-17T00:00:00Z'),
+      new Date('2030-04-30T00:00:00Z')
+    );
+
+    expect(slots.map((s) => s.start)).toEqual([
+      '2030-03-18T08:00:00.000Z',
+      '2030-03-25T08:00:00.000Z',
+      '2030-04-01T07:00:00.000Z',
+    ]);
+  });
+});
@@ -0,0 +1,202 @@
+import { runDueJobs, retryDelayMs, MAX_JOB_ATTEMPTS } from '../services/jobs';
+import {
+  parseReminderOffsets,
+  scheduleBookingReminders,
+  sendBookingReminder,
+  REMINDER_JOB,
+} from '../services/reminders';
+import * as email from '../services/email';
+import * as encryption from '../utils/encryption';
+import { callsMatching, fakePool } from './helpers/pool';
+
+jest.mock('../services/email');
+jest.mock('../utils/encryption');
+
+const mockReminderEmail = email.sendReminderEmail as jest.MockedFunction<
+  typeof email.sendReminderEmail
+>;
+const mockDecrypt = encryption.decrypt as jest.MockedFunction<typeof encryption.decrypt>;
+
+const HOUR = 60 * 60 * 1000;
+
+describe('parseReminderOffsets', () => {
+  it('dedupes and puts the earliest reminder first', () => {
+    expect(parseReminderOffsets([60, 1440, 60])).toEqual({ offsets: [1440, 60] });
+    expect(parseReminderOffsets([])).toEqual({ offsets: [] });
+  });
+
+  it('rejects too many reminders and out-of-range offsets', () => {
+    expect(parseReminderOffsets([15, 60, 120, 1440])).toHaveProperty('error');
+    expect(parseReminderOffsets([1])).toHaveProperty('error');
+    expect(parseReminderOffsets([60.5])).toHaveProperty('error');
+    expect(parseReminderOffsets([8 * 24 * 60])).toHaveProperty('error');
+    expect(parseReminderOffsets('60')).toHaveProperty('error');
+  });
+});
+
+describe('scheduleBookingReminders', () => {
+  it('enqueues a job per offset that is still ahead', async () => {
+    const start = new Date(Date.now() + 3 * HOUR);
+    const pool = fakePool([
+      [/^SELECT b\.start_time/, () => ({ rows: [{ start_time: start, reminder_offsets_minutes: [1440, 60] }] })],
+      [/^INSERT INTO jobs/, () => ({ rowCount: 1 })],
+    ]);
+
+    await scheduleBookingReminders(pool, 'booking-1', 'https://cal.example.com');
+
+    // The day-before reminder is already past
+    const inserts = callsMatching(pool, /^INSERT INTO jobs/);
+    expect(inserts).toHaveLength(1);
+    const [kind, payload, runAt, dedupeKey] = inserts[0][1];
+    expect(kind).toBe(REMINDER_JOB);
+    expect(JSON.parse(payload)).toEqual({
+      bookingId: 'booking-1',
+      startTime: start.toISOString(),
+      offsetMinutes: 60,
+      baseUrl: 'https://cal.example.com',
+    });
+    expect(runAt).toBe(new Date(start.getTime() - HOUR).toISOString());
+    expect(dedupeKey).toBe(`${REMINDER_JOB}:booking-1:${start.toISOString()}:60`);
+  });
+
+  it('does nothing for a booking that is not accepted', async () => {
+    const pool = fakePool([]);
+    await scheduleBookingReminders(pool, 'booking-1', 'https://cal.example.com');
+    expect(callsMatching(pool, /^INSERT INTO jobs/)).toHaveLength(0);
+  });
+});
+
+describe('sendBookingReminder', () => {
+  const start = new Date(Date.now() + HOUR);
+  const bookingRow = {
+    status: 'accepted',
+    start_time: start,
+    end_time: new Date(start.getTime() + HOUR / 2),
+    timezone: 'Europe/London',
+    reason: 'Discuss the analytical engine',
+    requester_name: 'Ada Lovelace',
+    requester_email: 'ada@example.com',
+    meeting_type_name: null,
+    slug: 'gracepage',
+    owner_name: 'Grace Hopper',
+    owner_timezone: 'America/New_York',
+    reminder_offsets_minutes: [60],
+    notification_email_enc: 'enc',
+    notification_email_iv: 'iv',
+    notification_email_tag: 'tag',
+  };
+  const payload = {
+    bookingId: 'booking-1',
+    startTime: start.toISOString(),
+    offsetMinutes: 60,
+    baseUrl: 'https://cal.example.com',
+  };
+
+  beforeEach(() => {
+    mockReminderEmail.mockReset();
+    mockReminderEmail.mockResolvedValue(undefined);
+    mockDecrypt.mockReturnValue('grace@example.com');
+  });
+
+  it('reminds the requester and the owner, each in their own timezone', async () => {
+    const pool = fakePool([
+      [/^SELECT b\.status/, () => ({ rows: [bookingRow] })],
+      [/^INSERT INTO booking_reminders_sent/, () => ({ rowCount: 1 })],
+    ]);
+
+    await sendBookingReminder(pool, payload);
+
+    expect(mockReminderEmail).toHaveBeenCalledTimes(2);
+    expect(mockReminderEmail).toHaveBeenCalledWith(expect.objectContaining({
+      recipient: 'requester',
+      to: 'ada@example.com',
+      withName: 'Grace Hopper',
+      timezone: 'Europe/London',
+      manageUrl: expect.stringMatching(/^https:\/\/cal\.example\.com\/s\/gracepage\/manage\//),
+    }));
+    expect(mockReminderEmail).toHaveBeenCalledWith(expect.objectContaining({
+      recipient: 'owner',
+      to: 'grace@example.com',
+      withName: 'Ada Lovelace',
+      timezone: 'America/New_York',
+    }));
+  });
+
+  it('skips recipients who were already reminded', async () => {
+    const pool = fakePool([
+      [/^SELECT b\.status/, () => ({ rows: [bookingRow] })],
+      [/^INSERT INTO booking_reminders_sent/, (params) => ({ rowCount: params[3] === 'owner' ? 1 : 0 })],
+    ]);
+
+    await sendBookingReminder(pool, payload);
+
+    expect(mockReminderEmail).toHaveBeenCalledTimes(1);
+    expect(mockReminderEmail.mock.calls[0][0].recipient).toBe('owner');
+  });
+
+  it('sends nothing once the booking is cancelled, moved or the offset removed', async () => {
+    for (const row of [
+      { ...bookingRow, status: 'cancelled' },
+      { ...bookingRow, status: 'requested' },
+      { ...bookingRow, start_time: new Date(start.getTime() + HOUR) },
+      { ...bookingRow, reminder_offsets_minutes: [1440] },
+    ]) {
+      const pool = fakePool([[/^SELECT b\.status/, () => ({ rows: [row] })]]);
+      await sendBookingReminder(pool, payload);
+      expect(callsMatching(pool, /^INSERT INTO booking_reminders_sent/)).toHaveLength(0);
+    }
+    expect(mockReminderEmail).not.toHaveBeenCalled();
+  });
+
+  it('forgets a send that failed so the retry tries again', async () => {
+    mockReminderEmail.mockRejectedValueOnce(new Error('SMTP down'));
+    const pool = fakePool([
+      [/^SELECT b\.status/, () => ({ rows: [bookingRow] })],
+      [/^INSERT INTO booking_reminders_sent/, () => ({ rowCount: 1 })],
+    ]);
+
+    await expect(sendBookingReminder(pool, payload)).rejects.toThrow('SMTP down');
+    const deletes = callsMatching(pool, /^DELETE FROM booking_reminders_sent/);
+    expect(deletes).toHaveLength(1);
+    expect(deletes[0][1]).toEqual(['booking-1', start.toISOString(), 60, 'requester']);
+  });
+});
+
+describe('runDueJobs', () => {
+  function claimed(...jobs: { kind: string; attempts: number }[]) {
+    return fakePool([
+      [/^UPDATE jobs\s+SET attempts/, () => ({ rows: jobs.map((j, i) => ({ id: `job-${i}`, payload: {}, ...j })) })],
+    ]);
+  }
+
+  it('marks a job done once its handler succeeds', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    const pool = claimed({ kind: 'test', attempts: 1 });
+
+    expect(await runDueJobs(pool, { test: handler })).toBe(1);
+    expect(handler).toHaveBeenCalledWith({});
+    expect(callsMatching(pool, /^UPDATE jobs SET completed_at/)).toHaveLength(1);
+  });
+
+  it('retries a failing job later, then gives up', async () => {
+    const handler = jest.fn().mockRejectedValue(new Error('boom'));
+
+    const retrying = claimed({ kind: 'test', attempts: 2 });
+    const before = Date.now();
+    await runDueJobs(retrying, { test: handler });
+    const [retry] = callsMatching(retrying, /^UPDATE jobs SET run_at/);
+    expect(new Date(retry[1][1]).getTime()).toBeGreaterThanOrEqual(before + retryDelayMs(2));
+    expect(retry[1][2]).toBe('boom');
+
+    const exhausted = claimed({ kind: 'test', attempts: MAX_JOB_ATTEMPTS });
+    await runDueJobs(exhausted, { test: handler });
+    expect(callsMatching(exhausted, /^UPDATE jobs SET failed_at/)).toHaveLength(1);
+  });
+
+  it('fails a job of a kind nobody handles', async () => {
+    const pool = claimed({ kind: 'unknown', attempts: 1 });
+    await runDueJobs(pool, {});
+    const [retry] = callsMatching(pool, /^UPDATE jobs SET run_at/);
+    expect(retry[1][2]).toMatch(/No handler/);
+  });
+});
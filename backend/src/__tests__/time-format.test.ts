@@ -0,0 +1,143 @@
+import express from 'express';
+import request from 'supertest';
+import { pagesRouter } from '../routes/pages';
+import * as store from '../store';
+import * as calendar from '../services/calendar';
+import * as email from '../services/email';
+import {
+  formatDate,
+  formatTime,
+  formatTimeRange,
+  parseTimeFormat,
+  resolvedHourCycle,
+  timeFormatFromColumns,
+} from '../utils/timeFormat';
+import { futureSlot, initMemoryStores } from './helpers/booking';
+
+jest.mock('../services/email');
+jest.mock('../services/calendar');
+jest.mock('../db/client');
+
+const mockFetchCalendars = calendar.fetchAndParseMultipleCalendars as jest.MockedFunction<
+  typeof calendar.fetchAndParseMultipleCalendars
+>;
+const mockVerificationEmail = email.sendVerificationEmail as jest.MockedFunction<
+  typeof email.sendVerificationEmail
+>;
+
+const app = express();
+app.use(express.json());
+app.use('/api/pages', pagesRouter);
+
+const SLUG = 'timeformattestpage';
+
+// 14:05 UTC on a Monday in winter
+const AFTERNOON = new Date('2024-01-15T14:05:00Z');
+
+beforeAll(async () => {
+  initMemoryStores();
+
+  await store.pagesStore.create({
+    slug: SLUG,
+    calendarUrls: ['https://calendar.example.com/feed.ics'],
+    ownerName: 'Grace Hopper',
+    defaultDurationMinutes: 30,
+    bufferMinutes: 0,
+    dateRangeDays: 30,
+    minNoticeHours: 0,
+    includeWeekends: false,
+    availabilityStart: '09:00',
+    availabilityEnd: '17:00',
+    ownerTimezone: 'UTC',
+    createdAt: Date.now(),
+    expiresAt: null,
+  });
+});
+
+beforeEach(() => {
+  mockFetchCalendars.mockResolvedValue({ busySlots: [], stale: false });
+});
+
+describe('formatting', () => {
+  it('writes British English on a 24-hour clock by default', () => {
+    expect(formatTime(AFTERNOON, 'Europe/Paris')).toBe('15:05 CET');
+    expect(formatDate(AFTERNOON, 'Europe/Paris')).toMatch(/^Monday,? 15 January 2024$/);
+  });
+
+  it('follows the locale, and the hour cycle over the locale', () => {
+    expect(formatTime(AFTERNOON, 'America/New_York', { locale: 'en-US' })).toBe('9:05 AM EST');
+    expect(formatTime(AFTERNOON, 'Europe/Paris', { hourCycle: 'h12' })).toBe('3:05 pm CET');
+    expect(formatTime(AFTERNOON, 'America/New_York', { locale: 'en-US', hourCycle: 'h23' }))
+      .toBe('09:05 EST');
+    expect(formatDate(AFTERNOON, 'Europe/Berlin', { locale: 'de-DE' })).toBe('Montag, 15. Januar 2024');
+  });
+
+  it('shows midnight as 00 on a 24-hour clock', () => {
+    const midnight = new Date('2024-01-15T23:05:00Z');
+    expect(formatTime(midnight, 'Europe/Paris', { locale: 'en-US', hourCycle: 'h23' }))
+      .toMatch(/^00:05 /);
+  });
+
+  it('falls back to UTC for an unknown timezone', () => {
+    expect(formatTimeRange(AFTERNOON, AFTERNOON, 'Mars/Olympus')).toBe('14:05 UTC – 14:05 UTC');
+  });
+
+  it('resolves the hour cycle from the locale when unset', () => {
+    expect(resolvedHourCycle({ locale: 'en-US' })).toBe('h12');
+    expect(resolvedHourCycle({ locale: 'fr-FR' })).toBe('h23');
+    expect(resolvedHourCycle({ locale: 'en-US', hourCycle: 'h23' })).toBe('h23');
+  });
+});
+
+describe('parseTimeFormat', () => {
+  it('canonicalises locales and leaves missing parts unset', () => {
+    expect(parseTimeFormat({ locale: 'en-us', hourCycle: 'h12' })).toEqual({
+      format: { locale: 'en-US', hourCycle: 'h12' },
+    });
+    expect(parseTimeFormat({ locale: null })).toEqual({ format: {} });
+  });
+
+  it('rejects malformed locales and hour cycles', () => {
+    expect(parseTimeFormat({ locale: 'not a locale' })).toEqual({ error: 'Invalid locale.' });
+    expect(parseTimeFormat({ locale: 42 })).toHaveProperty('error');
+    expect(parseTimeFormat({ hourCycle: 'h24' })).toHaveProperty('error');
+  });
+
+  it('ignores unknown stored values', () => {
+    expect(timeFormatFromColumns(null, 'h11')).toEqual({});
+  });
+});
+
+describe('POST /api/pages/:slug/requests with a time format', () => {
+  const base = {
+    requesterName: 'Ada Lovelace',
+    requesterEmail: 'ada@example.com',
+    reason: 'Discuss the analytical engine',
+    timezone: 'UTC',
+  };
+
+  it('keeps the requester\'s format with the request and uses it for their email', async () => {
+    const slot = futureSlot(3, 10);
+    await request(app)
+      .post(`/api/pages/${SLUG}/requests`)
+      .send({ ...base, ...slot, locale: 'en-US', hourCycle: 'h23' })
+      .expect(202);
+
+    const [pending] = await store.pendingRequestsStore.listOverlapping(
+      SLUG,
+      new Date(slot.startIso),
+      new Date(slot.endIso)
+    );
+    expect(pending.timeFormat).toEqual({ locale: 'en-US', hourCycle: 'h23' });
+    expect(mockVerificationEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ timeFormat: { locale: 'en-US', hourCycle: 'h23' } })
+    );
+  });
+
+  it('rejects an unknown hour cycle', async () => {
+    const res = await request(app)
+      .post(`/api/pages/${SLUG}/requests`)
+      .send({ ...base, ...futureSlot(4, 10), hourCycle: '25h' });
+    expect(res.status).toBe(400);
+  });
+});
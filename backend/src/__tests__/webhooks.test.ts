@@ -0,0 +1,174 @@
+import axios from 'axios';
+import { createHmac } from 'crypto';
+import {
+  parseWebhook,
+  signWebhookBody,
+  emitBookingEvent,
+  deliverWebhook,
+  WEBHOOK_JOB,
+  SIGNATURE_HEADER,
+} from '../services/webhooks';
+import * as urlValidation from '../auth/url-validation';
+import { encrypt } from '../utils/encryption';
+import { callsMatching, fakePool } from './helpers/pool';
+
+jest.mock('axios');
+jest.mock('../auth/url-validation');
+
+const mockPost = axios.post as jest.MockedFunction<typeof axios.post>;
+const mockIsSafe = urlValidation.isSafeToFetch as jest.MockedFunction<
+  typeof urlValidation.isSafeToFetch
+>;
+
+const SECRET = 'f'.repeat(64);
+
+// Webhook secrets and queued bodies are always encrypted
+process.env.EMAIL_ENCRYPTION_KEY = 'a'.repeat(64);
+
+afterAll(() => {
+  delete process.env.EMAIL_ENCRYPTION_KEY;
+});
+
+describe('parseWebhook', () => {
+  it('accepts an https endpoint and dedupes its events', () => {
+    expect(parseWebhook({
+      url: ' https://hooks.example.com/calanywhere ',
+      events: ['request.created', 'request.created', 'booking.cancelled'],
+    })).toEqual({
+      webhook: {
+        url: 'https://hooks.example.com/calanywhere',
+        events: ['request.created', 'booking.cancelled'],
+      },
+    });
+  });
+
+  it('rejects plain http, missing events and unknown events', () => {
+    expect(parseWebhook({ url: 'http://hooks.example.com', events: ['request.created'] }))
+      .toHaveProperty('error');
+    expect(parseWebhook({ url: 'https://hooks.example.com', events: [] })).toHaveProperty('error');
+    expect(parseWebhook({ url: 'https://hooks.example.com', events: ['request.eaten'] }))
+      .toHaveProperty('error');
+  });
+});
+
+describe('signWebhookBody', () => {
+  it('signs the timestamp and body with the secret', () => {
+    const expected = createHmac('sha256', SECRET).update('1700000000.{"a":1}').digest('hex');
+    expect(signWebhookBody(SECRET, 1700000000, '{"a":1}')).toBe(`t=1700000000,v1=${expected}`);
+  });
+});
+
+describe('emitBookingEvent', () => {
+  const bookingRow = {
+    id: 'booking-1',
+    page_id: 'page-1',
+    status: 'accepted',
+    start_time: new Date('2030-01-07T10:00:00Z'),
+    end_time: new Date('2030-01-07T10:30:00Z'),
+    timezone: 'Europe/London',
+    requester_name: 'Ada Lovelace',
+    requester_email: 'ada@example.com',
+    reason: 'Discuss the analytical engine',
+    notes: null,
+    meeting_type_name: null,
+    slug: 'gracepage',
+    user_id: 'user-1',
+  };
+
+  it('queues one delivery per matching webhook, all for the same event', async () => {
+    const pool = fakePool([
+      [/^SELECT b\.id/, () => ({ rows: [bookingRow] })],
+      [/^SELECT id FROM webhooks/, () => ({ rows: [{ id: 'hook-1' }, { id: 'hook-2' }] })],
+      [/^INSERT INTO jobs/, () => ({ rowCount: 1 })],
+    ]);
+
+    await emitBookingEvent(pool, 'request.confirmed', 'booking-1');
+
+    const [lookup] = callsMatching(pool, /^SELECT id FROM webhooks/);
+    expect(lookup[1]).toEqual(['user-1', 'page-1', 'request.confirmed']);
+
+    const inserts = callsMatching(pool, /^INSERT INTO jobs/);
+    expect(inserts).toHaveLength(2);
+    const payloads = inserts.map(([, params]) => {
+      expect(params[0]).toBe(WEBHOOK_JOB);
+      return JSON.parse(params[1]);
+    });
+    expect(payloads.map((p) => p.webhookId)).toEqual(['hook-1', 'hook-2']);
+    expect(payloads[0].eventId).toBe(payloads[1].eventId);
+    // Requesters' details are not stored in the clear
+    expect(inserts[0][1][1]).not.toContain('ada@example.com');
+  });
+
+  it('does nothing for a page without an owner account', async () => {
+    const pool = fakePool([[/^SELECT b\.id/, () => ({ rows: [{ ...bookingRow, user_id: null }] })]]);
+    await emitBookingEvent(pool, 'request.created', 'booking-1');
+    expect(callsMatching(pool, /^INSERT INTO jobs/)).toHaveLength(0);
+  });
+});
+
+describe('deliverWebhook', () => {
+  const body = JSON.stringify({ id: 'event-1', event: 'request.created', data: {} });
+  const secret = encrypt(SECRET);
+  const payload = { webhookId: 'hook-1', eventId: 'event-1', event: 'request.created' };
+
+  function poolWithWebhook(overrides: Record<string, unknown> = {}) {
+    return fakePool([
+      [/^SELECT url/, () => ({
+        rows: [{
+          url: 'https://hooks.example.com/calanywhere',
+          secret_enc: secret.ciphertext,
+          secret_iv: secret.iv,
+          secret_tag: secret.tag,
+          is_active: true,
+          ...overrides,
+        }],
+      })],
+    ]);
+  }
+
+  beforeEach(() => {
+    mockPost.mockReset();
+    mockIsSafe.mockResolvedValue(true);
+  });
+
+  it('posts the signed body and logs the attempt', async () => {
+    mockPost.mockResolvedValue({ status: 204 });
+    const pool = poolWithWebhook();
+
+    await deliverWebhook(pool, { ...payload, body: encrypt(body) });
+
+    const [url, sent, config] = mockPost.mock.calls[0] as [string, string, any];
+    expect(url).toBe('https://hooks.example.com/calanywhere');
+    expect(sent).toBe(body);
+    expect(config.maxRedirects).toBe(0);
+    const [, t] = /^t=(\d+),/.exec(config.headers[SIGNATURE_HEADER])!;
+    expect(config.headers[SIGNATURE_HEADER]).toBe(signWebhookBody(SECRET, Number(t), body));
+
+    const [log] = callsMatching(pool, /^INSERT INTO webhook_deliveries/);
+    expect(log[1].slice(0, 5)).toEqual(['hook-1', 'event-1', 'request.created', 204, null]);
+  });
+
+  it('throws on an error status so the job is retried', async () => {
+    mockPost.mockResolvedValue({ status: 500 });
+    const pool = poolWithWebhook();
+
+    await expect(deliverWebhook(pool, { ...payload, body: encrypt(body) })).rejects.toThrow(/500/);
+    const [log] = callsMatching(pool, /^INSERT INTO webhook_deliveries/);
+    expect(log[1][3]).toBe(500);
+  });
+
+  it('refuses an endpoint that now resolves to a private address', async () => {
+    mockIsSafe.mockResolvedValue(false);
+    const pool = poolWithWebhook();
+
+    await expect(deliverWebhook(pool, { ...payload, body: encrypt(body) })).rejects.toThrow(/private/);
+    expect(mockPost).not.toHaveBeenCalled();
+    expect(callsMatching(pool, /^INSERT INTO webhook_deliveries/)).toHaveLength(1);
+  });
+
+  it('skips a webhook that was paused or removed', async () => {
+    await deliverWebhook(poolWithWebhook({ is_active: false }), { ...payload, body: encrypt(body) });
+    await deliverWebhook(fakePool([]), { ...payload, body: encrypt(body) });
+    expect(mockPost).not.toHaveBeenCalled();
+  });
+});
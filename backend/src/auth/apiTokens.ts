@@ -0,0 +1,176 @@
+import { randomBytes } from 'crypto';
+import { Pool } from 'pg';
+import { hashToken, Session } from './session';
+
+const TOKEN_BYTES = 32;
+const TOKEN_PREFIX = 'ca_pat_';
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+
+export const MAX_API_TOKENS = 10;
+export const MAX_API_TOKEN_NAME_LENGTH = 100;
+export const MAX_API_TOKEN_EXPIRY_DAYS = 365;
+
+/**
+ * What a token may do. Reading pages covers their settings, date overrides
+ * and meeting types; writing covers creating, changing and deleting them.
+ * Bookings are the requests made on a page; writing them means accepting,
+ * declining or cancelling.
+ */
+export const API_TOKEN_SCOPES = [
+  'pages:read',
+  'pages:write',
+  'bookings:read',
+  'bookings:write',
+] as const;
+
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  prefix: string; // the token's first characters, to tell tokens apart
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+export interface ApiTokenAuth {
+  session: Session;
+  tokenId: string;
+  scopes: ApiTokenScope[];
+}
+
+function apiTokenFromRow(row: any): ApiToken {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.token_prefix,
+    scopes: row.scopes,
+    expiresAt: row.expires_at ? new Date(row.expires_at).toISOString() : null,
+    lastUsedAt: row.last_used_at ? new Date(row.last_used_at).toISOString() : null,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return typeof value === 'string' && (API_TOKEN_SCOPES as readonly string[]).includes(value);
+}
+
+/**
+ * Validates a new token's name, scopes and lifetime from a request.
+ * A missing or null expiresInDays means the token never expires.
+ */
+export function parseApiToken(
+  raw: unknown
+): { token: { name: string; scopes: ApiTokenScope[]; expiresInDays: number | null } } | { error: string } {
+  const { name, scopes, expiresInDays } = (raw ?? {}) as Record<string, unknown>;
+
+  const trimmedName = typeof name === 'string' ? name.trim() : '';
+  if (trimmedName.length === 0) {
+    return { error: 'Give the token a name.' };
+  }
+  if (trimmedName.length > MAX_API_TOKEN_NAME_LENGTH) {
+    return { error: `The name must not exceed ${MAX_API_TOKEN_NAME_LENGTH} characters.` };
+  }
+
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    return { error: 'Choose at least one scope for the token.' };
+  }
+  if (!scopes.every(isApiTokenScope)) {
+    return { error: `Scopes must be among: ${API_TOKEN_SCOPES.join(', ')}.` };
+  }
+
+  const days = expiresInDays ?? null;
+  if (
+    days !== null &&
+    (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > MAX_API_TOKEN_EXPIRY_DAYS)
+  ) {
+    return { error: `Tokens can last from 1 to ${MAX_API_TOKEN_EXPIRY_DAYS} days, or never expire.` };
+  }
+
+  return { token: { name: trimmedName, scopes: [...new Set(scopes)], expiresInDays: days } };
+}
+
+/**
+ * Creates a token for a user.
+ * Returns the plain token, which is never shown again; only its hash is stored.
+ */
+export async function createApiToken(
+  pool: Pool,
+  userId: string,
+  input: { name: string; scopes: ApiTokenScope[]; expiresInDays: number | null }
+): Promise<{ token: string; apiToken: ApiToken }> {
+  const token = TOKEN_PREFIX + randomBytes(TOKEN_BYTES).toString('hex');
+  const expiresAt = input.expiresInDays === null
+    ? null
+    : new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000);
+
+  const { rows } = await pool.query(
+    `INSERT INTO api_tokens (user_id, name, token_hash, token_prefix, scopes, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING id, name, token_prefix, scopes, expires_at, last_used_at, created_at`,
+    [userId, input.name, hashToken(token), token.slice(0, DISPLAY_PREFIX_LENGTH), input.scopes, expiresAt]
+  );
+
+  return { token, apiToken: apiTokenFromRow(rows[0]) };
+}
+
+/**
+ * Validates a bearer token and records that it was used.
+ * Returns the owner's session and the token's scopes, or null.
+ */
+export async function validateApiToken(
+  pool: Pool,
+  token: string
+): Promise<ApiTokenAuth | null> {
+  if (!token.startsWith(TOKEN_PREFIX)) return null;
+
+  const { rows } = await pool.query(
+    `UPDATE api_tokens t
+     SET last_used_at = NOW()
+     FROM users u
+     WHERE t.token_hash = $1
+       AND u.id = t.user_id
+       AND (t.expires_at IS NULL OR t.expires_at > NOW())
+     RETURNING t.id, t.user_id, t.scopes, u.emoji_id, u.tier`,
+    [hashToken(token)]
+  );
+
+  if (rows.length === 0) return null;
+  return {
+    session: { userId: rows[0].user_id, emojiId: rows[0].emoji_id, tier: rows[0].tier ?? 'free' },
+    tokenId: rows[0].id,
+    scopes: rows[0].scopes,
+  };
+}
+
+/**
+ * Lists a user's tokens, newest first. Expired tokens are included so the
+ * owner can see why a script stopped working.
+ */
+export async function listApiTokens(pool: Pool, userId: string): Promise<ApiToken[]> {
+  const { rows } = await pool.query(
+    `SELECT id, name, token_prefix, scopes, expires_at, last_used_at, created_at
+     FROM api_tokens
+     WHERE user_id = $1
+     ORDER BY created_at DESC`,
+    [userId]
+  );
+  return rows.map(apiTokenFromRow);
+}
+
+/**
+ * Deletes one of a user's tokens. Returns false if they have no such token.
+ */
+export async function revokeApiToken(
+  pool: Pool,
+  userId: string,
+  tokenId: string
+): Promise<boolean> {
+  const { rowCount } = await pool.query(
+    'DELETE FROM api_tokens WHERE id = $1 AND user_id = $2',
+    [tokenId, userId]
+  );
+  return (rowCount ?? 0) > 0;
+}
@@ -1,5 +1,6 @@
 export { createAuthRouter } from './routes';
-export { requireAuth } from './middleware';
+export { requireAuth, requireScope, requireSession } from './middleware';
 export { generateUniqueEmojiId, isValidEmojiId } from './emoji-id';
 export { validateSession, purgeExpiredSessions } from './session';
 export type { Session } from './session';
+export type { ApiTokenScope } from './apiTokens';
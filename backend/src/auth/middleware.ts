@@ -1,24 +1,41 @@
 import { Request, Response, NextFunction } from 'express';
 import { Pool } from 'pg';
 import { validateSession, Session } from './session';
+import { validateApiToken, ApiTokenScope } from './apiTokens';
 
 const COOKIE_NAME = 'ca_session';
+const BEARER_RE = /^Bearer\s+(\S+)$/i;
 
 // Extend Express Request to carry session
 declare global {
   namespace Express {
     interface Request {
       session?: Session;
+      // Set when the request was made with an API token rather than the cookie
+      apiToken?: { id: string; scopes: ApiTokenScope[] };
     }
   }
 }
 
 /**
- * Middleware that requires a valid session.
- * Attaches req.session = { userId, emojiId } on success.
+ * Middleware that requires a valid session, from the session cookie or an
+ * "Authorization: Bearer" API token.
+ * Attaches req.session = { userId, emojiId } on success, and req.apiToken
+ * for a token.
  */
 export function requireAuth(pool: Pool) {
   return async (req: Request, res: Response, next: NextFunction) => {
+    const bearer = BEARER_RE.exec(req.headers?.authorization ?? '');
+    if (bearer) {
+      const auth = await validateApiToken(pool, bearer[1]);
+      if (!auth) {
+        return res.status(401).json({ error: 'Invalid or expired API token' });
+      }
+      req.session = auth.session;
+      req.apiToken = { id: auth.tokenId, scopes: auth.scopes };
+      return next();
+    }
+
     const token = req.cookies?.[COOKIE_NAME];
     if (!token) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -33,3 +50,27 @@ export function requireAuth(pool: Pool) {
     next();
   };
 }
+
+/**
+ * Middleware that lets an API token through only if it has `scope`.
+ * Signed-in owners (cookie sessions) can do everything.
+ */
+export function requireScope(scope: ApiTokenScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.apiToken && !req.apiToken.scopes.includes(scope)) {
+      return res.status(403).json({ error: `This API token does not have the "${scope}" scope.` });
+    }
+    next();
+  };
+}
+
+/**
+ * Middleware that refuses API tokens, for settings only the signed-in owner
+ * may change, such as tokens and webhooks themselves.
+ */
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  if (req.apiToken) {
+    return res.status(403).json({ error: 'This can only be done when signed in, not with an API token.' });
+  }
+  next();
+}
@@ -73,6 +73,9 @@ export async function purgeExpiredSessions(pool: Pool): Promise<void> {
   await pool.query('DELETE FROM sessions WHERE expires_at <= NOW()');
 }
 
-function hashToken(token: string): string {
+/**
+ * SHA-256 of a bearer secret, as stored for sessions and API tokens.
+ */
+export function hashToken(token: string): string {
   return createHash('sha256').update(token).digest('hex');
 }
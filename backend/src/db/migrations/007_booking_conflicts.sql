@@ -0,0 +1,6 @@
+-- Migration 007: Double-booking protection
+-- Confirmed bookings and unexpired pending requests are now subtracted from
+-- availability, so both tables are queried by page and time range.
+
+CREATE INDEX IF NOT EXISTS idx_bookings_page_time ON bookings(page_id, start_time, end_time);
+CREATE INDEX IF NOT EXISTS idx_pending_requests_page_slug ON pending_requests(page_slug);
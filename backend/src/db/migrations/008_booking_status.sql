@@ -0,0 +1,12 @@
+-- Migration 008: Booking status lifecycle
+-- A confirmed request starts as 'requested'; the page owner then accepts or
+-- declines it, and either side may later cancel. Only 'requested' and
+-- 'accepted' bookings block availability.
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'requested';
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS status_message TEXT;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE bookings ADD CONSTRAINT bookings_status_check
+  CHECK (status IN ('requested', 'accepted', 'declined', 'cancelled'));
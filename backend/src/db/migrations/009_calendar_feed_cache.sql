@@ -0,0 +1,17 @@
+-- Migration 009: Calendar feed cache
+-- Parsed busy intervals per feed, keyed by a SHA-256 of the feed URL so the
+-- URL (which usually embeds a private token) is never stored in clear.
+-- ETag and Last-Modified are kept for conditional revalidation.
+
+CREATE TABLE IF NOT EXISTS calendar_feed_cache (
+  url_hash      CHAR(64) PRIMARY KEY,
+  etag          TEXT,
+  last_modified TEXT,
+  busy_slots    JSONB NOT NULL DEFAULT '[]',
+  window_start  TIMESTAMPTZ NOT NULL,
+  window_end    TIMESTAMPTZ NOT NULL,
+  fetched_at    TIMESTAMPTZ NOT NULL,
+  expires_at    TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feed_cache_expires ON calendar_feed_cache(expires_at);
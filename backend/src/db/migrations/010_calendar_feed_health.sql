@@ -0,0 +1,7 @@
+-- Migration 010: Calendar feed health
+-- A feed that fails to download keeps serving its last good copy; these
+-- columns record when it started failing and why, for the owner's dashboard.
+-- Stale entries are now retained for 7 days so that copy is available.
+
+ALTER TABLE calendar_feed_cache ADD COLUMN IF NOT EXISTS failing_since TIMESTAMPTZ;
+ALTER TABLE calendar_feed_cache ADD COLUMN IF NOT EXISTS last_error    TEXT;
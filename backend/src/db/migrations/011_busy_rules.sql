@@ -0,0 +1,11 @@
+-- Migration 011: Per-page busy rules
+-- Lets an owner choose which calendar events block booking: all-day and
+-- tentative events can count as free, declined invitations and events whose
+-- summary matches a pattern can be ignored. Defaults keep the old behaviour.
+
+ALTER TABLE scheduling_pages ADD COLUMN IF NOT EXISTS all_day_busy    BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE scheduling_pages ADD COLUMN IF NOT EXISTS tentative_busy  BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE scheduling_pages ADD COLUMN IF NOT EXISTS ignore_declined BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Case-insensitive wildcard patterns ("*" matches any text) matched anywhere in an event's summary
+ALTER TABLE scheduling_pages ADD COLUMN IF NOT EXISTS ignore_summary_patterns TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,25 @@
+-- Migration 012: Weekly availability schedule
+-- Replaces the single availability_start/availability_end window and the
+-- include_weekends flag with any number of wall-clock ranges per weekday,
+-- in the owner's timezone. The old columns are kept in step with the
+-- schedule for older clients; a page with no ranges still uses them.
+
+CREATE TABLE IF NOT EXISTS page_availability (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  page_id UUID NOT NULL REFERENCES scheduling_pages(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6), -- 0 = Sunday
+  start_time VARCHAR(5) NOT NULL, -- HH:MM
+  end_time VARCHAR(5) NOT NULL,   -- HH:MM
+  CHECK (start_time < end_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_page_availability_page_id ON page_availability(page_id);
+
+-- Existing pages get their current window on each day it applied to
+INSERT INTO page_availability (page_id, weekday, start_time, end_time)
+SELECT sp.id, d.weekday, sp.availability_start, sp.availability_end
+FROM scheduling_pages sp
+CROSS JOIN generate_series(0, 6) AS d(weekday)
+WHERE (COALESCE(sp.include_weekends, FALSE) OR d.weekday BETWEEN 1 AND 5)
+  AND sp.availability_start < sp.availability_end
+  AND NOT EXISTS (SELECT 1 FROM page_availability pa WHERE pa.page_id = sp.id);
@@ -0,0 +1,17 @@
+-- Migration 013: Date-specific availability overrides
+-- One date or a run of dates, in the owner's timezone, whose hours replace
+-- the weekly schedule: a list of ranges for extra or different hours, or
+-- an empty list for days off. A page's overrides never overlap.
+
+CREATE TABLE IF NOT EXISTS page_date_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  page_id UUID NOT NULL REFERENCES scheduling_pages(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL, -- inclusive
+  ranges JSONB NOT NULL DEFAULT '[]', -- [{ "start": "HH:MM", "end": "HH:MM" }]; empty = unavailable
+  label VARCHAR(100), -- note for the owner, never shown to visitors
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (start_date <= end_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_page_date_overrides_page_id ON page_date_overrides(page_id, end_date);
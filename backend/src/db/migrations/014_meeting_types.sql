@@ -0,0 +1,27 @@
+-- Migration 014: Meeting types
+-- A page can offer several kinds of meeting (e.g. a 15-minute chat and a
+-- 60-minute workshop), each with its own duration, buffer and, optionally,
+-- its own weekly hours. Pages without meeting types keep booking their
+-- default duration. Requests and bookings record the type chosen, with its
+-- name copied so the record still reads correctly if the type is removed.
+
+CREATE TABLE IF NOT EXISTS meeting_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  page_id UUID NOT NULL REFERENCES scheduling_pages(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  description VARCHAR(500),
+  duration_minutes INTEGER NOT NULL CHECK (duration_minutes > 0),
+  buffer_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_minutes >= 0),
+  weekly_availability JSONB, -- NULL = the page's weekly hours
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_meeting_types_page_id ON meeting_types(page_id, position);
+
+-- No foreign key: a type removed while a request is pending must not stop
+-- the request from being confirmed
+ALTER TABLE pending_requests ADD COLUMN IF NOT EXISTS meeting_type_id UUID;
+ALTER TABLE pending_requests ADD COLUMN IF NOT EXISTS meeting_type_name VARCHAR(100);
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS meeting_type_id UUID;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS meeting_type_name VARCHAR(100);
@@ -0,0 +1,18 @@
+-- Migration 015: Separate buffers and booking caps
+-- buffer_minutes stays as the free time needed after a meeting; the new
+-- buffer_before_minutes is the free time needed before one. Both are kept
+-- clear of calendar events and of the page's other bookings. Pages can also
+-- cap how many meetings are booked per day and per week (Monday to Sunday in
+-- the owner's timezone); NULL means no limit.
+
+ALTER TABLE scheduling_pages
+  ADD COLUMN IF NOT EXISTS buffer_before_minutes INTEGER NOT NULL DEFAULT 0
+    CHECK (buffer_before_minutes >= 0),
+  ADD COLUMN IF NOT EXISTS max_bookings_per_day INTEGER
+    CHECK (max_bookings_per_day > 0),
+  ADD COLUMN IF NOT EXISTS max_bookings_per_week INTEGER
+    CHECK (max_bookings_per_week > 0);
+
+ALTER TABLE meeting_types
+  ADD COLUMN IF NOT EXISTS buffer_before_minutes INTEGER NOT NULL DEFAULT 0
+    CHECK (buffer_before_minutes >= 0);
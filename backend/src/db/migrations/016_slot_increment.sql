@@ -0,0 +1,9 @@
+-- Migration 016: Slot start increment
+-- Slots used to start every duration + buffer minutes, so a 45-minute
+-- meeting could only start at 09:00, 09:45, 10:30. A page can now offer
+-- start times every N minutes (e.g. on the quarter hour) regardless of the
+-- meeting's length. NULL keeps starting slots back to back.
+
+ALTER TABLE scheduling_pages
+  ADD COLUMN IF NOT EXISTS slot_increment_minutes INTEGER
+    CHECK (slot_increment_minutes > 0);
@@ -0,0 +1,38 @@
+-- Migration 017: Job queue and appointment reminders
+-- Scheduled work used to run only on in-process timers, which are lost on a
+-- restart and fire on every instance. Jobs are now rows with a time to run;
+-- workers claim due ones with FOR UPDATE SKIP LOCKED so each runs once, and
+-- a claim lapses (locked_until) if its worker dies part way through.
+-- The first jobs are reminder emails before accepted appointments, sent at
+-- offsets chosen per page. Sent reminders are recorded so a retried job
+-- never emails anyone twice.
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind VARCHAR(50) NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  run_at TIMESTAMPTZ NOT NULL,
+  -- Enqueuing a job with a key that already exists does nothing
+  dedupe_key VARCHAR(255) UNIQUE,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  last_error TEXT,
+  completed_at TIMESTAMPTZ,
+  failed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_due ON jobs(run_at)
+  WHERE completed_at IS NULL AND failed_at IS NULL;
+
+ALTER TABLE scheduling_pages
+  ADD COLUMN IF NOT EXISTS reminder_offsets_minutes INTEGER[] NOT NULL DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS booking_reminders_sent (
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  start_time TIMESTAMPTZ NOT NULL, -- a rescheduled booking is reminded afresh
+  offset_minutes INTEGER NOT NULL,
+  recipient VARCHAR(10) NOT NULL CHECK (recipient IN ('requester', 'owner')),
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (booking_id, start_time, offset_minutes, recipient)
+);
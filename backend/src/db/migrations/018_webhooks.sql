@@ -0,0 +1,37 @@
+-- Migration 018: Outgoing webhooks
+-- Owners can register HTTPS endpoints that receive a signed JSON POST when
+-- a booking event happens on their pages (a request is made, confirmed,
+-- declined, cancelled or moved). A webhook covers one page, or all of the
+-- owner's pages when page_id is NULL. Deliveries run on the job queue and
+-- each attempt is logged, so owners can see what their endpoint returned.
+
+CREATE TABLE IF NOT EXISTS webhooks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  page_id UUID REFERENCES scheduling_pages(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  events TEXT[] NOT NULL,
+  -- Signing secret, encrypted like notification addresses
+  secret_enc TEXT NOT NULL,
+  secret_iv VARCHAR(255) NOT NULL,
+  secret_tag VARCHAR(255) NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_user ON webhooks(user_id);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id UUID NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  event_id UUID NOT NULL, -- the same for every attempt at one event
+  event VARCHAR(50) NOT NULL,
+  attempt INTEGER NOT NULL,
+  status_code INTEGER, -- NULL if no response was received
+  error TEXT,
+  duration_ms INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook
+  ON webhook_deliveries(webhook_id, created_at DESC);
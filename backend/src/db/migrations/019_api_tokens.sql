@@ -0,0 +1,19 @@
+-- Migration 019: Personal API tokens
+-- Lets owners script the dashboard API with "Authorization: Bearer" instead
+-- of the session cookie. Like sessions, only a SHA-256 hash of each token is
+-- stored; the first characters are kept so the dashboard can tell tokens
+-- apart. Each token carries the scopes it was created with, and may expire.
+
+CREATE TABLE IF NOT EXISTS api_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  token_hash CHAR(64) NOT NULL UNIQUE,
+  token_prefix VARCHAR(16) NOT NULL,
+  scopes TEXT[] NOT NULL,
+  expires_at TIMESTAMPTZ, -- NULL = never
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_tokens_user_id ON api_tokens(user_id);
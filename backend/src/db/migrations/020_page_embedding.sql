@@ -0,0 +1,8 @@
+-- Migration 020: Embeddable booking widget
+-- Owners can let other websites show their booking page in an iframe
+-- (/embed/:slug). Off by default. embed_origins lists the sites allowed to
+-- frame it; an empty list with embedding on means any site.
+
+ALTER TABLE scheduling_pages
+  ADD COLUMN IF NOT EXISTS embed_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS embed_origins TEXT[] NOT NULL DEFAULT '{}';
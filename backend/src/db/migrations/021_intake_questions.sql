@@ -0,0 +1,11 @@
+-- Migration 021: Intake questions
+-- Owners can add their own questions to the booking form (short or long
+-- text, phone number, single or multiple choice). The questions are kept on
+-- the page in display order; answers are stored on the pending request and
+-- then the booking, with each question's label copied alongside.
+
+ALTER TABLE scheduling_pages
+  ADD COLUMN IF NOT EXISTS intake_questions JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE pending_requests ADD COLUMN IF NOT EXISTS intake_answers JSONB;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS intake_answers JSONB;
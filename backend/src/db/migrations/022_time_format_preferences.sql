@@ -0,0 +1,18 @@
+-- Migration 022: Time format preferences
+-- How dates and times are written for each reader: a locale (e.g. "en-US")
+-- and an hour cycle ('h12' or 'h23'). Users set theirs for the dashboard and
+-- the emails they receive; a requester's comes from the booking page and is
+-- kept with their request and booking for the emails they are sent. NULL
+-- follows the locale's convention, or British English without a locale.
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS locale TEXT,
+  ADD COLUMN IF NOT EXISTS hour_cycle TEXT CHECK (hour_cycle IN ('h12', 'h23'));
+
+ALTER TABLE pending_requests
+  ADD COLUMN IF NOT EXISTS locale TEXT,
+  ADD COLUMN IF NOT EXISTS hour_cycle TEXT;
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS locale TEXT,
+  ADD COLUMN IF NOT EXISTS hour_cycle TEXT;
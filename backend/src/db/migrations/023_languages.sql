@@ -0,0 +1,19 @@
+-- Migration 023: Languages
+-- The language the app, the confirmation pages and the emails are written
+-- in ('en', 'de' or 'fr'). Users choose theirs for the dashboard and the
+-- emails they receive; an owner can fix the language of a booking page,
+-- which otherwise follows each visitor's browser. A requester's is the one
+-- the booking page was shown in, kept with their request and booking for
+-- the emails they are sent. NULL means no choice was made.
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS language TEXT CHECK (language IN ('en', 'de', 'fr'));
+
+ALTER TABLE scheduling_pages
+  ADD COLUMN IF NOT EXISTS language TEXT CHECK (language IN ('en', 'de', 'fr'));
+
+ALTER TABLE pending_requests
+  ADD COLUMN IF NOT EXISTS language TEXT;
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS language TEXT;
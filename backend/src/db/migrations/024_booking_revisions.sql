@@ -0,0 +1,8 @@
+-- Migration 024: Booking revisions
+-- Counts the changes to a booking: each status change, cancellation or new
+-- time adds one. Calendar invites for the booking carry it as their
+-- SEQUENCE, so calendars apply a later invite or cancellation over an
+-- earlier one for the same appointment (RFC 5546).
+
+ALTER TABLE bookings
+  ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 0 CHECK (revision >= 0);
@@ -0,0 +1,114 @@
+import type { MessageKey } from "./en";
+
+/** German messages. */
+export const de: Record<MessageKey, string> = {
+  "email.greeting": "Hallo {name},",
+  "email.footer": "Gesendet über {app} — es wurde kein Kalendereintrag automatisch erstellt.",
+  "email.label.with": "Mit",
+  "email.label.meeting": "Termin",
+  "email.label.type": "Art",
+  "email.label.date": "Datum",
+  "email.label.time": "Uhrzeit",
+  "email.label.utc": "In UTC",
+  "email.label.name": "Name",
+  "email.label.email": "E-Mail",
+  "email.section.details": "Details der Anfrage",
+  "email.section.appointment": "Termin",
+  "email.section.requestedTime": "Angefragte Zeit",
+  "email.section.requester": "Angefragt von",
+  "email.section.from": "Von",
+  "email.section.reason": "Anlass des Termins",
+  "email.section.notes": "Weitere Hinweise",
+  "email.section.answers": "Antworten",
+  "email.section.nextSteps": "Nächste Schritte",
+  "email.section.messageFrom": "Nachricht von {name}",
+  "email.manage.button": "Verschieben oder absagen",
+  "email.manage.prompt": "Etwas ändern? Hier können Sie verschieben oder absagen:",
+
+  "email.verification.subject": "Bestätigen Sie Ihre Terminanfrage bei {owner}",
+  "email.verification.heading": "Anfrage bestätigen",
+  "email.verification.prompt": "Bitte bestätigen Sie Ihre Terminanfrage über den folgenden Link:",
+  "email.verification.lead":
+    "Hallo {requester}, Sie haben einen Termin bei {owner} angefragt. Bitte bestätigen Sie unten, um Ihre Anfrage abzuschicken.",
+  "email.verification.button": "Terminanfrage bestätigen",
+  "email.verification.expiry":
+    "Dieser Link ist 1 Stunde gültig und kann nur einmal verwendet werden. Wenn Sie diese Anfrage nicht gestellt haben, können Sie diese E-Mail ignorieren.",
+
+  "email.request.subject": "Terminanfrage von {requester}: {date}",
+  "email.request.heading": "Neue Terminanfrage",
+  "email.request.intro": "Sie haben eine neue Terminanfrage über CalAnywhere erhalten.",
+  "email.request.lead": "{requester} möchte sich mit Ihnen treffen.",
+  "email.request.stepDecide": "Nehmen Sie die Anfrage in Ihrem Dashboard an oder lehnen Sie sie ab.",
+  "email.request.stepCheckTime": "Prüfen Sie, ob die Zeit in Ihrem Kalender noch frei ist.",
+  "email.request.stepCreateEvent": "Legen Sie einen Termin für die vereinbarte Zeit an.",
+  "email.request.stepReply": "Antworten Sie an {email}, um zu bestätigen oder eine andere Zeit vorzuschlagen.",
+
+  "email.status.accepted.subject": "Ihr Termin bei {owner} ist bestätigt",
+  "email.status.accepted.heading": "Termin angenommen",
+  "email.status.accepted.lead": "{owner} hat Ihre Terminanfrage angenommen.",
+  "email.status.declined.subject": "Ihre Terminanfrage bei {owner} wurde abgelehnt",
+  "email.status.declined.heading": "Anfrage abgelehnt",
+  "email.status.declined.lead": "{owner} kann zur angefragten Zeit leider nicht.",
+  "email.status.cancelled.subject": "Ihr Termin bei {owner} wurde abgesagt",
+  "email.status.cancelled.heading": "Termin abgesagt",
+  "email.status.cancelled.lead": "{owner} hat diesen Termin abgesagt.",
+
+  "email.invite.summary": "{requester} und {owner}",
+  "email.invite.subject": "Kalendereinladung: {requester}, {date}",
+  "email.invite.lead":
+    "Sie haben die Anfrage von {requester} angenommen. Öffnen Sie den Anhang, um den Termin in Ihren Kalender einzutragen.",
+  "email.invite.cancelledSubject": "Abgesagt: {requester}, {date}",
+  "email.invite.cancelledLead":
+    "Sie haben Ihren Termin mit {requester} abgesagt. Öffnen Sie den Anhang, um ihn aus Ihrem Kalender zu entfernen.",
+
+  "email.requestSent.subject": "Ihre Terminanfrage an {owner} wurde gesendet",
+  "email.requestSent.heading": "Anfrage gesendet",
+  "email.requestSent.lead":
+    "Ihre Anfrage wurde an {owner} gesendet. Sie erhalten eine E-Mail, sobald {ownerFirst} sie annimmt oder ablehnt.",
+  "email.requestSent.keep":
+    "Bewahren Sie diese E-Mail auf: Jeder mit diesem Link kann Ihre Anfrage ändern.",
+
+  "email.change.rescheduled.subject": "{requester} möchte Ihren Termin auf {date} verschieben",
+  "email.change.rescheduled.heading": "Neue Zeit angefragt",
+  "email.change.rescheduled.lead":
+    "{requester} hat eine neue Zeit angefragt. Die Anfrage wartet darauf, dass Sie sie erneut annehmen oder ablehnen.",
+  "email.change.cancelled.subject": "{requester} hat Ihren Termin am {date} abgesagt",
+  "email.change.cancelled.heading": "Termin abgesagt",
+  "email.change.cancelled.lead": "{requester} hat den Termin abgesagt, die Zeit ist wieder frei.",
+  "email.change.newTime": "Neue Zeit",
+  "email.change.cancelledTime": "Abgesagte Zeit",
+  "email.change.previousTime": "Bisherige Zeit",
+  "email.change.decidePrompt": "Die neue Zeit annehmen oder ablehnen:",
+  "email.change.decideButton": "Annehmen oder ablehnen",
+
+  "email.withdrawn.cancelledSubject": "Abgesagt: Ihr Termin mit {owner}, {date}",
+  "email.withdrawn.cancelledLead":
+    "Sie haben Ihren Termin mit {owner} abgesagt. Öffnen Sie den Anhang, um ihn aus Ihrem Kalender zu entfernen.",
+  "email.withdrawn.rescheduledSubject": "Neue Zeit angefragt: Ihr Termin mit {owner}",
+  "email.withdrawn.rescheduledLead":
+    "Sie haben {owner} um eine neue Zeit gebeten. Öffnen Sie den Anhang, um die bisherige Zeit aus Ihrem Kalender zu entfernen. Eine Einladung für die neue Zeit erhalten Sie, sobald {ownerFirst} sie annimmt.",
+
+  "email.reminder.subject": "Erinnerung: {with}, {date} um {time}",
+  "email.reminder.heading": "Terminerinnerung",
+  "email.reminder.lead": "Dies ist eine Erinnerung an Ihren Termin mit {with}.",
+  "email.reminder.managePrompt": "Sie können doch nicht? Hier können Sie verschieben oder absagen:",
+
+  "confirm.expired.title": "Link abgelaufen",
+  "confirm.expired.heading": "Dieser Link ist abgelaufen oder wurde bereits verwendet.",
+  "confirm.expired.body": "Bestätigungslinks sind 1 Stunde gültig und können nur einmal verwendet werden.",
+  "confirm.pageExpired.title": "Seite abgelaufen",
+  "confirm.pageExpired.heading": "Die Terminseite ist abgelaufen.",
+  "confirm.pageExpired.body": "Der Terminlink dieser Person ist nicht mehr aktiv.",
+  "confirm.taken.title": "Zeit nicht mehr verfügbar",
+  "confirm.taken.heading": "Diese Zeit wurde leider gerade vergeben.",
+  "confirm.taken.body":
+    "Jemand anderes hat diese Zeit vor Ihnen bestätigt. Bitte kehren Sie zur Terminseite zurück und wählen Sie eine andere Zeit.",
+  "confirm.sent.title": "Anfrage bestätigt",
+  "confirm.sent.heading": "Ihre Terminanfrage wurde gesendet!",
+  "confirm.sent.body": "{owner} erhält Ihre Anfrage und antwortet Ihnen per E-Mail.",
+  "confirm.error.title": "Fehler",
+  "confirm.error.heading": "Etwas ist schiefgelaufen.",
+  "confirm.error.body":
+    "Die Terminanfrage konnte gerade nicht gesendet werden. Bitte versuchen Sie es später erneut.",
+  "confirm.manageLink": "Verschieben oder absagen",
+};
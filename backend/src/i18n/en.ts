@@ -0,0 +1,126 @@
+/**
+ * English messages: the source catalogue every other language translates.
+ * Placeholders in braces are filled in when the message is used.
+ */
+export const en = {
+  // Shared by the emails
+  "email.greeting": "Hi {name},",
+  "email.footer": "Sent via {app} — no calendar event has been created automatically.",
+  "email.label.with": "With",
+  "email.label.meeting": "Meeting",
+  "email.label.type": "Type",
+  "email.label.date": "Date",
+  "email.label.time": "Time",
+  "email.label.utc": "UTC reference",
+  "email.label.name": "Name",
+  "email.label.email": "Email",
+  "email.section.details": "Request details",
+  "email.section.appointment": "Appointment",
+  "email.section.requestedTime": "Requested time",
+  "email.section.requester": "Requester",
+  "email.section.from": "From",
+  "email.section.reason": "Reason for meeting",
+  "email.section.notes": "Additional notes",
+  "email.section.answers": "Answers",
+  "email.section.nextSteps": "Next steps",
+  "email.section.messageFrom": "Message from {name}",
+  "email.manage.button": "Reschedule or cancel",
+  "email.manage.prompt": "Need to change it? Reschedule or cancel here:",
+
+  // To the requester, before their request is sent
+  "email.verification.subject": "Confirm your appointment request with {owner}",
+  "email.verification.heading": "Confirm your request",
+  "email.verification.prompt": "Please confirm your appointment request by clicking the link below:",
+  "email.verification.lead":
+    "Hi {requester}, you requested an appointment with {owner}. Please confirm below to send your request.",
+  "email.verification.button": "Confirm appointment request",
+  "email.verification.expiry":
+    "This link expires in 1 hour and can only be used once. If you did not make this request, you can safely ignore this email.",
+
+  // To the owner, for a new request
+  "email.request.subject": "Appointment request from {requester}: {date}",
+  "email.request.heading": "New appointment request",
+  "email.request.intro": "You have a new appointment request via CalAnywhere.",
+  "email.request.lead": "{requester} wants to meet with you.",
+  "email.request.stepDecide": "Accept or decline the request from your dashboard.",
+  "email.request.stepCheckTime": "Check the time is still available in your calendar.",
+  "email.request.stepCreateEvent": "Create an event for the agreed slot.",
+  "email.request.stepReply": "Reply to {email} to confirm or suggest alternatives.",
+
+  // To the requester, when the owner answers
+  "email.status.accepted.subject": "Your appointment with {owner} is confirmed",
+  "email.status.accepted.heading": "Appointment accepted",
+  "email.status.accepted.lead": "{owner} has accepted your appointment request.",
+  "email.status.declined.subject": "Your appointment request with {owner} was declined",
+  "email.status.declined.heading": "Request declined",
+  "email.status.declined.lead": "{owner} is unable to meet at the time you requested.",
+  "email.status.cancelled.subject": "Your appointment with {owner} has been cancelled",
+  "email.status.cancelled.heading": "Appointment cancelled",
+  "email.status.cancelled.lead": "{owner} has cancelled this appointment.",
+
+  // The owner's copy of the calendar invite
+  "email.invite.summary": "{requester} and {owner}",
+  "email.invite.subject": "Calendar invite: {requester}, {date}",
+  "email.invite.lead":
+    "You accepted {requester}'s request. Open the attachment to add it to your calendar.",
+  "email.invite.cancelledSubject": "Cancelled: {requester}, {date}",
+  "email.invite.cancelledLead":
+    "You cancelled your appointment with {requester}. Open the attachment to remove it from your calendar.",
+
+  // To the requester, once they have confirmed
+  "email.requestSent.subject": "Your appointment request to {owner} has been sent",
+  "email.requestSent.heading": "Request sent",
+  "email.requestSent.lead":
+    "Your request has been sent to {owner}. You will hear back by email once {ownerFirst} accepts or declines it.",
+  "email.requestSent.keep": "Keep this email: anyone with the link can change your request.",
+
+  // To the owner, when the requester changes a booking
+  "email.change.rescheduled.subject": "{requester} asked to move your appointment to {date}",
+  "email.change.rescheduled.heading": "New time requested",
+  "email.change.rescheduled.lead":
+    "{requester} has asked for a new time. The request is waiting for you to accept or decline it again.",
+  "email.change.cancelled.subject": "{requester} cancelled your appointment on {date}",
+  "email.change.cancelled.heading": "Appointment cancelled",
+  "email.change.cancelled.lead":
+    "{requester} has cancelled the appointment, and the time is free again.",
+  "email.change.newTime": "New time",
+  "email.change.cancelledTime": "Cancelled time",
+  "email.change.previousTime": "Previous time",
+  "email.change.decidePrompt": "Accept or decline the new time:",
+  "email.change.decideButton": "Accept or decline",
+
+  // To the requester, when they cancel or move an accepted appointment
+  "email.withdrawn.cancelledSubject": "Cancelled: your appointment with {owner}, {date}",
+  "email.withdrawn.cancelledLead":
+    "You cancelled your appointment with {owner}. Open the attachment to remove it from your calendar.",
+  "email.withdrawn.rescheduledSubject": "New time requested: your appointment with {owner}",
+  "email.withdrawn.rescheduledLead":
+    "You asked {owner} for a new time. Open the attachment to remove the previous time from your calendar; you will get an invite for the new time once {ownerFirst} accepts it.",
+
+  // To either side, before an accepted appointment
+  "email.reminder.subject": "Reminder: {with}, {date} at {time}",
+  "email.reminder.heading": "Appointment reminder",
+  "email.reminder.lead": "This is a reminder of your appointment with {with}.",
+  "email.reminder.managePrompt": "Can no longer make it? Reschedule or cancel here:",
+
+  // The page shown after following the confirmation link
+  "confirm.expired.title": "Link Expired",
+  "confirm.expired.heading": "This link has expired or has already been used.",
+  "confirm.expired.body": "Confirmation links are valid for 1 hour and can only be used once.",
+  "confirm.pageExpired.title": "Page Expired",
+  "confirm.pageExpired.heading": "The scheduling page has expired.",
+  "confirm.pageExpired.body": "The calendar owner’s scheduling link is no longer active.",
+  "confirm.taken.title": "Time No Longer Available",
+  "confirm.taken.heading": "Sorry, that time has just been taken.",
+  "confirm.taken.body":
+    "Someone else confirmed this slot before you. Please go back to the scheduling page and choose another time.",
+  "confirm.sent.title": "Request Confirmed",
+  "confirm.sent.heading": "Your appointment request has been sent!",
+  "confirm.sent.body": "{owner} will receive your request and respond to you by email.",
+  "confirm.error.title": "Error",
+  "confirm.error.heading": "Something went wrong.",
+  "confirm.error.body": "We could not send the appointment request right now. Please try again later.",
+  "confirm.manageLink": "Reschedule or cancel",
+};
+
+export type MessageKey = keyof typeof en;
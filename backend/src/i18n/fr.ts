@@ -0,0 +1,114 @@
+import type { MessageKey } from "./en";
+
+/** French messages. */
+export const fr: Record<MessageKey, string> = {
+  "email.greeting": "Bonjour {name},",
+  "email.footer": "Envoyé via {app} — aucun événement n’a été ajouté automatiquement à un agenda.",
+  "email.label.with": "Avec",
+  "email.label.meeting": "Rendez-vous",
+  "email.label.type": "Type",
+  "email.label.date": "Date",
+  "email.label.time": "Heure",
+  "email.label.utc": "En UTC",
+  "email.label.name": "Nom",
+  "email.label.email": "E-mail",
+  "email.section.details": "Détails de la demande",
+  "email.section.appointment": "Rendez-vous",
+  "email.section.requestedTime": "Créneau demandé",
+  "email.section.requester": "Demandeur",
+  "email.section.from": "De",
+  "email.section.reason": "Objet du rendez-vous",
+  "email.section.notes": "Remarques",
+  "email.section.answers": "Réponses",
+  "email.section.nextSteps": "Étapes suivantes",
+  "email.section.messageFrom": "Message de {name}",
+  "email.manage.button": "Déplacer ou annuler",
+  "email.manage.prompt": "Un changement ? Déplacez ou annulez ici :",
+
+  "email.verification.subject": "Confirmez votre demande de rendez-vous avec {owner}",
+  "email.verification.heading": "Confirmez votre demande",
+  "email.verification.prompt": "Veuillez confirmer votre demande de rendez-vous en cliquant sur le lien ci-dessous :",
+  "email.verification.lead":
+    "Bonjour {requester}, vous avez demandé un rendez-vous avec {owner}. Confirmez ci-dessous pour envoyer votre demande.",
+  "email.verification.button": "Confirmer la demande de rendez-vous",
+  "email.verification.expiry":
+    "Ce lien expire dans 1 heure et ne peut être utilisé qu’une fois. Si vous n’êtes pas à l’origine de cette demande, vous pouvez ignorer cet e-mail.",
+
+  "email.request.subject": "Demande de rendez-vous de {requester} : {date}",
+  "email.request.heading": "Nouvelle demande de rendez-vous",
+  "email.request.intro": "Vous avez reçu une nouvelle demande de rendez-vous via CalAnywhere.",
+  "email.request.lead": "{requester} souhaite vous rencontrer.",
+  "email.request.stepDecide": "Acceptez ou refusez la demande depuis votre tableau de bord.",
+  "email.request.stepCheckTime": "Vérifiez que le créneau est toujours libre dans votre agenda.",
+  "email.request.stepCreateEvent": "Créez un événement pour le créneau convenu.",
+  "email.request.stepReply": "Répondez à {email} pour confirmer ou proposer un autre créneau.",
+
+  "email.status.accepted.subject": "Votre rendez-vous avec {owner} est confirmé",
+  "email.status.accepted.heading": "Rendez-vous accepté",
+  "email.status.accepted.lead": "{owner} a accepté votre demande de rendez-vous.",
+  "email.status.declined.subject": "Votre demande de rendez-vous avec {owner} a été refusée",
+  "email.status.declined.heading": "Demande refusée",
+  "email.status.declined.lead": "{owner} n’est pas disponible au créneau demandé.",
+  "email.status.cancelled.subject": "Votre rendez-vous avec {owner} a été annulé",
+  "email.status.cancelled.heading": "Rendez-vous annulé",
+  "email.status.cancelled.lead": "{owner} a annulé ce rendez-vous.",
+
+  "email.invite.summary": "{requester} et {owner}",
+  "email.invite.subject": "Invitation : {requester}, {date}",
+  "email.invite.lead":
+    "Vous avez accepté la demande de {requester}. Ouvrez la pièce jointe pour l’ajouter à votre agenda.",
+  "email.invite.cancelledSubject": "Annulé : {requester}, {date}",
+  "email.invite.cancelledLead":
+    "Vous avez annulé votre rendez-vous avec {requester}. Ouvrez la pièce jointe pour le retirer de votre agenda.",
+
+  "email.requestSent.subject": "Votre demande de rendez-vous à {owner} a été envoyée",
+  "email.requestSent.heading": "Demande envoyée",
+  "email.requestSent.lead":
+    "Votre demande a été envoyée à {owner}. Vous recevrez un e-mail dès que {ownerFirst} l’aura acceptée ou refusée.",
+  "email.requestSent.keep":
+    "Conservez cet e-mail : toute personne disposant du lien peut modifier votre demande.",
+
+  "email.change.rescheduled.subject": "{requester} souhaite déplacer votre rendez-vous au {date}",
+  "email.change.rescheduled.heading": "Nouveau créneau demandé",
+  "email.change.rescheduled.lead":
+    "{requester} a demandé un nouveau créneau. La demande attend que vous l’acceptiez ou la refusiez à nouveau.",
+  "email.change.cancelled.subject": "{requester} a annulé votre rendez-vous du {date}",
+  "email.change.cancelled.heading": "Rendez-vous annulé",
+  "email.change.cancelled.lead": "{requester} a annulé le rendez-vous, le créneau est de nouveau libre.",
+  "email.change.newTime": "Nouveau créneau",
+  "email.change.cancelledTime": "Créneau annulé",
+  "email.change.previousTime": "Créneau précédent",
+  "email.change.decidePrompt": "Acceptez ou refusez le nouveau créneau :",
+  "email.change.decideButton": "Accepter ou refuser",
+
+  "email.withdrawn.cancelledSubject": "Annulé : votre rendez-vous avec {owner}, {date}",
+  "email.withdrawn.cancelledLead":
+    "Vous avez annulé votre rendez-vous avec {owner}. Ouvrez la pièce jointe pour le retirer de votre agenda.",
+  "email.withdrawn.rescheduledSubject": "Nouveau créneau demandé : votre rendez-vous avec {owner}",
+  "email.withdrawn.rescheduledLead":
+    "Vous avez demandé un nouveau créneau à {owner}. Ouvrez la pièce jointe pour retirer le créneau précédent de votre agenda. Vous recevrez une invitation pour le nouveau créneau dès que {ownerFirst} l’aura accepté.",
+
+  "email.reminder.subject": "Rappel : {with}, {date} à {time}",
+  "email.reminder.heading": "Rappel de rendez-vous",
+  "email.reminder.lead": "Ceci est un rappel de votre rendez-vous avec {with}.",
+  "email.reminder.managePrompt": "Vous ne pouvez plus venir ? Déplacez ou annulez ici :",
+
+  "confirm.expired.title": "Lien expiré",
+  "confirm.expired.heading": "Ce lien a expiré ou a déjà été utilisé.",
+  "confirm.expired.body": "Les liens de confirmation sont valables 1 heure et ne peuvent être utilisés qu’une fois.",
+  "confirm.pageExpired.title": "Page expirée",
+  "confirm.pageExpired.heading": "La page de rendez-vous a expiré.",
+  "confirm.pageExpired.body": "Le lien de prise de rendez-vous de cette personne n’est plus actif.",
+  "confirm.taken.title": "Créneau indisponible",
+  "confirm.taken.heading": "Désolé, ce créneau vient d’être pris.",
+  "confirm.taken.body":
+    "Quelqu’un a confirmé ce créneau avant vous. Revenez à la page de rendez-vous et choisissez un autre créneau.",
+  "confirm.sent.title": "Demande confirmée",
+  "confirm.sent.heading": "Votre demande de rendez-vous a été envoyée !",
+  "confirm.sent.body": "{owner} recevra votre demande et vous répondra par e-mail.",
+  "confirm.error.title": "Erreur",
+  "confirm.error.heading": "Une erreur est survenue.",
+  "confirm.error.body":
+    "Nous n’avons pas pu envoyer la demande de rendez-vous. Veuillez réessayer plus tard.",
+  "confirm.manageLink": "Déplacer ou annuler",
+};
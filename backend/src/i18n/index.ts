@@ -0,0 +1,100 @@
+/**
+ * Translations for the text the server writes itself: the emails and the
+ * pages shown after following a confirmation link. The React app has its
+ * own catalogues in frontend/src/i18n, for the same languages.
+ *
+ * English (./en) is the source catalogue. The others have to translate
+ * every key, which the compiler checks.
+ */
+
+import type { Request } from "express";
+import { en, MessageKey } from "./en";
+import { de } from "./de";
+import { fr } from "./fr";
+
+export type { MessageKey } from "./en";
+
+export const LANGUAGES = ["en", "de", "fr"] as const;
+export type Language = (typeof LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+const CATALOGUES: Record<Language, Record<MessageKey, string>> = { en, de, fr };
+
+export type MessageParams = Record<string, string | number>;
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === "string" && (LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * Reads a language from a request body. Null or a missing value means none
+ * was chosen.
+ */
+export function parseLanguage(value: unknown): { language: Language | null } | { error: string } {
+  if (value === undefined || value === null) return { language: null };
+  if (!isLanguage(value)) {
+    return { error: `language must be one of ${LANGUAGES.join(", ")}.` };
+  }
+  return { language: value };
+}
+
+/** A stored language, as read from a database column. */
+export function languageFromColumn(value: unknown): Language | undefined {
+  return isLanguage(value) ? value : undefined;
+}
+
+/**
+ * The best language for a request by its Accept-Language header, or the
+ * default when it asks for none we have. "de-AT" is answered in German.
+ */
+export function negotiateLanguage(req: Request): Language {
+  const match = req.acceptsLanguages(...LANGUAGES);
+  return isLanguage(match) ? match : DEFAULT_LANGUAGE;
+}
+
+// Fills {name} placeholders; `fill` decides how each piece is written
+function interpolate(
+  template: string,
+  params: MessageParams,
+  fill: (text: string, isParam: boolean) => string
+): string {
+  return template
+    .split(/(\{\w+\})/)
+    .map((part) => {
+      const name = /^\{(\w+)\}$/.exec(part)?.[1];
+      if (name !== undefined && name in params) return fill(String(params[name]), true);
+      return fill(part, false);
+    })
+    .join("");
+}
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export interface Translator {
+  language: Language;
+  /** A message as plain text. */
+  t: (key: MessageKey, params?: MessageParams) => string;
+  /**
+   * A message for HTML: its own text is escaped, and the params are
+   * inserted as they are, so they must already be HTML.
+   */
+  tHtml: (key: MessageKey, params?: MessageParams) => string;
+}
+
+export function translator(language: Language = DEFAULT_LANGUAGE): Translator {
+  const catalogue = CATALOGUES[language] ?? CATALOGUES[DEFAULT_LANGUAGE];
+  return {
+    language,
+    t: (key, params = {}) => interpolate(catalogue[key], params, (text) => text),
+    tHtml: (key, params = {}) =>
+      interpolate(catalogue[key], params, (text, isParam) => (isParam ? text : escapeHtml(text))),
+  };
+}
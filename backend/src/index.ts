@@ -10,6 +10,12 @@ import { createAdminRouter } from "./routes/admin";
 import { initDatabase, getPool } from "./db/client";
 import { runMigrations } from "./db/migrate";
 import { initStores } from "./store";
+import { startJobWorker } from "./services/jobs";
+import { REMINDER_JOB, sendBookingReminder } from "./services/reminders";
+import { EMAIL_JOB } from "./services/emailOutbox";
+import { sendQueuedEmail } from "./services/email";
+import { WEBHOOK_JOB, deliverWebhook } from "./services/webhooks";
+import { openApiDocument } from "./openapi";
 
 const app = express();
 const port = process.env.PORT || 4000;
@@ -41,6 +47,13 @@ app.get("/api/health", (_req, res) => {
   res.json({ status: "ok" });
 });
 
+/**
+ * GET /api/openapi.json — describes the API that personal API tokens can use.
+ */
+app.get("/api/openapi.json", (_req, res) => {
+  res.json(openApiDocument);
+});
+
 /**
  * GET /api/config — public endpoint consumed by the frontend on load.
  * Returns feature flags that affect UI rendering (e.g. signupsEnabled).
@@ -91,6 +104,15 @@ async function start() {
 
   initStores();
 
+  // Queued emails, reminders and webhooks need the database's job queue
+  if (pool) {
+    startJobWorker(pool, {
+      [EMAIL_JOB]: sendQueuedEmail,
+      [REMINDER_JOB]: (payload) => sendBookingReminder(pool, payload),
+      [WEBHOOK_JOB]: (payload) => deliverWebhook(pool, payload),
+    });
+  }
+
   app.listen(port, () => {
     // eslint-disable-next-line no-console
     console.log(`CalAnywhere backend listening on port ${port}`);
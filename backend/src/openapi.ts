@@ -0,0 +1,593 @@
+/**
+ * OpenAPI description of the public API, served at /api/openapi.json.
+ *
+ * Covers what scripts need: the owner's pages, date overrides, meeting types
+ * and bookings under /api/dashboard (with a personal API token or the session cookie), and
+ * a page's public details and free slots under /api/pages. Update it with the
+ * routes it describes.
+ */
+
+import { API_TOKEN_SCOPES } from "./auth/apiTokens";
+import { LANGUAGES } from "./i18n";
+import { MAX_SUMMARY_PATTERN_LENGTH, MAX_SUMMARY_PATTERNS } from "./services/busyRules";
+import {
+  MAX_MEETING_BUFFER_MINUTES,
+  MAX_MEETING_DURATION_MINUTES,
+  MAX_MEETING_TYPE_DESCRIPTION_LENGTH,
+  MAX_MEETING_TYPE_NAME_LENGTH
+} from "./services/meetingTypes";
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } }
+});
+
+const json = (schema: object) => ({ "application/json": { schema } });
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+// Dashboard operations accept a token with `scope`, or the signed-in owner's cookie
+const secured = (scope: string) => ({
+  security: [{ bearerAuth: [scope] }, { cookieAuth: [] }],
+  "x-required-scope": scope
+});
+
+const authErrors = {
+  401: errorResponse("Missing, invalid or expired credentials."),
+  403: errorResponse("The API token does not have the required scope.")
+};
+
+const pageIdParam = {
+  name: "id",
+  in: "path",
+  required: true,
+  description: "The page's id (from GET /api/dashboard/pages).",
+  schema: { type: "string", format: "uuid" }
+};
+
+const slugParam = {
+  name: "slug",
+  in: "path",
+  required: true,
+  description: "The page's public slug, as in /s/{slug}.",
+  schema: { type: "string" }
+};
+
+const timeRange = {
+  type: "object",
+  required: ["weekday", "start", "end"],
+  properties: {
+    weekday: { type: "integer", minimum: 0, maximum: 6, description: "0 = Sunday" },
+    start: { type: "string", example: "09:00" },
+    end: { type: "string", example: "17:00" }
+  }
+};
+
+// Page settings that can be written as well as read
+const pageSettings = {
+  title: { type: "string", maxLength: 100, nullable: true },
+  ownerName: { type: "string", minLength: 2, maxLength: 100 },
+  bio: { type: "string", maxLength: 200, nullable: true },
+  calendarUrls: { type: "array", items: { type: "string", format: "uri" } },
+  defaultDurationMinutes: { type: "integer" },
+  bufferMinutes: { type: "integer", minimum: 0, maximum: 240, description: "Free time kept after each meeting." },
+  bufferBeforeMinutes: {
+    type: "integer",
+    minimum: 0,
+    maximum: 240,
+    description: "Free time kept before each meeting."
+  },
+  maxBookingsPerDay: { type: "integer", nullable: true },
+  maxBookingsPerWeek: { type: "integer", nullable: true },
+  slotIncrementMinutes: {
+    type: "integer",
+    nullable: true,
+    description: "Minutes between slot start times; null for back to back."
+  },
+  reminderOffsetsMinutes: {
+    type: "array",
+    items: { type: "integer" },
+    maxItems: 3,
+    description: "Reminder emails, in minutes before each accepted appointment."
+  },
+  dateRangeDays: { type: "integer", maximum: 180 },
+  minNoticeHours: { type: "integer" },
+  ownerTimezone: { type: "string", example: "Europe/London" },
+  weeklyAvailability: { type: "array", items: ref("TimeRange") },
+  intakeQuestions: {
+    type: "array",
+    maxItems: 10,
+    description: "Questions asked on the booking form after the fixed fields, in order.",
+    items: ref("IntakeQuestion")
+  },
+  busyRules: {
+    type: "object",
+    description:
+      "Which calendar events block time. Only when updating; flags left out keep their current value.",
+    properties: {
+      allDayBusy: { type: "boolean", description: "All-day events block the whole day." },
+      tentativeBusy: { type: "boolean", description: "Tentative events and \"maybe\" replies block time." },
+      ignoreDeclined: { type: "boolean", description: "Invitations the owner declined are free." },
+      ignoreSummaries: {
+        type: "array",
+        items: { type: "string", maxLength: MAX_SUMMARY_PATTERN_LENGTH, example: "Focus*" },
+        maxItems: MAX_SUMMARY_PATTERNS,
+        description: "Events whose summary matches one of these patterns are free; \"*\" matches any text."
+      }
+    }
+  },
+  embed: {
+    type: "object",
+    description: "Whether other websites may embed the booking page, and which.",
+    properties: {
+      enabled: { type: "boolean" },
+      origins: {
+        type: "array",
+        items: { type: "string", example: "https://www.example.com" },
+        maxItems: 10,
+        description: "Sites allowed to embed the page; empty for any site."
+      }
+    }
+  },
+  language: {
+    type: "string",
+    enum: [...LANGUAGES],
+    nullable: true,
+    description: "The booking page's language; null to follow each visitor's browser."
+  }
+};
+
+export const openApiDocument = {
+  openapi: "3.0.3",
+  info: {
+    title: "CalAnywhere API",
+    version: "1.0.0",
+    description:
+      "Manage scheduling pages and their booking requests. Create a personal API token " +
+      "on the dashboard and send it as `Authorization: Bearer <token>`. Each token has " +
+      `scopes (${API_TOKEN_SCOPES.join(", ")}); operations list the one they need.`
+  },
+  servers: [{ url: "/" }],
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: "http", scheme: "bearer", description: "A personal API token." },
+      cookieAuth: { type: "apiKey", in: "cookie", name: "ca_session" }
+    },
+    schemas: {
+      Error: {
+        type: "object",
+        required: ["error"],
+        properties: { error: { type: "string" } }
+      },
+      TimeRange: timeRange,
+      Page: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid" },
+          slug: { type: "string" },
+          ...pageSettings,
+          hasNotificationEmail: { type: "boolean" },
+          isActive: { type: "boolean" },
+          createdAt: { type: "string", format: "date-time" },
+          expiresAt: { type: "string", format: "date-time", nullable: true }
+        }
+      },
+      PageInput: {
+        type: "object",
+        properties: {
+          ...pageSettings,
+          notificationEmail: {
+            type: "string",
+            format: "email",
+            nullable: true,
+            description: "Where new requests are emailed; null to stop."
+          },
+          expiryDays: { type: "integer", nullable: true, description: "Only when creating." }
+        }
+      },
+      DateOverride: {
+        type: "object",
+        required: ["startDate"],
+        properties: {
+          id: { type: "string", format: "uuid", readOnly: true },
+          startDate: { type: "string", format: "date" },
+          endDate: { type: "string", format: "date", description: "Defaults to startDate." },
+          ranges: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { start: { type: "string", example: "10:00" }, end: { type: "string", example: "14:00" } }
+            },
+            description: "Hours available on these dates; empty for a day off."
+          },
+          label: { type: "string", nullable: true }
+        }
+      },
+      MeetingType: {
+        type: "object",
+        required: ["name", "durationMinutes"],
+        properties: {
+          id: { type: "string", format: "uuid", readOnly: true },
+          name: { type: "string", maxLength: MAX_MEETING_TYPE_NAME_LENGTH },
+          description: { type: "string", maxLength: MAX_MEETING_TYPE_DESCRIPTION_LENGTH, nullable: true },
+          durationMinutes: { type: "integer", minimum: 5, maximum: MAX_MEETING_DURATION_MINUTES },
+          bufferMinutes: {
+            type: "integer",
+            minimum: 0,
+            maximum: MAX_MEETING_BUFFER_MINUTES,
+            description: "Free time kept after each meeting; defaults to 0."
+          },
+          bufferBeforeMinutes: {
+            type: "integer",
+            minimum: 0,
+            maximum: MAX_MEETING_BUFFER_MINUTES,
+            description: "Free time kept before each meeting; defaults to 0."
+          },
+          weeklyAvailability: {
+            type: "array",
+            items: ref("TimeRange"),
+            nullable: true,
+            description: "The type's own hours; left out or null for the page's."
+          }
+        }
+      },
+      IntakeQuestion: {
+        type: "object",
+        required: ["label", "type"],
+        properties: {
+          id: {
+            type: "string",
+            format: "uuid",
+            description: "Send it back when editing so earlier answers stay linked; new questions get one."
+          },
+          label: { type: "string", maxLength: 200 },
+          type: {
+            type: "string",
+            enum: ["short_text", "long_text", "single_choice", "multiple_choice", "phone"]
+          },
+          required: { type: "boolean" },
+          options: {
+            type: "array",
+            items: { type: "string", maxLength: 100 },
+            minItems: 2,
+            maxItems: 10,
+            description: "Choice questions only."
+          }
+        }
+      },
+      IntakeAnswer: {
+        type: "object",
+        properties: {
+          questionId: { type: "string", format: "uuid" },
+          label: { type: "string", description: "The question as it was when answered." },
+          answer: {
+            oneOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+            description: "A list for multiple choice questions."
+          }
+        }
+      },
+      Booking: {
+        type: "object",
+        properties: {
+          id: { type: "string", format: "uuid" },
+          requesterName: { type: "string" },
+          requesterEmail: { type: "string", format: "email" },
+          reason: { type: "string" },
+          notes: { type: "string", nullable: true },
+          startTime: { type: "string", format: "date-time" },
+          endTime: { type: "string", format: "date-time" },
+          timezone: { type: "string", nullable: true },
+          meetingTypeName: { type: "string", nullable: true },
+          intakeAnswers: { type: "array", items: ref("IntakeAnswer") },
+          status: { type: "string", enum: ["requested", "accepted", "declined", "cancelled"] },
+          statusMessage: { type: "string", nullable: true },
+          statusChangedAt: { type: "string", format: "date-time", nullable: true },
+          createdAt: { type: "string", format: "date-time" }
+        }
+      },
+      Slots: {
+        type: "object",
+        properties: {
+          timezone: { type: "string" },
+          days: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                date: { type: "string", format: "date" },
+                slots: {
+                  type: "array",
+                  items: {
+                    type: "object",
+                    properties: {
+                      start: { type: "string", format: "date-time" },
+                      end: { type: "string", format: "date-time" }
+                    }
+                  }
+                }
+              }
+            }
+          },
+          stale: {
+            type: "boolean",
+            description: "True when a failing calendar feed was answered from its last good copy."
+          }
+        }
+      }
+    }
+  },
+  paths: {
+    "/api/dashboard/pages": {
+      get: {
+        summary: "List your pages",
+        ...secured("pages:read"),
+        responses: {
+          200: {
+            description: "Active and expired pages, newest first.",
+            content: json({
+              type: "object",
+              properties: {
+                pages: { type: "array", items: ref("Page") },
+                activeCount: { type: "integer" },
+                tier: { type: "string" },
+                maxPages: { type: "integer", nullable: true }
+              }
+            })
+          },
+          ...authErrors
+        }
+      },
+      post: {
+        summary: "Create a page",
+        ...secured("pages:write"),
+        requestBody: { required: true, content: json(ref("PageInput")) },
+        responses: {
+          201: {
+            description: "The new page.",
+            content: json({
+              type: "object",
+              properties: {
+                id: { type: "string", format: "uuid" },
+                slug: { type: "string" },
+                title: { type: "string", nullable: true },
+                ownerName: { type: "string" },
+                expiresAt: { type: "string", format: "date-time", nullable: true },
+                isActive: { type: "boolean" }
+              }
+            })
+          },
+          400: errorResponse("Invalid settings."),
+          ...authErrors
+        }
+      }
+    },
+    "/api/dashboard/pages/{id}": {
+      parameters: [pageIdParam],
+      patch: {
+        summary: "Update a page",
+        description: "Settings left out keep their current value.",
+        ...secured("pages:write"),
+        requestBody: { required: true, content: json(ref("PageInput")) },
+        responses: {
+          200: { description: "Updated." },
+          400: errorResponse("Invalid settings."),
+          404: errorResponse("No such page of yours."),
+          ...authErrors
+        }
+      },
+      delete: {
+        summary: "Delete a page",
+        ...secured("pages:write"),
+        responses: {
+          200: { description: "Deleted." },
+          404: errorResponse("No such page of yours."),
+          ...authErrors
+        }
+      }
+    },
+    "/api/dashboard/pages/{id}/overrides": {
+      parameters: [pageIdParam],
+      get: {
+        summary: "List a page's date overrides",
+        description: "Upcoming dates whose hours replace the weekly availability.",
+        ...secured("pages:read"),
+        responses: {
+          200: {
+            description: "The page's upcoming date overrides.",
+            content: json({
+              type: "object",
+              properties: { overrides: { type: "array", items: ref("DateOverride") } }
+            })
+          },
+          404: errorResponse("No such page of yours."),
+          ...authErrors
+        }
+      },
+      post: {
+        summary: "Add a date override",
+        ...secured("pages:write"),
+        requestBody: { required: true, content: json(ref("DateOverride")) },
+        responses: {
+          201: {
+            description: "The new override.",
+            content: json({ type: "object", properties: { override: ref("DateOverride") } })
+          },
+          400: errorResponse("Invalid dates or hours, or too many overrides."),
+          404: errorResponse("No such page of yours."),
+          409: errorResponse("The dates overlap another override."),
+          ...authErrors
+        }
+      }
+    },
+    "/api/dashboard/pages/{id}/overrides/{overrideId}": {
+      parameters: [
+        pageIdParam,
+        { name: "overrideId", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+      ],
+      delete: {
+        summary: "Remove a date override",
+        ...secured("pages:write"),
+        responses: {
+          200: { description: "Removed." },
+          404: errorResponse("No such override on your page."),
+          ...authErrors
+        }
+      }
+    },
+    "/api/dashboard/pages/{id}/meeting-types": {
+      parameters: [pageIdParam],
+      get: {
+        summary: "List a page's meeting types",
+        description: "In the order the booking page shows them.",
+        ...secured("pages:read"),
+        responses: {
+          200: {
+            description: "The page's meeting types.",
+            content: json({
+              type: "object",
+              properties: { meetingTypes: { type: "array", items: ref("MeetingType") } }
+            })
+          },
+          404: errorResponse("No such page of yours."),
+          ...authErrors
+        }
+      },
+      post: {
+        summary: "Add a meeting type",
+        ...secured("pages:write"),
+        requestBody: { required: true, content: json(ref("MeetingType")) },
+        responses: {
+          201: {
+            description: "The new meeting type.",
+            content: json({ type: "object", properties: { meetingType: ref("MeetingType") } })
+          },
+          400: errorResponse("Invalid settings, or too many meeting types."),
+          404: errorResponse("No such page of yours."),
+          ...authErrors
+        }
+      }
+    },
+    "/api/dashboard/pages/{id}/meeting-types/{typeId}": {
+      parameters: [
+        pageIdParam,
+        { name: "typeId", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+      ],
+      patch: {
+        summary: "Update a meeting type",
+        description:
+          "Fields left out keep their current value; send `weeklyAvailability: null` for the page's hours.",
+        ...secured("pages:write"),
+        requestBody: { required: true, content: json(ref("MeetingType")) },
+        responses: {
+          200: {
+            description: "The updated meeting type.",
+            content: json({ type: "object", properties: { meetingType: ref("MeetingType") } })
+          },
+          400: errorResponse("Invalid settings."),
+          404: errorResponse("No such meeting type on your page."),
+          ...authErrors
+        }
+      },
+      delete: {
+        summary: "Remove a meeting type",
+        description: "Existing bookings keep the type's name.",
+        ...secured("pages:write"),
+        responses: {
+          200: { description: "Removed." },
+          404: errorResponse("No such meeting type on your page."),
+          ...authErrors
+        }
+      }
+    },
+    "/api/dashboard/pages/{id}/requests": {
+      parameters: [pageIdParam],
+      get: {
+        summary: "List a page's bookings",
+        description: "Every request made on the page, latest appointment first.",
+        ...secured("bookings:read"),
+        responses: {
+          200: {
+            description: "The page's bookings.",
+            content: json({
+              type: "object",
+              properties: { requests: { type: "array", items: ref("Booking") } }
+            })
+          },
+          404: errorResponse("No such page of yours."),
+          ...authErrors
+        }
+      }
+    },
+    "/api/dashboard/pages/{id}/requests/{requestId}": {
+      parameters: [
+        pageIdParam,
+        { name: "requestId", in: "path", required: true, schema: { type: "string", format: "uuid" } }
+      ],
+      patch: {
+        summary: "Accept, decline or cancel a booking",
+        description: "The requester is emailed the outcome, with the optional message.",
+        ...secured("bookings:write"),
+        requestBody: {
+          required: true,
+          content: json({
+            type: "object",
+            required: ["status"],
+            properties: {
+              status: { type: "string", enum: ["accepted", "declined", "cancelled"] },
+              message: { type: "string", maxLength: 1000 }
+            }
+          })
+        },
+        responses: {
+          200: {
+            description: "The new status, and whether the requester's email went out.",
+            content: json({
+              type: "object",
+              properties: {
+                ok: { type: "boolean" },
+                status: { type: "string" },
+                emailSent: { type: "boolean" }
+              }
+            })
+          },
+          400: errorResponse("Invalid status or message."),
+          404: errorResponse("No such booking on your page."),
+          409: errorResponse("The booking's status no longer allows this change."),
+          ...authErrors
+        }
+      }
+    },
+    "/api/pages/{slug}": {
+      parameters: [slugParam],
+      get: {
+        summary: "A page's public details",
+        description: "What the booking page shows: the owner, meeting lengths, hours and meeting types.",
+        responses: {
+          200: { description: "The page.", content: json({ type: "object" }) },
+          404: errorResponse("No such page."),
+          410: { description: "The page has expired." }
+        }
+      }
+    },
+    "/api/pages/{slug}/slots": {
+      parameters: [slugParam],
+      get: {
+        summary: "A page's free slots",
+        description:
+          "Bookable times grouped by day in `tz`. The owner's calendar events are never included.",
+        parameters: [
+          { name: "from", in: "query", schema: { type: "string", format: "date" } },
+          { name: "to", in: "query", description: "Inclusive.", schema: { type: "string", format: "date" } },
+          { name: "tz", in: "query", description: "IANA timezone; defaults to the owner's.", schema: { type: "string" } },
+          { name: "type", in: "query", description: "A meeting type id.", schema: { type: "string" } }
+        ],
+        responses: {
+          200: { description: "Free slots.", content: json(ref("Slots")) },
+          400: errorResponse("Invalid dates, timezone or meeting type."),
+          404: errorResponse("No such page."),
+          502: errorResponse("The owner's calendar could not be read.")
+        }
+      }
+    }
+  }
+};
@@ -2,6 +2,8 @@ import { Router, Request, Response, NextFunction } from 'express';
 import { Pool } from 'pg';
 import crypto from 'crypto';
 import rateLimit from 'express-rate-limit';
+import { getCalendarCacheMetrics } from '../services/calendar';
+import { getOutboxCounts, listDeadLetters, retryDeadLetter } from '../services/emailOutbox';
 
 const ADMIN_COOKIE = 'ca_admin_session';
 const SESSION_TTL_MS = 8 * 60 * 60 * 1000; // 8 hours
@@ -47,6 +49,8 @@ function requireAdmin(pool: Pool) {
   };
 }
 
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 const loginLimiter = rateLimit({
   windowMs: 15 * 60 * 1000,
   max: 10,
@@ -122,7 +126,7 @@ export function createAdminRouter(pool: Pool): Router {
   });
 
   /**
-   * GET /api/admin/stats — user and page counts
+   * GET /api/admin/stats — user and page counts, plus calendar feed cache counters
    */
   router.get('/stats', guard, async (_req: Request, res: Response) => {
     const [users, pages, active] = await Promise.all([
@@ -134,9 +138,32 @@ export function createAdminRouter(pool: Pool): Router {
       users: users.rows[0].n,
       pages: pages.rows[0].n,
       activePages: active.rows[0].n,
+      calendarCache: getCalendarCacheMetrics(),
     });
   });
 
+  /**
+   * GET /api/admin/emails — outbox counts and the emails that failed every attempt
+   */
+  router.get('/emails', guard, async (_req: Request, res: Response) => {
+    const [counts, deadLetters] = await Promise.all([
+      getOutboxCounts(pool),
+      listDeadLetters(pool),
+    ]);
+    res.json({ ...counts, deadLetters });
+  });
+
+  /**
+   * POST /api/admin/emails/:id/retry — put a failed email back in the queue
+   */
+  router.post('/emails/:id/retry', guard, async (req: Request, res: Response) => {
+    const { id } = req.params;
+    if (!UUID_RE.test(id) || !(await retryDeadLetter(pool, id))) {
+      return res.status(404).json({ error: 'Failed email not found.' });
+    }
+    res.json({ ok: true });
+  });
+
   /**
    * GET /api/admin/settings — all system_settings key/value pairs
    */
@@ -1,11 +1,60 @@
 import { Router, Request, Response } from 'express';
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
 import rateLimit from 'express-rate-limit';
-import { requireAuth } from '../auth';
+import { requireAuth, requireScope, requireSession } from '../auth';
 import { encrypt, decrypt } from '../utils/encryption';
 import { isSafeToFetch } from '../auth/url-validation';
-import { validateMultipleCalendarUrls } from '../services/calendar';
+import { validateMultipleCalendarUrls, getCalendarFeedHealth } from '../services/calendar';
+import type { BusyFilter } from '../services/calendar';
+import { BusyRules, parseSummaryPatterns, rulesUseOwnerEmail } from '../services/busyRules';
+import { EmbedSettings, parseEmbedSettings } from '../services/embedding';
+import { parseIntakeQuestions } from '../services/intakeQuestions';
+import {
+  WeeklyAvailability,
+  legacyWeeklyAvailability,
+  legacyWindowFor,
+  parseWeeklyAvailability,
+} from '../services/weeklyAvailability';
+import {
+  DateOverride,
+  MAX_DATE_OVERRIDES,
+  parseDateOverride,
+} from '../services/dateOverrides';
+import {
+  MeetingType,
+  MAX_MEETING_BUFFER_MINUTES,
+  MAX_MEETING_TYPES,
+  parseMeetingType,
+} from '../services/meetingTypes';
+import { isValidTimezone, toDateStrInTimezone } from '../utils/timezone';
+import { parseTimeFormat, timeFormatFromColumns } from '../utils/timeFormat';
+import { languageFromColumn, parseLanguage } from '../i18n';
+import { isBookingStatus, canTransition } from '../services/bookingStatus';
+import { sendBookingStatusEmail } from '../services/email';
+import { manageUrl } from '../utils/manageToken';
+import {
+  parseReminderOffsets,
+  scheduleBookingReminders,
+  schedulePageReminders,
+} from '../services/reminders';
+import {
+  MAX_WEBHOOKS,
+  WebhookEvent,
+  emitBookingEvent,
+  generateWebhookSecret,
+  listWebhookDeliveries,
+  parseWebhook,
+  sendTestWebhook,
+  webhookFromRow,
+} from '../services/webhooks';
+import {
+  MAX_API_TOKENS,
+  createApiToken,
+  listApiTokens,
+  parseApiToken,
+  revokeApiToken,
+} from '../auth/apiTokens';
 
 // Free tier limits
 const FREE_MAX_PAGES = 1;
@@ -21,21 +70,18 @@ function generateSlug(): string {
   return uuidv4().replace(/-/g, '').slice(0, 22);
 }
 
+// Public origin for links in emails (same as the pages router)
+function publicBaseUrl(req: Request): string {
+  const protocol = req.secure || req.headers['x-forwarded-proto'] === 'https' ? 'https' : 'http';
+  return `${protocol}://${req.hostname}`;
+}
+
 // Basic email format check
 const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
 // Validate HH:MM wall-clock time string
 const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
 
-function isValidTimezone(tz: string): boolean {
-  try {
-    Intl.DateTimeFormat(undefined, { timeZone: tz });
-    return true;
-  } catch {
-    return false;
-  }
-}
-
 // Calendar URL validation (same pattern as pages router)
 function isValidCalendarUrl(rawUrl: string): boolean {
   if (!rawUrl || rawUrl.length > 4096) return false;
@@ -48,6 +94,94 @@ function isValidCalendarUrl(rawUrl: string): boolean {
   return true;
 }
 
+// Busy rules stored on a scheduling_pages row
+function busyRulesFromRow(row: any): BusyRules {
+  return {
+    allDayBusy: row.all_day_busy ?? true,
+    tentativeBusy: row.tentative_busy ?? true,
+    ignoreDeclined: row.ignore_declined ?? false,
+    ignoreSummaries: row.ignore_summary_patterns ?? [],
+  };
+}
+
+// Embed settings stored on a scheduling_pages row
+function embedFromRow(row: any): EmbedSettings {
+  return {
+    enabled: row.embed_enabled ?? false,
+    origins: row.embed_origins ?? [],
+  };
+}
+
+// Daily and weekly booking caps: a positive whole number, or null for no limit
+const MAX_BOOKING_CAP = 1000;
+
+function isBookingCap(value: unknown): value is number | null {
+  return value === null ||
+    (typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= MAX_BOOKING_CAP);
+}
+
+// Minutes between slot start times: 5 to 240, or null for back to back
+function isSlotIncrement(value: unknown): value is number | null {
+  return value === null ||
+    (typeof value === 'number' && Number.isInteger(value) && value >= 5 && value <= 240);
+}
+
+// Free time before or after a meeting: whole minutes, as for meeting types
+function isBufferMinutes(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) &&
+    value >= 0 && value <= MAX_MEETING_BUFFER_MINUTES;
+}
+
+const BUFFER_ERROR = `Buffers must be a whole number of minutes from 0 to ${MAX_MEETING_BUFFER_MINUTES}.`;
+
+// Replace a page's weekly availability ranges (inside the caller's transaction)
+async function saveWeeklyAvailability(
+  client: PoolClient,
+  pageId: string,
+  weekly: WeeklyAvailability
+): Promise<void> {
+  await client.query('DELETE FROM page_availability WHERE page_id = $1', [pageId]);
+  for (const range of weekly) {
+    await client.query(
+      'INSERT INTO page_availability (page_id, weekday, start_time, end_time) VALUES ($1,$2,$3,$4)',
+      [pageId, range.weekday, range.start, range.end]
+    );
+  }
+}
+
+// Date override as returned to the dashboard
+function dateOverrideFromRow(row: any): DateOverride & { id: string } {
+  return {
+    id: row.id,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    ranges: row.ranges ?? [],
+    label: row.label ?? undefined,
+  };
+}
+
+// Meeting type as returned to the dashboard
+function meetingTypeFromRow(row: any): MeetingType {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    durationMinutes: row.duration_minutes,
+    bufferMinutes: row.buffer_minutes,
+    bufferBeforeMinutes: row.buffer_before_minutes ?? 0,
+    weeklyAvailability: row.weekly_availability ?? undefined,
+  };
+}
+
+const WEBHOOK_COLUMNS = 'id, url, page_id, events, is_active, created_at';
+
+// The webhook event for each status an owner can set
+const STATUS_EVENTS: Record<'accepted' | 'declined' | 'cancelled', WebhookEvent> = {
+  accepted: 'request.confirmed',
+  declined: 'request.declined',
+  cancelled: 'booking.cancelled',
+};
+
 // Dashboard write operations: auth-gated but still throttled to prevent abuse
 const dashboardWriteLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -59,14 +193,20 @@ const dashboardWriteLimiter = rateLimit({
 export function createDashboardRouter(pool: Pool): Router {
   const router = Router();
 
-  // All dashboard routes require authentication
+  // All dashboard routes require authentication: the session cookie, or an
+  // API token with the scope each route names
   router.use(requireAuth(pool));
 
+  // Tokens cannot manage tokens, webhooks or the user's preferences
+  router.use('/tokens', requireSession);
+  router.use('/webhooks', requireSession);
+  router.use('/preferences', requireSession);
+
   /**
    * GET /api/dashboard/pages
    * List the authenticated user's pages (active + expired).
    */
-  router.get('/pages', async (req: Request, res: Response) => {
+  router.get('/pages', requireScope('pages:read'), async (req: Request, res: Response) => {
     const userId = req.session!.userId;
     const tier = req.session!.tier ?? 'free';
 
@@ -79,12 +219,25 @@ export function createDashboardRouter(pool: Pool): Router {
          sp.bio,
          sp.default_duration_minutes,
          sp.buffer_minutes,
+         sp.buffer_before_minutes,
+         sp.max_bookings_per_day,
+         sp.max_bookings_per_week,
+         sp.slot_increment_minutes,
+         sp.reminder_offsets_minutes,
          sp.date_range_days,
          sp.min_notice_hours,
          sp.include_weekends,
          sp.availability_start,
          sp.availability_end,
          sp.owner_timezone,
+         sp.all_day_busy,
+         sp.tentative_busy,
+         sp.ignore_declined,
+         sp.ignore_summary_patterns,
+         sp.embed_enabled,
+         sp.embed_origins,
+         sp.intake_questions,
+         sp.language,
          sp.notification_email_enc,
          sp.notification_email_iv,
          sp.notification_email_tag,
@@ -95,7 +248,12 @@ export function createDashboardRouter(pool: Pool): Router {
            array_agg(pc.raw_calendar_url)
              FILTER (WHERE pc.raw_calendar_url IS NOT NULL),
            ARRAY[]::text[]
-         ) AS calendar_urls
+         ) AS calendar_urls,
+         (SELECT json_agg(
+                   json_build_object('weekday', pa.weekday, 'start', pa.start_time, 'end', pa.end_time)
+                   ORDER BY pa.weekday, pa.start_time)
+            FROM page_availability pa
+           WHERE pa.page_id = sp.id) AS weekly_availability
        FROM scheduling_pages sp
        LEFT JOIN page_calendars pc ON pc.page_id = sp.id
        WHERE sp.user_id = $1
@@ -104,21 +262,57 @@ export function createDashboardRouter(pool: Pool): Router {
       [userId]
     );
 
-    const pages = rows.map(row => ({
+    // Feed health as last seen by the calendar cache, aligned with calendarUrls.
+    // The cache is keyed by the page's busy rules, so look it up the same way
+    // the booking page does.
+    const feedHealth = await Promise.all(
+      rows.map(row => {
+        const filter: BusyFilter = { rules: busyRulesFromRow(row) };
+        if (rulesUseOwnerEmail(filter.rules) && row.notification_email_enc) {
+          try {
+            filter.ownerEmail = decrypt({
+              ciphertext: row.notification_email_enc,
+              iv: row.notification_email_iv,
+              tag: row.notification_email_tag,
+            });
+          } catch {
+            // Decryption failed — the booking page looks the feed up without it too
+          }
+        }
+        return getCalendarFeedHealth(row.calendar_urls, filter);
+      })
+    );
+
+    const pages = rows.map((row, i) => ({
       id: row.id,
       slug: row.slug,
       title: row.title,
       ownerName: row.owner_name,
       bio: row.bio,
       calendarUrls: row.calendar_urls,
+      calendarHealth: feedHealth[i],
       defaultDurationMinutes: row.default_duration_minutes,
       bufferMinutes: row.buffer_minutes,
+      bufferBeforeMinutes: row.buffer_before_minutes ?? 0,
+      maxBookingsPerDay: row.max_bookings_per_day ?? null,
+      maxBookingsPerWeek: row.max_bookings_per_week ?? null,
+      slotIncrementMinutes: row.slot_increment_minutes ?? null,
+      reminderOffsetsMinutes: row.reminder_offsets_minutes ?? [],
       dateRangeDays: row.date_range_days,
       minNoticeHours: row.min_notice_hours,
       includeWeekends: row.include_weekends,
       availabilityStart: row.availability_start ?? '09:00',
       availabilityEnd: row.availability_end ?? '17:00',
       ownerTimezone: row.owner_timezone ?? 'UTC',
+      weeklyAvailability: row.weekly_availability ?? legacyWeeklyAvailability(
+        row.availability_start ?? '09:00',
+        row.availability_end ?? '17:00',
+        row.include_weekends ?? false
+      ),
+      busyRules: busyRulesFromRow(row),
+      embed: embedFromRow(row),
+      intakeQuestions: row.intake_questions ?? [],
+      language: row.language ?? null,
       hasNotificationEmail: !!row.notification_email_enc,
       isActive: row.is_active,
       createdAt: row.created_at,
@@ -140,7 +334,7 @@ export function createDashboardRouter(pool: Pool): Router {
    * POST /api/dashboard/pages
    * Create a new scheduling page.
    */
-  router.post('/pages', dashboardWriteLimiter, async (req: Request, res: Response) => {
+  router.post('/pages', requireScope('pages:write'), dashboardWriteLimiter, async (req: Request, res: Response) => {
     const userId = req.session!.userId;
     const tier = req.session!.tier ?? 'free';
     const adminUser = isAdminTier(tier);
@@ -152,12 +346,18 @@ export function createDashboardRouter(pool: Pool): Router {
       calendarUrls: rawUrls,
       defaultDurationMinutes,
       bufferMinutes,
+      bufferBeforeMinutes,
+      maxBookingsPerDay,
+      maxBookingsPerWeek,
+      slotIncrementMinutes,
+      reminderOffsetsMinutes,
       dateRangeDays,
       minNoticeHours,
       includeWeekends,
       availabilityStart,
       availabilityEnd,
       ownerTimezone,
+      weeklyAvailability,
       expiryDays,
     } = req.body;
 
@@ -177,16 +377,54 @@ export function createDashboardRouter(pool: Pool): Router {
       return res.status(400).json({ error: 'Bio must not exceed 200 characters.' });
     }
 
-    // Validate availability window
-    const startTime: string = (typeof availabilityStart === 'string' && TIME_RE.test(availabilityStart))
-      ? availabilityStart
-      : '09:00';
-    const endTime: string = (typeof availabilityEnd === 'string' && TIME_RE.test(availabilityEnd))
-      ? availabilityEnd
-      : '17:00';
-    if (startTime >= endTime) {
-      return res.status(400).json({ error: 'Availability end time must be after start time.' });
+    if (
+      (maxBookingsPerDay !== undefined && !isBookingCap(maxBookingsPerDay)) ||
+      (maxBookingsPerWeek !== undefined && !isBookingCap(maxBookingsPerWeek))
+    ) {
+      return res.status(400).json({ error: 'Booking limits must be a whole number of meetings, or none.' });
+    }
+
+    if (slotIncrementMinutes !== undefined && !isSlotIncrement(slotIncrementMinutes)) {
+      return res.status(400).json({ error: 'Start times must be 5 to 240 minutes apart.' });
+    }
+
+    if (
+      (bufferMinutes !== undefined && !isBufferMinutes(bufferMinutes)) ||
+      (bufferBeforeMinutes !== undefined && !isBufferMinutes(bufferBeforeMinutes))
+    ) {
+      return res.status(400).json({ error: BUFFER_ERROR });
+    }
+
+    let reminderOffsets: number[] = [];
+    if (reminderOffsetsMinutes !== undefined) {
+      const parsed = parseReminderOffsets(reminderOffsetsMinutes);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      reminderOffsets = parsed.offsets;
+    }
+
+    // Validate availability: a weekly schedule, or the older single window
+    let weekly: WeeklyAvailability;
+    if (weeklyAvailability !== undefined) {
+      const parsed = parseWeeklyAvailability(weeklyAvailability);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      weekly = parsed.ranges;
+    } else {
+      const startTime: string = (typeof availabilityStart === 'string' && TIME_RE.test(availabilityStart))
+        ? availabilityStart
+        : '09:00';
+      const endTime: string = (typeof availabilityEnd === 'string' && TIME_RE.test(availabilityEnd))
+        ? availabilityEnd
+        : '17:00';
+      if (startTime >= endTime) {
+        return res.status(400).json({ error: 'Availability end time must be after start time.' });
+      }
+      weekly = legacyWeeklyAvailability(startTime, endTime, includeWeekends ?? false);
     }
+    const window = legacyWindowFor(weekly);
 
     // Validate timezone
     const timezone: string = (typeof ownerTimezone === 'string' && ownerTimezone.length > 0 && isValidTimezone(ownerTimezone))
@@ -287,11 +525,12 @@ export function createDashboardRouter(pool: Pool): Router {
         `INSERT INTO scheduling_pages
            (slug, user_id, owner_name, title, bio,
             notification_email_enc, notification_email_iv, notification_email_tag,
-            default_duration_minutes, buffer_minutes, date_range_days,
-            min_notice_hours, include_weekends,
+            default_duration_minutes, buffer_minutes, buffer_before_minutes,
+            max_bookings_per_day, max_bookings_per_week, slot_increment_minutes,
+            reminder_offsets_minutes, date_range_days, min_notice_hours, include_weekends,
             availability_start, availability_end, owner_timezone,
             is_anonymous, created_at, expires_at)
-         VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,FALSE,$17,$18)
+         VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19,$20,$21,FALSE,$22,$23)
          RETURNING id`,
         [
           slug,
@@ -304,11 +543,16 @@ export function createDashboardRouter(pool: Pool): Router {
           emailTag,
           defaultDurationMinutes ?? 30,
           bufferMinutes ?? 0,
+          bufferBeforeMinutes ?? 0,
+          maxBookingsPerDay ?? null,
+          maxBookingsPerWeek ?? null,
+          slotIncrementMinutes ?? null,
+          reminderOffsets,
           dateRangeDays ? Math.min(dateRangeDays, 180) : 60,
           minNoticeHours ?? 8,
-          includeWeekends ?? false,
-          startTime,
-          endTime,
+          window.includeWeekends,
+          window.availabilityStart,
+          window.availabilityEnd,
           timezone,
           new Date(now).toISOString(),
           expiresAt ? expiresAt.toISOString() : null,
@@ -324,6 +568,8 @@ export function createDashboardRouter(pool: Pool): Router {
         );
       }
 
+      await saveWeeklyAvailability(client, pageId, weekly);
+
       await client.query('COMMIT');
 
       res.status(201).json({
@@ -348,7 +594,7 @@ export function createDashboardRouter(pool: Pool): Router {
    * PATCH /api/dashboard/pages/:id
    * Update page settings. Only the owner can update.
    */
-  router.patch('/pages/:id', dashboardWriteLimiter, async (req: Request, res: Response) => {
+  router.patch('/pages/:id', requireScope('pages:write'), dashboardWriteLimiter, async (req: Request, res: Response) => {
     const userId = req.session!.userId;
     const tier = req.session!.tier ?? 'free';
     const adminUser = isAdminTier(tier);
@@ -372,10 +618,8 @@ export function createDashboardRouter(pool: Pool): Router {
       ownerName:              { column: 'owner_name', maxLen: 100 },
       bio:                    { column: 'bio', maxLen: 200 },
       defaultDurationMinutes: { column: 'default_duration_minutes', type: 'int' },
-      bufferMinutes:          { column: 'buffer_minutes', type: 'int' },
       dateRangeDays:          { column: 'date_range_days', type: 'int' },
       minNoticeHours:         { column: 'min_notice_hours', type: 'int' },
-      includeWeekends:        { column: 'include_weekends', type: 'bool' },
     };
 
     for (const [field, config] of Object.entries(allowedFields)) {
@@ -397,13 +641,23 @@ export function createDashboardRouter(pool: Pool): Router {
       }
     }
 
-    // Handle availability window: validate both fields together
+    // Handle availability: a weekly schedule, or the older single window,
+    // which becomes the same hours on every day it covers. The window
+    // columns are kept in step with the schedule for older clients.
     const patchStart = req.body.availabilityStart;
     const patchEnd = req.body.availabilityEnd;
-    if (patchStart !== undefined || patchEnd !== undefined) {
-      // Read the other value from the existing row if only one was provided
+    const patchWeekends = req.body.includeWeekends;
+    let weekly: WeeklyAvailability | undefined;
+    if (req.body.weeklyAvailability !== undefined) {
+      const parsed = parseWeeklyAvailability(req.body.weeklyAvailability);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      weekly = parsed.ranges;
+    } else if (patchStart !== undefined || patchEnd !== undefined || patchWeekends !== undefined) {
+      // Read the other values from the existing row if only some were provided
       const { rows: existing } = await pool.query(
-        'SELECT availability_start, availability_end FROM scheduling_pages WHERE id = $1',
+        'SELECT availability_start, availability_end, include_weekends FROM scheduling_pages WHERE id = $1',
         [pageId]
       );
       const currentStart: string = existing[0]?.availability_start ?? '09:00';
@@ -411,21 +665,80 @@ export function createDashboardRouter(pool: Pool): Router {
 
       const newStart = (typeof patchStart === 'string' && TIME_RE.test(patchStart)) ? patchStart : currentStart;
       const newEnd   = (typeof patchEnd   === 'string' && TIME_RE.test(patchEnd))   ? patchEnd   : currentEnd;
+      const newWeekends = typeof patchWeekends === 'boolean' ? patchWeekends : existing[0]?.include_weekends ?? false;
 
       if (newStart >= newEnd) {
         return res.status(400).json({ error: 'Availability end time must be after start time.' });
       }
 
-      if (typeof patchStart === 'string') {
-        updates.push(`availability_start = $${paramIndex}`);
-        values.push(newStart);
-        paramIndex++;
+      weekly = legacyWeeklyAvailability(newStart, newEnd, newWeekends);
+    }
+
+    if (weekly) {
+      const window = legacyWindowFor(weekly);
+      updates.push(`availability_start = $${paramIndex}`);
+      values.push(window.availabilityStart);
+      paramIndex++;
+      updates.push(`availability_end = $${paramIndex}`);
+      values.push(window.availabilityEnd);
+      paramIndex++;
+      updates.push(`include_weekends = $${paramIndex}`);
+      values.push(window.includeWeekends);
+      paramIndex++;
+    }
+
+    // Handle the buffers before and after meetings
+    const buffers: Record<string, string> = {
+      bufferMinutes: 'buffer_minutes',
+      bufferBeforeMinutes: 'buffer_before_minutes',
+    };
+    for (const [field, column] of Object.entries(buffers)) {
+      if (req.body[field] === undefined) continue;
+      if (!isBufferMinutes(req.body[field])) {
+        return res.status(400).json({ error: BUFFER_ERROR });
       }
-      if (typeof patchEnd === 'string') {
-        updates.push(`availability_end = $${paramIndex}`);
-        values.push(newEnd);
-        paramIndex++;
+      updates.push(`${column} = $${paramIndex}`);
+      values.push(req.body[field]);
+      paramIndex++;
+    }
+
+    // Handle booking caps, where null removes the limit
+    const caps: Record<string, string> = {
+      maxBookingsPerDay: 'max_bookings_per_day',
+      maxBookingsPerWeek: 'max_bookings_per_week',
+    };
+    for (const [field, column] of Object.entries(caps)) {
+      if (req.body[field] === undefined) continue;
+      if (!isBookingCap(req.body[field])) {
+        return res.status(400).json({ error: 'Booking limits must be a whole number of meetings, or none.' });
       }
+      updates.push(`${column} = $${paramIndex}`);
+      values.push(req.body[field]);
+      paramIndex++;
+    }
+
+    // Handle the slot start increment, where null means back to back
+    if (req.body.slotIncrementMinutes !== undefined) {
+      if (!isSlotIncrement(req.body.slotIncrementMinutes)) {
+        return res.status(400).json({ error: 'Start times must be 5 to 240 minutes apart.' });
+      }
+      updates.push(`slot_increment_minutes = $${paramIndex}`);
+      values.push(req.body.slotIncrementMinutes);
+      paramIndex++;
+    }
+
+    // Handle reminder offsets; upcoming accepted bookings pick up new ones
+    // once the update is committed
+    let remindersChanged = false;
+    if (req.body.reminderOffsetsMinutes !== undefined) {
+      const parsed = parseReminderOffsets(req.body.reminderOffsetsMinutes);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      updates.push(`reminder_offsets_minutes = $${paramIndex}`);
+      values.push(parsed.offsets);
+      paramIndex++;
+      remindersChanged = true;
     }
 
     // Handle owner timezone
@@ -439,6 +752,79 @@ export function createDashboardRouter(pool: Pool): Router {
       paramIndex++;
     }
 
+    // Handle busy rules: any subset of the flags, plus the summary patterns
+    if (req.body.busyRules !== undefined) {
+      const patch = req.body.busyRules;
+      if (typeof patch !== 'object' || patch === null || Array.isArray(patch)) {
+        return res.status(400).json({ error: 'busyRules must be an object.' });
+      }
+
+      const flags: Record<string, string> = {
+        allDayBusy: 'all_day_busy',
+        tentativeBusy: 'tentative_busy',
+        ignoreDeclined: 'ignore_declined',
+      };
+      for (const [field, column] of Object.entries(flags)) {
+        if (patch[field] === undefined) continue;
+        if (typeof patch[field] !== 'boolean') {
+          return res.status(400).json({ error: `busyRules.${field} must be true or false.` });
+        }
+        updates.push(`${column} = $${paramIndex}`);
+        values.push(patch[field]);
+        paramIndex++;
+      }
+
+      if (patch.ignoreSummaries !== undefined) {
+        const parsed = parseSummaryPatterns(patch.ignoreSummaries);
+        if ('error' in parsed) {
+          return res.status(400).json({ error: parsed.error });
+        }
+        updates.push(`ignore_summary_patterns = $${paramIndex}`);
+        values.push(parsed.patterns);
+        paramIndex++;
+      }
+    }
+
+    // Handle embed settings: whether the page can be embedded, and where
+    if (req.body.embed !== undefined) {
+      const parsed = parseEmbedSettings(req.body.embed);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      if (parsed.embed.enabled !== undefined) {
+        updates.push(`embed_enabled = $${paramIndex}`);
+        values.push(parsed.embed.enabled);
+        paramIndex++;
+      }
+      if (parsed.embed.origins !== undefined) {
+        updates.push(`embed_origins = $${paramIndex}`);
+        values.push(parsed.embed.origins);
+        paramIndex++;
+      }
+    }
+
+    // Handle the page's language: null lets each visitor's browser decide
+    if (req.body.language !== undefined) {
+      const parsed = parseLanguage(req.body.language);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      updates.push(`language = $${paramIndex}`);
+      values.push(parsed.language);
+      paramIndex++;
+    }
+
+    // Handle intake questions: the whole list, in display order
+    if (req.body.intakeQuestions !== undefined) {
+      const parsed = parseIntakeQuestions(req.body.intakeQuestions);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      updates.push(`intake_questions = $${paramIndex}`);
+      values.push(JSON.stringify(parsed.questions));
+      paramIndex++;
+    }
+
     // Handle notification email separately (needs encryption)
     if (req.body.notificationEmail !== undefined) {
       const email = req.body.notificationEmail;
@@ -489,6 +875,10 @@ export function createDashboardRouter(pool: Pool): Router {
         );
       }
 
+      if (weekly) {
+        await saveWeeklyAvailability(client, pageId, weekly);
+      }
+
       if (newCalendarUrls && Array.isArray(newCalendarUrls)) {
         const urls = newCalendarUrls.filter(u => typeof u === 'string' && u.trim().length > 0);
         const maxUrls = adminUser ? ADMIN_MAX_CALENDAR_URLS : FREE_MAX_CALENDAR_URLS;
@@ -515,7 +905,6 @@ export function createDashboardRouter(pool: Pool): Router {
       }
 
       await client.query('COMMIT');
-      res.json({ ok: true });
     } catch (err) {
       await client.query('ROLLBACK');
       // eslint-disable-next-line no-console
@@ -524,13 +913,25 @@ export function createDashboardRouter(pool: Pool): Router {
     } finally {
       client.release();
     }
+
+    if (remindersChanged) {
+      try {
+        await schedulePageReminders(pool, pageId, publicBaseUrl(req));
+      } catch (err) {
+        // The offsets are saved; bookings accepted from now on use them
+        // eslint-disable-next-line no-console
+        console.error('Failed to schedule reminders:', err);
+      }
+    }
+
+    res.json({ ok: true });
   });
 
   /**
    * DELETE /api/dashboard/pages/:id
    * Delete a page. Only the owner can delete.
    */
-  router.delete('/pages/:id', dashboardWriteLimiter, async (req: Request, res: Response) => {
+  router.delete('/pages/:id', requireScope('pages:write'), dashboardWriteLimiter, async (req: Request, res: Response) => {
     const userId = req.session!.userId;
     const pageId = req.params.id;
 
@@ -546,11 +947,269 @@ export function createDashboardRouter(pool: Pool): Router {
     res.json({ ok: true });
   });
 
+  /**
+   * GET /api/dashboard/pages/:id/overrides
+   * List a page's date overrides that have not yet ended, in date order.
+   */
+  router.get('/pages/:id/overrides', requireScope('pages:read'), async (req: Request, res: Response) => {
+    const userId = req.session!.userId;
+    const pageId = req.params.id;
+
+    // Verify ownership
+    const { rows: ownerCheck } = await pool.query(
+      'SELECT owner_timezone FROM scheduling_pages WHERE id = $1 AND user_id = $2',
+      [pageId, userId]
+    );
+    if (ownerCheck.length === 0) {
+      return res.status(404).json({ error: 'Page not found.' });
+    }
+    const today = toDateStrInTimezone(new Date(), ownerCheck[0].owner_timezone ?? 'UTC');
+
+    const { rows } = await pool.query(
+      `SELECT id, to_char(start_date, 'YYYY-MM-DD') AS start_date,
+              to_char(end_date, 'YYYY-MM-DD') AS end_date, ranges, label
+       FROM page_date_overrides
+       WHERE page_id = $1 AND end_date >= $2::date
+       ORDER BY start_date`,
+      [pageId, today]
+    );
+
+    res.json({ overrides: rows.map(dateOverrideFromRow) });
+  });
+
+  /**
+   * POST /api/dashboard/pages/:id/overrides
+   * Add a date override. Body: { startDate, endDate?, ranges?, label? }
+   * where an empty or missing `ranges` makes the dates unavailable.
+   */
+  router.post('/pages/:id/overrides', requireScope('pages:write'), dashboardWriteLimiter, async (req: Request, res: Response) => {
+    const userId = req.session!.userId;
+    const pageId = req.params.id;
+
+    // Verify ownership
+    const { rows: ownerCheck } = await pool.query(
+      'SELECT owner_timezone FROM scheduling_pages WHERE id = $1 AND user_id = $2',
+      [pageId, userId]
+    );
+    if (ownerCheck.length === 0) {
+      return res.status(404).json({ error: 'Page not found.' });
+    }
+    const today = toDateStrInTimezone(new Date(), ownerCheck[0].owner_timezone ?? 'UTC');
+
+    const parsed = parseDateOverride(req.body, today);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const { override } = parsed;
+
+    const { rows: existing } = await pool.query(
+      `SELECT
+         COUNT(*)::int AS count,
+         COUNT(*) FILTER (WHERE start_date <= $3::date AND end_date >= $2::date)::int AS overlapping
+       FROM page_date_overrides
+       WHERE page_id = $1 AND end_date >= $4::date`,
+      [pageId, override.startDate, override.endDate, today]
+    );
+    if (existing[0].overlapping > 0) {
+      return res.status(409).json({ error: 'These dates overlap another date override. Remove it first.' });
+    }
+    if (existing[0].count >= MAX_DATE_OVERRIDES) {
+      return res.status(400).json({ error: `You can have up to ${MAX_DATE_OVERRIDES} upcoming date overrides.` });
+    }
+
+    const { rows } = await pool.query(
+      `INSERT INTO page_date_overrides (page_id, start_date, end_date, ranges, label)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id, to_char(start_date, 'YYYY-MM-DD') AS start_date,
+                 to_char(end_date, 'YYYY-MM-DD') AS end_date, ranges, label`,
+      [pageId, override.startDate, override.endDate, JSON.stringify(override.ranges), override.label ?? null]
+    );
+
+    res.status(201).json({ override: dateOverrideFromRow(rows[0]) });
+  });
+
+  /**
+   * DELETE /api/dashboard/pages/:id/overrides/:overrideId
+   * Remove a date override. Only the page owner can remove it.
+   */
+  router.delete('/pages/:id/overrides/:overrideId', requireScope('pages:write'), dashboardWriteLimiter, async (req: Request, res: Response) => {
+    const userId = req.session!.userId;
+    const { id: pageId, overrideId } = req.params;
+
+    const { rowCount } = await pool.query(
+      `DELETE FROM page_date_overrides pdo
+       USING scheduling_pages sp
+       WHERE pdo.id = $1 AND pdo.page_id = $2
+         AND sp.id = pdo.page_id AND sp.user_id = $3`,
+      [overrideId, pageId, userId]
+    );
+    if (!rowCount) {
+      return res.status(404).json({ error: 'Date override not found.' });
+    }
+
+    res.json({ ok: true });
+  });
+
+  /**
+   * GET /api/dashboard/pages/:id/meeting-types
+   * List a page's meeting types in the order the booking page shows them.
+   */
+  router.get('/pages/:id/meeting-types', requireScope('pages:read'), async (req: Request, res: Response) => {
+    const userId = req.session!.userId;
+    const pageId = req.params.id;
+
+    // Verify ownership
+    const { rows: ownerCheck } = await pool.query(
+      'SELECT id FROM scheduling_pages WHERE id = $1 AND user_id = $2',
+      [pageId, userId]
+    );
+    if (ownerCheck.length === 0) {
+      return res.status(404).json({ error: 'Page not found.' });
+    }
+
+    const { rows } = await pool.query(
+      `SELECT id, name, description, duration_minutes, buffer_minutes, buffer_before_minutes,
+              weekly_availability
+       FROM meeting_types
+       WHERE page_id = $1
+       ORDER BY position, created_at`,
+      [pageId]
+    );
+
+    res.json({ meetingTypes: rows.map(meetingTypeFromRow) });
+  });
+
+  /**
+   * POST /api/dashboard/pages/:id/meeting-types
+   * Add a meeting type. Body: { name, description?, durationMinutes,
+   * bufferMinutes?, bufferBeforeMinutes?, weeklyAvailability? } where a
+   * missing weeklyAvailability means the type uses the page's hours.
+   */
+  router.post('/pages/:id/meeting-types', requireScope('pages:write'), dashboardWriteLimiter, async (req: Request, res: Response) => {
+    const userId = req.session!.userId;
+    const pageId = req.params.id;
+
+    // Verify ownership
+    const { rows: ownerCheck } = await pool.query(
+      'SELECT id FROM scheduling_pages WHERE id = $1 AND user_id = $2',
+      [pageId, userId]
+    );
+    if (ownerCheck.length === 0) {
+      return res.status(404).json({ error: 'Page not found.' });
+    }
+
+    const parsed = parseMeetingType(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const { meetingType } = parsed;
+
+    const { rows: existing } = await pool.query(
+      `SELECT COUNT(*)::int AS count, COALESCE(MAX(position) + 1, 0) AS next_position
+       FROM meeting_types WHERE page_id = $1`,
+      [pageId]
+    );
+    if (existing[0].count >= MAX_MEETING_TYPES) {
+      return res.status(400).json({ error: `A page can have up to ${MAX_MEETING_TYPES} meeting types.` });
+    }
+
+    const { rows } = await pool.query(
+      `INSERT INTO meeting_types
+         (page_id, name, description, duration_minutes, buffer_minutes, buffer_before_minutes,
+          weekly_availability, position)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING id, name, description, duration_minutes, buffer_minutes, buffer_before_minutes,
+                 weekly_availability`,
+      [
+        pageId,
+        meetingType.name,
+        meetingType.description ?? null,
+        meetingType.durationMinutes,
+        meetingType.bufferMinutes,
+        meetingType.bufferBeforeMinutes,
+        meetingType.weeklyAvailability ? JSON.stringify(meetingType.weeklyAvailability) : null,
+        existing[0].next_position,
+      ]
+    );
+
+    res.status(201).json({ meetingType: meetingTypeFromRow(rows[0]) });
+  });
+
+  /**
+   * PATCH /api/dashboard/pages/:id/meeting-types/:typeId
+   * Update a meeting type. Fields left out keep their current value; send
+   * weeklyAvailability: null to go back to the page's hours.
+   */
+  router.patch('/pages/:id/meeting-types/:typeId', requireScope('pages:write'), dashboardWriteLimiter, async (req: Request, res: Response) => {
+    const userId = req.session!.userId;
+    const { id: pageId, typeId } = req.params;
+
+    const { rows: current } = await pool.query(
+      `SELECT mt.id, mt.name, mt.description, mt.duration_minutes, mt.buffer_minutes,
+              mt.buffer_before_minutes, mt.weekly_availability
+       FROM meeting_types mt
+       JOIN scheduling_pages sp ON sp.id = mt.page_id
+       WHERE mt.id = $1 AND mt.page_id = $2 AND sp.user_id = $3`,
+      [typeId, pageId, userId]
+    );
+    if (current.length === 0) {
+      return res.status(404).json({ error: 'Meeting type not found.' });
+    }
+
+    const parsed = parseMeetingType({ ...meetingTypeFromRow(current[0]), ...req.body });
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const { meetingType } = parsed;
+
+    const { rows } = await pool.query(
+      `UPDATE meeting_types
+       SET name = $2, description = $3, duration_minutes = $4,
+           buffer_minutes = $5, buffer_before_minutes = $6, weekly_availability = $7
+       WHERE id = $1
+       RETURNING id, name, description, duration_minutes, buffer_minutes, buffer_before_minutes,
+                 weekly_availability`,
+      [
+        typeId,
+        meetingType.name,
+        meetingType.description ?? null,
+        meetingType.durationMinutes,
+        meetingType.bufferMinutes,
+        meetingType.bufferBeforeMinutes,
+        meetingType.weeklyAvailability ? JSON.stringify(meetingType.weeklyAvailability) : null,
+      ]
+    );
+
+    res.json({ meetingType: meetingTypeFromRow(rows[0]) });
+  });
+
+  /**
+   * DELETE /api/dashboard/pages/:id/meeting-types/:typeId
+   * Remove a meeting type. Existing requests keep the type's name.
+   */
+  router.delete('/pages/:id/meeting-types/:typeId', requireScope('pages:write'), dashboardWriteLimiter, async (req: Request, res: Response) => {
+    const userId = req.session!.userId;
+    const { id: pageId, typeId } = req.params;
+
+    const { rowCount } = await pool.query(
+      `DELETE FROM meeting_types mt
+       USING scheduling_pages sp
+       WHERE mt.id = $1 AND mt.page_id = $2
+         AND sp.id = mt.page_id AND sp.user_id = $3`,
+      [typeId, pageId, userId]
+    );
+    if (!rowCount) {
+      return res.status(404).json({ error: 'Meeting type not found.' });
+    }
+
+    res.json({ ok: true });
+  });
+
   /**
    * GET /api/dashboard/pages/:id/requests
    * List appointment requests (bookings) for a page. Only the owner can view.
    */
-  router.get('/pages/:id/requests', async (req: Request, res: Response) => {
+  router.get('/pages/:id/requests', requireScope('bookings:read'), async (req: Request, res: Response) => {
     const userId = req.session!.userId;
     const pageId = req.params.id;
 
@@ -566,8 +1225,8 @@ export function createDashboardRouter(pool: Pool): Router {
     const { rows } = await pool.query(
       `SELECT
          id, requester_name, requester_email,
-         reason, notes, start_time, end_time,
-         timezone, created_at
+         reason, notes, start_time, end_time, timezone, meeting_type_name,
+         intake_answers, status, status_message, status_changed_at, created_at
        FROM bookings
        WHERE page_id = $1
        ORDER BY start_time DESC`,
@@ -583,11 +1242,413 @@ export function createDashboardRouter(pool: Pool): Router {
       startTime: row.start_time,
       endTime: row.end_time,
       timezone: row.timezone,
+      meetingTypeName: row.meeting_type_name,
+      intakeAnswers: row.intake_answers ?? [],
+      status: row.status,
+      statusMessage: row.status_message,
+      statusChangedAt: row.status_changed_at,
       createdAt: row.created_at,
     }));
 
     res.json({ requests });
   });
 
+  /**
+   * PATCH /api/dashboard/pages/:id/requests/:requestId
+   * Accept, decline or cancel an appointment request and email the requester.
+   * Body: { status: 'accepted' | 'declined' | 'cancelled', message?: string }
+   */
+  router.patch('/pages/:id/requests/:requestId', requireScope('bookings:write'), dashboardWriteLimiter, async (req: Request, res: Response) => {
+    const userId = req.session!.userId;
+    const { id: pageId, requestId } = req.params;
+    const { status, message } = req.body;
+
+    if (!isBookingStatus(status) || status === 'requested') {
+      return res.status(400).json({ error: 'status must be "accepted", "declined" or "cancelled".' });
+    }
+    if (message !== undefined && message !== null && typeof message !== 'string') {
+      return res.status(400).json({ error: 'Message must be text.' });
+    }
+    if (typeof message === 'string' && message.length > 1000) {
+      return res.status(400).json({ error: 'Message must not exceed 1000 characters.' });
+    }
+    const statusMessage = typeof message === 'string' && message.trim() ? message.trim() : null;
+
+    // Load the booking, verifying the page belongs to this user
+    const { rows } = await pool.query(
+      `SELECT b.status, b.requester_name, b.requester_email, b.reason,
+              b.start_time, b.end_time, b.timezone, b.locale, b.hour_cycle, b.language,
+              sp.owner_name, sp.slug,
+              sp.notification_email_enc, sp.notification_email_iv, sp.notification_email_tag,
+              u.locale AS owner_locale, u.hour_cycle AS owner_hour_cycle, u.language AS owner_language
+       FROM bookings b
+       JOIN scheduling_pages sp ON sp.id = b.page_id
+       JOIN users u ON u.id = sp.user_id
+       WHERE b.id = $1 AND b.page_id = $2 AND sp.user_id = $3`,
+      [requestId, pageId, userId]
+    );
+    if (rows.length === 0) {
+      return res.status(404).json({ error: 'Request not found.' });
+    }
+
+    const booking = rows[0];
+    if (!canTransition(booking.status, status)) {
+      return res.status(409).json({ error: `This request has already been ${booking.status}.` });
+    }
+
+    // Conditional on the status we read, so a concurrent change is not overwritten
+    const { rows: updated } = await pool.query(
+      `UPDATE bookings
+       SET status = $1, status_message = $2, status_changed_at = NOW(),
+           revision = revision + 1
+       WHERE id = $3 AND status = $4
+       RETURNING revision`,
+      [status, statusMessage, requestId, booking.status]
+    );
+    if (updated.length === 0) {
+      return res.status(409).json({ error: 'This request was changed elsewhere. Please refresh and try again.' });
+    }
+
+    // The owner's copy of the calendar invite goes to their notification address
+    let ownerEmail: string | undefined;
+    if (booking.notification_email_enc) {
+      try {
+        ownerEmail = decrypt({
+          ciphertext: booking.notification_email_enc,
+          iv: booking.notification_email_iv,
+          tag: booking.notification_email_tag,
+        });
+      } catch {
+        // Decryption failed — the requester still gets their email
+      }
+    }
+
+    // The status change stands even if the email fails; report it to the UI
+    let emailSent = true;
+    try {
+      await sendBookingStatusEmail({
+        bookingId: requestId,
+        sequence: updated[0].revision,
+        requesterEmail: booking.requester_email,
+        requesterName: booking.requester_name,
+        ownerName: booking.owner_name,
+        ownerEmail,
+        status,
+        message: statusMessage ?? undefined,
+        reason: booking.reason,
+        startIso: new Date(booking.start_time).toISOString(),
+        endIso: new Date(booking.end_time).toISOString(),
+        timezone: booking.timezone ?? undefined,
+        timeFormat: timeFormatFromColumns(booking.locale, booking.hour_cycle),
+        language: languageFromColumn(booking.language),
+        manageUrl: manageUrl(publicBaseUrl(req), booking.slug, requestId),
+        ownerTimeFormat: timeFormatFromColumns(booking.owner_locale, booking.owner_hour_cycle),
+        ownerLanguage: languageFromColumn(booking.owner_language),
+      });
+    } catch (err) {
+      emailSent = false;
+      // eslint-disable-next-line no-console
+      console.error('Failed to send booking status email:', err);
+    }
+
+    if (status === 'accepted') {
+      try {
+        await scheduleBookingReminders(pool, requestId, publicBaseUrl(req));
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error('Failed to schedule reminders:', err);
+      }
+    }
+
+    try {
+      await emitBookingEvent(pool, STATUS_EVENTS[status], requestId);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error('Failed to queue webhooks:', err);
+    }
+
+    res.json({ ok: true, status, emailSent });
+  });
+
+  // The user's preferences as the API shows them, each null when unset
+  async function readPreferences(userId: string) {
+    const { rows } = await pool.query(
+      'SELECT locale, hour_cycle, language FROM users WHERE id = $1',
+      [userId]
+    );
+    const format = timeFormatFromColumns(rows[0]?.locale, rows[0]?.hour_cycle);
+    return {
+      language: languageFromColumn(rows[0]?.language) ?? null,
+      locale: format.locale ?? null,
+      hourCycle: format.hourCycle ?? null,
+    };
+  }
+
+  /**
+   * GET /api/dashboard/preferences
+   * The user's language and date and time preferences:
+   * { language, locale, hourCycle }, each null when following the browser
+   * (in the app) or English with British dates (in emails).
+   */
+  router.get('/preferences', async (req: Request, res: Response) => {
+    res.json(await readPreferences(req.session!.userId));
+  });
+
+  /**
+   * PUT /api/dashboard/preferences
+   * Change the user's preferences. Body: any of { language, locale, hourCycle };
+   * null follows the browser, and those left out are unchanged.
+   */
+  router.put('/preferences', dashboardWriteLimiter, async (req: Request, res: Response) => {
+    const body = req.body ?? {};
+    const parsed = parseTimeFormat(body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const parsedLanguage = parseLanguage(body.language);
+    if ('error' in parsedLanguage) {
+      return res.status(400).json({ error: parsedLanguage.error });
+    }
+
+    const updates: string[] = [];
+    const values: unknown[] = [];
+    const set = (column: string, value: unknown) => {
+      values.push(value);
+      updates.push(`${column} = $${values.length}`);
+    };
+    if (body.locale !== undefined) set('locale', parsed.format.locale ?? null);
+    if (body.hourCycle !== undefined) set('hour_cycle', parsed.format.hourCycle ?? null);
+    if (body.language !== undefined) set('language', parsedLanguage.language);
+
+    if (updates.length > 0) {
+      values.push(req.session!.userId);
+      await pool.query(
+        `UPDATE users SET ${updates.join(', ')} WHERE id = $${values.length}`,
+        values
+      );
+    }
+    res.json(await readPreferences(req.session!.userId));
+  });
+
+  /**
+   * GET /api/dashboard/tokens
+   * List the user's API tokens. The tokens themselves are never shown again.
+   */
+  router.get('/tokens', async (req: Request, res: Response) => {
+    res.json({ tokens: await listApiTokens(pool, req.session!.userId) });
+  });
+
+  /**
+   * POST /api/dashboard/tokens
+   * Create an API token. Body: { name, scopes, expiresInDays? } where a
+   * missing expiresInDays means it never expires. Returns the token once.
+   */
+  router.post('/tokens', dashboardWriteLimiter, async (req: Request, res: Response) => {
+    const userId = req.session!.userId;
+
+    const parsed = parseApiToken(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const { rows: existing } = await pool.query(
+      'SELECT COUNT(*)::int AS count FROM api_tokens WHERE user_id = $1',
+      [userId]
+    );
+    if (existing[0].count >= MAX_API_TOKENS) {
+      return res.status(400).json({ error: `You can have up to ${MAX_API_TOKENS} API tokens.` });
+    }
+
+    const { token, apiToken } = await createApiToken(pool, userId, parsed.token);
+    res.status(201).json({ apiToken, token });
+  });
+
+  /**
+   * DELETE /api/dashboard/tokens/:id
+   * Revoke an API token; requests using it are refused straight away.
+   */
+  router.delete('/tokens/:id', dashboardWriteLimiter, async (req: Request, res: Response) => {
+    if (!(await revokeApiToken(pool, req.session!.userId, req.params.id))) {
+      return res.status(404).json({ error: 'Token not found.' });
+    }
+
+    res.json({ ok: true });
+  });
+
+  /**
+   * GET /api/dashboard/webhooks
+   * List the user's webhooks. Secrets are only shown when created or rotated.
+   */
+  router.get('/webhooks', async (req: Request, res: Response) => {
+    const userId = req.session!.userId;
+
+    const { rows } = await pool.query(
+      `SELECT ${WEBHOOK_COLUMNS} FROM webhooks WHERE user_id = $1 ORDER BY created_at`,
+      [userId]
+    );
+
+    res.json({ webhooks: rows.map(webhookFromRow) });
+  });
+
+  /**
+   * POST /api/dashboard/webhooks
+   * Add a webhook. Body: { url, events, pageId? } where a missing pageId
+   * covers all the user's pages. Returns the signing secret.
+   */
+  router.post('/webhooks', dashboardWriteLimiter, async (req: Request, res: Response) => {
+    const userId = req.session!.userId;
+
+    const parsed = parseWebhook(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const { webhook } = parsed;
+
+    const pageId = req.body.pageId ?? null;
+    if (pageId !== null && typeof pageId !== 'string') {
+      return res.status(400).json({ error: 'pageId must be a page id.' });
+    }
+    if (pageId !== null) {
+      const { rows: ownerCheck } = await pool.query(
+        'SELECT id FROM scheduling_pages WHERE id = $1 AND user_id = $2',
+        [pageId, userId]
+      );
+      if (ownerCheck.length === 0) {
+        return res.status(404).json({ error: 'Page not found.' });
+      }
+    }
+
+    if (!(await isSafeToFetch(webhook.url))) {
+      return res.status(400).json({ error: 'This webhook URL is not allowed.' });
+    }
+
+    const { rows: existing } = await pool.query(
+      'SELECT COUNT(*)::int AS count FROM webhooks WHERE user_id = $1',
+      [userId]
+    );
+    if (existing[0].count >= MAX_WEBHOOKS) {
+      return res.status(400).json({ error: `You can have up to ${MAX_WEBHOOKS} webhooks.` });
+    }
+
+    const secret = generateWebhookSecret();
+    const encrypted = encrypt(secret);
+    const { rows } = await pool.query(
+      `INSERT INTO webhooks (user_id, page_id, url, events, secret_enc, secret_iv, secret_tag)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING ${WEBHOOK_COLUMNS}`,
+      [userId, pageId, webhook.url, webhook.events, encrypted.ciphertext, encrypted.iv, encrypted.tag]
+    );
+
+    res.status(201).json({ webhook: webhookFromRow(rows[0]), secret });
+  });
+
+  /**
+   * PATCH /api/dashboard/webhooks/:id
+   * Update a webhook's url, events or isActive. Fields left out keep their
+   * current value.
+   */
+  router.patch('/webhooks/:id', dashboardWriteLimiter, async (req: Request, res: Response) => {
+    const userId = req.session!.userId;
+
+    const { rows: current } = await pool.query(
+      `SELECT ${WEBHOOK_COLUMNS} FROM webhooks WHERE id = $1 AND user_id = $2`,
+      [req.params.id, userId]
+    );
+    if (current.length === 0) {
+      return res.status(404).json({ error: 'Webhook not found.' });
+    }
+    const existing = webhookFromRow(current[0]);
+
+    const { url, events, isActive } = req.body;
+    const parsed = parseWebhook({ url: url ?? existing.url, events: events ?? existing.events });
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    if (isActive !== undefined && typeof isActive !== 'boolean') {
+      return res.status(400).json({ error: 'isActive must be true or false.' });
+    }
+    const { webhook } = parsed;
+    if (webhook.url !== existing.url && !(await isSafeToFetch(webhook.url))) {
+      return res.status(400).json({ error: 'This webhook URL is not allowed.' });
+    }
+
+    const { rows } = await pool.query(
+      `UPDATE webhooks SET url = $2, events = $3, is_active = $4
+       WHERE id = $1
+       RETURNING ${WEBHOOK_COLUMNS}`,
+      [req.params.id, webhook.url, webhook.events, isActive ?? existing.isActive]
+    );
+
+    res.json({ webhook: webhookFromRow(rows[0]) });
+  });
+
+  /**
+   * DELETE /api/dashboard/webhooks/:id
+   * Remove a webhook; deliveries still queued for it are dropped.
+   */
+  router.delete('/webhooks/:id', dashboardWriteLimiter, async (req: Request, res: Response) => {
+    const { rowCount } = await pool.query(
+      'DELETE FROM webhooks WHERE id = $1 AND user_id = $2',
+      [req.params.id, req.session!.userId]
+    );
+    if (!rowCount) {
+      return res.status(404).json({ error: 'Webhook not found.' });
+    }
+
+    res.json({ ok: true });
+  });
+
+  /**
+   * POST /api/dashboard/webhooks/:id/secret
+   * Replace a webhook's signing secret and return the new one.
+   */
+  router.post('/webhooks/:id/secret', dashboardWriteLimiter, async (req: Request, res: Response) => {
+    const secret = generateWebhookSecret();
+    const encrypted = encrypt(secret);
+    const { rowCount } = await pool.query(
+      `UPDATE webhooks SET secret_enc = $3, secret_iv = $4, secret_tag = $5
+       WHERE id = $1 AND user_id = $2`,
+      [req.params.id, req.session!.userId, encrypted.ciphertext, encrypted.iv, encrypted.tag]
+    );
+    if (!rowCount) {
+      return res.status(404).json({ error: 'Webhook not found.' });
+    }
+
+    res.json({ secret });
+  });
+
+  /**
+   * POST /api/dashboard/webhooks/:id/test
+   * Send a "ping" event to the webhook.
+   */
+  router.post('/webhooks/:id/test', dashboardWriteLimiter, async (req: Request, res: Response) => {
+    const { rows } = await pool.query(
+      'SELECT id FROM webhooks WHERE id = $1 AND user_id = $2',
+      [req.params.id, req.session!.userId]
+    );
+    if (rows.length === 0) {
+      return res.status(404).json({ error: 'Webhook not found.' });
+    }
+
+    await sendTestWebhook(pool, req.params.id);
+    res.status(202).json({ ok: true });
+  });
+
+  /**
+   * GET /api/dashboard/webhooks/:id/deliveries
+   * The webhook's most recent delivery attempts, newest first.
+   */
+  router.get('/webhooks/:id/deliveries', async (req: Request, res: Response) => {
+    const { rows } = await pool.query(
+      'SELECT id FROM webhooks WHERE id = $1 AND user_id = $2',
+      [req.params.id, req.session!.userId]
+    );
+    if (rows.length === 0) {
+      return res.status(404).json({ error: 'Webhook not found.' });
+    }
+
+    res.json({ deliveries: await listWebhookDeliveries(pool, req.params.id) });
+  });
+
   return router;
 }
@@ -1,11 +1,46 @@
-import { Router } from "express";
+import { Router, Request, Response } from "express";
 import { v4 as uuidv4 } from "uuid";
 import rateLimit from "express-rate-limit";
-import { sendAppointmentRequestEmail, sendVerificationEmail } from "../services/email";
+import {
+  sendAppointmentRequestEmail,
+  sendBookingChangeEmail,
+  sendInviteWithdrawnEmail,
+  sendRequestSentEmail,
+  sendVerificationEmail
+} from "../services/email";
 import { pagesStore, pendingRequestsStore, bookingsStore } from "../store";
 import { validateMultipleCalendarUrls, fetchAndParseMultipleCalendars } from "../services/calendar";
+import type { BusySlot, BusyFilter } from "../services/calendar";
+import { DEFAULT_BUSY_RULES, rulesUseOwnerEmail } from "../services/busyRules";
+import { legacyWeeklyAvailability } from "../services/weeklyAvailability";
+import {
+  rulesForPage,
+  resolveWindow,
+  reservationWindow,
+  computeAvailableSlots,
+  slotConflict,
+  groupSlotsByDate
+} from "../services/availability";
+import type { AvailabilityRules } from "../services/availability";
+import type { MeetingType } from "../services/meetingTypes";
+import type { Booking, PendingRequest, SchedulingPage } from "../store/interfaces";
+import { canTransition } from "../services/bookingStatus";
+import { isValidTimezone, wallClockToUtc, addDays } from "../utils/timezone";
 import { encrypt, decrypt } from "../utils/encryption";
+import { manageUrl, verifyManageToken } from "../utils/manageToken";
 import { getPool } from "../db/client";
+import { emitBookingEvent, WebhookEvent } from "../services/webhooks";
+import { frameAncestorsPolicy } from "../services/embedding";
+import { parseIntakeAnswers } from "../services/intakeQuestions";
+import { parseTimeFormat, timeFormatFromColumns, TimeFormat } from "../utils/timeFormat";
+import {
+  Language,
+  MessageParams,
+  languageFromColumn,
+  negotiateLanguage,
+  parseLanguage,
+  translator
+} from "../i18n";
 
 export const pagesRouter = Router();
 
@@ -42,9 +77,17 @@ const confirmLimiter = rateLimit({
   max: 10 // max 10 confirmations per IP per hour
 });
 
+const manageLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 30 // max 30 manage-link views and changes per IP per hour
+});
+
 // Basic email format validation (no external dependency)
 const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
+// Calendar date in YYYY-MM-DD form (slot query bounds)
+const DATE_RE = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
 // Calendar URL validation to mitigate SSRF
 function isValidCalendarUrl(rawUrl: string): boolean {
   if (!rawUrl || rawUrl.length > 4096) return false;
@@ -106,6 +149,176 @@ function isIpAddress(hostname: string): boolean {
   return false;
 }
 
+const SLOT_TAKEN_ERROR =
+  "Sorry, that time has just been taken. Please choose another slot.";
+
+const FULLY_BOOKED_ERROR =
+  "Sorry, no more meetings can be booked on that day. Please choose another day.";
+
+const SLOT_UNAVAILABLE_ERROR =
+  "Sorry, that time is not available. Please choose one of the times shown.";
+
+const SLOT_CONFLICT_ERRORS: Record<"taken" | "full" | "unavailable", string> = {
+  taken: SLOT_TAKEN_ERROR,
+  full: FULLY_BOOKED_ERROR,
+  unavailable: SLOT_UNAVAILABLE_ERROR
+};
+
+// The owner's busy time from the page's calendars, as its busy rules see it
+async function getBusySlots(page: SchedulingPage, from: Date, to: Date) {
+  // Declined and tentative replies are found by the owner's address
+  const busyRules = page.busyRules ?? DEFAULT_BUSY_RULES;
+  const filter: BusyFilter = {
+    rules: busyRules,
+    ownerEmail: rulesUseOwnerEmail(busyRules) ? (await getOwnerEmail(page.slug)) ?? undefined : undefined
+  };
+  return fetchAndParseMultipleCalendars(page.calendarUrls, from, to, filter);
+}
+
+// Slots already spoken for on a page: confirmed bookings, plus unexpired
+// pending requests, which hold their slot until confirmed or expired.
+// A hold being replaced is ignored, and a booking being rescheduled is
+// ignored so it can move within its buffers.
+async function getReservedSlots(
+  slug: string,
+  from: Date,
+  to: Date,
+  ignoring: { pendingToken?: string; bookingId?: string } = {}
+): Promise<BusySlot[]> {
+  const pageId = await pagesStore.getPageId(slug);
+  const [bookings, pending] = await Promise.all([
+    pageId ? bookingsStore.listOverlapping(pageId, from, to) : Promise.resolve([]),
+    pendingRequestsStore.listOverlapping(slug, from, to)
+  ]);
+
+  return [
+    ...bookings
+      .filter((b) => b.id !== ignoring.bookingId)
+      .map((b) => ({ start: b.startTime, end: b.endTime })),
+    ...pending
+      .filter((p) => p.token !== ignoring.pendingToken)
+      .map((p) => ({ start: p.startIso, end: p.endIso }))
+  ];
+}
+
+// The requester's own hold on exactly this slot, if they are sending the
+// same request again (e.g. the first verification email never arrived).
+// Their other holds still count, so one address cannot hold several slots.
+async function findOwnHold(
+  slug: string,
+  requesterEmail: string,
+  slot: { startIso: string; endIso: string }
+): Promise<PendingRequest | undefined> {
+  const start = new Date(slot.startIso);
+  const end = new Date(slot.endIso);
+  const email = requesterEmail.toLowerCase();
+  const pending = await pendingRequestsStore.listOverlapping(slug, start, end);
+  return pending.find(
+    (p) =>
+      p.requesterEmail.toLowerCase() === email &&
+      new Date(p.startIso).getTime() === start.getTime() &&
+      new Date(p.endIso).getTime() === end.getTime()
+  );
+}
+
+// The page's notification address, or null when it has none or it cannot
+// be decrypted. Only pages stored in the database have one.
+// An accepted booking is in the requester's calendar as well as the owner's;
+// when the requester cancels or moves it, the old time comes out of theirs
+// too (the owner's cancellation goes with the change email)
+async function withdrawRequesterInvite(
+  page: SchedulingPage,
+  booking: Booking,
+  changed: Booking,
+  ownerEmail: string | null
+): Promise<void> {
+  try {
+    await sendInviteWithdrawnEmail({
+      bookingId: booking.id,
+      sequence: changed.revision,
+      requesterEmail: booking.requesterEmail,
+      requesterName: booking.requesterName,
+      ownerName: page.ownerName,
+      ownerEmail: ownerEmail ?? undefined,
+      change: changed.status === "cancelled" ? "cancelled" : "rescheduled",
+      reason: booking.reason,
+      startIso: booking.startTime,
+      endIso: booking.endTime,
+      timezone: booking.timezone,
+      timeFormat: booking.timeFormat,
+      language: booking.language ?? page.language
+    });
+  } catch (err) {
+    // The change stands; the requester was told on the page
+    // eslint-disable-next-line no-console
+    console.error("Failed to withdraw the requester's invite:", err);
+  }
+}
+
+async function getOwnerEmail(slug: string): Promise<string | null> {
+  const pool = getPool();
+  if (!pool) return null;
+
+  const { rows } = await pool.query(
+    `SELECT notification_email_enc, notification_email_iv, notification_email_tag
+     FROM scheduling_pages WHERE slug = $1`,
+    [slug]
+  );
+  if (rows.length === 0 || !rows[0].notification_email_enc) return null;
+
+  try {
+    return decrypt({
+      ciphertext: rows[0].notification_email_enc,
+      iv: rows[0].notification_email_iv,
+      tag: rows[0].notification_email_tag,
+    });
+  } catch {
+    return null;
+  }
+}
+
+// The owner's language and date and time preferences, for emails to them.
+// Only pages owned by an account have any.
+async function getOwnerPreferences(
+  page: SchedulingPage
+): Promise<{ timeFormat: TimeFormat; language?: Language }> {
+  const pool = getPool();
+  if (!pool || !page.userId) return { timeFormat: {} };
+
+  const { rows } = await pool.query(
+    "SELECT locale, hour_cycle, language FROM users WHERE id = $1",
+    [page.userId]
+  );
+  if (rows.length === 0) return { timeFormat: {} };
+  return {
+    timeFormat: timeFormatFromColumns(rows[0].locale, rows[0].hour_cycle),
+    language: languageFromColumn(rows[0].language)
+  };
+}
+
+// Queues the owner's webhooks for a booking event. Only pages stored in the
+// database have webhooks; a failure is logged and never shown to the requester.
+async function notifyWebhooks(event: WebhookEvent, bookingId: string): Promise<void> {
+  const pool = getPool();
+  if (!pool) return;
+
+  try {
+    await emitBookingEvent(pool, event, bookingId);
+  } catch (err) {
+    // eslint-disable-next-line no-console
+    console.error("Failed to queue webhooks:", err);
+  }
+}
+
+// The meeting type being booked: the one named, or the page's first when
+// none is. Undefined for pages without meeting types; null if the id does
+// not name one of the page's types.
+function resolveMeetingType(page: SchedulingPage, id: unknown): MeetingType | undefined | null {
+  const types = page.meetingTypes ?? [];
+  if (id === undefined || id === "") return types[0];
+  return types.find((t) => t.id === id) ?? null;
+}
+
 // Escape user-supplied strings before interpolating into HTML
 function escapeHtml(str: string): string {
   return str
@@ -116,6 +329,71 @@ function escapeHtml(str: string): string {
     .replace(/'/g, "&#39;");
 }
 
+type ConfirmationOutcome = "expired" | "pageExpired" | "taken" | "sent" | "error";
+
+const CONFIRMATION_HEADING_COLORS: Partial<Record<ConfirmationOutcome, string>> = {
+  taken: "#DBA8AD",
+  sent: "#A3BE8C",
+  error: "#DBA8AD"
+};
+
+// The page shown after following a confirmation link. `params` must already
+// be escaped; `extraHtml` goes below the message.
+function confirmationPage(
+  language: Language,
+  outcome: ConfirmationOutcome,
+  params: MessageParams = {},
+  extraHtml = ""
+): string {
+  const { tHtml } = translator(language);
+  const color = CONFIRMATION_HEADING_COLORS[outcome];
+  return `<!DOCTYPE html>
+<html lang="${language}">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>${tHtml(`confirm.${outcome}.title`)} - CalAnywhere</title>
+<style>body{font-family:system-ui,sans-serif;background:#5E81AC;color:#ECEFF4;display:flex;align-items:center;justify-content:center;min-height:100vh;margin:0;padding:1rem}
+.card{max-width:28rem;text-align:center;background:#3B4252;border:1px solid #4C566A;border-radius:1rem;padding:2rem;box-shadow:0 4px 6px rgba(0,0,0,.3)}
+h1{font-size:1.25rem;margin:0 0 .75rem${color ? `;color:${color}` : ""}}p{color:#D8DEE9;font-size:.875rem;margin:0}</style></head>
+<body><div class="card"><h1>${tHtml(`confirm.${outcome}.heading`)}</h1><p>${tHtml(`confirm.${outcome}.body`, params)}</p>${extraHtml}</div></body></html>`;
+}
+
+// Public origin for links in emails (the frontend and API share a host)
+function publicBaseUrl(req: Request): string {
+  const protocol = req.secure || req.headers["x-forwarded-proto"] === "https" ? "https" : "http";
+  return `${protocol}://${req.hostname}`;
+}
+
+// The booking a manage token was issued for, provided it belongs to the
+// page in the URL. Null for a bad token, or a page or booking that is gone.
+async function getManagedBooking(
+  slug: string,
+  token: string
+): Promise<{ page: SchedulingPage; booking: Booking } | null> {
+  const bookingId = verifyManageToken(token);
+  if (!bookingId) return null;
+
+  const [page, pageId, booking] = await Promise.all([
+    pagesStore.get(slug),
+    pagesStore.getPageId(slug),
+    bookingsStore.get(bookingId)
+  ]);
+  if (!page || !booking || booking.pageId !== pageId) return null;
+  return { page, booking };
+}
+
+// Requesters can change a booking until it starts, unless it was declined
+// or cancelled
+function isChangeable(booking: Booking): boolean {
+  return canTransition(booking.status, "cancelled") && new Date(booking.startTime) > new Date();
+}
+
+// The rules a booking is moved under: its meeting type's buffers and hours
+// while the type still exists, and always the booking's own length
+function rescheduleRules(page: SchedulingPage, booking: Booking): AvailabilityRules {
+  const meetingType = page.meetingTypes?.find((t) => t.id === booking.meetingTypeId);
+  const duration = new Date(booking.endTime).getTime() - new Date(booking.startTime).getTime();
+  return { ...rulesForPage(page, meetingType), durationMinutes: duration / (60 * 1000) };
+}
+
 // Helper to generate cryptographically strong slug
 function generateSlug(): string {
   // uuid without dashes is 32 chars; we can truncate to 22 for a compact, unguessable slug
@@ -285,7 +563,7 @@ pagesRouter.post("/", createPageLimiter, async (req, res) => {
   }
 });
 
-// GET /api/pages/:slug - fetch page metadata and current availability skeleton
+// GET /api/pages/:slug - fetch page metadata (availability is served by /slots)
 pagesRouter.get("/:slug", async (req, res) => {
   const slug = req.params.slug;
   const page = await pagesStore.get(slug);
@@ -311,33 +589,115 @@ pagesRouter.get("/:slug", async (req, res) => {
     });
   }
 
-  // Fetch and parse calendar to generate free/busy data
-  try {
-    const now = new Date();
-    const endDate = new Date(
-      now.getTime() + (page.dateRangeDays ?? 60) * 24 * 60 * 60 * 1000
-    );
+  return res.json({
+    slug: page.slug,
+    ownerName: page.ownerName,
+    bio: page.bio,
+    defaultDurationMinutes: page.defaultDurationMinutes,
+    bufferMinutes: page.bufferMinutes,
+    bufferBeforeMinutes: page.bufferBeforeMinutes ?? 0,
+    slotIncrementMinutes: page.slotIncrementMinutes ?? null,
+    dateRangeDays: page.dateRangeDays,
+    minNoticeHours: page.minNoticeHours,
+    includeWeekends: page.includeWeekends,
+    availabilityStart: page.availabilityStart ?? '09:00',
+    availabilityEnd: page.availabilityEnd ?? '17:00',
+    ownerTimezone: page.ownerTimezone ?? 'UTC',
+    weeklyAvailability: page.weeklyAvailability ?? legacyWeeklyAvailability(
+      page.availabilityStart ?? '09:00',
+      page.availabilityEnd ?? '17:00',
+      page.includeWeekends ?? false
+    ),
+    // Only types with their own hours include weeklyAvailability
+    meetingTypes: page.meetingTypes ?? [],
+    intakeQuestions: page.intakeQuestions ?? [],
+    embeddable: page.embed?.enabled ?? false,
+    // The owner's choice, or else the best match for the visitor's browser
+    language: page.language ?? negotiateLanguage(req),
+    expiresAt: page.expiresAt
+  });
+});
 
-    const busySlots = await fetchAndParseMultipleCalendars(
-      page.calendarUrls,
-      now,
-      endDate
-    );
+// GET /api/pages/:slug/embed-policy
+// Asked by the web server before it serves the widget at /embed/:slug. Answers
+// 204 with the page's frame-ancestors policy when the owner allows embedding,
+// and 403 otherwise (nginx's auth_request only understands 2xx, 401 and 403).
+pagesRouter.get("/:slug/embed-policy", async (req, res) => {
+  const page = await pagesStore.get(req.params.slug);
+  res.setHeader("Content-Security-Policy", frameAncestorsPolicy(page?.embed));
+  res.setHeader("Cache-Control", "no-store");
+  return res.status(page?.embed?.enabled ? 204 : 403).end();
+});
+
+// GET /api/pages/:slug/slots?from=YYYY-MM-DD&to=YYYY-MM-DD&tz=Area/City&type=<meeting type id>
+// Returns only the free slots, grouped by date in `tz`. The owner's busy
+// intervals are used server-side and never included in the response.
+pagesRouter.get("/:slug/slots", async (req, res) => {
+  const page = await pagesStore.get(req.params.slug);
+
+  if (!page) {
+    return res.status(404).json({
+      error: "This scheduling page does not exist."
+    });
+  }
+
+  const meetingType = resolveMeetingType(page, req.query.type);
+  if (meetingType === null) {
+    return res.status(400).json({ error: "Unknown meeting type." });
+  }
+
+  return respondWithSlots(req, res, page, rulesForPage(page, meetingType));
+});
+
+// Answers a slots request: the free slots under `rules` in the requested
+// days (?from=&to=, inclusive, in ?tz=), grouped by date in that timezone
+async function respondWithSlots(
+  req: Request,
+  res: Response,
+  page: SchedulingPage,
+  rules: AvailabilityRules,
+  ignoring: { bookingId?: string } = {}
+) {
+  const tz = typeof req.query.tz === "string" && req.query.tz.length > 0
+    ? req.query.tz
+    : page.ownerTimezone ?? "UTC";
+  if (!isValidTimezone(tz)) {
+    return res.status(400).json({ error: "Invalid timezone." });
+  }
+
+  const { from, to } = req.query;
+  if (
+    (from !== undefined && (typeof from !== "string" || !DATE_RE.test(from))) ||
+    (to !== undefined && (typeof to !== "string" || !DATE_RE.test(to)))
+  ) {
+    return res.status(400).json({ error: "from and to must be dates in YYYY-MM-DD format." });
+  }
+
+  const query = {
+    now: new Date(),
+    // Both bounds are whole days in the requested timezone; `to` is inclusive
+    from: typeof from === "string" ? wallClockToUtc(from, "00:00", tz) : undefined,
+    to: typeof to === "string" ? wallClockToUtc(addDays(to, 1), "00:00", tz) : undefined
+  };
+  const window = resolveWindow(rules, query);
+  // Busy time just outside the window can still fall within a buffer, and
+  // bookings on the window's first and last days count towards their caps
+  const lookup = reservationWindow(rules, window);
+
+  try {
+    const [calendar, reserved] = window.from < window.to
+      ? await Promise.all([
+          getBusySlots(page, lookup.from, lookup.to),
+          getReservedSlots(page.slug, lookup.from, lookup.to, ignoring)
+        ])
+      : [{ busySlots: [], stale: false }, []];
+    const slots = computeAvailableSlots(rules, calendar.busySlots, query, reserved);
 
     return res.json({
-      slug: page.slug,
-      ownerName: page.ownerName,
-      bio: page.bio,
-      defaultDurationMinutes: page.defaultDurationMinutes,
-      bufferMinutes: page.bufferMinutes,
-      dateRangeDays: page.dateRangeDays,
-      minNoticeHours: page.minNoticeHours,
-      includeWeekends: page.includeWeekends,
-      availabilityStart: page.availabilityStart ?? '09:00',
-      availabilityEnd: page.availabilityEnd ?? '17:00',
-      ownerTimezone: page.ownerTimezone ?? 'UTC',
-      expiresAt: page.expiresAt,
-      busySlots
+      timezone: tz,
+      days: groupSlotsByDate(slots, tz),
+      // True when a failing feed was answered from its last good copy
+      stale: calendar.stale
     });
   } catch (_err) {
     return res.status(502).json({
@@ -345,7 +705,7 @@ pagesRouter.get("/:slug", async (req, res) => {
         "We could not fetch the calendar feed right now. Please try again later or regenerate a new link."
     });
   }
-});
+}
 
 // POST /api/pages/:slug/requests - submit an appointment request (sends verification email)
 pagesRouter.post("/:slug/requests", requestLimiter, async (req, res) => {
@@ -366,6 +726,11 @@ pagesRouter.post("/:slug/requests", requestLimiter, async (req, res) => {
     startIso,
     endIso,
     timezone,
+    meetingTypeId,
+    answers,
+    locale,
+    hourCycle,
+    language: requestedLanguage,
     honeypot
   } = req.body as {
     requesterName: string;
@@ -375,6 +740,11 @@ pagesRouter.post("/:slug/requests", requestLimiter, async (req, res) => {
     startIso: string;
     endIso: string;
     timezone?: string;
+    meetingTypeId?: string;
+    answers?: Record<string, unknown>; // keyed by intake question id
+    locale?: unknown; // how the requester's emails write dates and times
+    hourCycle?: unknown;
+    language?: unknown; // the booking page's, for the requester's emails
     honeypot?: string;
   };
 
@@ -408,6 +778,60 @@ pagesRouter.post("/:slug/requests", requestLimiter, async (req, res) => {
   if (notes && notes.length > 500) {
     return res.status(400).json({ error: "Notes must not exceed 500 characters." });
   }
+  // The zone the requester chose on the page; their emails use it
+  if (timezone !== undefined && (typeof timezone !== "string" || !isValidTimezone(timezone))) {
+    return res.status(400).json({ error: "Invalid timezone." });
+  }
+  const timeFormat = parseTimeFormat({ locale, hourCycle });
+  if ("error" in timeFormat) {
+    return res.status(400).json({ error: timeFormat.error });
+  }
+  const parsedLanguage = parseLanguage(requestedLanguage);
+  if ("error" in parsedLanguage) {
+    return res.status(400).json({ error: parsedLanguage.error });
+  }
+  const language = parsedLanguage.language ?? page.language ?? negotiateLanguage(req);
+
+  const intake = parseIntakeAnswers(page.intakeQuestions ?? [], answers);
+  if ("error" in intake) {
+    return res.status(400).json({ error: intake.error });
+  }
+
+  const start = new Date(startIso);
+  const end = new Date(endIso);
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+    return res.status(400).json({ error: "Please choose a valid time slot." });
+  }
+
+  const meetingType = resolveMeetingType(page, meetingTypeId);
+  if (meetingType === null) {
+    return res.status(400).json({ error: "Please choose one of the meeting types offered." });
+  }
+  if (meetingType && end.getTime() - start.getTime() !== meetingType.durationMinutes * 60 * 1000) {
+    return res.status(400).json({ error: "Please choose a valid time slot." });
+  }
+
+  // Accept only a slot the page would offer: within its hours and clear of
+  // the owner's calendar, and not booked or held by another request,
+  // allowing for buffers, on a day or week that has not reached its cap
+  let ownHold: PendingRequest | undefined;
+  try {
+    const rules = rulesForPage(page, meetingType);
+    const lookup = reservationWindow(rules, { from: start, to: end });
+    ownHold = await findOwnHold(slug, requesterEmail, { startIso, endIso });
+    const [calendar, reserved] = await Promise.all([
+      getBusySlots(page, lookup.from, lookup.to),
+      getReservedSlots(slug, lookup.from, lookup.to, { pendingToken: ownHold?.token })
+    ]);
+    const conflict = slotConflict(rules, { start: startIso, end: endIso }, calendar.busySlots, reserved);
+    if (conflict) {
+      return res.status(409).json({ error: SLOT_CONFLICT_ERRORS[conflict] });
+    }
+  } catch (_err) {
+    return res.status(503).json({
+      error: "We could not check availability right now. Please try again later."
+    });
+  }
 
   try {
     // Store as pending and send verification email
@@ -419,11 +843,17 @@ pagesRouter.post("/:slug/requests", requestLimiter, async (req, res) => {
       notes,
       startIso,
       endIso,
-      timezone
+      timezone,
+      meetingTypeId: meetingType?.id,
+      meetingTypeName: meetingType?.name,
+      intakeAnswers: intake.answers,
+      timeFormat: timeFormat.format,
+      language
     });
+    // The new request takes over the slot from the one it repeats
+    if (ownHold) await pendingRequestsStore.delete(ownHold.token);
 
-    const protocol = req.secure || req.headers["x-forwarded-proto"] === "https" ? "https" : "http";
-    const confirmUrl = `${protocol}://${req.hostname}/api/pages/${slug}/requests/${pending.token}/confirm`;
+    const confirmUrl = `${publicBaseUrl(req)}/api/pages/${slug}/requests/${pending.token}/confirm`;
 
     await sendVerificationEmail({
       requesterEmail,
@@ -432,7 +862,10 @@ pagesRouter.post("/:slug/requests", requestLimiter, async (req, res) => {
       startIso,
       endIso,
       confirmUrl,
-      timezone
+      timezone,
+      timeFormat: timeFormat.format,
+      language,
+      meetingTypeName: meetingType?.name
     });
 
     return res.status(202).json({ status: "verification_sent" });
@@ -457,101 +890,309 @@ pagesRouter.get("/:slug/requests/:token/confirm", confirmLimiter, async (req, re
   const pending = await pendingRequestsStore.getAndDelete(token);
 
   if (!pending || pending.slug !== slug) {
-    return res.status(200).contentType("text/html").send(`<!DOCTYPE html>
-<html lang="en">
-<head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>Link Expired - CalAnywhere</title>
-<style>body{font-family:system-ui,sans-serif;background:#5E81AC;color:#ECEFF4;display:flex;align-items:center;justify-content:center;min-height:100vh;margin:0;padding:1rem}
-.card{max-width:28rem;text-align:center;background:#3B4252;border:1px solid #4C566A;border-radius:1rem;padding:2rem;box-shadow:0 4px 6px rgba(0,0,0,.3)}
-h1{font-size:1.25rem;margin:0 0 .75rem}p{color:#D8DEE9;font-size:.875rem;margin:0}</style></head>
-<body><div class="card"><h1>This link has expired or has already been used.</h1><p>Confirmation links are valid for 1 hour and can only be used once.</p></div></body></html>`);
+    return res.status(200).contentType("text/html").send(
+      confirmationPage(negotiateLanguage(req), "expired")
+    );
   }
 
+  // Answered in the language the booking page was shown in
+  const language = pending.language ?? negotiateLanguage(req);
   const page = await pagesStore.get(slug);
 
   if (!page) {
-    return res.status(200).contentType("text/html").send(`<!DOCTYPE html>
-<html lang="en">
-<head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>Page Expired - CalAnywhere</title>
-<style>body{font-family:system-ui,sans-serif;background:#5E81AC;color:#ECEFF4;display:flex;align-items:center;justify-content:center;min-height:100vh;margin:0;padding:1rem}
-.card{max-width:28rem;text-align:center;background:#3B4252;border:1px solid #4C566A;border-radius:1rem;padding:2rem;box-shadow:0 4px 6px rgba(0,0,0,.3)}
-h1{font-size:1.25rem;margin:0 0 .75rem}p{color:#D8DEE9;font-size:.875rem;margin:0}</style></head>
-<body><div class="card"><h1>The scheduling page has expired.</h1><p>The calendar owner&rsquo;s scheduling link is no longer active.</p></div></body></html>`);
+    return res.status(200).contentType("text/html").send(confirmationPage(language, "pageExpired"));
   }
 
   try {
-    // Decrypt notification email from DB (if available)
-    let ownerEmail: string | null = null;
-    const pool = getPool();
-    if (pool) {
-      const { rows: emailRows } = await pool.query(
-        `SELECT notification_email_enc, notification_email_iv, notification_email_tag
-         FROM scheduling_pages WHERE slug = $1`,
-        [slug]
-      );
-      if (emailRows.length > 0 && emailRows[0].notification_email_enc) {
-        try {
-          ownerEmail = decrypt({
-            ciphertext: emailRows[0].notification_email_enc,
-            iv: emailRows[0].notification_email_iv,
-            tag: emailRows[0].notification_email_tag,
-          });
-        } catch {
-          // Decryption failed — skip email notification
-        }
-      }
-    }
-
-    // Send email notification if we have an address
-    if (ownerEmail) {
-      await sendAppointmentRequestEmail({
-        ownerName: page.ownerName,
-        ownerEmail,
+    // Record the booking first: the atomic overlap check here is what stops
+    // two requesters confirming the same slot
+    const pageId = await pagesStore.getPageId(slug);
+    let bookingId: string | undefined;
+    if (pageId) {
+      const booking = await bookingsStore.createIfAvailable({
+        pageId,
         requesterName: pending.requesterName,
         requesterEmail: pending.requesterEmail,
         reason: pending.reason,
         notes: pending.notes,
-        startIso: pending.startIso,
-        endIso: pending.endIso,
-        timezone: pending.timezone
+        startTime: pending.startIso,
+        endTime: pending.endIso,
+        timezone: pending.timezone,
+        meetingTypeId: pending.meetingTypeId,
+        meetingTypeName: pending.meetingTypeName,
+        intakeAnswers: pending.intakeAnswers,
+        timeFormat: pending.timeFormat,
+        language: pending.language,
       });
+
+      if (!booking) {
+        return res.status(409).contentType("text/html").send(confirmationPage(language, "taken"));
+      }
+      bookingId = booking.id;
+      await notifyWebhooks("request.created", booking.id);
     }
 
-    // Record the booking (best-effort — don't fail if this errors)
-    try {
-      const pageId = await pagesStore.getPageId(slug);
-      if (pageId) {
-        await bookingsStore.create({
-          pageId,
+    // Notification email from DB; skipped if absent or undecryptable
+    const ownerEmail = await getOwnerEmail(slug);
+
+    // Send email notification if we have an address. With a database it is
+    // queued and retried; either way the recorded booking stands, and the
+    // owner still sees it in the dashboard.
+    if (ownerEmail) {
+      try {
+        await sendAppointmentRequestEmail({
+          ownerName: page.ownerName,
+          ownerEmail,
           requesterName: pending.requesterName,
           requesterEmail: pending.requesterEmail,
           reason: pending.reason,
           notes: pending.notes,
-          startTime: pending.startIso,
-          endTime: pending.endIso,
+          startIso: pending.startIso,
+          endIso: pending.endIso,
           timezone: pending.timezone,
+          ...(await getOwnerPreferences(page)),
+          meetingTypeName: pending.meetingTypeName,
+          intakeAnswers: pending.intakeAnswers,
+          requestsUrl: page.userId && pageId
+            ? `${publicBaseUrl(req)}/dashboard/pages/${pageId}/requests`
+            : undefined
         });
+      } catch (err) {
+        // eslint-disable-next-line no-console
+        console.error("Failed to send appointment request email:", err);
+      }
+    }
+
+    // Bookings can be changed later from the link in this email
+    const manage = bookingId ? manageUrl(publicBaseUrl(req), slug, bookingId) : undefined;
+    if (manage) {
+      try {
+        await sendRequestSentEmail({
+          requesterEmail: pending.requesterEmail,
+          requesterName: pending.requesterName,
+          ownerName: page.ownerName,
+          startIso: pending.startIso,
+          endIso: pending.endIso,
+          timezone: pending.timezone,
+          timeFormat: pending.timeFormat,
+          language: pending.language,
+          meetingTypeName: pending.meetingTypeName,
+          manageUrl: manage
+        });
+      } catch (err) {
+        // The request is recorded; the link is also on the page below
+        // eslint-disable-next-line no-console
+        console.error("Failed to send request sent email:", err);
       }
-    } catch (_bookingErr) {
-      // eslint-disable-next-line no-console
-      console.error("Failed to create booking record:", _bookingErr);
     }
 
     const ownerFirst = escapeHtml(page.ownerName.split(" ")[0]);
+    const manageLink = manage
+      ? `<p style="margin-top:1rem"><a href="${escapeHtml(manage)}" style="color:#88C0D0">${translator(language).tHtml("confirm.manageLink")}</a></p>`
+      : "";
 
-    return res.status(200).contentType("text/html").send(`<!DOCTYPE html>
-<html lang="en">
-<head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>Request Confirmed - CalAnywhere</title>
-<style>body{font-family:system-ui,sans-serif;background:#5E81AC;color:#ECEFF4;display:flex;align-items:center;justify-content:center;min-height:100vh;margin:0;padding:1rem}
-.card{max-width:28rem;text-align:center;background:#3B4252;border:1px solid #4C566A;border-radius:1rem;padding:2rem;box-shadow:0 4px 6px rgba(0,0,0,.3)}
-h1{font-size:1.25rem;margin:0 0 .75rem;color:#A3BE8C}p{color:#D8DEE9;font-size:.875rem;margin:0}</style></head>
-<body><div class="card"><h1>Your appointment request has been sent!</h1><p>${ownerFirst} will receive your request and respond to you by email.</p></div></body></html>`);
+    return res.status(200).contentType("text/html").send(
+      confirmationPage(language, "sent", { owner: ownerFirst }, manageLink)
+    );
   } catch (_err) {
-    return res.status(502).contentType("text/html").send(`<!DOCTYPE html>
-<html lang="en">
-<head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>Error - CalAnywhere</title>
-<style>body{font-family:system-ui,sans-serif;background:#5E81AC;color:#ECEFF4;display:flex;align-items:center;justify-content:center;min-height:100vh;margin:0;padding:1rem}
-.card{max-width:28rem;text-align:center;background:#3B4252;border:1px solid #4C566A;border-radius:1rem;padding:2rem;box-shadow:0 4px 6px rgba(0,0,0,.3)}
-h1{font-size:1.25rem;margin:0 0 .75rem;color:#DBA8AD}p{color:#D8DEE9;font-size:.875rem;margin:0}</style></head>
-<body><div class="card"><h1>Something went wrong.</h1><p>We could not send the appointment request right now. Please try again later.</p></div></body></html>`);
+    return res.status(502).contentType("text/html").send(confirmationPage(language, "error"));
+  }
+});
+
+// GET /api/pages/:slug/bookings/:token - a requester's booking, from the link in their emails
+pagesRouter.get("/:slug/bookings/:token", manageLimiter, async (req, res) => {
+  const managed = await getManagedBooking(req.params.slug, req.params.token);
+  if (!managed) {
+    return res.status(404).json({ error: "This link is not valid or the booking no longer exists." });
   }
+
+  const { page, booking } = managed;
+  return res.json({
+    ownerName: page.ownerName,
+    status: booking.status,
+    startIso: booking.startTime,
+    endIso: booking.endTime,
+    timezone: booking.timezone ?? null,
+    meetingTypeId: booking.meetingTypeId ?? null,
+    meetingTypeName: booking.meetingTypeName ?? null,
+    language: booking.language ?? page.language ?? negotiateLanguage(req),
+    changeable: isChangeable(booking)
+  });
+});
+
+// GET /api/pages/:slug/bookings/:token/slots - the times a booking can move to
+// Exactly the slots the reschedule endpoint accepts, so a booking whose
+// meeting type was changed or removed can still be moved; its own time does
+// not count as taken.
+pagesRouter.get("/:slug/bookings/:token/slots", manageLimiter, async (req, res) => {
+  const managed = await getManagedBooking(req.params.slug, req.params.token);
+  if (!managed) {
+    return res.status(404).json({ error: "This link is not valid or the booking no longer exists." });
+  }
+
+  const { page, booking } = managed;
+  if (!isChangeable(booking)) {
+    return res.status(409).json({ error: "This booking can no longer be changed." });
+  }
+
+  return respondWithSlots(req, res, page, rescheduleRules(page, booking), { bookingId: booking.id });
+});
+
+// POST /api/pages/:slug/bookings/:token/cancel - the requester withdraws their booking
+pagesRouter.post("/:slug/bookings/:token/cancel", manageLimiter, async (req, res) => {
+  const { slug, token } = req.params;
+  const managed = await getManagedBooking(slug, token);
+  if (!managed) {
+    return res.status(404).json({ error: "This link is not valid or the booking no longer exists." });
+  }
+
+  const { message } = req.body as { message?: unknown };
+  if (message !== undefined && (typeof message !== "string" || message.length > 500)) {
+    return res.status(400).json({ error: "Message must not exceed 500 characters." });
+  }
+
+  const { page, booking } = managed;
+  if (!isChangeable(booking)) {
+    return res.status(409).json({ error: "This booking can no longer be changed." });
+  }
+
+  const cancelled = await bookingsStore.cancel(booking.id);
+  if (!cancelled) {
+    return res.status(409).json({ error: "This booking can no longer be changed." });
+  }
+
+  const ownerEmail = await getOwnerEmail(slug);
+  if (ownerEmail) {
+    try {
+      await sendBookingChangeEmail({
+        bookingId: booking.id,
+        sequence: cancelled.revision,
+        ownerName: page.ownerName,
+        ownerEmail,
+        requesterName: booking.requesterName,
+        requesterEmail: booking.requesterEmail,
+        change: "cancelled",
+        reason: booking.reason,
+        startIso: booking.startTime,
+        endIso: booking.endTime,
+        timezone: booking.timezone,
+        ...(await getOwnerPreferences(page)),
+        meetingTypeName: booking.meetingTypeName,
+        message: message?.trim() || undefined,
+        wasAccepted: booking.status === "accepted"
+      });
+    } catch (err) {
+      // The cancellation stands; the booking shows as cancelled in the dashboard
+      // eslint-disable-next-line no-console
+      console.error("Failed to send booking cancelled email:", err);
+    }
+  }
+  if (booking.status === "accepted") {
+    await withdrawRequesterInvite(page, booking, cancelled, ownerEmail);
+  }
+
+  await notifyWebhooks("booking.cancelled", booking.id);
+
+  return res.json({ status: cancelled.status });
+});
+
+// POST /api/pages/:slug/bookings/:token/reschedule - the requester asks for a new time
+// The booking goes back to "requested" for the owner to accept or decline again.
+pagesRouter.post("/:slug/bookings/:token/reschedule", manageLimiter, async (req, res) => {
+  const { slug, token } = req.params;
+  const managed = await getManagedBooking(slug, token);
+  if (!managed) {
+    return res.status(404).json({ error: "This link is not valid or the booking no longer exists." });
+  }
+
+  const { startIso, endIso, message } = req.body as {
+    startIso?: unknown;
+    endIso?: unknown;
+    message?: unknown;
+  };
+  if (message !== undefined && (typeof message !== "string" || message.length > 500)) {
+    return res.status(400).json({ error: "Message must not exceed 500 characters." });
+  }
+
+  const { page, booking } = managed;
+  const start = new Date(typeof startIso === "string" ? startIso : NaN);
+  const end = new Date(typeof endIso === "string" ? endIso : NaN);
+  // The new slot keeps the booking's length, so its meeting type still fits
+  const duration = new Date(booking.endTime).getTime() - new Date(booking.startTime).getTime();
+  if (
+    isNaN(start.getTime()) ||
+    isNaN(end.getTime()) ||
+    start <= new Date() ||
+    end.getTime() - start.getTime() !== duration
+  ) {
+    return res.status(400).json({ error: "Please choose a valid time slot." });
+  }
+
+  if (!isChangeable(booking)) {
+    return res.status(409).json({ error: "This booking can no longer be changed." });
+  }
+
+  // The new time has to be one the booking's slots endpoint would offer
+  const slot = { start: start.toISOString(), end: end.toISOString() };
+  try {
+    const rules = rescheduleRules(page, booking);
+    const lookup = reservationWindow(rules, { from: start, to: end });
+    const [calendar, reserved] = await Promise.all([
+      getBusySlots(page, lookup.from, lookup.to),
+      getReservedSlots(slug, lookup.from, lookup.to, { bookingId: booking.id })
+    ]);
+    const conflict = slotConflict(rules, slot, calendar.busySlots, reserved);
+    if (conflict) {
+      return res.status(409).json({ error: SLOT_CONFLICT_ERRORS[conflict] });
+    }
+  } catch (_err) {
+    return res.status(503).json({
+      error: "We could not check availability right now. Please try again later."
+    });
+  }
+
+  const moved = await bookingsStore.rescheduleIfAvailable(booking.id, slot.start, slot.end);
+  if (!moved) {
+    return res.status(409).json({ error: SLOT_TAKEN_ERROR });
+  }
+
+  const ownerEmail = await getOwnerEmail(slug);
+  if (ownerEmail) {
+    const pageId = await pagesStore.getPageId(slug);
+    try {
+      await sendBookingChangeEmail({
+        bookingId: booking.id,
+        sequence: moved.revision,
+        ownerName: page.ownerName,
+        ownerEmail,
+        requesterName: booking.requesterName,
+        requesterEmail: booking.requesterEmail,
+        change: "rescheduled",
+        reason: booking.reason,
+        startIso: moved.startTime,
+        endIso: moved.endTime,
+        previousStartIso: booking.startTime,
+        previousEndIso: booking.endTime,
+        timezone: booking.timezone,
+        ...(await getOwnerPreferences(page)),
+        meetingTypeName: booking.meetingTypeName,
+        message: message?.trim() || undefined,
+        wasAccepted: booking.status === "accepted",
+        requestsUrl: page.userId && pageId
+          ? `${publicBaseUrl(req)}/dashboard/pages/${pageId}/requests`
+          : undefined
+      });
+    } catch (err) {
+      // The new time stands; the owner still sees it in the dashboard
+      // eslint-disable-next-line no-console
+      console.error("Failed to send booking rescheduled email:", err);
+    }
+  }
+  if (booking.status === "accepted") {
+    await withdrawRequesterInvite(page, booking, moved, ownerEmail);
+  }
+
+  await notifyWebhooks("booking.rescheduled", booking.id);
+
+  return res.json({ status: moved.status, startIso: moved.startTime, endIso: moved.endTime });
 });
@@ -0,0 +1,296 @@
+/**
+ * Availability engine.
+ *
+ * Turns a page's scheduling rules plus the owner's busy intervals into the
+ * list of bookable slots. This is the single source of truth for slot
+ * generation: the public slots endpoint lists its slots, and the request
+ * handlers accept only a time it would list (see slotConflict), so visitors
+ * never need to see the underlying busy data.
+ */
+
+import type { BusySlot } from "./calendar";
+import type { SchedulingPage } from "../store/interfaces";
+import { rangesOn, TimeRange, WeeklyAvailability } from "./weeklyAvailability";
+import { DateOverride, overrideOn } from "./dateOverrides";
+import type { MeetingType } from "./meetingTypes";
+import {
+  wallClockToUtc,
+  toDateStrInTimezone,
+  addDays,
+  dayOfWeek
+} from "../utils/timezone";
+
+export interface AvailableSlot {
+  start: string; // ISO 8601
+  end: string; // ISO 8601
+}
+
+export interface DaySlots {
+  date: string; // "YYYY-MM-DD" in the requested timezone
+  slots: AvailableSlot[];
+}
+
+export interface AvailabilityRules {
+  durationMinutes: number;
+  bufferMinutes: number; // free time needed after a meeting
+  bufferBeforeMinutes: number; // free time needed before a meeting
+  maxBookingsPerDay: number | null; // null = no limit
+  maxBookingsPerWeek: number | null; // Monday to Sunday; null = no limit
+  slotIncrementMinutes: number | null; // between slot starts; null = durationMinutes
+  minNoticeHours: number;
+  dateRangeDays: number;
+  includeWeekends: boolean;
+  availabilityStart: string; // wall-clock "HH:MM" in ownerTimezone
+  availabilityEnd: string; // wall-clock "HH:MM" in ownerTimezone
+  ownerTimezone: string;
+  // Per-weekday ranges in ownerTimezone; when set, replaces the single
+  // window above and includeWeekends
+  weeklyAvailability?: WeeklyAvailability;
+  // Dates whose hours replace the weekly ones, in ownerTimezone
+  dateOverrides?: DateOverride[];
+}
+
+export interface SlotQuery {
+  from?: Date;
+  to?: Date;
+  now?: Date;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Extracts the slot-generation rules from a stored page, applying the same
+ * defaults the page endpoints have always used. A meeting type replaces the
+ * page's duration and buffer, and its weekly hours if it has its own.
+ */
+export function rulesForPage(page: SchedulingPage, meetingType?: MeetingType): AvailabilityRules {
+  return {
+    durationMinutes: meetingType?.durationMinutes ?? page.defaultDurationMinutes,
+    bufferMinutes: meetingType?.bufferMinutes ?? page.bufferMinutes ?? 0,
+    bufferBeforeMinutes: meetingType?.bufferBeforeMinutes ?? page.bufferBeforeMinutes ?? 0,
+    maxBookingsPerDay: page.maxBookingsPerDay ?? null,
+    maxBookingsPerWeek: page.maxBookingsPerWeek ?? null,
+    slotIncrementMinutes: page.slotIncrementMinutes ?? null,
+    minNoticeHours: page.minNoticeHours ?? 8,
+    dateRangeDays: page.dateRangeDays ?? 60,
+    includeWeekends: page.includeWeekends ?? false,
+    availabilityStart: page.availabilityStart ?? "09:00",
+    availabilityEnd: page.availabilityEnd ?? "17:00",
+    ownerTimezone: page.ownerTimezone ?? "UTC",
+    weeklyAvailability: meetingType?.weeklyAvailability ?? page.weeklyAvailability,
+    dateOverrides: page.dateOverrides
+  };
+}
+
+/** The wall-clock ranges slots may fall in on a date in the owner's timezone. */
+function rangesForDay(rules: AvailabilityRules, dateStr: string): TimeRange[] {
+  const override = rules.dateOverrides && overrideOn(rules.dateOverrides, dateStr);
+  if (override) return override.ranges;
+
+  const weekday = dayOfWeek(dateStr);
+  if (rules.weeklyAvailability) return rangesOn(rules.weeklyAvailability, weekday);
+  if (!rules.includeWeekends && (weekday === 0 || weekday === 6)) return [];
+  return [{ start: rules.availabilityStart, end: rules.availabilityEnd }];
+}
+
+/**
+ * The window slots may fall in: from the minimum-notice cut-off to the end of
+ * the page's date range, narrowed by any explicit from/to in the query.
+ */
+export function resolveWindow(
+  rules: AvailabilityRules,
+  query: SlotQuery = {}
+): { from: Date; to: Date } {
+  const now = query.now ?? new Date();
+  const earliest = now.getTime() + rules.minNoticeHours * HOUR_MS;
+  const latest = now.getTime() + rules.dateRangeDays * DAY_MS;
+
+  const from = Math.max(earliest, query.from?.getTime() ?? earliest);
+  const to = Math.min(latest, query.to?.getTime() ?? latest);
+
+  return { from: new Date(from), to: new Date(to) };
+}
+
+/**
+ * The span busy times and bookings must be looked up over for slots in
+ * `window`: wider by the buffers, and by a week when bookings are capped so
+ * that the days and weeks at either end are counted in full.
+ */
+export function reservationWindow(
+  rules: AvailabilityRules,
+  window: { from: Date; to: Date }
+): { from: Date; to: Date } {
+  const capMs = rules.maxBookingsPerWeek ? 7 * DAY_MS : rules.maxBookingsPerDay ? DAY_MS : 0;
+  // Bookings carry buffers too, so allow for both the slot's and theirs
+  const bufferMs = (rules.bufferBeforeMinutes + rules.bufferMinutes) * MINUTE_MS;
+  return {
+    from: new Date(window.from.getTime() - bufferMs - capMs),
+    to: new Date(window.to.getTime() + bufferMs + capMs)
+  };
+}
+
+/** Monday of the week a date falls in, both "YYYY-MM-DD". */
+function weekStartOf(dateStr: string): string {
+  return addDays(dateStr, -((dayOfWeek(dateStr) + 6) % 7));
+}
+
+/**
+ * Checks candidate slots against busy time and the page's bookings.
+ *
+ * A slot needs `bufferBeforeMinutes` free before it and `bufferMinutes` free
+ * after it. Calendar events are taken as they are; the page's own bookings
+ * get the same buffers around them, so two meetings are separated by both.
+ * Bookings also count towards the daily and weekly caps, by their start date
+ * in the owner's timezone.
+ */
+function slotChecker(rules: AvailabilityRules, busySlots: BusySlot[], bookings: BusySlot[]) {
+  const beforeMs = rules.bufferBeforeMinutes * MINUTE_MS;
+  const afterMs = rules.bufferMinutes * MINUTE_MS;
+  const toMs = (b: BusySlot, padBefore: number, padAfter: number) => ({
+    start: new Date(b.start).getTime() - padBefore,
+    end: new Date(b.end).getTime() + padAfter
+  });
+  const busy = [
+    ...busySlots.map((b) => toMs(b, 0, 0)),
+    ...bookings.map((b) => toMs(b, beforeMs, afterMs))
+  ];
+
+  const perDay = new Map<string, number>();
+  const perWeek = new Map<string, number>();
+  for (const booking of bookings) {
+    const dateStr = toDateStrInTimezone(new Date(booking.start), rules.ownerTimezone);
+    const week = weekStartOf(dateStr);
+    perDay.set(dateStr, (perDay.get(dateStr) ?? 0) + 1);
+    perWeek.set(week, (perWeek.get(week) ?? 0) + 1);
+  }
+
+  return {
+    isBusy: (start: number, end: number) =>
+      busy.some((b) => b.start < end + afterMs && b.end > start - beforeMs),
+    // Whether no more meetings can be booked on a date in the owner's timezone
+    isFull: (dateStr: string) =>
+      (rules.maxBookingsPerDay !== null && (perDay.get(dateStr) ?? 0) >= rules.maxBookingsPerDay) ||
+      (rules.maxBookingsPerWeek !== null &&
+        (perWeek.get(weekStartOf(dateStr)) ?? 0) >= rules.maxBookingsPerWeek)
+  };
+}
+
+/**
+ * Why a requested slot cannot be booked given the page's bookings, or null
+ * if it can: "taken" when it clashes with one (buffers included), "full"
+ * when its day or week has reached the page's cap.
+ */
+export function bookingConflict(
+  rules: AvailabilityRules,
+  slot: BusySlot,
+  bookings: BusySlot[]
+): "taken" | "full" | null {
+  const { isBusy, isFull } = slotChecker(rules, [], bookings);
+  const start = new Date(slot.start);
+  if (isBusy(start.getTime(), new Date(slot.end).getTime())) return "taken";
+  if (isFull(toDateStrInTimezone(start, rules.ownerTimezone))) return "full";
+  return null;
+}
+
+/**
+ * Why a requested slot cannot be booked, or null if it can. Besides the
+ * page's bookings (see bookingConflict), the slot has to be one the page
+ * offers: "unavailable" when it is outside the page's hours or date range,
+ * sooner than its minimum notice, off its slot grid, or within the owner's
+ * busy time and the buffers around it.
+ */
+export function slotConflict(
+  rules: AvailabilityRules,
+  slot: BusySlot,
+  busySlots: BusySlot[],
+  bookings: BusySlot[],
+  now: Date = new Date()
+): "taken" | "full" | "unavailable" | null {
+  const conflict = bookingConflict(rules, slot, bookings);
+  if (conflict) return conflict;
+
+  const start = new Date(slot.start);
+  const end = new Date(slot.end);
+  const offered = computeAvailableSlots(rules, busySlots, { from: start, to: end, now }, bookings);
+  const isOffered = offered.some(
+    (s) => s.start === start.toISOString() && s.end === end.toISOString()
+  );
+  return isOffered ? null : "unavailable";
+}
+
+/**
+ * Generates every free slot in the query window.
+ *
+ * Days are walked in the owner's timezone so that each weekday's hours follow
+ * the owner's wall clock, including across DST changes. Slots start afresh at
+ * the beginning of each range, then every `slotIncrementMinutes` (back to back
+ * by default) for as long as a whole meeting fits. `bookings` are the page's own bookings and
+ * held requests: busy like calendar events, and counted towards the caps.
+ */
+export function computeAvailableSlots(
+  rules: AvailabilityRules,
+  busySlots: BusySlot[],
+  query: SlotQuery = {},
+  bookings: BusySlot[] = []
+): AvailableSlot[] {
+  const { from, to } = resolveWindow(rules, query);
+  if (from.getTime() >= to.getTime()) return [];
+
+  const tz = rules.ownerTimezone;
+  const durationMs = rules.durationMinutes * MINUTE_MS;
+  const stepMs = (rules.slotIncrementMinutes ?? rules.durationMinutes) * MINUTE_MS;
+  if (durationMs <= 0 || stepMs <= 0) return [];
+
+  const { isBusy, isFull } = slotChecker(rules, busySlots, bookings);
+
+  const slots: AvailableSlot[] = [];
+  const lastDate = toDateStrInTimezone(to, tz);
+
+  for (
+    let dateStr = toDateStrInTimezone(from, tz);
+    dateStr <= lastDate;
+    dateStr = addDays(dateStr, 1)
+  ) {
+    if (isFull(dateStr)) continue;
+
+    for (const range of rangesForDay(rules, dateStr)) {
+      const rangeStart = wallClockToUtc(dateStr, range.start, tz).getTime();
+      const rangeEnd = wallClockToUtc(dateStr, range.end, tz).getTime();
+
+      for (let start = rangeStart; start + durationMs <= rangeEnd; start += stepMs) {
+        const end = start + durationMs;
+        if (start < from.getTime() || end > to.getTime()) continue;
+        if (isBusy(start, end)) continue;
+        slots.push({
+          start: new Date(start).toISOString(),
+          end: new Date(end).toISOString()
+        });
+      }
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Groups slots by calendar date in the given timezone (normally the
+ * visitor's), preserving chronological order.
+ */
+export function groupSlotsByDate(
+  slots: AvailableSlot[],
+  timezone: string
+): DaySlots[] {
+  const days: DaySlots[] = [];
+  for (const slot of slots) {
+    const date = toDateStrInTimezone(new Date(slot.start), timezone);
+    const last = days[days.length - 1];
+    if (last && last.date === date) {
+      last.slots.push(slot);
+    } else {
+      days.push({ date, slots: [slot] });
+    }
+  }
+  return days;
+}
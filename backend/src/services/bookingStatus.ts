@@ -0,0 +1,37 @@
+/**
+ * Booking status lifecycle.
+ *
+ *   requested ──► accepted ──► cancelled
+ *       │
+ *       ├──────► declined
+ *       └──────► cancelled
+ *
+ * Declined and cancelled are terminal and free the slot again.
+ */
+
+export type BookingStatus = "requested" | "accepted" | "declined" | "cancelled";
+
+export const BOOKING_STATUSES: readonly BookingStatus[] = [
+  "requested",
+  "accepted",
+  "declined",
+  "cancelled"
+];
+
+const TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  requested: ["accepted", "declined", "cancelled"],
+  accepted: ["cancelled"],
+  declined: [],
+  cancelled: []
+};
+
+/** Statuses that still occupy the booked slot. */
+export const ACTIVE_BOOKING_STATUSES: readonly BookingStatus[] = ["requested", "accepted"];
+
+export function isBookingStatus(value: unknown): value is BookingStatus {
+  return typeof value === "string" && (BOOKING_STATUSES as string[]).includes(value);
+}
+
+export function canTransition(from: BookingStatus, to: BookingStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
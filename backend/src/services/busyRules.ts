@@ -0,0 +1,93 @@
+/**
+ * Per-page rules for which calendar events block time.
+ *
+ * By default every opaque, non-cancelled event is busy. A page owner can
+ * relax that: all-day events and tentative events can count as free,
+ * invitations the owner declined can be ignored, and events whose summary
+ * matches one of a few wildcard patterns (e.g. "Focus*", "*optional*") can be
+ * ignored. The rules are applied while a feed is parsed.
+ */
+
+export interface BusyRules {
+  allDayBusy: boolean; // all-day (DATE) events block the whole day
+  tentativeBusy: boolean; // tentative events and "maybe" replies block time
+  ignoreDeclined: boolean; // invitations the owner declined are free
+  ignoreSummaries: string[]; // wildcard patterns; matching events are free
+}
+
+export const DEFAULT_BUSY_RULES: BusyRules = {
+  allDayBusy: true,
+  tentativeBusy: true,
+  ignoreDeclined: false,
+  ignoreSummaries: []
+};
+
+export const MAX_SUMMARY_PATTERNS = 10;
+export const MAX_SUMMARY_PATTERN_LENGTH = 100;
+
+export function isDefaultBusyRules(rules: BusyRules): boolean {
+  return (
+    rules.allDayBusy &&
+    rules.tentativeBusy &&
+    !rules.ignoreDeclined &&
+    rules.ignoreSummaries.length === 0
+  );
+}
+
+/** Whether the rules look at the owner's replies to invitations. */
+export function rulesUseOwnerEmail(rules: BusyRules): boolean {
+  return rules.ignoreDeclined || !rules.tentativeBusy;
+}
+
+/**
+ * Validates summary patterns from a request. Blank entries are dropped and
+ * duplicates removed; returns an error message for anything else invalid.
+ */
+export function parseSummaryPatterns(raw: unknown): { patterns: string[] } | { error: string } {
+  if (!Array.isArray(raw) || raw.some((p) => typeof p !== "string")) {
+    return { error: "Summary patterns must be a list of text patterns." };
+  }
+  const patterns = Array.from(
+    new Set((raw as string[]).map((p) => p.trim()).filter((p) => p.length > 0))
+  );
+  if (patterns.length > MAX_SUMMARY_PATTERNS) {
+    return { error: `You can add up to ${MAX_SUMMARY_PATTERNS} summary patterns.` };
+  }
+  if (patterns.some((p) => p.length > MAX_SUMMARY_PATTERN_LENGTH)) {
+    return { error: `Summary patterns must not exceed ${MAX_SUMMARY_PATTERN_LENGTH} characters.` };
+  }
+  if (patterns.some((p) => p.replace(/\*/g, "").length === 0)) {
+    return { error: "A summary pattern must contain more than wildcards." };
+  }
+  return { patterns };
+}
+
+/**
+ * Compiles summary patterns into a matcher. Matching is case-insensitive and
+ * finds the pattern anywhere in the summary; "*" matches any run of text.
+ *
+ * The text between wildcards is looked for one piece after another, which
+ * takes linear time however many wildcards a pattern has. (A regular
+ * expression with "*" as ".*" can backtrack for minutes on a long summary.)
+ */
+export function summaryMatcher(patterns: string[]): (summary: string) => boolean {
+  if (patterns.length === 0) return () => false;
+  const segmented = patterns.map((pattern) =>
+    pattern
+      .toLowerCase()
+      .split("*")
+      .filter((segment) => segment.length > 0)
+  );
+  return (summary) => {
+    const text = summary.toLowerCase();
+    return segmented.some((segments) => {
+      let from = 0;
+      for (const segment of segments) {
+        const at = text.indexOf(segment, from);
+        if (at === -1) return false;
+        from = at + segment.length;
+      }
+      return true;
+    });
+  };
+}
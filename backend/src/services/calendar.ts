@@ -1,12 +1,78 @@
 import axios from "axios";
+import { createHash } from "crypto";
 import ical from "node-ical";
 import { RRule, Frequency } from "rrule";
+import * as stores from "../store";
+import type { CalendarFeedCacheEntry, ICalendarFeedCacheStore } from "../store/interfaces";
+import { isValidTimezone } from "../utils/timezone";
+import { ianaZone, vtimezoneZone, WallClockZone } from "./vtimezone";
+import { BusyRules, DEFAULT_BUSY_RULES, isDefaultBusyRules, rulesUseOwnerEmail, summaryMatcher } from "./busyRules";
 
 export interface BusySlot {
   start: string; // ISO 8601
   end: string; // ISO 8601
 }
 
+/** Busy slots for one or more feeds; stale when any came from a failing feed's last good copy. */
+export interface CalendarBusyResult {
+  busySlots: BusySlot[];
+  stale: boolean;
+}
+
+/**
+ * Decides which events block time: a page's busy rules, plus the owner's
+ * address for recognising their replies to invitations.
+ */
+export interface BusyFilter {
+  rules: BusyRules;
+  ownerEmail?: string;
+}
+
+export interface CalendarFeedHealth {
+  status: "ok" | "failing" | "unknown"; // unknown: not fetched since the cache was cleared
+  failingSince: string | null; // ISO 8601
+  lastSuccessAt: string | null; // ISO 8601
+  lastError: string | null;
+}
+
+export interface CalendarCacheMetrics {
+  hits: number; // served from cache without a request
+  revalidations: number; // provider answered 304 Not Modified
+  misses: number; // downloaded and parsed
+  errors: number; // download or cache store failures
+}
+
+// ── Feed cache config ─────────────────────────────────────────────
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How long a parsed feed is served before revalidating (CALENDAR_CACHE_TTL_SECONDS). */
+const CACHE_TTL_MS = parseTtlSeconds(process.env.CALENDAR_CACHE_TTL_SECONDS, 300) * 1000;
+
+/** A provider's Cache-Control max-age may extend the TTL, up to this limit. */
+const CACHE_MAX_TTL_MS = 60 * 60 * 1000;
+
+/** Busy slots are expanded this far ahead, covering the longest page date range (180 days). */
+const CACHE_HORIZON_MS = 190 * DAY_MS;
+
+/** While a feed is failing, its last good copy is served for this long between retries. */
+const FAILURE_RETRY_MS = 60 * 1000;
+
+function parseTtlSeconds(raw: string | undefined, fallback: number): number {
+  const n = raw === undefined ? NaN : Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+const metrics: CalendarCacheMetrics = { hits: 0, revalidations: 0, misses: 0, errors: 0 };
+
+interface RefreshResult {
+  entry: CalendarFeedCacheEntry;
+  error?: unknown; // set when the download failed; entry then records the failure
+}
+
+// Concurrent visitors to the same page share one download per feed
+const inFlight = new Map<string, Promise<RefreshResult>>();
+
 /**
  * Returns true if the given Date object is valid (not NaN).
  */
@@ -14,17 +80,132 @@ function isValidDate(d: Date): boolean {
   return d instanceof Date && !isNaN(d.getTime());
 }
 
+/**
+ * Whether an event or modified instance blocks time. Events marked free
+ * (TRANSP:TRANSPARENT) or cancelled (STATUS:CANCELLED) do not; the default
+ * is OPAQUE (busy) if not specified.
+ */
+function isBusy(event: any): boolean {
+  const transp = event.transp || event.transparency || "OPAQUE";
+  if (String(transp).toUpperCase() === "TRANSPARENT") return false;
+  return String(event.status || "").toUpperCase() !== "CANCELLED";
+}
+
+/** node-ical gives a property with parameters as { params, val }. */
+function textValue(value: any): string {
+  if (typeof value === "string") return value;
+  return typeof value?.val === "string" ? value.val : "";
+}
+
+/** The owner's PARTSTAT on an event, if they are one of its attendees. */
+function ownerParticipation(event: any, ownerEmail: string): string | undefined {
+  const attendees = Array.isArray(event.attendee) ? event.attendee : event.attendee ? [event.attendee] : [];
+  for (const attendee of attendees) {
+    const address = textValue(attendee).replace(/^mailto:/i, "").trim().toLowerCase();
+    const email = String(attendee?.params?.EMAIL ?? "").trim().toLowerCase();
+    if (address === ownerEmail || email === ownerEmail) {
+      return String(attendee?.params?.PARTSTAT ?? "").toUpperCase() || undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Builds the check for whether an event blocks time under a page's busy
+ * rules. Free and cancelled events never do.
+ */
+function createBusyCheck(filter?: BusyFilter): (event: any) => boolean {
+  const rules = filter?.rules ?? DEFAULT_BUSY_RULES;
+  const ownerEmail = filter?.ownerEmail?.trim().toLowerCase() || undefined;
+  const ignoredSummary = summaryMatcher(rules.ignoreSummaries);
+
+  return (event) => {
+    if (!isBusy(event)) return false;
+    if (!rules.allDayBusy && event.start?.dateOnly) return false;
+
+    const participation = ownerEmail ? ownerParticipation(event, ownerEmail) : undefined;
+    if (rules.ignoreDeclined && participation === "DECLINED") return false;
+
+    // Outlook marks tentative time with its own busy status
+    const tentative =
+      String(event.status ?? "").toUpperCase() === "TENTATIVE" ||
+      String(event["MICROSOFT-CDO-BUSYSTATUS"] ?? "").toUpperCase() === "TENTATIVE" ||
+      participation === "TENTATIVE";
+    if (!rules.tentativeBusy && tentative) return false;
+
+    return !ignoredSummary(textValue(event.summary));
+  };
+}
+
+/** Normalises node-ical's EXDATE shapes (keyed object, array or single value) to Dates. */
+function instanceValues(value: unknown): Date[] {
+  if (!value) return [];
+  const values = typeof value === "object" && !Array.isArray(value) && !(value instanceof Date)
+    ? Object.values(value)
+    : Array.isArray(value) ? value : [value];
+  const dates: Date[] = [];
+  for (const v of values) {
+    // Handle both Date objects and date strings, keeping node-ical's dateOnly flag
+    const date = v instanceof Date ? v : new Date(v as string);
+    if (isValidDate(date)) dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Calendar date of an instant. All-day values from node-ical are local
+ * midnight, so they use local components; timed values use UTC.
+ */
+function instanceDateKey(date: Date, dateOnly: boolean): string {
+  if (!dateOnly) return date.toISOString().slice(0, 10);
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0")
+  ].join("-");
+}
+
+/**
+ * Matches series occurrences against the instances named by EXDATE or
+ * RECURRENCE-ID. A timed value matches the occurrence at the same instant,
+ * so one instance of a series that recurs several times a day can be
+ * singled out. Date-only values, and timed values that match no occurrence
+ * exactly (some exporters write them in a different zone from DTSTART),
+ * fall back to matching by calendar date.
+ */
+function createInstanceMatcher<T>(
+  entries: [Date, T][],
+  occurrences: Date[],
+  seriesDateOnly: boolean
+): (occurrence: Date) => T | undefined {
+  const occurrenceTimes = new Set(occurrences.map((o) => o.getTime()));
+  const byTime = new Map<number, T>();
+  const byDate = new Map<string, T>();
+
+  for (const [date, value] of entries) {
+    const dateOnly = !!(date as any).dateOnly;
+    if (!dateOnly && (occurrenceTimes.has(date.getTime()) || occurrenceTimes.size === 0)) {
+      byTime.set(date.getTime(), value);
+    } else {
+      byDate.set(instanceDateKey(date, dateOnly), value);
+    }
+  }
+
+  return (occurrence) =>
+    byTime.get(occurrence.getTime()) ??
+    byDate.get(instanceDateKey(occurrence, seriesDateOnly || !!(occurrence as any).dateOnly));
+}
+
 /**
  * Converts node-ical's rrule format to an RRule instance
  */
 function parseRRule(rrule: any, dtstart: Date): RRule {
-  // If it's already a string (most common case with node-ical)
-  if (typeof rrule === "string") {
+  // A string, or node-ical's parsed rule, which prints as "DTSTART...\nRRULE:..."
+  const text = typeof rrule === "string" || rrule instanceof Object ? String(rrule) : "";
+  const line = text.split(/\r?\n/).map((l) => l.trim()).find((l) => /^(RRULE:)?FREQ=/i.test(l));
+  if (line) {
     // Remove RRULE: prefix if present
-    const cleanStr = rrule.startsWith("RRULE:")
-      ? rrule.substring(6)
-      : rrule;
-    return RRule.fromString(cleanStr);
+    return new RRule({ ...RRule.parseString(line.replace(/^RRULE:/i, "")), dtstart });
   }
 
   // If it's an object, try to construct RRule options
@@ -71,30 +252,145 @@ function parseRRule(rrule: any, dtstart: Date): RRule {
   return new RRule(options);
 }
 
+/**
+ * Expands a series to its occurrences around the date range. Each keeps the
+ * series' wall-clock time, so a weekly 09:00 meeting stays at 09:00 local
+ * time across DST changes. node-ical does this for zones it can resolve; for
+ * a zone defined only by the feed's VTIMEZONE, or if node-ical's rule
+ * throws, the series is expanded in wall-clock time here and each
+ * occurrence converted.
+ */
+function expandRecurrence(
+  event: any,
+  startDate: Date,
+  endDate: Date,
+  embeddedZone: WallClockZone | undefined
+): Date[] {
+  if (!embeddedZone && typeof event.rrule.between === "function") {
+    try {
+      return event.rrule.between(startDate, endDate, true);
+    } catch {
+      // If node-ical's pre-parsed RRule throws, fall back to manual parsing
+    }
+  }
+
+  const tz = event.start.tz;
+  const zone = embeddedZone ??
+    (tz && !event.start.dateOnly && isValidTimezone(tz) ? ianaZone(tz) : undefined);
+  if (!zone) {
+    return parseRRule(event.rrule, new Date(event.start)).between(startDate, endDate, true);
+  }
+
+  let rrule = parseRRule(event.rrule, zone.toWallClock(event.start));
+  // UNTIL is an instant; shift it by the zone's offset to compare it with
+  // wall-clock occurrences
+  const until = rrule.origOptions.until;
+  if (until) {
+    const offsetMs = until.getTime() - zone.toInstant(until).getTime();
+    rrule = new RRule({ ...rrule.origOptions, until: new Date(until.getTime() + offsetMs) });
+  }
+
+  // Wall-clock times are within a day of the instants they name
+  return rrule
+    .between(new Date(startDate.getTime() - DAY_MS), new Date(endDate.getTime() + DAY_MS), true)
+    .map((wall) => zone.toInstant(wall));
+}
+
+interface FeedResponse {
+  notModified: boolean;
+  data: string;
+  etag?: string;
+  lastModified?: string;
+  ttlMs: number;
+}
+
+/**
+ * Downloads a feed, sending If-None-Match / If-Modified-Since when validators
+ * from a previous download are supplied.
+ */
+async function downloadCalendar(
+  calendarUrl: string,
+  validators?: { etag?: string; lastModified?: string }
+): Promise<FeedResponse> {
+  const headers: Record<string, string> = { "User-Agent": "CalAnywhere/1.0" };
+  if (validators?.etag) headers["If-None-Match"] = validators.etag;
+  if (validators?.lastModified) headers["If-Modified-Since"] = validators.lastModified;
+
+  const response = await axios.get(calendarUrl, {
+    timeout: 5000,
+    headers,
+    validateStatus: (status) => (status >= 200 && status < 300) || status === 304
+  });
+
+  const header = (name: string): string | undefined => {
+    const value = response.headers?.[name];
+    return typeof value === "string" && value ? value : undefined;
+  };
+
+  const maxAge = /max-age=(\d+)/i.exec(header("cache-control") ?? "");
+  const ttlMs = maxAge
+    ? Math.max(CACHE_TTL_MS, Math.min(Number(maxAge[1]) * 1000, CACHE_MAX_TTL_MS))
+    : CACHE_TTL_MS;
+
+  return {
+    notModified: response.status === 304,
+    data: response.data,
+    etag: header("etag"),
+    lastModified: header("last-modified"),
+    ttlMs
+  };
+}
+
 /**
  * Fetches and parses an iCalendar feed, expanding recurring events
  * to generate a list of busy time slots within the specified date range.
+ * Always downloads; see fetchAndParseCalendarCached for the cached path.
  */
 export async function fetchAndParseCalendar(
   calendarUrl: string,
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  filter?: BusyFilter
 ): Promise<BusySlot[]> {
-  const response = await axios.get(calendarUrl, {
-    timeout: 5000,
-    headers: {
-      "User-Agent": "CalAnywhere/1.0"
-    }
+  const response = await downloadCalendar(calendarUrl);
+  return parseCalendarData(response.data, startDate, endDate, filter);
+}
+
+/**
+ * Moves modified instances (VEVENTs with RECURRENCE-ID) after the other
+ * events. When an override comes before its series, as in some Proton and
+ * Outlook exports, node-ical builds the series from the override and keeps
+ * any field the series does not repeat, such as STATUS:CANCELLED.
+ */
+function overridesLast(data: string): string {
+  const overrides: string[] = [];
+  const rest = data.replace(/BEGIN:VEVENT\r?\n[\s\S]*?END:VEVENT\r?\n?/g, (block) => {
+    if (!/^RECURRENCE-ID[;:]/m.test(block)) return block;
+    overrides.push(block);
+    return "";
   });
+  if (overrides.length === 0) return data;
+  return rest.replace(/END:VCALENDAR/, () => `${overrides.join("")}END:VCALENDAR`);
+}
 
+/**
+ * Parses iCalendar text into busy slots within the date range.
+ */
+function parseCalendarData(
+  data: string,
+  startDate: Date,
+  endDate: Date,
+  filter?: BusyFilter
+): BusySlot[] {
+  const blocksTime = createBusyCheck(filter);
   // rrule-temporal requires UNTIL to be a UTC datetime (ending in Z).
   // Google Calendar sometimes emits date-only UNTIL (e.g. UNTIL=20201102)
   // or datetime without Z (e.g. UNTIL=20201102T030000). Normalise both.
-  const sanitised = response.data
+  const sanitised = data
     .replace(/UNTIL=(\d{8})(?!T)([;:\r\n])/g, "UNTIL=$1T000000Z$2")  // date-only → UTC midnight
     .replace(/UNTIL=(\d{8}T\d{6})(?!Z)/g, "UNTIL=$1Z");               // datetime missing Z
 
-  const parsed = ical.sync.parseICS(sanitised);
+  const parsed = ical.sync.parseICS(overridesLast(sanitised));
   const busySlots: BusySlot[] = [];
 
   // Extract timezone definitions
@@ -106,6 +402,20 @@ export async function fetchAndParseCalendar(
     }
   }
 
+  // node-ical cannot resolve a TZID that only the feed's VTIMEZONE defines,
+  // and reads times in it as floating; those are converted here
+  const embeddedZones = new Map<string, WallClockZone | undefined>();
+  const embeddedZoneFor = (date: any): WallClockZone | undefined => {
+    const tzid = date?.tz;
+    if (!tzid || date.dateOnly || isValidTimezone(tzid) || !timezones.has(tzid)) return undefined;
+    if (!embeddedZones.has(tzid)) embeddedZones.set(tzid, vtimezoneZone(timezones.get(tzid)));
+    return embeddedZones.get(tzid);
+  };
+  const toInstant = (date: any): Date => {
+    const zone = embeddedZoneFor(date);
+    return zone ? zone.toInstant(zone.toWallClock(date)) : date;
+  };
+
   for (const item of Object.values(parsed)) {
     const event: any = item;
     if (event.type !== "VEVENT") continue;
@@ -113,13 +423,11 @@ export async function fetchAndParseCalendar(
     // Skip events without start/end
     if (!event.start || !event.end) continue;
 
-    // Skip events marked as "free" (TRANSP:TRANSPARENT)
-    // Default is OPAQUE (busy) if not specified
-    const transp = event.transp || event.transparency || "OPAQUE";
-    if (transp === "TRANSPARENT") continue;
+    // Skip free, cancelled and rule-excluded events
+    if (!blocksTime(event)) continue;
 
-    const eventStart = new Date(event.start);
-    const eventEnd = new Date(event.end);
+    const eventStart = new Date(toInstant(event.start));
+    const eventEnd = new Date(toInstant(event.end));
 
     // Skip events with invalid dates
     if (!isValidDate(eventStart) || !isValidDate(eventEnd)) continue;
@@ -127,57 +435,39 @@ export async function fetchAndParseCalendar(
     // Handle recurring events
     if (event.rrule) {
       try {
-        // node-ical may return an already-parsed RRule object with a between() method
-        // or it may return a string/object that needs parsing
-        let occurrences: Date[];
-        if (typeof event.rrule.between === "function") {
-          // Already parsed by node-ical, use directly
-          try {
-            occurrences = event.rrule.between(startDate, endDate, true);
-          } catch {
-            // If node-ical's pre-parsed RRule throws, fall back to manual parsing
-            const rrule = parseRRule(event.rrule, eventStart);
-            occurrences = rrule.between(startDate, endDate, true);
-          }
-        } else {
-          // Need to parse manually
-          const rrule = parseRRule(event.rrule, eventStart);
-          occurrences = rrule.between(startDate, endDate, true);
-        }
+        const occurrences = expandRecurrence(event, startDate, endDate, embeddedZoneFor(event.start));
 
-        // Handle exclusions (EXDATE)
-        // node-ical returns exdate as an object with date strings as keys and Date objects as values
-        const exdates = new Set<string>();
-        if (event.exdate) {
-          // exdate can be an object with date keys, or sometimes an array
-          const exdateValues = typeof event.exdate === "object" && !Array.isArray(event.exdate)
-            ? Object.values(event.exdate)
-            : Array.isArray(event.exdate) ? event.exdate : [event.exdate];
-
-          for (const exdate of exdateValues) {
-            try {
-              // Handle both Date objects and date strings
-              const exdateDate = exdate instanceof Date ? exdate : new Date(exdate);
-              if (isValidDate(exdateDate)) {
-                exdates.add(exdateDate.toISOString().split("T")[0]); // YYYY-MM-DD
-              }
-            } catch {
-              // Skip invalid exdate values
-            }
-          }
-        }
+        const seriesDateOnly = !!event.start.dateOnly;
+        const validOccurrences = occurrences.filter(isValidDate);
 
-        for (const occurrence of occurrences) {
+        // Handle exclusions (EXDATE)
+        // node-ical returns exdate as an object keyed by both date and ISO
+        // string, so the same Date may appear twice; that is harmless here
+        const isExcluded = createInstanceMatcher<true>(
+          instanceValues(event.exdate).map((d) => [toInstant(d), true]),
+          validOccurrences,
+          seriesDateOnly
+        );
+
+        // Modified instances (RECURRENCE-ID) replace the occurrence they
+        // name; node-ical stores them under two keys, so dedupe by object
+        const overrides: [Date, any][] = (event.recurrences
+          ? Array.from(new Set<any>(Object.values(event.recurrences)))
+          : []
+        )
+          .filter((o) => o.recurrenceid instanceof Date)
+          .map((o) => [toInstant(o.recurrenceid), o]);
+        const overrideFor = createInstanceMatcher<any>(overrides, validOccurrences, seriesDateOnly);
+
+        // Calculate duration from original event
+        const duration = eventEnd.getTime() - eventStart.getTime();
+
+        for (const occurrence of validOccurrences) {
           try {
-            // Skip invalid occurrence dates
-            if (!isValidDate(occurrence)) continue;
-
-            // Check if this occurrence is excluded
-            const occurrenceDateStr = occurrence.toISOString().split("T")[0];
-            if (exdates.has(occurrenceDateStr)) continue;
+            if (isExcluded(occurrence)) continue;
+            // Overrides are added below at their own (possibly moved) time
+            if (overrideFor(occurrence)) continue;
 
-            // Calculate duration from original event
-            const duration = eventEnd.getTime() - eventStart.getTime();
             const occurrenceEnd = new Date(occurrence.getTime() + duration);
 
             if (!isValidDate(occurrenceEnd)) continue;
@@ -194,6 +484,29 @@ export async function fetchAndParseCalendar(
             continue;
           }
         }
+
+        // An instance moved into the range counts even when its original
+        // time falls outside it, so overrides are checked on their own
+        for (const [recurrenceId, override] of overrides) {
+          if (isExcluded(recurrenceId)) continue;
+          if (!blocksTime(override)) continue;
+
+          const overrideStart = new Date(override.start ? toInstant(override.start) : recurrenceId);
+          // An override without DTEND keeps the series duration (node-ical
+          // fills in a missing end as the start time)
+          let overrideEnd = new Date(override.end ? toInstant(override.end) : overrideStart);
+          if (overrideEnd.getTime() <= overrideStart.getTime()) {
+            overrideEnd = new Date(overrideStart.getTime() + duration);
+          }
+          if (!isValidDate(overrideStart) || !isValidDate(overrideEnd)) continue;
+
+          if (overrideEnd >= startDate && overrideStart <= endDate) {
+            busySlots.push({
+              start: overrideStart.toISOString(),
+              end: overrideEnd.toISOString()
+            });
+          }
+        }
       } catch (err: any) {
         // Log the error for debugging but don't add the event
         // Recurring events often have start dates in the past, so adding
@@ -218,20 +531,231 @@ export async function fetchAndParseCalendar(
   return busySlots;
 }
 
+// ── Feed cache ────────────────────────────────────────────────────
+
+/**
+ * Cache key for a feed URL. Pages with their own busy rules parse the same
+ * feed differently, so the rules are part of the key.
+ */
+export function calendarCacheKey(calendarUrl: string, filter?: BusyFilter): string {
+  const hash = createHash("sha256").update(calendarUrl);
+  if (filter && !isDefaultBusyRules(filter.rules)) {
+    const { allDayBusy, tentativeBusy, ignoreDeclined, ignoreSummaries } = filter.rules;
+    hash.update(JSON.stringify({
+      allDayBusy,
+      tentativeBusy,
+      ignoreDeclined,
+      ignoreSummaries: [...ignoreSummaries].sort(),
+      ownerEmail: rulesUseOwnerEmail(filter.rules) ? filter.ownerEmail?.trim().toLowerCase() ?? null : null
+    }));
+  }
+  return hash.digest("hex");
+}
+
+/** Snapshot of the feed cache counters since the process started. */
+export function getCalendarCacheMetrics(): CalendarCacheMetrics {
+  return { ...metrics };
+}
+
+function slotsInRange(slots: BusySlot[], startDate: Date, endDate: Date): BusySlot[] {
+  const start = startDate.toISOString();
+  const end = endDate.toISOString();
+  return slots.filter((s) => s.end >= start && s.start <= end);
+}
+
+// A broken cache store must never take availability down with it
+async function readCache(
+  store: ICalendarFeedCacheStore,
+  key: string
+): Promise<CalendarFeedCacheEntry | undefined> {
+  try {
+    return await store.get(key);
+  } catch (err: any) {
+    metrics.errors++;
+    // eslint-disable-next-line no-console
+    console.error("Calendar cache read failed:", err.message);
+    return undefined;
+  }
+}
+
+async function writeCache(
+  store: ICalendarFeedCacheStore,
+  entry: CalendarFeedCacheEntry
+): Promise<void> {
+  try {
+    await store.set(entry);
+  } catch (err: any) {
+    metrics.errors++;
+    // eslint-disable-next-line no-console
+    console.error("Calendar cache write failed:", err.message);
+  }
+}
+
+/**
+ * Downloads a feed (conditionally, when validators are supplied) and stores
+ * the result. A 304 keeps the cached slots and only extends their expiry.
+ * A failure is recorded on the entry, keeping any previously good slots, and
+ * returned rather than thrown so the caller can decide whether to fall back.
+ */
+async function refreshFeed(
+  store: ICalendarFeedCacheStore,
+  calendarUrl: string,
+  key: string,
+  cached: CalendarFeedCacheEntry | undefined,
+  validators: CalendarFeedCacheEntry | undefined,
+  startDate: Date,
+  endDate: Date,
+  filter: BusyFilter | undefined
+): Promise<RefreshResult> {
+  let response: FeedResponse;
+  try {
+    response = await downloadCalendar(calendarUrl, validators);
+  } catch (err: any) {
+    metrics.errors++;
+    const now = Date.now();
+    const entry: CalendarFeedCacheEntry = {
+      ...(cached ?? { key, busySlots: [], windowStart: 0, windowEnd: 0, fetchedAt: 0 }),
+      failingSince: cached?.failingSince ?? now,
+      lastError: err?.message || "Unknown error",
+      expiresAt: now + FAILURE_RETRY_MS
+    };
+    await writeCache(store, entry);
+    return { entry, error: err };
+  }
+
+  const now = Date.now();
+
+  if (response.notModified && validators) {
+    metrics.revalidations++;
+    const entry = {
+      ...validators,
+      failingSince: undefined,
+      lastError: undefined,
+      expiresAt: now + response.ttlMs
+    };
+    await writeCache(store, entry);
+    return { entry };
+  }
+
+  metrics.misses++;
+  const windowStart = Math.min(startDate.getTime(), now);
+  const windowEnd = Math.max(endDate.getTime(), now + CACHE_HORIZON_MS);
+  const entry: CalendarFeedCacheEntry = {
+    key,
+    etag: response.etag,
+    lastModified: response.lastModified,
+    busySlots: parseCalendarData(response.data, new Date(windowStart), new Date(windowEnd), filter),
+    windowStart,
+    windowEnd,
+    fetchedAt: now,
+    expiresAt: now + response.ttlMs
+  };
+  await writeCache(store, entry);
+  return { entry };
+}
+
+/**
+ * Like fetchAndParseCalendar, but serves parsed busy slots from the feed
+ * cache while they are fresh and revalidates with a conditional GET once
+ * they expire. If the feed cannot be downloaded, its last good copy is
+ * served and marked stale; with no good copy to fall back on, the error is
+ * thrown.
+ */
+export async function fetchAndParseCalendarCached(
+  calendarUrl: string,
+  startDate: Date,
+  endDate: Date,
+  filter?: BusyFilter
+): Promise<CalendarBusyResult> {
+  const store = stores.calendarFeedCacheStore;
+  if (!store) {
+    return { busySlots: await fetchAndParseCalendar(calendarUrl, startDate, endDate, filter), stale: false };
+  }
+
+  const key = calendarCacheKey(calendarUrl, filter);
+  const covers = (e: CalendarFeedCacheEntry) =>
+    e.fetchedAt > 0 && e.windowStart <= startDate.getTime() && e.windowEnd >= endDate.getTime();
+
+  const cached = await readCache(store, key);
+  if (cached && covers(cached) && cached.expiresAt > Date.now()) {
+    metrics.hits++;
+    return {
+      busySlots: slotsInRange(cached.busySlots, startDate, endDate),
+      stale: cached.failingSince !== undefined
+    };
+  }
+
+  let pending = inFlight.get(key);
+  if (!pending) {
+    pending = refreshFeed(
+      store,
+      calendarUrl,
+      key,
+      cached,
+      cached && covers(cached) ? cached : undefined,
+      startDate,
+      endDate,
+      filter
+    ).finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+
+  const { entry, error } = await pending;
+  if (error) {
+    if (!covers(entry)) throw error;
+    return { busySlots: slotsInRange(entry.busySlots, startDate, endDate), stale: true };
+  }
+
+  // A refresh started by another caller may not reach this caller's range
+  if (!covers(entry)) {
+    return { busySlots: await fetchAndParseCalendar(calendarUrl, startDate, endDate, filter), stale: false };
+  }
+  return { busySlots: slotsInRange(entry.busySlots, startDate, endDate), stale: false };
+}
+
 /**
  * Fetches and parses multiple iCalendar feeds, merging and sorting results.
+ * A failing feed falls back to its last good copy (marking the result stale);
+ * only a failing feed with no good copy fails the whole call.
  */
 export async function fetchAndParseMultipleCalendars(
   urls: string[],
   startDate: Date,
-  endDate: Date
-): Promise<BusySlot[]> {
+  endDate: Date,
+  filter?: BusyFilter
+): Promise<CalendarBusyResult> {
   const results = await Promise.all(
-    urls.map((url) => fetchAndParseCalendar(url, startDate, endDate))
+    urls.map((url) => fetchAndParseCalendarCached(url, startDate, endDate, filter))
   );
-  const merged = results.flat();
+  const merged = results.flatMap((r) => r.busySlots);
   merged.sort((a, b) => a.start.localeCompare(b.start));
-  return merged;
+  return { busySlots: merged, stale: results.some((r) => r.stale) };
+}
+
+/**
+ * Health of each feed as last seen by the cache, in the order given.
+ */
+export async function getCalendarFeedHealth(
+  urls: string[],
+  filter?: BusyFilter
+): Promise<CalendarFeedHealth[]> {
+  const store = stores.calendarFeedCacheStore;
+  const toIso = (ms: number | undefined) => (ms ? new Date(ms).toISOString() : null);
+
+  return Promise.all(
+    urls.map(async (url): Promise<CalendarFeedHealth> => {
+      const entry = store ? await readCache(store, calendarCacheKey(url, filter)) : undefined;
+      if (!entry) {
+        return { status: "unknown", failingSince: null, lastSuccessAt: null, lastError: null };
+      }
+      return {
+        status: entry.failingSince !== undefined ? "failing" : "ok",
+        failingSince: toIso(entry.failingSince),
+        lastSuccessAt: toIso(entry.fetchedAt),
+        lastError: entry.lastError ?? null
+      };
+    })
+  );
 }
 
 /**
@@ -0,0 +1,95 @@
+/**
+ * Date-specific availability overrides.
+ *
+ * An override covers one date or a run of dates in the owner's timezone and
+ * replaces the weekly schedule on them: either with its own hours ("open
+ * this Saturday 10:00–13:00") or with none at all ("on holiday 3–14
+ * August"). Overrides for the same page never overlap.
+ */
+
+import { dayRangesError, isTimeRange, TimeRange } from "./weeklyAvailability";
+
+export interface DateOverride {
+  id?: string;
+  startDate: string; // "YYYY-MM-DD" in the owner's timezone
+  endDate: string; // "YYYY-MM-DD", inclusive
+  ranges: TimeRange[]; // empty = unavailable all day
+  label?: string; // shown to the owner only
+}
+
+export const MAX_DATE_OVERRIDES = 100;
+export const MAX_OVERRIDE_DAYS = 366;
+export const MAX_OVERRIDE_LABEL_LENGTH = 100;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Milliseconds of a "YYYY-MM-DD" date at UTC midnight, or NaN if it is not a real date. */
+function dateValue(dateStr: unknown): number {
+  if (typeof dateStr !== "string" || !DATE_RE.test(dateStr)) return NaN;
+  const [year, month, day] = dateStr.split("-").map(Number);
+  const ms = Date.UTC(year, month - 1, day);
+  return new Date(ms).toISOString().slice(0, 10) === dateStr ? ms : NaN;
+}
+
+/** The override in force on a date, if any. */
+export function overrideOn(
+  overrides: DateOverride[],
+  dateStr: string
+): DateOverride | undefined {
+  return overrides.find((o) => o.startDate <= dateStr && dateStr <= o.endDate);
+}
+
+/**
+ * Validates an override from a request. `today` is the owner's current date;
+ * an override that has already ended is rejected.
+ */
+export function parseDateOverride(
+  raw: unknown,
+  today: string
+): { override: DateOverride } | { error: string } {
+  const { startDate, endDate, ranges, label } = (raw ?? {}) as Record<string, unknown>;
+
+  const start = dateValue(startDate);
+  const end = endDate === undefined ? start : dateValue(endDate);
+  if (isNaN(start) || isNaN(end)) {
+    return { error: "Dates must be in YYYY-MM-DD format." };
+  }
+  if (end < start) {
+    return { error: "The end date must not be before the start date." };
+  }
+  if ((end - start) / DAY_MS + 1 > MAX_OVERRIDE_DAYS) {
+    return { error: `A date override can cover up to ${MAX_OVERRIDE_DAYS} days.` };
+  }
+  const lastDate = (endDate ?? startDate) as string;
+  if (lastDate < today) {
+    return { error: "That date has already passed." };
+  }
+
+  const rawRanges = ranges ?? [];
+  if (!Array.isArray(rawRanges) || !rawRanges.every(isTimeRange)) {
+    return { error: "Hours must be a list of HH:MM time ranges." };
+  }
+  const sorted = rawRanges
+    .map(({ start, end }) => ({ start, end }))
+    .sort((a, b) => a.start.localeCompare(b.start));
+  const rangesError = dayRangesError(sorted);
+  if (rangesError) return { error: rangesError };
+
+  if (label !== undefined && label !== null && typeof label !== "string") {
+    return { error: "The note must be text." };
+  }
+  const trimmedLabel = typeof label === "string" ? label.trim() : "";
+  if (trimmedLabel.length > MAX_OVERRIDE_LABEL_LENGTH) {
+    return { error: `The note must not exceed ${MAX_OVERRIDE_LABEL_LENGTH} characters.` };
+  }
+
+  return {
+    override: {
+      startDate: startDate as string,
+      endDate: lastDate,
+      ranges: sorted,
+      label: trimmedLabel || undefined
+    }
+  };
+}
@@ -1,12 +1,31 @@
 /**
  * Email sending service.
  *
- * Uses Mailgun when configured (MAILGUN_API_KEY, MAILGUN_DOMAIN,
- * MAILGUN_FROM_EMAIL). Falls back to a console stub in development
- * when env vars are absent — no noisy warnings, just a one-time log.
+ * Composes the app's emails and hands them to the transport selected by
+ * EMAIL_TRANSPORT (see ./emailTransport). Without any configuration the
+ * console transport logs messages instead of sending them. With a
+ * database, messages are queued in the outbox (see ./emailOutbox) and sent
+ * by the job worker, with retries.
+ *
+ * Acceptance and cancellation emails carry an .ics attachment (see ./ics)
+ * so the meeting lands in the recipient's calendar.
  */
 
-import axios from "axios";
+import { buildIcsEvent, IcsMethod } from "./ics";
+import {
+  createEmailTransport,
+  EmailAttachment,
+  EmailTransport,
+  OutgoingEmail
+} from "./emailTransport";
+import { openEmail, queueEmail } from "./emailOutbox";
+import { formatIntakeAnswer, IntakeAnswer } from "./intakeQuestions";
+import type { JobPayload } from "./jobs";
+import { getPool } from "../db/client";
+import { formatDate, formatTime, formatTimeRange, TimeFormat } from "../utils/timeFormat";
+import { DEFAULT_LANGUAGE, translator, Language, MessageKey, Translator } from "../i18n";
+
+export type { EmailAttachment } from "./emailTransport";
 
 interface AppointmentEmailPayload {
   ownerName: string;
@@ -18,6 +37,11 @@ interface AppointmentEmailPayload {
   startIso: string;
   endIso: string;
   timezone?: string;
+  timeFormat?: TimeFormat; // the recipient's
+  language?: Language; // the recipient's
+  meetingTypeName?: string;
+  intakeAnswers?: IntakeAnswer[]; // answers to the page's own questions
+  requestsUrl?: string; // dashboard link, for pages owned by an account
 }
 
 interface VerificationEmailPayload {
@@ -28,113 +52,139 @@ interface VerificationEmailPayload {
   endIso: string;
   confirmUrl: string;
   timezone?: string;
+  timeFormat?: TimeFormat; // the recipient's
+  language?: Language; // the recipient's
+  meetingTypeName?: string;
 }
 
-// ── Mailgun config (optional) ─────────────────────────────────────
-
-const MAILGUN_API_KEY = process.env.MAILGUN_API_KEY;
-const MAILGUN_DOMAIN = process.env.MAILGUN_DOMAIN;
-const MAILGUN_FROM_EMAIL = process.env.MAILGUN_FROM_EMAIL;
-const MAILGUN_API_BASE =
-  process.env.MAILGUN_API_BASE || "https://api.eu.mailgun.net";
+interface BookingStatusEmailPayload {
+  bookingId: string; // used as the calendar invite UID
+  sequence: number; // the booking's revision after this change
+  requesterEmail: string;
+  requesterName: string;
+  ownerName: string;
+  ownerEmail?: string; // receives a copy of the invite when known
+  status: "accepted" | "declined" | "cancelled";
+  message?: string;
+  reason?: string;
+  startIso: string;
+  endIso: string;
+  timezone?: string;
+  timeFormat?: TimeFormat; // the recipient's
+  language?: Language; // the recipient's
+  manageUrl?: string; // requester's reschedule/cancel link, shown once accepted
+  ownerTimeFormat?: TimeFormat; // for the owner's copy of the invite
+  ownerLanguage?: Language;
+}
 
-const isMailgunConfigured = !!(
-  MAILGUN_API_KEY &&
-  MAILGUN_DOMAIN &&
-  MAILGUN_FROM_EMAIL
-);
+interface RequestSentEmailPayload {
+  requesterEmail: string;
+  requesterName: string;
+  ownerName: string;
+  startIso: string;
+  endIso: string;
+  timezone?: string;
+  timeFormat?: TimeFormat; // the recipient's
+  language?: Language; // the recipient's
+  meetingTypeName?: string;
+  manageUrl: string;
+}
 
-if (!isMailgunConfigured) {
-  // eslint-disable-next-line no-console
-  console.log(
-    "[email] Mailgun not configured. Emails will be logged to console. " +
-      "Set MAILGUN_API_KEY, MAILGUN_DOMAIN, and MAILGUN_FROM_EMAIL to enable."
-  );
+interface BookingChangeEmailPayload {
+  bookingId: string; // the calendar invite UID, when one is withdrawn
+  sequence: number; // the booking's revision after this change
+  ownerName: string;
+  ownerEmail: string;
+  requesterName: string;
+  requesterEmail: string;
+  change: "cancelled" | "rescheduled";
+  reason: string;
+  startIso: string; // the new time when rescheduled
+  endIso: string;
+  previousStartIso?: string; // when rescheduled
+  previousEndIso?: string;
+  timezone?: string;
+  timeFormat?: TimeFormat; // the recipient's
+  language?: Language; // the recipient's
+  meetingTypeName?: string;
+  message?: string; // from the requester
+  wasAccepted: boolean; // the owner has a calendar invite for it
+  requestsUrl?: string;
 }
 
-// ── Time formatting helpers ───────────────────────────────────────
+interface InviteWithdrawnEmailPayload {
+  bookingId: string; // the calendar invite UID
+  sequence: number; // the booking's revision after this change
+  requesterEmail: string;
+  requesterName: string;
+  ownerName: string;
+  ownerEmail?: string; // the invite's organizer
+  change: "cancelled" | "rescheduled";
+  reason?: string;
+  startIso: string; // the time taken off the calendar
+  endIso: string;
+  timezone?: string;
+  timeFormat?: TimeFormat; // the recipient's
+  language?: Language; // the recipient's
+}
 
-/**
- * Format a Date in a given IANA timezone, e.g. "Monday 15 January 2024 at 15:00 CET"
- * Falls back to UTC if the timezone is invalid or unsupported.
- */
-function formatInTimezone(date: Date, timezone: string): string {
-  try {
-    return date.toLocaleString("en-GB", {
-      timeZone: timezone,
-      weekday: "long",
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-      hour: "2-digit",
-      minute: "2-digit",
-      timeZoneName: "short",
-    });
-  } catch {
-    return formatUtc(date);
-  }
+interface ReminderEmailPayload {
+  to: string;
+  recipientName: string;
+  recipient: "requester" | "owner";
+  withName: string; // the other person in the appointment
+  withEmail?: string; // shown to the owner
+  reason?: string; // shown to the owner
+  startIso: string;
+  endIso: string;
+  timezone?: string; // the recipient's
+  timeFormat?: TimeFormat; // the recipient's
+  language?: Language; // the recipient's
+  meetingTypeName?: string;
+  manageUrl?: string; // the requester's reschedule/cancel link
 }
 
-function formatUtc(date: Date): string {
-  return date.toLocaleString("en-GB", {
-    timeZone: "UTC",
-    weekday: "long",
-    year: "numeric",
-    month: "long",
-    day: "numeric",
-    hour: "2-digit",
-    minute: "2-digit",
-    timeZoneName: "short",
-  });
+// ── Transport ─────────────────────────────────────────────────────
+
+const transport: EmailTransport = createEmailTransport();
+const FROM_EMAIL = process.env.EMAIL_FROM || process.env.MAILGUN_FROM_EMAIL;
+
+if (transport.name === "console") {
+  // eslint-disable-next-line no-console
+  console.log(
+    "[email] No email transport configured. Emails will be logged to console. " +
+      "Set EMAIL_TRANSPORT (mailgun, smtp or file) to send them."
+  );
+} else {
+  // eslint-disable-next-line no-console
+  console.log(`[email] Sending email via ${transport.name}.`);
 }
 
-function formatTimeOnly(date: Date, timezone?: string): string {
-  try {
-    return date.toLocaleTimeString("en-GB", {
-      timeZone: timezone || "UTC",
-      hour: "2-digit",
-      minute: "2-digit",
-      timeZoneName: "short",
-    });
-  } catch {
-    return date.toLocaleTimeString("en-GB", {
-      timeZone: "UTC",
-      hour: "2-digit",
-      minute: "2-digit",
-      timeZoneName: "short",
-    });
+// With a database, emails go through the outbox so a failing provider is
+// retried; without one they are sent straight away
+async function deliver(message: OutgoingEmail): Promise<void> {
+  const pool = getPool();
+  if (pool) {
+    await queueEmail(pool, message);
+  } else {
+    await transport.send(message);
   }
 }
 
-function formatDateOnly(date: Date, timezone?: string): string {
-  try {
-    return date.toLocaleDateString("en-GB", {
-      timeZone: timezone || "UTC",
-      weekday: "long",
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-    });
-  } catch {
-    return date.toLocaleDateString("en-GB", {
-      timeZone: "UTC",
-      weekday: "long",
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-    });
-  }
+/** Sends an email from the outbox; run by the job worker. */
+export async function sendQueuedEmail(payload: JobPayload): Promise<void> {
+  await transport.send(openEmail(payload));
 }
 
 // ── HTML email template ───────────────────────────────────────────
 
-function wrapHtml(title: string, bodyHtml: string): string {
+function wrapHtml(title: string, bodyHtml: string, tr: Translator): string {
   return `<!DOCTYPE html>
-<html lang="en">
+<html lang="${tr.language}">
 <head>
   <meta charset="utf-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${title}</title>
+  <title>${escapeHtml(title)}</title>
 </head>
 <body style="margin:0;padding:0;background-color:#ECEFF4;font-family:system-ui,-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;">
   <table width="100%" cellpadding="0" cellspacing="0" style="background-color:#ECEFF4;padding:32px 16px;">
@@ -160,7 +210,7 @@ function wrapHtml(title: string, bodyHtml: string): string {
           <tr>
             <td style="background-color:#E5E9F0;border-radius:0 0 8px 8px;padding:16px 32px;text-align:center;">
               <p style="margin:0;color:#6B7280;font-size:12px;line-height:1.5;">
-                Sent via <strong>CalAnywhere</strong> &mdash; no calendar event has been created automatically.
+                ${tr.tHtml("email.footer", { app: "<strong>CalAnywhere</strong>" })}
               </p>
             </td>
           </tr>
@@ -184,6 +234,23 @@ function infoRow(label: string, value: string): string {
   </tr>`;
 }
 
+function buttonLink(href: string, label: string): string {
+  return `<table cellpadding="0" cellspacing="0" style="width:100%;margin-bottom:24px;">
+      <tr>
+        <td align="center">
+          <a href="${escapeHtml(href)}"
+             style="display:inline-block;background-color:#5E81AC;color:#ffffff;text-decoration:none;font-size:15px;font-weight:600;padding:14px 32px;border-radius:6px;">
+            ${label}
+          </a>
+        </td>
+      </tr>
+    </table>`;
+}
+
+function mailtoLink(email: string): string {
+  return `<a href="mailto:${escapeHtml(email)}" style="color:#5E81AC;">${escapeHtml(email)}</a>`;
+}
+
 function escapeHtml(str: string): string {
   return str
     .replace(/&/g, "&amp;")
@@ -193,41 +260,25 @@ function escapeHtml(str: string): string {
     .replace(/'/g, "&#39;");
 }
 
-// ── Low-level send ────────────────────────────────────────────────
+// ── Plain-text template ───────────────────────────────────────────
 
-async function sendViaMailgun(
-  to: string,
-  subject: string,
-  text: string,
-  html: string
-): Promise<void> {
-  const auth = Buffer.from(`api:${MAILGUN_API_KEY}`).toString("base64");
-  const form = new URLSearchParams();
-  form.append("from", MAILGUN_FROM_EMAIL!);
-  form.append("to", to);
-  form.append("subject", subject);
-  form.append("text", text);
-  form.append("html", html);
+// "  Label:  value" lines with the values lined up, whatever the language.
+// A null row is left out; an empty label continues the row above.
+function textRows(rows: ([string, string] | null)[]): string[] {
+  const present = rows.filter((row): row is [string, string] => row !== null);
+  const width = Math.max(...present.map(([label]) => label.length)) + 1;
+  return present.map(([label, value]) => `  ${(label ? `${label}:` : "").padEnd(width)}  ${value}`);
+}
 
-  const url = `${MAILGUN_API_BASE}/v3/${MAILGUN_DOMAIN}/messages`;
+function textHeading(text: string, tr: Translator): string {
+  return text.toLocaleUpperCase(tr.language);
+}
 
-  try {
-    await axios.post(url, form, {
-      headers: {
-        Authorization: `Basic ${auth}`,
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      timeout: 10000,
-    });
-  } catch (err: unknown) {
-    const message =
-      axios.isAxiosError(err)
-        ? err.response?.data?.message || err.message
-        : String(err);
-    // eslint-disable-next-line no-console
-    console.error(`[email] Mailgun error: ${message}`);
-    throw new Error(`Email send failed: ${message}`);
-  }
+// Dates are written in the email's language unless the recipient chose a
+// locale of their own
+function emailTimeFormat(format: TimeFormat | undefined, tr: Translator): TimeFormat {
+  if (format?.locale || tr.language === DEFAULT_LANGUAGE) return format ?? {};
+  return { ...format, locale: tr.language };
 }
 
 // ── Public API ────────────────────────────────────────────────────
@@ -238,79 +289,68 @@ export async function sendVerificationEmail(
   const start = new Date(payload.startIso);
   const end = new Date(payload.endIso);
   const tz = payload.timezone;
+  const tr = translator(payload.language);
+  const { t, tHtml } = tr;
+  const format = emailTimeFormat(payload.timeFormat, tr);
 
-  const dateLabel = formatDateOnly(start, tz);
-  const timeLabel = `${formatTimeOnly(start, tz)} – ${formatTimeOnly(end, tz)}`;
-  const utcLabel = tz
-    ? `${formatTimeOnly(start, "UTC")} – ${formatTimeOnly(end, "UTC")} UTC`
-    : null;
+  const dateLabel = formatDate(start, tz, format);
+  const timeLabel = formatTimeRange(start, end, tz, format);
+  const utcLabel = tz ? formatTimeRange(start, end, "UTC", format) : null;
 
-  const subject = `Confirm your appointment request with ${payload.ownerName}`;
+  const subject = t("email.verification.subject", { owner: payload.ownerName });
 
   // Plain text
   const text = [
-    `Hi ${payload.requesterName},`,
+    t("email.greeting", { name: payload.requesterName }),
     ``,
-    `Please confirm your appointment request by clicking the link below:`,
+    t("email.verification.prompt"),
     ``,
     payload.confirmUrl,
     ``,
-    `REQUEST DETAILS`,
-    `  With:  ${payload.ownerName}`,
-    `  Date:  ${dateLabel}`,
-    `  Time:  ${timeLabel}`,
-    utcLabel ? `         (${utcLabel})` : "",
+    textHeading(t("email.section.details"), tr),
+    ...textRows([
+      [t("email.label.with"), payload.ownerName],
+      payload.meetingTypeName ? [t("email.label.type"), payload.meetingTypeName] : null,
+      [t("email.label.date"), dateLabel],
+      [t("email.label.time"), timeLabel],
+      utcLabel ? ["", `(${utcLabel})`] : null,
+    ]),
     ``,
-    `This link expires in 1 hour. If you did not make this request, you can safely ignore this email.`,
+    t("email.verification.expiry"),
     ``,
     `-- CalAnywhere`,
-  ].filter((l) => l !== null).join("\n");
+  ].join("\n");
 
   // HTML
   const bodyHtml = `
-    <h2 style="margin:0 0 8px;font-size:20px;color:#2E3440;">Confirm your request</h2>
+    <h2 style="margin:0 0 8px;font-size:20px;color:#2E3440;">${tHtml("email.verification.heading")}</h2>
     <p style="margin:0 0 24px;font-size:14px;color:#4C566A;line-height:1.6;">
-      Hi ${escapeHtml(payload.requesterName)}, you requested an appointment with <strong>${escapeHtml(payload.ownerName)}</strong>.
-      Please confirm below to send your request.
+      ${tHtml("email.verification.lead", {
+        requester: escapeHtml(payload.requesterName),
+        owner: `<strong>${escapeHtml(payload.ownerName)}</strong>`,
+      })}
     </p>
 
     <table cellpadding="0" cellspacing="0" style="width:100%;background-color:#F8F9FB;border-radius:6px;padding:16px 20px;margin-bottom:24px;">
       <tbody>
-        ${infoRow("With", escapeHtml(payload.ownerName))}
-        ${infoRow("Date", escapeHtml(dateLabel))}
-        ${infoRow("Time", escapeHtml(timeLabel))}
-        ${utcLabel ? infoRow("UTC reference", escapeHtml(utcLabel)) : ""}
+        ${infoRow(tHtml("email.label.with"), escapeHtml(payload.ownerName))}
+        ${payload.meetingTypeName ? infoRow(tHtml("email.label.meeting"), escapeHtml(payload.meetingTypeName)) : ""}
+        ${infoRow(tHtml("email.label.date"), escapeHtml(dateLabel))}
+        ${infoRow(tHtml("email.label.time"), escapeHtml(timeLabel))}
+        ${utcLabel ? infoRow(tHtml("email.label.utc"), escapeHtml(utcLabel)) : ""}
       </tbody>
     </table>
 
-    <table cellpadding="0" cellspacing="0" style="width:100%;margin-bottom:24px;">
-      <tr>
-        <td align="center">
-          <a href="${escapeHtml(payload.confirmUrl)}"
-             style="display:inline-block;background-color:#5E81AC;color:#ffffff;text-decoration:none;font-size:15px;font-weight:600;padding:14px 32px;border-radius:6px;">
-            Confirm appointment request
-          </a>
-        </td>
-      </tr>
-    </table>
+    ${buttonLink(payload.confirmUrl, tHtml("email.verification.button"))}
 
     <p style="margin:0;font-size:12px;color:#9E9E9E;line-height:1.5;">
-      This link expires in 1 hour and can only be used once.
-      If you did not make this request, you can safely ignore this email.
+      ${tHtml("email.verification.expiry")}
     </p>
   `;
 
-  const html = wrapHtml(subject, bodyHtml);
+  const html = wrapHtml(subject, bodyHtml, tr);
 
-  if (isMailgunConfigured) {
-    await sendViaMailgun(payload.requesterEmail, subject, text, html);
-  } else {
-    // eslint-disable-next-line no-console
-    console.log(
-      `[email stub] Verification for ${payload.requesterEmail}:`,
-      payload.confirmUrl
-    );
-  }
+  await deliver({ to: payload.requesterEmail, subject, text, html });
 }
 
 export async function sendAppointmentRequestEmail(
@@ -319,90 +359,679 @@ export async function sendAppointmentRequestEmail(
   const start = new Date(payload.startIso);
   const end = new Date(payload.endIso);
   const tz = payload.timezone;
+  const tr = translator(payload.language);
+  const { t, tHtml } = tr;
+  const format = emailTimeFormat(payload.timeFormat, tr);
 
-  const dateLabel = formatDateOnly(start, tz);
-  const timeLabel = `${formatTimeOnly(start, tz)} – ${formatTimeOnly(end, tz)}`;
-  const utcLabel = tz
-    ? `${formatTimeOnly(start, "UTC")} – ${formatTimeOnly(end, "UTC")} UTC`
-    : null;
+  const dateLabel = formatDate(start, tz, format);
+  const timeLabel = formatTimeRange(start, end, tz, format);
+  const utcLabel = tz ? formatTimeRange(start, end, "UTC", format) : null;
   const tzNote = tz ? ` (${tz})` : "";
 
-  const subject = `Appointment request from ${payload.requesterName}: ${dateLabel}`;
+  const subject = t("email.request.subject", { requester: payload.requesterName, date: dateLabel });
+
+  const steps = payload.requestsUrl
+    ? [t("email.request.stepDecide"), t("email.request.stepCreateEvent")]
+    : [
+        t("email.request.stepCheckTime"),
+        t("email.request.stepCreateEvent"),
+        t("email.request.stepReply", { email: payload.requesterEmail }),
+      ];
 
   // Plain text
   const text = [
-    `You have a new appointment request via CalAnywhere.`,
+    t("email.request.intro"),
     ``,
-    `REQUESTER`,
-    `  Name:   ${payload.requesterName}`,
-    `  Email:  ${payload.requesterEmail}`,
+    textHeading(t("email.section.requester"), tr),
+    ...textRows([
+      [t("email.label.name"), payload.requesterName],
+      [t("email.label.email"), payload.requesterEmail],
+    ]),
     ``,
-    `REQUESTED TIME${tzNote}`,
-    `  Date:  ${dateLabel}`,
-    `  Time:  ${timeLabel}`,
-    utcLabel ? `         (${utcLabel})` : "",
+    `${textHeading(t("email.section.requestedTime"), tr)}${tzNote}`,
+    ...textRows([
+      payload.meetingTypeName ? [t("email.label.type"), payload.meetingTypeName] : null,
+      [t("email.label.date"), dateLabel],
+      [t("email.label.time"), timeLabel],
+      utcLabel ? ["", `(${utcLabel})`] : null,
+    ]),
     ``,
-    `REASON FOR MEETING`,
+    textHeading(t("email.section.reason"), tr),
     payload.reason,
     ``,
-    payload.notes ? `ADDITIONAL NOTES\n${payload.notes}\n` : "",
-    `NEXT STEPS`,
-    `  1. Check the time is still available in your calendar.`,
-    `  2. Create an event for the agreed slot.`,
-    `  3. Reply to ${payload.requesterEmail} to confirm or suggest alternatives.`,
+    payload.notes ? `${textHeading(t("email.section.notes"), tr)}\n${payload.notes}\n` : "",
+    payload.intakeAnswers?.length
+      ? `${textHeading(t("email.section.answers"), tr)}\n${payload.intakeAnswers
+          .map((a) => `  ${a.label}\n  ${formatIntakeAnswer(a)}`)
+          .join("\n\n")}\n`
+      : "",
+    textHeading(t("email.section.nextSteps"), tr),
+    ...steps.map((step, i) => `  ${i + 1}. ${step}`),
+    ...(payload.requestsUrl ? [`     ${payload.requestsUrl}`] : []),
     ``,
     `-- CalAnywhere`,
-  ].filter((l) => l !== null).join("\n");
+  ].join("\n");
+
+  const requesterLink = mailtoLink(payload.requesterEmail);
 
   // HTML
   const bodyHtml = `
-    <h2 style="margin:0 0 8px;font-size:20px;color:#2E3440;">New appointment request</h2>
+    <h2 style="margin:0 0 8px;font-size:20px;color:#2E3440;">${tHtml("email.request.heading")}</h2>
     <p style="margin:0 0 24px;font-size:14px;color:#4C566A;line-height:1.6;">
-      <strong>${escapeHtml(payload.requesterName)}</strong> wants to meet with you.
+      ${tHtml("email.request.lead", { requester: `<strong>${escapeHtml(payload.requesterName)}</strong>` })}
     </p>
 
-    ${sectionHeading("Requested time")}
+    ${sectionHeading(tHtml("email.section.requestedTime"))}
     <table cellpadding="0" cellspacing="0" style="width:100%;background-color:#EBF4FF;border-left:3px solid #5E81AC;border-radius:0 6px 6px 0;padding:14px 20px;margin-bottom:4px;">
       <tbody>
-        ${infoRow("Date", escapeHtml(dateLabel))}
-        ${infoRow("Time", escapeHtml(timeLabel))}
-        ${utcLabel ? infoRow("UTC reference", escapeHtml(utcLabel)) : ""}
+        ${payload.meetingTypeName ? infoRow(tHtml("email.label.meeting"), escapeHtml(payload.meetingTypeName)) : ""}
+        ${infoRow(tHtml("email.label.date"), escapeHtml(dateLabel))}
+        ${infoRow(tHtml("email.label.time"), escapeHtml(timeLabel))}
+        ${utcLabel ? infoRow(tHtml("email.label.utc"), escapeHtml(utcLabel)) : ""}
       </tbody>
     </table>
 
-    ${sectionHeading("From")}
+    ${sectionHeading(tHtml("email.section.from"))}
     <table cellpadding="0" cellspacing="0" style="width:100%;background-color:#F8F9FB;border-radius:6px;padding:14px 20px;margin-bottom:4px;">
       <tbody>
-        ${infoRow("Name", escapeHtml(payload.requesterName))}
-        ${infoRow("Email", `<a href="mailto:${escapeHtml(payload.requesterEmail)}" style="color:#5E81AC;">${escapeHtml(payload.requesterEmail)}</a>`)}
+        ${infoRow(tHtml("email.label.name"), escapeHtml(payload.requesterName))}
+        ${infoRow(tHtml("email.label.email"), requesterLink)}
       </tbody>
     </table>
 
-    ${sectionHeading("Reason for meeting")}
+    ${sectionHeading(tHtml("email.section.reason"))}
     <p style="margin:0 0 16px;font-size:14px;color:#2E3440;line-height:1.6;white-space:pre-wrap;">${escapeHtml(payload.reason)}</p>
 
     ${payload.notes ? `
-    ${sectionHeading("Additional notes")}
+    ${sectionHeading(tHtml("email.section.notes"))}
     <p style="margin:0 0 16px;font-size:14px;color:#4C566A;line-height:1.6;white-space:pre-wrap;">${escapeHtml(payload.notes)}</p>
     ` : ""}
 
-    ${sectionHeading("Next steps")}
+    ${payload.intakeAnswers?.length ? `
+    ${sectionHeading(tHtml("email.section.answers"))}
+    ${payload.intakeAnswers.map((a) => `
+    <p style="margin:0 0 4px;font-size:13px;color:#6B7280;">${escapeHtml(a.label)}</p>
+    <p style="margin:0 0 12px;font-size:14px;color:#2E3440;line-height:1.6;white-space:pre-wrap;">${escapeHtml(formatIntakeAnswer(a))}</p>
+    `).join("")}
+    ` : ""}
+
+    ${sectionHeading(tHtml("email.section.nextSteps"))}
     <ol style="margin:0 0 24px;padding-left:20px;font-size:14px;color:#4C566A;line-height:2;">
-      <li>Check the time is still available in your calendar.</li>
-      <li>Create an event for the agreed slot.</li>
-      <li>Reply to <a href="mailto:${escapeHtml(payload.requesterEmail)}" style="color:#5E81AC;">${escapeHtml(payload.requesterEmail)}</a> to confirm or suggest alternatives.</li>
+      ${payload.requestsUrl ? `
+      <li><a href="${escapeHtml(payload.requestsUrl)}" style="color:#5E81AC;">${tHtml("email.request.stepDecide")}</a></li>
+      <li>${tHtml("email.request.stepCreateEvent")}</li>
+      ` : `
+      <li>${tHtml("email.request.stepCheckTime")}</li>
+      <li>${tHtml("email.request.stepCreateEvent")}</li>
+      <li>${tHtml("email.request.stepReply", { email: requesterLink })}</li>
+      `}
     </ol>
   `;
 
-  const html = wrapHtml(subject, bodyHtml);
+  const html = wrapHtml(subject, bodyHtml, tr);
 
-  if (isMailgunConfigured) {
-    await sendViaMailgun(payload.ownerEmail, subject, text, html);
-  } else {
+  await deliver({ to: payload.ownerEmail, subject, text, html });
+}
+
+const STATUS_MESSAGES: Record<
+  BookingStatusEmailPayload["status"],
+  { subject: MessageKey; heading: MessageKey; lead: MessageKey }
+> = {
+  accepted: {
+    subject: "email.status.accepted.subject",
+    heading: "email.status.accepted.heading",
+    lead: "email.status.accepted.lead",
+  },
+  declined: {
+    subject: "email.status.declined.subject",
+    heading: "email.status.declined.heading",
+    lead: "email.status.declined.lead",
+  },
+  cancelled: {
+    subject: "email.status.cancelled.subject",
+    heading: "email.status.cancelled.heading",
+    lead: "email.status.cancelled.lead",
+  },
+};
+
+const INVITE_METHODS: Partial<Record<BookingStatusEmailPayload["status"], IcsMethod>> = {
+  accepted: "REQUEST",
+  cancelled: "CANCEL",
+};
+
+/**
+ * Builds the calendar attachment for a status change, or null when the status
+ * has no calendar effect: a declined request is on no one's calendar, since
+ * an accepted booking's invites are withdrawn when the requester moves it.
+ */
+function bookingInvite(payload: BookingStatusEmailPayload): EmailAttachment | null {
+  const method = INVITE_METHODS[payload.status];
+  if (!method) return null;
+
+  const ics = buildIcsEvent({
+    uid: `${payload.bookingId}@calanywhere`,
+    method,
+    sequence: payload.sequence,
+    startIso: payload.startIso,
+    endIso: payload.endIso,
+    summary: translator(payload.language).t("email.invite.summary", {
+      requester: payload.requesterName,
+      owner: payload.ownerName,
+    }),
+    description: payload.reason,
+    organizer: {
+      name: payload.ownerName,
+      email: payload.ownerEmail || FROM_EMAIL || "no-reply@calanywhere.invalid",
+    },
+    attendees: [{ name: payload.requesterName, email: payload.requesterEmail }],
+  });
+
+  return {
+    filename: method === "CANCEL" ? "cancel.ics" : "invite.ics",
+    contentType: `text/calendar; charset=utf-8; method=${method}`,
+    content: ics,
+  };
+}
+
+/**
+ * Sends the owner their own copy of the invite so accepting a request also
+ * puts it in their calendar. Failures are logged rather than thrown: the
+ * requester's email is the one that matters to the caller.
+ */
+async function sendOwnerInviteCopy(
+  payload: BookingStatusEmailPayload,
+  invite: EmailAttachment
+): Promise<void> {
+  if (!payload.ownerEmail) return;
+
+  const start = new Date(payload.startIso);
+  const end = new Date(payload.endIso);
+  const tz = payload.timezone;
+  const tr = translator(payload.ownerLanguage);
+  const { t, tHtml } = tr;
+  const format = emailTimeFormat(payload.ownerTimeFormat, tr);
+  const dateLabel = formatDate(start, tz, format);
+  const timeLabel = formatTimeRange(start, end, tz, format);
+
+  const cancelled = payload.status === "cancelled";
+  const params = { requester: payload.requesterName, date: dateLabel };
+  const subject = cancelled
+    ? t("email.invite.cancelledSubject", params)
+    : t("email.invite.subject", params);
+  const leadKey: MessageKey = cancelled ? "email.invite.cancelledLead" : "email.invite.lead";
+  const withLabel = `${payload.requesterName} <${payload.requesterEmail}>`;
+
+  const text = [
+    t(leadKey, params),
+    ``,
+    ...textRows([
+      [t("email.label.with"), withLabel],
+      [t("email.label.date"), dateLabel],
+      [t("email.label.time"), timeLabel],
+    ]),
+    ``,
+    `-- CalAnywhere`,
+  ].join("\n");
+
+  const bodyHtml = `
+    <p style="margin:0 0 24px;font-size:14px;color:#4C566A;line-height:1.6;">${tHtml(leadKey, { requester: escapeHtml(payload.requesterName) })}</p>
+
+    <table cellpadding="0" cellspacing="0" style="width:100%;background-color:#F8F9FB;border-radius:6px;padding:16px 20px;margin-bottom:24px;">
+      <tbody>
+        ${infoRow(tHtml("email.label.with"), escapeHtml(withLabel))}
+        ${infoRow(tHtml("email.label.date"), escapeHtml(dateLabel))}
+        ${infoRow(tHtml("email.label.time"), escapeHtml(timeLabel))}
+      </tbody>
+    </table>
+  `;
+
+  try {
+    await deliver({
+      to: payload.ownerEmail,
+      subject,
+      text,
+      html: wrapHtml(subject, bodyHtml, tr),
+      attachments: [invite],
+    });
+  } catch (err) {
     // eslint-disable-next-line no-console
-    console.log(
-      `[email stub] Notification to ${payload.ownerEmail}:`,
-      `${payload.requesterName} requested ${payload.startIso}`
-    );
+    console.error("[email] Failed to send owner invite copy:", err);
   }
 }
+
+export async function sendBookingStatusEmail(
+  payload: BookingStatusEmailPayload
+): Promise<void> {
+  const start = new Date(payload.startIso);
+  const end = new Date(payload.endIso);
+  const tz = payload.timezone;
+  const tr = translator(payload.language);
+  const { t, tHtml } = tr;
+  const format = emailTimeFormat(payload.timeFormat, tr);
+
+  const dateLabel = formatDate(start, tz, format);
+  const timeLabel = formatTimeRange(start, end, tz, format);
+  const messages = STATUS_MESSAGES[payload.status];
+  const ownerFirst = payload.ownerName.split(" ")[0];
+
+  const subject = t(messages.subject, { owner: payload.ownerName });
+  const lead = t(messages.lead, { owner: payload.ownerName });
+  // Only an accepted appointment can still be changed
+  const manageUrl = payload.status === "accepted" ? payload.manageUrl : undefined;
+
+  // Plain text
+  const text = [
+    t("email.greeting", { name: payload.requesterName }),
+    ``,
+    lead,
+    ``,
+    textHeading(t("email.section.appointment"), tr),
+    ...textRows([
+      [t("email.label.with"), payload.ownerName],
+      [t("email.label.date"), dateLabel],
+      [t("email.label.time"), timeLabel],
+    ]),
+    ``,
+    payload.message
+      ? `${textHeading(t("email.section.messageFrom", { name: ownerFirst }), tr)}\n${payload.message}\n`
+      : "",
+    manageUrl ? `${t("email.manage.prompt")}\n${manageUrl}\n` : "",
+    `-- CalAnywhere`,
+  ].join("\n");
+
+  // HTML
+  const bodyHtml = `
+    <h2 style="margin:0 0 8px;font-size:20px;color:#2E3440;">${tHtml(messages.heading)}</h2>
+    <p style="margin:0 0 24px;font-size:14px;color:#4C566A;line-height:1.6;">
+      ${tHtml("email.greeting", { name: escapeHtml(payload.requesterName) })} ${escapeHtml(lead)}
+    </p>
+
+    <table cellpadding="0" cellspacing="0" style="width:100%;background-color:#F8F9FB;border-radius:6px;padding:16px 20px;margin-bottom:24px;">
+      <tbody>
+        ${infoRow(tHtml("email.label.with"), escapeHtml(payload.ownerName))}
+        ${infoRow(tHtml("email.label.date"), escapeHtml(dateLabel))}
+        ${infoRow(tHtml("email.label.time"), escapeHtml(timeLabel))}
+      </tbody>
+    </table>
+
+    ${payload.message ? `
+    ${sectionHeading(tHtml("email.section.messageFrom", { name: escapeHtml(ownerFirst) }))}
+    <p style="margin:0 0 16px;font-size:14px;color:#2E3440;line-height:1.6;white-space:pre-wrap;">${escapeHtml(payload.message)}</p>
+    ` : ""}
+
+    ${manageUrl ? buttonLink(manageUrl, tHtml("email.manage.button")) : ""}
+  `;
+
+  const html = wrapHtml(subject, bodyHtml, tr);
+  const invite = bookingInvite(payload);
+
+  await deliver({
+    to: payload.requesterEmail,
+    subject,
+    text,
+    html,
+    attachments: invite ? [invite] : [],
+  });
+
+  if (invite) {
+    await sendOwnerInviteCopy(payload, invite);
+  }
+}
+
+/**
+ * Tells the requester their confirmed request has reached the owner, with
+ * the link for rescheduling or cancelling it.
+ */
+export async function sendRequestSentEmail(
+  payload: RequestSentEmailPayload
+): Promise<void> {
+  const start = new Date(payload.startIso);
+  const end = new Date(payload.endIso);
+  const tz = payload.timezone;
+  const tr = translator(payload.language);
+  const { t, tHtml } = tr;
+  const format = emailTimeFormat(payload.timeFormat, tr);
+
+  const dateLabel = formatDate(start, tz, format);
+  const timeLabel = formatTimeRange(start, end, tz, format);
+  const ownerFirst = payload.ownerName.split(" ")[0];
+
+  const subject = t("email.requestSent.subject", { owner: payload.ownerName });
+  const lead = t("email.requestSent.lead", { owner: payload.ownerName, ownerFirst });
+
+  // Plain text
+  const text = [
+    t("email.greeting", { name: payload.requesterName }),
+    ``,
+    lead,
+    ``,
+    textHeading(t("email.section.details"), tr),
+    ...textRows([
+      [t("email.label.with"), payload.ownerName],
+      payload.meetingTypeName ? [t("email.label.type"), payload.meetingTypeName] : null,
+      [t("email.label.date"), dateLabel],
+      [t("email.label.time"), timeLabel],
+    ]),
+    ``,
+    t("email.manage.prompt"),
+    payload.manageUrl,
+    ``,
+    `-- CalAnywhere`,
+  ].join("\n");
+
+  // HTML
+  const bodyHtml = `
+    <h2 style="margin:0 0 8px;font-size:20px;color:#2E3440;">${tHtml("email.requestSent.heading")}</h2>
+    <p style="margin:0 0 24px;font-size:14px;color:#4C566A;line-height:1.6;">
+      ${tHtml("email.greeting", { name: escapeHtml(payload.requesterName) })} ${escapeHtml(lead)}
+    </p>
+
+    <table cellpadding="0" cellspacing="0" style="width:100%;background-color:#F8F9FB;border-radius:6px;padding:16px 20px;margin-bottom:24px;">
+      <tbody>
+        ${infoRow(tHtml("email.label.with"), escapeHtml(payload.ownerName))}
+        ${payload.meetingTypeName ? infoRow(tHtml("email.label.meeting"), escapeHtml(payload.meetingTypeName)) : ""}
+        ${infoRow(tHtml("email.label.date"), escapeHtml(dateLabel))}
+        ${infoRow(tHtml("email.label.time"), escapeHtml(timeLabel))}
+      </tbody>
+    </table>
+
+    ${buttonLink(payload.manageUrl, tHtml("email.manage.button"))}
+
+    <p style="margin:0;font-size:12px;color:#9E9E9E;line-height:1.5;">
+      ${tHtml("email.requestSent.keep")}
+    </p>
+  `;
+
+  const html = wrapHtml(subject, bodyHtml, tr);
+
+  await deliver({ to: payload.requesterEmail, subject, text, html });
+}
+
+/**
+ * Tells the owner a requester has cancelled or moved their appointment.
+ * Cancelling or moving an accepted appointment attaches a cancellation for
+ * the owner's copy of the calendar invite.
+ */
+export async function sendBookingChangeEmail(
+  payload: BookingChangeEmailPayload
+): Promise<void> {
+  const tz = payload.timezone;
+  const tr = translator(payload.language);
+  const { t, tHtml } = tr;
+  const format = emailTimeFormat(payload.timeFormat, tr);
+  const tzNote = tz ? ` (${tz})` : "";
+  const slotLabels = (startIso: string, endIso: string) => {
+    const start = new Date(startIso);
+    const end = new Date(endIso);
+    return {
+      date: formatDate(start, tz, format),
+      time: formatTimeRange(start, end, tz, format),
+    };
+  };
+
+  const current = slotLabels(payload.startIso, payload.endIso);
+  const previous = payload.previousStartIso && payload.previousEndIso
+    ? slotLabels(payload.previousStartIso, payload.previousEndIso)
+    : null;
+  const rescheduled = payload.change === "rescheduled";
+  const change = rescheduled ? "rescheduled" : "cancelled";
+
+  const subject = t(`email.change.${change}.subject`, {
+    requester: payload.requesterName,
+    date: current.date,
+  });
+  const lead = t(`email.change.${change}.lead`, { requester: payload.requesterName });
+  const timeHeading = t(rescheduled ? "email.change.newTime" : "email.change.cancelledTime");
+
+  // Plain text
+  const text = [
+    lead,
+    ``,
+    `${textHeading(timeHeading, tr)}${tzNote}`,
+    ...textRows([
+      payload.meetingTypeName ? [t("email.label.type"), payload.meetingTypeName] : null,
+      [t("email.label.date"), current.date],
+      [t("email.label.time"), current.time],
+    ]),
+    ``,
+    ...(previous
+      ? [
+          textHeading(t("email.change.previousTime"), tr),
+          ...textRows([
+            [t("email.label.date"), previous.date],
+            [t("email.label.time"), previous.time],
+          ]),
+          ``,
+        ]
+      : []),
+    textHeading(t("email.section.requester"), tr),
+    ...textRows([
+      [t("email.label.name"), payload.requesterName],
+      [t("email.label.email"), payload.requesterEmail],
+    ]),
+    ``,
+    payload.message
+      ? `${textHeading(t("email.section.messageFrom", { name: payload.requesterName }), tr)}\n${payload.message}\n`
+      : null,
+    payload.requestsUrl && rescheduled ? `${t("email.change.decidePrompt")}\n${payload.requestsUrl}\n` : null,
+    `-- CalAnywhere`,
+  ].filter((l) => l !== null).join("\n");
+
+  // HTML
+  const bodyHtml = `
+    <h2 style="margin:0 0 8px;font-size:20px;color:#2E3440;">${tHtml(`email.change.${change}.heading`)}</h2>
+    <p style="margin:0 0 24px;font-size:14px;color:#4C566A;line-height:1.6;">${escapeHtml(lead)}</p>
+
+    ${sectionHeading(escapeHtml(timeHeading))}
+    <table cellpadding="0" cellspacing="0" style="width:100%;background-color:#EBF4FF;border-left:3px solid #5E81AC;border-radius:0 6px 6px 0;padding:14px 20px;margin-bottom:4px;">
+      <tbody>
+        ${payload.meetingTypeName ? infoRow(tHtml("email.label.meeting"), escapeHtml(payload.meetingTypeName)) : ""}
+        ${infoRow(tHtml("email.label.date"), escapeHtml(current.date))}
+        ${infoRow(tHtml("email.label.time"), escapeHtml(current.time))}
+      </tbody>
+    </table>
+
+    ${previous ? `
+    ${sectionHeading(tHtml("email.change.previousTime"))}
+    <table cellpadding="0" cellspacing="0" style="width:100%;background-color:#F8F9FB;border-radius:6px;padding:14px 20px;margin-bottom:4px;">
+      <tbody>
+        ${infoRow(tHtml("email.label.date"), escapeHtml(previous.date))}
+        ${infoRow(tHtml("email.label.time"), escapeHtml(previous.time))}
+      </tbody>
+    </table>
+    ` : ""}
+
+    ${sectionHeading(tHtml("email.section.from"))}
+    <table cellpadding="0" cellspacing="0" style="width:100%;background-color:#F8F9FB;border-radius:6px;padding:14px 20px;margin-bottom:4px;">
+      <tbody>
+        ${infoRow(tHtml("email.label.name"), escapeHtml(payload.requesterName))}
+        ${infoRow(tHtml("email.label.email"), mailtoLink(payload.requesterEmail))}
+      </tbody>
+    </table>
+
+    ${payload.message ? `
+    ${sectionHeading(tHtml("email.section.messageFrom", { name: escapeHtml(payload.requesterName) }))}
+    <p style="margin:0 0 16px;font-size:14px;color:#2E3440;line-height:1.6;white-space:pre-wrap;">${escapeHtml(payload.message)}</p>
+    ` : ""}
+
+    ${payload.requestsUrl && rescheduled ? buttonLink(payload.requestsUrl, tHtml("email.change.decideButton")) : ""}
+  `;
+
+  const html = wrapHtml(subject, bodyHtml, tr);
+
+  // Withdraw the owner's copy of the invite, for the previous time when the
+  // appointment moved; a new time is invited afresh when the owner accepts it
+  const invite = payload.wasAccepted
+    ? bookingInvite({
+        bookingId: payload.bookingId,
+        sequence: payload.sequence,
+        requesterEmail: payload.requesterEmail,
+        requesterName: payload.requesterName,
+        ownerName: payload.ownerName,
+        ownerEmail: payload.ownerEmail,
+        status: "cancelled",
+        reason: payload.reason,
+        startIso: payload.previousStartIso ?? payload.startIso,
+        endIso: payload.previousEndIso ?? payload.endIso,
+        language: payload.language,
+      })
+    : null;
+
+  await deliver({
+    to: payload.ownerEmail,
+    subject,
+    text,
+    html,
+    attachments: invite ? [invite] : [],
+  });
+}
+
+/**
+ * Withdraws the requester's calendar invite when they cancel or move an
+ * accepted appointment. A new time is invited afresh when the owner accepts it.
+ */
+export async function sendInviteWithdrawnEmail(
+  payload: InviteWithdrawnEmailPayload
+): Promise<void> {
+  const start = new Date(payload.startIso);
+  const end = new Date(payload.endIso);
+  const tz = payload.timezone;
+  const tr = translator(payload.language);
+  const { t, tHtml } = tr;
+  const format = emailTimeFormat(payload.timeFormat, tr);
+
+  const dateLabel = formatDate(start, tz, format);
+  const timeLabel = formatTimeRange(start, end, tz, format);
+  const ownerFirst = payload.ownerName.split(" ")[0];
+
+  const cancelled = payload.change === "cancelled";
+  const params = { owner: payload.ownerName, ownerFirst, date: dateLabel };
+  const subject = cancelled
+    ? t("email.withdrawn.cancelledSubject", params)
+    : t("email.withdrawn.rescheduledSubject", params);
+  const leadKey: MessageKey = cancelled
+    ? "email.withdrawn.cancelledLead"
+    : "email.withdrawn.rescheduledLead";
+
+  const text = [
+    t("email.greeting", { name: payload.requesterName }),
+    ``,
+    t(leadKey, params),
+    ``,
+    ...textRows([
+      [t("email.label.with"), payload.ownerName],
+      [t("email.label.date"), dateLabel],
+      [t("email.label.time"), timeLabel],
+    ]),
+    ``,
+    `-- CalAnywhere`,
+  ].join("\n");
+
+  const bodyHtml = `
+    <p style="margin:0 0 24px;font-size:14px;color:#4C566A;line-height:1.6;">
+      ${tHtml("email.greeting", { name: escapeHtml(payload.requesterName) })}
+      ${tHtml(leadKey, { owner: escapeHtml(payload.ownerName), ownerFirst: escapeHtml(ownerFirst) })}
+    </p>
+
+    <table cellpadding="0" cellspacing="0" style="width:100%;background-color:#F8F9FB;border-radius:6px;padding:16px 20px;margin-bottom:24px;">
+      <tbody>
+        ${infoRow(tHtml("email.label.with"), escapeHtml(payload.ownerName))}
+        ${infoRow(tHtml("email.label.date"), escapeHtml(dateLabel))}
+        ${infoRow(tHtml("email.label.time"), escapeHtml(timeLabel))}
+      </tbody>
+    </table>
+  `;
+
+  const invite = bookingInvite({
+    bookingId: payload.bookingId,
+    sequence: payload.sequence,
+    requesterEmail: payload.requesterEmail,
+    requesterName: payload.requesterName,
+    ownerName: payload.ownerName,
+    ownerEmail: payload.ownerEmail,
+    status: "cancelled",
+    reason: payload.reason,
+    startIso: payload.startIso,
+    endIso: payload.endIso,
+    language: payload.language,
+  });
+
+  await deliver({
+    to: payload.requesterEmail,
+    subject,
+    text,
+    html: wrapHtml(subject, bodyHtml, tr),
+    attachments: invite ? [invite] : [],
+  });
+}
+
+/** Reminds the requester or the owner of an accepted appointment coming up. */
+export async function sendReminderEmail(payload: ReminderEmailPayload): Promise<void> {
+  const start = new Date(payload.startIso);
+  const end = new Date(payload.endIso);
+  const tz = payload.timezone;
+  const tr = translator(payload.language);
+  const { t, tHtml } = tr;
+  const format = emailTimeFormat(payload.timeFormat, tr);
+
+  const dateLabel = formatDate(start, tz, format);
+  const timeLabel = formatTimeRange(start, end, tz, format);
+  const tzNote = tz ? ` (${tz})` : "";
+  const forOwner = payload.recipient === "owner";
+
+  const subject = t("email.reminder.subject", {
+    with: payload.withName,
+    date: dateLabel,
+    time: formatTime(start, tz, format),
+  });
+  const lead = t("email.reminder.lead", { with: payload.withName });
+
+  // Plain text
+  const text = [
+    t("email.greeting", { name: payload.recipientName }),
+    ``,
+    lead,
+    ``,
+    `${textHeading(t("email.section.appointment"), tr)}${tzNote}`,
+    ...textRows([
+      [t("email.label.with"), payload.withName],
+      forOwner && payload.withEmail ? [t("email.label.email"), payload.withEmail] : null,
+      payload.meetingTypeName ? [t("email.label.type"), payload.meetingTypeName] : null,
+      [t("email.label.date"), dateLabel],
+      [t("email.label.time"), timeLabel],
+    ]),
+    ``,
+    forOwner && payload.reason ? `${textHeading(t("email.section.reason"), tr)}\n${payload.reason}\n` : null,
+    payload.manageUrl ? `${t("email.reminder.managePrompt")}\n${payload.manageUrl}\n` : null,
+    `-- CalAnywhere`,
+  ].filter((l) => l !== null).join("\n");
+
+  // HTML
+  const bodyHtml = `
+    <h2 style="margin:0 0 8px;font-size:20px;color:#2E3440;">${tHtml("email.reminder.heading")}</h2>
+    <p style="margin:0 0 24px;font-size:14px;color:#4C566A;line-height:1.6;">
+      ${tHtml("email.greeting", { name: escapeHtml(payload.recipientName) })} ${escapeHtml(lead)}
+    </p>
+
+    <table cellpadding="0" cellspacing="0" style="width:100%;background-color:#EBF4FF;border-left:3px solid #5E81AC;border-radius:0 6px 6px 0;padding:14px 20px;margin-bottom:24px;">
+      <tbody>
+        ${infoRow(tHtml("email.label.with"), escapeHtml(payload.withName))}
+        ${forOwner && payload.withEmail ? infoRow(tHtml("email.label.email"), mailtoLink(payload.withEmail)) : ""}
+        ${payload.meetingTypeName ? infoRow(tHtml("email.label.meeting"), escapeHtml(payload.meetingTypeName)) : ""}
+        ${infoRow(tHtml("email.label.date"), escapeHtml(dateLabel))}
+        ${infoRow(tHtml("email.label.time"), escapeHtml(timeLabel))}
+      </tbody>
+    </table>
+
+    ${forOwner && payload.reason ? `
+    ${sectionHeading(tHtml("email.section.reason"))}
+    <p style="margin:0 0 16px;font-size:14px;color:#2E3440;line-height:1.6;white-space:pre-wrap;">${escapeHtml(payload.reason)}</p>
+    ` : ""}
+
+    ${payload.manageUrl ? buttonLink(payload.manageUrl, tHtml("email.manage.button")) : ""}
+  `;
+
+  const html = wrapHtml(subject, bodyHtml, tr);
+
+  await deliver({ to: payload.to, subject, text, html });
+}
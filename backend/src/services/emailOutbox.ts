@@ -0,0 +1,148 @@
+/**
+ * Outgoing email queue.
+ *
+ * With a database, each email is stored as a "send_email" job and handed to
+ * the transport by the job worker (services/jobs.ts), so a provider outage
+ * is retried with backoff instead of losing the email or failing the
+ * request that sent it. An email that fails every attempt is kept as a
+ * failed job: the dead letters listed in the admin dashboard, where they
+ * can be retried, until they are purged after 30 days.
+ *
+ * Messages carry requesters' details, so they are stored encrypted with
+ * EMAIL_ENCRYPTION_KEY when it is set, like notification addresses.
+ */
+
+import type { Pool } from "pg";
+import type { EmailAttachment, OutgoingEmail } from "./emailTransport";
+import { enqueueJob, JobPayload, wakeJobWorker } from "./jobs";
+import { decrypt, encrypt, EncryptedValue } from "../utils/encryption";
+
+export const EMAIL_JOB = "send_email";
+
+const DEAD_LETTER_LIMIT = 50;
+
+export interface DeadLetter {
+  id: string;
+  to: string; // masked
+  subject: string;
+  attempts: number;
+  lastError: string | null;
+  failedAt: string;
+}
+
+// Attachments may be Buffers, which JSON would turn into arrays of bytes
+interface StoredAttachment {
+  filename: string;
+  contentType: string;
+  content: string;
+  base64?: boolean;
+}
+
+type StoredEmail = Omit<OutgoingEmail, "attachments"> & { attachments?: StoredAttachment[] };
+
+function toStored(message: OutgoingEmail): StoredEmail {
+  return {
+    ...message,
+    attachments: message.attachments?.map((a) => ({
+      filename: a.filename,
+      contentType: a.contentType,
+      ...(Buffer.isBuffer(a.content)
+        ? { content: a.content.toString("base64"), base64: true }
+        : { content: a.content }),
+    })),
+  };
+}
+
+function fromStored(stored: StoredEmail): OutgoingEmail {
+  return {
+    ...stored,
+    attachments: stored.attachments?.map((a): EmailAttachment => ({
+      filename: a.filename,
+      contentType: a.contentType,
+      content: a.base64 ? Buffer.from(a.content, "base64") : a.content,
+    })),
+  };
+}
+
+/** The job payload for a message: encrypted if a key is configured. */
+export function sealEmail(message: OutgoingEmail): JobPayload {
+  const json = JSON.stringify(toStored(message));
+  if (!process.env.EMAIL_ENCRYPTION_KEY) return { message: JSON.parse(json) };
+  return { sealed: encrypt(json) };
+}
+
+/** The message in a job payload written by sealEmail. */
+export function openEmail(payload: JobPayload): OutgoingEmail {
+  const stored = payload.sealed
+    ? JSON.parse(decrypt(payload.sealed as EncryptedValue))
+    : payload.message;
+  return fromStored(stored as StoredEmail);
+}
+
+/** Stores a message for the job worker to send, and wakes the worker. */
+export async function queueEmail(pool: Pool, message: OutgoingEmail): Promise<void> {
+  await enqueueJob(pool, { kind: EMAIL_JOB, runAt: new Date(), payload: sealEmail(message) });
+  wakeJobWorker();
+}
+
+// "ada@example.com" -> "a***@example.com"
+function maskAddress(address: string): string {
+  const at = address.lastIndexOf("@");
+  return at > 0 ? `${address[0]}***${address.slice(at)}` : "***";
+}
+
+/** How many emails are waiting to be sent and how many have failed for good. */
+export async function getOutboxCounts(pool: Pool): Promise<{ pending: number; failed: number }> {
+  const { rows } = await pool.query(
+    `SELECT COUNT(*) FILTER (WHERE completed_at IS NULL AND failed_at IS NULL)::int AS pending,
+            COUNT(*) FILTER (WHERE failed_at IS NOT NULL)::int AS failed
+     FROM jobs WHERE kind = $1`,
+    [EMAIL_JOB]
+  );
+  return { pending: rows[0]?.pending ?? 0, failed: rows[0]?.failed ?? 0 };
+}
+
+/** The most recent emails that failed every attempt, newest first. */
+export async function listDeadLetters(pool: Pool): Promise<DeadLetter[]> {
+  const { rows } = await pool.query(
+    `SELECT id, payload, attempts, last_error, failed_at
+     FROM jobs
+     WHERE kind = $1 AND failed_at IS NOT NULL
+     ORDER BY failed_at DESC
+     LIMIT $2`,
+    [EMAIL_JOB, DEAD_LETTER_LIMIT]
+  );
+
+  return rows.map((row) => {
+    let to = "***";
+    let subject = "(unreadable)";
+    try {
+      const message = openEmail(row.payload);
+      to = maskAddress(message.to);
+      subject = message.subject;
+    } catch {
+      // Sealed with a key that has since changed
+    }
+    return {
+      id: row.id,
+      to,
+      subject,
+      attempts: row.attempts,
+      lastError: row.last_error,
+      failedAt: new Date(row.failed_at).toISOString(),
+    };
+  });
+}
+
+/** Puts a dead letter back in the queue. Returns false if there is no such failed email. */
+export async function retryDeadLetter(pool: Pool, id: string): Promise<boolean> {
+  const { rowCount } = await pool.query(
+    `UPDATE jobs
+     SET failed_at = NULL, attempts = 0, run_at = NOW(), last_error = NULL
+     WHERE id = $1 AND kind = $2 AND failed_at IS NOT NULL`,
+    [id, EMAIL_JOB]
+  );
+  if (!rowCount) return false;
+  wakeJobWorker();
+  return true;
+}
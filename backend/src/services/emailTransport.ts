@@ -0,0 +1,278 @@
+/**
+ * Email transports.
+ *
+ * services/email.ts composes messages; a transport delivers them. The
+ * transport is chosen once at startup from EMAIL_TRANSPORT:
+ *
+ *   mailgun  Mailgun HTTP API (MAILGUN_API_KEY, MAILGUN_DOMAIN, MAILGUN_API_BASE)
+ *   smtp     Any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS)
+ *   file     Writes each message as an .eml file to EMAIL_FILE_DIR
+ *   console  Logs each message (the development default)
+ *
+ * The sender address comes from EMAIL_FROM, falling back to
+ * MAILGUN_FROM_EMAIL. When EMAIL_TRANSPORT is unset, Mailgun is used if it is
+ * fully configured, otherwise the console transport.
+ */
+
+import axios from "axios";
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import nodemailer, { Transporter } from "nodemailer";
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: string | Buffer;
+}
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: OutgoingEmail): Promise<void>;
+}
+
+function toNodemailerAttachments(attachments: EmailAttachment[] = []) {
+  return attachments.map((a) => ({
+    filename: a.filename,
+    contentType: a.contentType,
+    content: a.content
+  }));
+}
+
+// ── Mailgun ───────────────────────────────────────────────────────
+
+export interface MailgunConfig {
+  apiKey: string;
+  domain: string;
+  from: string;
+  apiBase: string;
+}
+
+export class MailgunTransport implements EmailTransport {
+  readonly name = "mailgun";
+
+  constructor(private readonly config: MailgunConfig) {}
+
+  async send(message: OutgoingEmail): Promise<void> {
+    const { apiKey, domain, from, apiBase } = this.config;
+    const auth = Buffer.from(`api:${apiKey}`).toString("base64");
+    const fields: [string, string][] = [
+      ["from", from],
+      ["to", message.to],
+      ["subject", message.subject],
+      ["text", message.text],
+      ["html", message.html]
+    ];
+    const attachments = message.attachments ?? [];
+
+    // Attachments need multipart; plain messages keep the simpler urlencoded body
+    let form: URLSearchParams | FormData;
+    if (attachments.length > 0) {
+      const multipart = new FormData();
+      for (const [name, value] of fields) multipart.append(name, value);
+      for (const a of attachments) {
+        const data = typeof a.content === "string" ? a.content : new Uint8Array(a.content);
+        multipart.append(
+          "attachment",
+          new Blob([data], { type: a.contentType }),
+          a.filename
+        );
+      }
+      form = multipart;
+    } else {
+      form = new URLSearchParams(fields);
+    }
+
+    const url = `${apiBase}/v3/${domain}/messages`;
+
+    try {
+      await axios.post(url, form, {
+        headers: {
+          Authorization: `Basic ${auth}`,
+          // axios sets the multipart boundary itself
+          ...(form instanceof URLSearchParams
+            ? { "Content-Type": "application/x-www-form-urlencoded" }
+            : {})
+        },
+        timeout: 10000
+      });
+    } catch (err: unknown) {
+      const detail =
+        axios.isAxiosError(err)
+          ? err.response?.data?.message || err.message
+          : String(err);
+      // eslint-disable-next-line no-console
+      console.error(`[email] Mailgun error: ${detail}`);
+      throw new Error(`Email send failed: ${detail}`);
+    }
+  }
+}
+
+// ── SMTP ──────────────────────────────────────────────────────────
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS (usually port 465); otherwise STARTTLS when offered
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+export class SmtpTransport implements EmailTransport {
+  readonly name = "smtp";
+  private readonly transporter: Transporter;
+
+  constructor(private readonly config: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.pass } : undefined,
+      connectionTimeout: 10000,
+      greetingTimeout: 10000,
+      socketTimeout: 10000
+    });
+  }
+
+  async send(message: OutgoingEmail): Promise<void> {
+    try {
+      await this.transporter.sendMail({
+        from: this.config.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        attachments: toNodemailerAttachments(message.attachments)
+      });
+    } catch (err: unknown) {
+      const detail = err instanceof Error ? err.message : String(err);
+      // eslint-disable-next-line no-console
+      console.error(`[email] SMTP error: ${detail}`);
+      throw new Error(`Email send failed: ${detail}`);
+    }
+  }
+}
+
+// ── File ──────────────────────────────────────────────────────────
+
+/**
+ * Writes each message as a complete RFC 822 .eml file, which any mail client
+ * can open. Useful for local development and for inspecting mail in tests.
+ */
+export class FileTransport implements EmailTransport {
+  readonly name = "file";
+  private readonly composer: Transporter;
+
+  constructor(
+    private readonly dir: string,
+    private readonly from: string
+  ) {
+    this.composer = nodemailer.createTransport({ streamTransport: true, buffer: true });
+  }
+
+  async send(message: OutgoingEmail): Promise<void> {
+    const info = await this.composer.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      attachments: toNodemailerAttachments(message.attachments)
+    });
+
+    await fs.mkdir(this.dir, { recursive: true });
+    // Timestamp first so a directory listing is in send order
+    const filename = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID().slice(0, 8)}.eml`;
+    await fs.writeFile(path.join(this.dir, filename), info.message as Buffer);
+  }
+}
+
+// ── Console ───────────────────────────────────────────────────────
+
+export class ConsoleTransport implements EmailTransport {
+  readonly name = "console";
+
+  async send(message: OutgoingEmail): Promise<void> {
+    const attachments = (message.attachments ?? []).map((a) => a.filename);
+    // eslint-disable-next-line no-console
+    console.log(
+      [
+        `[email stub] To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        ...(attachments.length > 0 ? [`Attachments: ${attachments.join(", ")}`] : []),
+        "",
+        message.text
+      ].join("\n")
+    );
+  }
+}
+
+// ── Selection ─────────────────────────────────────────────────────
+
+/**
+ * Builds the transport described by the environment. Throws on an unknown
+ * EMAIL_TRANSPORT or missing required settings so misconfiguration fails at
+ * startup rather than on the first booking.
+ */
+export function createEmailTransport(env: NodeJS.ProcessEnv = process.env): EmailTransport {
+  const from = env.EMAIL_FROM || env.MAILGUN_FROM_EMAIL;
+  const mailgunReady = !!(env.MAILGUN_API_KEY && env.MAILGUN_DOMAIN && from);
+  const kind = (env.EMAIL_TRANSPORT || (mailgunReady ? "mailgun" : "console")).toLowerCase();
+
+  switch (kind) {
+    case "mailgun":
+      if (!mailgunReady) {
+        throw new Error(
+          "EMAIL_TRANSPORT=mailgun requires MAILGUN_API_KEY, MAILGUN_DOMAIN and EMAIL_FROM (or MAILGUN_FROM_EMAIL)."
+        );
+      }
+      return new MailgunTransport({
+        apiKey: env.MAILGUN_API_KEY!,
+        domain: env.MAILGUN_DOMAIN!,
+        from: from!,
+        apiBase: env.MAILGUN_API_BASE || "https://api.eu.mailgun.net"
+      });
+
+    case "smtp": {
+      if (!env.SMTP_HOST || !from) {
+        throw new Error("EMAIL_TRANSPORT=smtp requires SMTP_HOST and EMAIL_FROM.");
+      }
+      const secure = env.SMTP_SECURE === "true";
+      const port = env.SMTP_PORT ? Number(env.SMTP_PORT) : secure ? 465 : 587;
+      if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+        throw new Error(`Invalid SMTP_PORT: ${env.SMTP_PORT}`);
+      }
+      return new SmtpTransport({
+        host: env.SMTP_HOST,
+        port,
+        secure,
+        user: env.SMTP_USER || undefined,
+        pass: env.SMTP_PASS || undefined,
+        from
+      });
+    }
+
+    case "file":
+      return new FileTransport(
+        path.resolve(env.EMAIL_FILE_DIR || "mail-out"),
+        from || "CalAnywhere <no-reply@localhost>"
+      );
+
+    case "console":
+      return new ConsoleTransport();
+
+    default:
+      throw new Error(
+        `Unknown EMAIL_TRANSPORT "${env.EMAIL_TRANSPORT}". Use mailgun, smtp, file or console.`
+      );
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Per-page settings for embedding the booking page on other websites.
+ *
+ * Embedding is off unless the owner opts in. The widget is served from
+ * /embed/:slug, and the web server asks GET /api/pages/:slug/embed-policy
+ * which sites may frame it; the answer is a Content-Security-Policy
+ * frame-ancestors directive. An opted-in page with no origins listed can be
+ * embedded anywhere.
+ */
+
+export interface EmbedSettings {
+  enabled: boolean;
+  origins: string[]; // e.g. "https://www.example.com"; empty = any site
+}
+
+export const MAX_EMBED_ORIGINS = 10;
+
+const LOCAL_HOSTS = new Set(["localhost", "127.0.0.1", "[::1]"]);
+
+/**
+ * Reduces a site address to its origin ("https://example.com/book" becomes
+ * "https://example.com"). Only https is accepted, except for local testing.
+ */
+export function normalizeEmbedOrigin(raw: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return null;
+  }
+  if (url.username || url.password) return null;
+  if (url.protocol === "https:") return url.origin;
+  if (url.protocol === "http:" && LOCAL_HOSTS.has(url.hostname)) return url.origin;
+  return null;
+}
+
+/**
+ * Validates a change to a page's embed settings from a request; either field
+ * may be left out. Origins are normalised and deduplicated.
+ */
+export function parseEmbedSettings(
+  raw: unknown
+): { embed: Partial<EmbedSettings> } | { error: string } {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { error: "embed must be an object." };
+  }
+  const { enabled, origins } = raw as Record<string, unknown>;
+
+  if (enabled !== undefined && typeof enabled !== "boolean") {
+    return { error: "embed.enabled must be true or false." };
+  }
+
+  const embed: Partial<EmbedSettings> = {};
+  if (enabled !== undefined) embed.enabled = enabled;
+
+  if (origins !== undefined) {
+    if (!Array.isArray(origins) || origins.some((o) => typeof o !== "string")) {
+      return { error: "embed.origins must be a list of website addresses." };
+    }
+    const entries = (origins as string[]).filter((o) => o.trim().length > 0);
+    const parsed = entries.map(normalizeEmbedOrigin);
+    const invalid = entries.find((_, i) => parsed[i] === null);
+    if (invalid !== undefined) {
+      return { error: `"${invalid}" is not a valid https website address.` };
+    }
+    embed.origins = Array.from(new Set(parsed as string[]));
+    if (embed.origins.length > MAX_EMBED_ORIGINS) {
+      return { error: `You can list up to ${MAX_EMBED_ORIGINS} websites.` };
+    }
+  }
+
+  return { embed };
+}
+
+/** The Content-Security-Policy for the page's widget. */
+export function frameAncestorsPolicy(embed: EmbedSettings | undefined): string {
+  if (!embed?.enabled) return "frame-ancestors 'none'";
+  if (embed.origins.length === 0) return "frame-ancestors *";
+  return `frame-ancestors ${embed.origins.join(" ")}`;
+}
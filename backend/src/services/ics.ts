@@ -0,0 +1,128 @@
+/**
+ * iCalendar (RFC 5545) invitation generator.
+ *
+ * Produces a single-VEVENT VCALENDAR with an iTIP method (RFC 5546) so mail
+ * clients such as Proton, Fastmail and Google offer to add, update or remove
+ * the event. Times are always written in UTC, which every client accepts
+ * without needing a VTIMEZONE block.
+ */
+
+export interface IcsPerson {
+  name: string;
+  email: string;
+}
+
+export type IcsMethod = "REQUEST" | "CANCEL";
+
+export interface IcsEventInput {
+  uid: string; // stable across updates, e.g. "<booking id>@calanywhere"
+  startIso: string;
+  endIso: string;
+  summary: string;
+  description?: string;
+  organizer: IcsPerson;
+  attendees: IcsPerson[];
+  method?: IcsMethod; // default REQUEST
+  sequence?: number; // bump on every change to the same UID
+  stamp?: Date; // DTSTAMP, defaults to now
+}
+
+const PRODID = "-//CalAnywhere//CalAnywhere//EN";
+const MAX_LINE_OCTETS = 75;
+
+/** Format an instant as an RFC 5545 UTC date-time, e.g. 20260302T090000Z. */
+function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Escape a TEXT property value. */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+/**
+ * Quote a parameter value (such as CN) when it contains characters that are
+ * special in parameter lists. Double quotes cannot be escaped, so drop them.
+ */
+function paramValue(value: string): string {
+  const clean = value.replace(/["\r\n]/g, "");
+  return /[;:,]/.test(clean) ? `"${clean}"` : clean;
+}
+
+/**
+ * Fold a content line to at most 75 octets per physical line, continuing with
+ * a leading space. Splits on character boundaries so multi-byte UTF-8
+ * sequences are never broken.
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, "utf8") <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  // Continuation lines lose one octet to the leading space
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    const octets = Buffer.byteLength(char, "utf8");
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+function personLine(property: "ORGANIZER" | "ATTENDEE", person: IcsPerson, params: string[] = []): string {
+  return [
+    property,
+    `;CN=${paramValue(person.name)}`,
+    ...params.map((p) => `;${p}`),
+    `:mailto:${person.email}`
+  ].join("");
+}
+
+/**
+ * Build a VCALENDAR document for one event. Lines are CRLF-terminated and
+ * folded, ready to attach as text/calendar.
+ */
+export function buildIcsEvent(input: IcsEventInput): string {
+  const method = input.method ?? "REQUEST";
+  const isCancel = method === "CANCEL";
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    `METHOD:${method}`,
+    "BEGIN:VEVENT",
+    `UID:${input.uid}`,
+    `DTSTAMP:${formatIcsDate(input.stamp ?? new Date())}`,
+    `DTSTART:${formatIcsDate(new Date(input.startIso))}`,
+    `DTEND:${formatIcsDate(new Date(input.endIso))}`,
+    `SEQUENCE:${input.sequence ?? 0}`,
+    `STATUS:${isCancel ? "CANCELLED" : "CONFIRMED"}`,
+    `SUMMARY:${escapeText(input.summary)}`,
+    ...(input.description ? [`DESCRIPTION:${escapeText(input.description)}`] : []),
+    personLine("ORGANIZER", input.organizer),
+    ...input.attendees.map((a) =>
+      personLine("ATTENDEE", a, ["ROLE=REQ-PARTICIPANT", "PARTSTAT=ACCEPTED", "RSVP=FALSE"])
+    ),
+    "TRANSP:OPAQUE",
+    "END:VEVENT",
+    "END:VCALENDAR"
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,198 @@
+/**
+ * Intake questions.
+ *
+ * Owners can ask requesters a few questions of their own on the booking form,
+ * after the fixed name, email, reason and notes fields: short or long text,
+ * a phone number, or a choice from a list. Answers are stored with the
+ * request and the booking, each with the question's label copied so it still
+ * reads correctly after the question is changed or removed.
+ */
+
+import { randomUUID } from "crypto";
+
+export const INTAKE_QUESTION_TYPES = [
+  "short_text",
+  "long_text",
+  "single_choice",
+  "multiple_choice",
+  "phone"
+] as const;
+
+export type IntakeQuestionType = (typeof INTAKE_QUESTION_TYPES)[number];
+
+export interface IntakeQuestion {
+  id: string;
+  label: string;
+  type: IntakeQuestionType;
+  required: boolean;
+  options?: string[]; // choice questions only
+}
+
+export interface IntakeAnswer {
+  questionId: string;
+  label: string; // as it was when answered
+  answer: string | string[]; // several for multiple choice
+}
+
+export const MAX_INTAKE_QUESTIONS = 10;
+export const MAX_QUESTION_LABEL_LENGTH = 200;
+export const MAX_QUESTION_OPTIONS = 10;
+export const MAX_OPTION_LENGTH = 100;
+export const MAX_SHORT_ANSWER_LENGTH = 200;
+export const MAX_LONG_ANSWER_LENGTH = 2000;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// Digits with the usual separators and an optional leading "+"
+const PHONE_RE = /^\+?[0-9\s().-]+$/;
+const MIN_PHONE_DIGITS = 6;
+const MAX_PHONE_DIGITS = 15;
+
+function isChoice(type: IntakeQuestionType): boolean {
+  return type === "single_choice" || type === "multiple_choice";
+}
+
+function isIntakeQuestionType(value: unknown): value is IntakeQuestionType {
+  return typeof value === "string" && (INTAKE_QUESTION_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Validates a page's list of questions from a request. Questions keep their
+ * id when one is sent, so answers can be matched to them after an edit; new
+ * questions are given one.
+ */
+export function parseIntakeQuestions(
+  raw: unknown
+): { questions: IntakeQuestion[] } | { error: string } {
+  if (!Array.isArray(raw)) {
+    return { error: "Intake questions must be a list." };
+  }
+  if (raw.length > MAX_INTAKE_QUESTIONS) {
+    return { error: `You can ask up to ${MAX_INTAKE_QUESTIONS} questions.` };
+  }
+
+  const questions: IntakeQuestion[] = [];
+  for (const [index, item] of raw.entries()) {
+    const { id, label, type, required, options } = (item ?? {}) as Record<string, unknown>;
+    const n = index + 1;
+
+    const trimmedLabel = typeof label === "string" ? label.trim() : "";
+    if (trimmedLabel.length === 0) {
+      return { error: `Question ${n} needs a label.` };
+    }
+    if (trimmedLabel.length > MAX_QUESTION_LABEL_LENGTH) {
+      return { error: `Question ${n} must not exceed ${MAX_QUESTION_LABEL_LENGTH} characters.` };
+    }
+    if (!isIntakeQuestionType(type)) {
+      return { error: `Question ${n} has an unknown type.` };
+    }
+    if (required !== undefined && typeof required !== "boolean") {
+      return { error: `Question ${n}: "required" must be true or false.` };
+    }
+
+    const question: IntakeQuestion = {
+      id: typeof id === "string" && UUID_RE.test(id) ? id : randomUUID(),
+      label: trimmedLabel,
+      type,
+      required: required ?? false
+    };
+
+    if (isChoice(type)) {
+      if (!Array.isArray(options) || options.some((o) => typeof o !== "string")) {
+        return { error: `Question ${n} needs a list of options.` };
+      }
+      const trimmed = Array.from(
+        new Set((options as string[]).map((o) => o.trim()).filter((o) => o.length > 0))
+      );
+      if (trimmed.length < 2) {
+        return { error: `Question ${n} needs at least two options.` };
+      }
+      if (trimmed.length > MAX_QUESTION_OPTIONS) {
+        return { error: `Question ${n} can have up to ${MAX_QUESTION_OPTIONS} options.` };
+      }
+      if (trimmed.some((o) => o.length > MAX_OPTION_LENGTH)) {
+        return { error: `Options must not exceed ${MAX_OPTION_LENGTH} characters.` };
+      }
+      question.options = trimmed;
+    }
+
+    if (questions.some((q) => q.id === question.id)) {
+      question.id = randomUUID();
+    }
+    questions.push(question);
+  }
+
+  return { questions };
+}
+
+/**
+ * Validates a requester's answers, sent as an object keyed by question id,
+ * against the page's questions. Answers to questions the page does not ask
+ * are ignored, and blank optional answers are left out.
+ */
+export function parseIntakeAnswers(
+  questions: IntakeQuestion[],
+  raw: unknown
+): { answers: IntakeAnswer[] } | { error: string } {
+  if (raw !== undefined && raw !== null && (typeof raw !== "object" || Array.isArray(raw))) {
+    return { error: "Answers must be an object keyed by question." };
+  }
+  const given = (raw ?? {}) as Record<string, unknown>;
+
+  const answers: IntakeAnswer[] = [];
+  for (const question of questions) {
+    const value = given[question.id];
+    const label = question.label;
+
+    if (question.type === "multiple_choice") {
+      if (value !== undefined && (!Array.isArray(value) || value.some((v) => typeof v !== "string"))) {
+        return { error: `Please choose from the options for "${label}".` };
+      }
+      const chosen = Array.from(new Set((value as string[] | undefined) ?? []));
+      if (chosen.some((c) => !question.options?.includes(c))) {
+        return { error: `Please choose from the options for "${label}".` };
+      }
+      if (chosen.length === 0) {
+        if (question.required) return { error: `Please answer "${label}".` };
+        continue;
+      }
+      // Keep the owner's order rather than the order they were ticked
+      const ordered = question.options!.filter((o) => chosen.includes(o));
+      answers.push({ questionId: question.id, label, answer: ordered });
+      continue;
+    }
+
+    if (value !== undefined && value !== null && typeof value !== "string") {
+      return { error: `Please answer "${label}" with text.` };
+    }
+    const text = typeof value === "string" ? value.trim() : "";
+    if (text.length === 0) {
+      if (question.required) return { error: `Please answer "${label}".` };
+      continue;
+    }
+
+    if (question.type === "single_choice" && !question.options?.includes(text)) {
+      return { error: `Please choose one of the options for "${label}".` };
+    }
+    if (question.type === "short_text" && text.length > MAX_SHORT_ANSWER_LENGTH) {
+      return { error: `"${label}" must not exceed ${MAX_SHORT_ANSWER_LENGTH} characters.` };
+    }
+    if (question.type === "long_text" && text.length > MAX_LONG_ANSWER_LENGTH) {
+      return { error: `"${label}" must not exceed ${MAX_LONG_ANSWER_LENGTH} characters.` };
+    }
+    if (question.type === "phone") {
+      const digits = text.replace(/\D/g, "").length;
+      if (!PHONE_RE.test(text) || digits < MIN_PHONE_DIGITS || digits > MAX_PHONE_DIGITS) {
+        return { error: `Please enter a valid phone number for "${label}".` };
+      }
+    }
+
+    answers.push({ questionId: question.id, label, answer: text });
+  }
+
+  return { answers };
+}
+
+/** An answer as one line of text, for emails. */
+export function formatIntakeAnswer(answer: IntakeAnswer): string {
+  return Array.isArray(answer.answer) ? answer.answer.join(", ") : answer.answer;
+}
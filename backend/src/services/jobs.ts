@@ -0,0 +1,158 @@
+/**
+ * Persistent background jobs.
+ *
+ * A job is a row in the `jobs` table with a kind, a JSON payload and a time
+ * to run. Workers on any number of instances poll for due jobs and claim
+ * them with FOR UPDATE SKIP LOCKED, so each job is picked up once; a claim
+ * lapses after CLAIM_MINUTES, so a job whose worker died is run again. A
+ * failing job is retried with backoff and marked failed after
+ * MAX_JOB_ATTEMPTS.
+ *
+ * Because a worker can die after doing the work but before recording it,
+ * handlers must be safe to run twice.
+ */
+
+import type { Pool, PoolClient } from "pg";
+
+export type JobPayload = Record<string, unknown>;
+export type JobHandler = (payload: JobPayload) => Promise<void>;
+
+export interface NewJob {
+  kind: string;
+  runAt: Date;
+  payload?: JobPayload;
+  /** Enqueuing a second job with the same key does nothing. */
+  dedupeKey?: string;
+}
+
+export const MAX_JOB_ATTEMPTS = 5;
+
+const BATCH_SIZE = 10;
+const CLAIM_MINUTES = 5;
+const POLL_INTERVAL_MS = 30 * 1000;
+
+// Polls the running worker straight away; a no-op until one is started
+let wake: () => void = () => {};
+
+/** Delay before the next try after a job's nth failed attempt: 1, 4, 16, 64 minutes. */
+export function retryDelayMs(attempts: number): number {
+  return 4 ** (attempts - 1) * 60 * 1000;
+}
+
+/** Adds a job. Returns false if one with the same dedupe key already exists. */
+export async function enqueueJob(db: Pool | PoolClient, job: NewJob): Promise<boolean> {
+  const { rowCount } = await db.query(
+    `INSERT INTO jobs (kind, payload, run_at, dedupe_key)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (dedupe_key) DO NOTHING`,
+    [job.kind, JSON.stringify(job.payload ?? {}), job.runAt.toISOString(), job.dedupeKey ?? null]
+  );
+  return (rowCount ?? 0) > 0;
+}
+
+/**
+ * Claims and runs one batch of due jobs. Returns how many were claimed, so
+ * callers can keep going while full batches come back.
+ */
+export async function runDueJobs(
+  pool: Pool,
+  handlers: Record<string, JobHandler>
+): Promise<number> {
+  const { rows } = await pool.query(
+    `UPDATE jobs
+     SET attempts = attempts + 1, locked_until = NOW() + make_interval(mins => $2)
+     WHERE id IN (
+       SELECT id FROM jobs
+       WHERE completed_at IS NULL AND failed_at IS NULL AND run_at <= NOW()
+         AND (locked_until IS NULL OR locked_until < NOW())
+       ORDER BY run_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, kind, payload, attempts`,
+    [BATCH_SIZE, CLAIM_MINUTES]
+  );
+
+  for (const job of rows) {
+    try {
+      const handler = handlers[job.kind];
+      if (!handler) throw new Error(`No handler for job kind "${job.kind}".`);
+      await handler(job.payload ?? {});
+      await pool.query(
+        "UPDATE jobs SET completed_at = NOW(), locked_until = NULL, last_error = NULL WHERE id = $1",
+        [job.id]
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      if (job.attempts >= MAX_JOB_ATTEMPTS) {
+        await pool.query(
+          "UPDATE jobs SET failed_at = NOW(), locked_until = NULL, last_error = $2 WHERE id = $1",
+          [job.id, message]
+        );
+      } else {
+        await pool.query(
+          "UPDATE jobs SET run_at = $2, locked_until = NULL, last_error = $3 WHERE id = $1",
+          [job.id, new Date(Date.now() + retryDelayMs(job.attempts)).toISOString(), message]
+        );
+      }
+    }
+  }
+
+  return rows.length;
+}
+
+/**
+ * Polls for due jobs until the returned function is called. A poll is
+ * skipped while the previous one is still running, but one asked for
+ * meanwhile (by wakeJobWorker) runs as soon as it finishes.
+ */
+export function startJobWorker(
+  pool: Pool,
+  handlers: Record<string, JobHandler>,
+  intervalMs = POLL_INTERVAL_MS
+): () => void {
+  let running = false;
+  let pollAgain = false;
+
+  const poll = async () => {
+    if (running) {
+      pollAgain = true;
+      return;
+    }
+    running = true;
+    try {
+      let claimed: number;
+      do {
+        pollAgain = false;
+        claimed = await runDueJobs(pool, handlers);
+      } while (claimed === BATCH_SIZE || pollAgain);
+    } catch (err) {
+      // eslint-disable-next-line no-console
+      console.error("Job worker failed:", err);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(() => { void poll(); }, intervalMs);
+  wake = () => { void poll(); };
+  void poll();
+  return () => {
+    clearInterval(timer);
+    wake = () => {};
+  };
+}
+
+/** Runs due jobs now rather than at the next poll, e.g. just after enqueuing one. */
+export function wakeJobWorker(): void {
+  wake();
+}
+
+/** Deletes jobs finished a week ago, and failed ones after a month. */
+export async function purgeFinishedJobs(pool: Pool): Promise<void> {
+  await pool.query(
+    `DELETE FROM jobs
+     WHERE completed_at < NOW() - INTERVAL '7 days'
+        OR failed_at < NOW() - INTERVAL '30 days'`
+  );
+}
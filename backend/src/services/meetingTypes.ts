@@ -0,0 +1,100 @@
+/**
+ * Meeting types.
+ *
+ * A page may offer several kinds of meeting, e.g. a 15-minute chat and a
+ * 60-minute workshop. Each has its own duration and buffers, and can have its
+ * own weekly hours; without them it follows the page's schedule. Date
+ * overrides apply to every type. A page with no meeting types books its
+ * default duration.
+ */
+
+import { parseWeeklyAvailability, WeeklyAvailability } from "./weeklyAvailability";
+
+export interface MeetingType {
+  id: string;
+  name: string;
+  description?: string;
+  durationMinutes: number;
+  bufferMinutes: number; // after the meeting
+  bufferBeforeMinutes: number;
+  weeklyAvailability?: WeeklyAvailability; // undefined = the page's hours
+}
+
+export const MAX_MEETING_TYPES = 10;
+export const MAX_MEETING_TYPE_NAME_LENGTH = 100;
+export const MAX_MEETING_TYPE_DESCRIPTION_LENGTH = 500;
+export const MAX_MEETING_DURATION_MINUTES = 8 * 60;
+export const MAX_MEETING_BUFFER_MINUTES = 4 * 60;
+
+function isWholeMinutes(value: unknown, min: number, max: number): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Validates a meeting type from a request. A missing or null
+ * `weeklyAvailability` means the type uses the page's hours.
+ */
+export function parseMeetingType(
+  raw: unknown
+): { meetingType: Omit<MeetingType, "id"> } | { error: string } {
+  const {
+    name,
+    description,
+    durationMinutes,
+    bufferMinutes,
+    bufferBeforeMinutes,
+    weeklyAvailability
+  } = (raw ?? {}) as Record<string, unknown>;
+
+  const trimmedName = typeof name === "string" ? name.trim() : "";
+  if (trimmedName.length === 0) {
+    return { error: "Give the meeting type a name." };
+  }
+  if (trimmedName.length > MAX_MEETING_TYPE_NAME_LENGTH) {
+    return { error: `The name must not exceed ${MAX_MEETING_TYPE_NAME_LENGTH} characters.` };
+  }
+
+  if (description !== undefined && description !== null && typeof description !== "string") {
+    return { error: "The description must be text." };
+  }
+  const trimmedDescription = typeof description === "string" ? description.trim() : "";
+  if (trimmedDescription.length > MAX_MEETING_TYPE_DESCRIPTION_LENGTH) {
+    return {
+      error: `The description must not exceed ${MAX_MEETING_TYPE_DESCRIPTION_LENGTH} characters.`
+    };
+  }
+
+  if (!isWholeMinutes(durationMinutes, 5, MAX_MEETING_DURATION_MINUTES)) {
+    return {
+      error: `Duration must be a whole number of minutes from 5 to ${MAX_MEETING_DURATION_MINUTES}.`
+    };
+  }
+  const buffer = bufferMinutes ?? 0;
+  const bufferBefore = bufferBeforeMinutes ?? 0;
+  if (
+    !isWholeMinutes(buffer, 0, MAX_MEETING_BUFFER_MINUTES) ||
+    !isWholeMinutes(bufferBefore, 0, MAX_MEETING_BUFFER_MINUTES)
+  ) {
+    return {
+      error: `Buffers must be a whole number of minutes from 0 to ${MAX_MEETING_BUFFER_MINUTES}.`
+    };
+  }
+
+  let weekly: WeeklyAvailability | undefined;
+  if (weeklyAvailability !== undefined && weeklyAvailability !== null) {
+    const parsed = parseWeeklyAvailability(weeklyAvailability);
+    if ("error" in parsed) return { error: parsed.error };
+    weekly = parsed.ranges;
+  }
+
+  return {
+    meetingType: {
+      name: trimmedName,
+      description: trimmedDescription || undefined,
+      durationMinutes,
+      bufferMinutes: buffer,
+      bufferBeforeMinutes: bufferBefore,
+      weeklyAvailability: weekly
+    }
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * Reminder emails before accepted appointments.
+ *
+ * Each page lists how long before an appointment its reminders go out (for
+ * example a day and an hour before). Accepting a booking enqueues one job
+ * per offset. A job re-reads the booking when it runs and sends nothing if
+ * the booking is no longer accepted, has moved to another time, or the
+ * page no longer uses that offset, so nothing needs unscheduling.
+ *
+ * Both the requester and the owner (at the page's notification address)
+ * are reminded. Each send is recorded per booking, start time, offset and
+ * recipient before the email goes out, so a job that is retried or picked
+ * up by a second instance emails nobody twice.
+ */
+
+import type { Pool } from "pg";
+import { enqueueJob, JobPayload } from "./jobs";
+import { sendReminderEmail } from "./email";
+import { decrypt } from "../utils/encryption";
+import { manageUrl } from "../utils/manageToken";
+import { timeFormatFromColumns } from "../utils/timeFormat";
+import { languageFromColumn } from "../i18n";
+
+export const REMINDER_JOB = "booking_reminder";
+export const MAX_REMINDERS = 3;
+export const MIN_REMINDER_OFFSET_MINUTES = 5;
+export const MAX_REMINDER_OFFSET_MINUTES = 7 * 24 * 60;
+
+interface ReminderJobPayload {
+  bookingId: string;
+  startTime: string; // ISO; the reminder lapses if the booking moves
+  offsetMinutes: number;
+  baseUrl?: string; // public origin, for the requester's manage link
+}
+
+/**
+ * Validates a page's reminder offsets: up to MAX_REMINDERS whole numbers of
+ * minutes before the appointment. Returned without duplicates, earliest
+ * reminder first.
+ */
+export function parseReminderOffsets(raw: unknown): { offsets: number[] } | { error: string } {
+  if (!Array.isArray(raw)) {
+    return { error: "Reminders must be a list of minutes before the appointment." };
+  }
+  const offsets = [...new Set(raw)];
+  if (offsets.length > MAX_REMINDERS) {
+    return { error: `A page can send up to ${MAX_REMINDERS} reminders.` };
+  }
+  for (const offset of offsets) {
+    if (
+      typeof offset !== "number" ||
+      !Number.isInteger(offset) ||
+      offset < MIN_REMINDER_OFFSET_MINUTES ||
+      offset > MAX_REMINDER_OFFSET_MINUTES
+    ) {
+      return { error: "Reminders must be sent between 5 minutes and 7 days before the appointment." };
+    }
+  }
+  return { offsets: (offsets as number[]).sort((a, b) => b - a) };
+}
+
+/**
+ * Enqueues the reminders for an accepted booking, skipping any whose time
+ * has already passed. Safe to call again: existing reminders are kept.
+ */
+export async function scheduleBookingReminders(
+  pool: Pool,
+  bookingId: string,
+  baseUrl: string
+): Promise<void> {
+  const { rows } = await pool.query(
+    `SELECT b.start_time, sp.reminder_offsets_minutes
+     FROM bookings b
+     JOIN scheduling_pages sp ON sp.id = b.page_id
+     WHERE b.id = $1 AND b.status = 'accepted'`,
+    [bookingId]
+  );
+  if (rows.length === 0) return;
+
+  const startTime = new Date(rows[0].start_time).toISOString();
+  const offsets: number[] = rows[0].reminder_offsets_minutes ?? [];
+  for (const offsetMinutes of offsets) {
+    const runAt = new Date(new Date(startTime).getTime() - offsetMinutes * 60 * 1000);
+    if (runAt.getTime() <= Date.now()) continue;
+
+    const payload: ReminderJobPayload = { bookingId, startTime, offsetMinutes, baseUrl };
+    await enqueueJob(pool, {
+      kind: REMINDER_JOB,
+      runAt,
+      payload: { ...payload },
+      dedupeKey: `${REMINDER_JOB}:${bookingId}:${startTime}:${offsetMinutes}`,
+    });
+  }
+}
+
+/** Enqueues reminders for a page's upcoming accepted bookings, after its offsets change. */
+export async function schedulePageReminders(
+  pool: Pool,
+  pageId: string,
+  baseUrl: string
+): Promise<void> {
+  const { rows } = await pool.query(
+    `SELECT id FROM bookings
+     WHERE page_id = $1 AND status = 'accepted' AND start_time > NOW()`,
+    [pageId]
+  );
+  for (const row of rows) {
+    await scheduleBookingReminders(pool, row.id, baseUrl);
+  }
+}
+
+/** Runs a reminder job: emails whoever has not yet been reminded. */
+export async function sendBookingReminder(pool: Pool, raw: JobPayload): Promise<void> {
+  const payload = raw as unknown as ReminderJobPayload;
+  const { rows } = await pool.query(
+    `SELECT b.status, b.start_time, b.end_time, b.timezone, b.reason,
+            b.requester_name, b.requester_email, b.meeting_type_name,
+            b.locale, b.hour_cycle, b.language,
+            sp.slug, sp.owner_name, sp.owner_timezone, sp.reminder_offsets_minutes,
+            sp.notification_email_enc, sp.notification_email_iv, sp.notification_email_tag,
+            u.locale AS owner_locale, u.hour_cycle AS owner_hour_cycle,
+            u.language AS owner_language
+     FROM bookings b
+     JOIN scheduling_pages sp ON sp.id = b.page_id
+     LEFT JOIN users u ON u.id = sp.user_id
+     WHERE b.id = $1`,
+    [payload.bookingId]
+  );
+  const booking = rows[0];
+  if (
+    !booking ||
+    booking.status !== "accepted" ||
+    new Date(booking.start_time).toISOString() !== payload.startTime ||
+    !(booking.reminder_offsets_minutes ?? []).includes(payload.offsetMinutes) ||
+    new Date(booking.start_time).getTime() <= Date.now()
+  ) {
+    return;
+  }
+
+  let ownerEmail: string | undefined;
+  if (booking.notification_email_enc) {
+    try {
+      ownerEmail = decrypt({
+        ciphertext: booking.notification_email_enc,
+        iv: booking.notification_email_iv,
+        tag: booking.notification_email_tag,
+      });
+    } catch {
+      // Decryption failed — the requester is still reminded
+    }
+  }
+
+  const common = {
+    startIso: payload.startTime,
+    endIso: new Date(booking.end_time).toISOString(),
+    meetingTypeName: booking.meeting_type_name ?? undefined,
+  };
+  const reminders = [
+    {
+      recipient: "requester" as const,
+      to: booking.requester_email,
+      recipientName: booking.requester_name,
+      withName: booking.owner_name,
+      timezone: booking.timezone ?? undefined,
+      timeFormat: timeFormatFromColumns(booking.locale, booking.hour_cycle),
+      language: languageFromColumn(booking.language),
+      manageUrl: payload.baseUrl
+        ? manageUrl(payload.baseUrl, booking.slug, payload.bookingId)
+        : undefined,
+    },
+    ...(ownerEmail
+      ? [{
+          recipient: "owner" as const,
+          to: ownerEmail,
+          recipientName: booking.owner_name,
+          withName: booking.requester_name,
+          withEmail: booking.requester_email,
+          reason: booking.reason,
+          timezone: booking.owner_timezone ?? undefined,
+          timeFormat: timeFormatFromColumns(booking.owner_locale, booking.owner_hour_cycle),
+          language: languageFromColumn(booking.owner_language),
+        }]
+      : []),
+  ];
+
+  for (const reminder of reminders) {
+    // Record the send first; a conflict means it already went out
+    const { rowCount } = await pool.query(
+      `INSERT INTO booking_reminders_sent (booking_id, start_time, offset_minutes, recipient)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT DO NOTHING`,
+      [payload.bookingId, payload.startTime, payload.offsetMinutes, reminder.recipient]
+    );
+    if (rowCount === 0) continue;
+
+    try {
+      await sendReminderEmail({ ...reminder, ...common });
+    } catch (err) {
+      // Forget the send so the job's retry tries this recipient again
+      await pool.query(
+        `DELETE FROM booking_reminders_sent
+         WHERE booking_id = $1 AND start_time = $2 AND offset_minutes = $3 AND recipient = $4`,
+        [payload.bookingId, payload.startTime, payload.offsetMinutes, reminder.recipient]
+      );
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Wall-clock conversion for recurring events.
+ *
+ * A recurring event keeps its wall-clock time across DST changes, so a
+ * series has to be expanded in local time and each occurrence converted to
+ * an instant afterwards. node-ical does this itself for IANA and Windows
+ * zone names; these helpers cover the zones it cannot resolve, which feeds
+ * define with an embedded VTIMEZONE, and the manual rrule fallback.
+ *
+ * Wall-clock times are Dates whose UTC fields hold the local time.
+ */
+
+import { RRule } from "rrule";
+import { fromWallClock, toWallClock } from "../utils/timezone";
+
+export interface WallClockZone {
+  /** Wall-clock time of a date parsed by node-ical in this zone. */
+  toWallClock(date: Date): Date;
+  /** The instant a wall-clock time names. */
+  toInstant(wall: Date): Date;
+}
+
+/** A zone node-ical resolved to an IANA name, whose dates are real instants. */
+export function ianaZone(timezone: string): WallClockZone {
+  return {
+    toWallClock: (date) => toWallClock(date, timezone),
+    toInstant: (wall) => fromWallClock(wall, timezone)
+  };
+}
+
+interface Observance {
+  onset: Date; // wall clock, in the offset in force before it
+  rule?: RRule;
+  rdates: Date[];
+  offsetFromMs: number;
+  offsetToMs: number;
+}
+
+interface Transition {
+  at: Date; // wall clock
+  offsetMs: number;
+}
+
+/** Parses a UTC offset such as "+0100", "-0500" or "+053000". */
+function parseOffset(value: unknown): number | undefined {
+  const match = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(String(value ?? "").trim());
+  if (!match) return undefined;
+  const [, sign, hh, mm, ss] = match;
+  const ms = ((Number(hh) * 60 + Number(mm)) * 60 + Number(ss ?? 0)) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+/**
+ * node-ical reads the floating DTSTART of an observance, and any time in a
+ * TZID it cannot resolve, in the server's local zone; its local fields are
+ * the wall-clock time that was written.
+ */
+function floatingWallClock(date: Date): Date {
+  return new Date(Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds()
+  ));
+}
+
+function parseObservances(vtimezone: any): Observance[] {
+  const observances: Observance[] = [];
+
+  for (const child of Object.values(vtimezone ?? {})) {
+    const component: any = child;
+    if (component?.type !== "STANDARD" && component?.type !== "DAYLIGHT") continue;
+
+    const offsetToMs = parseOffset(component.tzoffsetto);
+    if (offsetToMs === undefined) continue;
+    const offsetFromMs = parseOffset(component.tzoffsetfrom) ?? offsetToMs;
+
+    const start = new Date(component.start);
+    if (isNaN(start.getTime())) continue;
+    const onset = floatingWallClock(start);
+
+    let rule: RRule | undefined;
+    if (typeof component.rrule === "string") {
+      try {
+        rule = new RRule({
+          ...RRule.parseString(component.rrule.replace(/^RRULE:/, "")),
+          dtstart: onset
+        });
+      } catch {
+        // An unreadable rule leaves just the first onset
+      }
+    }
+
+    const rdateValues = Array.isArray(component.rdate)
+      ? component.rdate
+      : component.rdate && typeof component.rdate === "object" && !(component.rdate instanceof Date)
+        ? Object.values(component.rdate)
+        : component.rdate ? [component.rdate] : [];
+    const rdates = rdateValues
+      .map((d: any) => new Date(d))
+      .filter((d: Date) => !isNaN(d.getTime()))
+      .map(floatingWallClock);
+
+    observances.push({ onset, rule, rdates, offsetFromMs, offsetToMs });
+  }
+
+  return observances;
+}
+
+/**
+ * A zone defined by an embedded VTIMEZONE. Returns undefined when the
+ * definition has no usable STANDARD or DAYLIGHT component.
+ */
+export function vtimezoneZone(vtimezone: any): WallClockZone | undefined {
+  const observances = parseObservances(vtimezone);
+  if (observances.length === 0) return undefined;
+
+  const earliest = observances.reduce((a, b) => (a.onset <= b.onset ? a : b));
+  const firstYear = earliest.onset.getUTCFullYear();
+  const byYear = new Map<number, Transition[]>();
+
+  // Transitions are computed a year at a time and kept, as every occurrence
+  // of every event in the zone needs one
+  const transitionsIn = (year: number): Transition[] => {
+    let transitions = byYear.get(year);
+    if (transitions) return transitions;
+
+    const from = new Date(Date.UTC(year, 0, 1));
+    const to = new Date(Date.UTC(year + 1, 0, 1));
+    transitions = [];
+    for (const o of observances) {
+      const onsets = [o.onset, ...o.rdates].filter((d) => d >= from && d < to);
+      if (o.rule) onsets.push(...o.rule.between(from, to, true));
+      for (const at of onsets) transitions.push({ at, offsetMs: o.offsetToMs });
+    }
+    transitions.sort((a, b) => a.at.getTime() - b.at.getTime());
+    byYear.set(year, transitions);
+    return transitions;
+  };
+
+  const offsetAt = (wall: Date): number => {
+    for (let year = wall.getUTCFullYear(); year >= firstYear; year--) {
+      const transitions = transitionsIn(year);
+      for (let i = transitions.length - 1; i >= 0; i--) {
+        if (transitions[i].at <= wall) return transitions[i].offsetMs;
+      }
+    }
+    return earliest.offsetFromMs;
+  };
+
+  return {
+    toWallClock: floatingWallClock,
+    toInstant: (wall) => new Date(wall.getTime() - offsetAt(wall))
+  };
+}
@@ -0,0 +1,293 @@
+/**
+ * Outgoing webhooks.
+ *
+ * An owner registers HTTPS endpoints for their account, or for one of their
+ * pages, and picks which booking events each receives. When an event
+ * happens a "webhook_delivery" job is queued per matching webhook, and the
+ * job worker POSTs the event as JSON, retrying with backoff (services/jobs.ts)
+ * until the endpoint answers with a 2xx status. Every attempt is logged in
+ * webhook_deliveries for the dashboard.
+ *
+ * Each request carries an X-CalAnywhere-Signature header of the form
+ * "t=<unix seconds>,v1=<hex>", where the hex is the HMAC-SHA256 of
+ * "<t>.<body>" keyed with the webhook's secret. Receivers should recompute
+ * it and reject old timestamps. Endpoints are checked with isSafeToFetch
+ * when saved and again before every attempt, and redirects are not
+ * followed, so a webhook cannot be pointed at the internal network.
+ */
+
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import axios from "axios";
+import type { Pool } from "pg";
+import { enqueueJob, JobPayload, wakeJobWorker } from "./jobs";
+import { isSafeToFetch } from "../auth/url-validation";
+import { decrypt, encrypt, EncryptedValue } from "../utils/encryption";
+
+export const WEBHOOK_JOB = "webhook_delivery";
+
+export const WEBHOOK_EVENTS = [
+  "request.created", // a requester confirmed their email and the request was recorded
+  "request.confirmed", // the owner accepted the request
+  "request.declined",
+  "booking.cancelled", // by the owner or the requester
+  "booking.rescheduled", // the requester moved it; it awaits the owner again
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export const MAX_WEBHOOKS = 5;
+export const MAX_WEBHOOK_URL_LENGTH = 2048;
+export const SIGNATURE_HEADER = "X-CalAnywhere-Signature";
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+const DELIVERY_LOG_LIMIT = 50;
+
+export interface Webhook {
+  id: string;
+  url: string;
+  pageId: string | null; // null = all the owner's pages
+  events: WebhookEvent[];
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  event: string;
+  attempt: number;
+  statusCode: number | null;
+  error: string | null;
+  durationMs: number | null;
+  createdAt: string;
+}
+
+interface DeliveryJobPayload {
+  webhookId: string;
+  eventId: string;
+  event: string;
+  body: EncryptedValue; // the exact JSON that is signed and sent
+}
+
+export function webhookFromRow(row: any): Webhook {
+  return {
+    id: row.id,
+    url: row.url,
+    pageId: row.page_id ?? null,
+    events: row.events,
+    isActive: row.is_active,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === "string" && (WEBHOOK_EVENTS as readonly string[]).includes(value);
+}
+
+/**
+ * Validates a webhook's endpoint and events from a request. Whether the
+ * endpoint resolves to a public address is checked separately, with
+ * isSafeToFetch.
+ */
+export function parseWebhook(
+  raw: unknown
+): { webhook: { url: string; events: WebhookEvent[] } } | { error: string } {
+  const { url, events } = (raw ?? {}) as Record<string, unknown>;
+
+  const trimmedUrl = typeof url === "string" ? url.trim() : "";
+  let parsed: URL | null = null;
+  try {
+    parsed = new URL(trimmedUrl);
+  } catch {
+    // Reported below
+  }
+  if (!parsed || parsed.protocol !== "https:" || trimmedUrl.length > MAX_WEBHOOK_URL_LENGTH) {
+    return { error: "Please provide a valid https:// URL for the webhook." };
+  }
+
+  if (!Array.isArray(events) || events.length === 0) {
+    return { error: "Choose at least one event for the webhook." };
+  }
+  if (!events.every(isWebhookEvent)) {
+    return { error: `Events must be among: ${WEBHOOK_EVENTS.join(", ")}.` };
+  }
+
+  return { webhook: { url: trimmedUrl, events: [...new Set(events)] } };
+}
+
+/** A new signing secret. */
+export function generateWebhookSecret(): string {
+  return randomBytes(32).toString("hex");
+}
+
+/** The X-CalAnywhere-Signature value for a body sent at `timestamp` (unix seconds). */
+export function signWebhookBody(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+async function queueDeliveries(
+  pool: Pool,
+  webhookIds: string[],
+  event: string,
+  data: Record<string, unknown>
+): Promise<void> {
+  if (webhookIds.length === 0) return;
+
+  const eventId = randomUUID();
+  const body = encrypt(
+    JSON.stringify({ id: eventId, event, createdAt: new Date().toISOString(), data })
+  );
+  for (const webhookId of webhookIds) {
+    const payload: DeliveryJobPayload = { webhookId, eventId, event, body };
+    await enqueueJob(pool, { kind: WEBHOOK_JOB, runAt: new Date(), payload: { ...payload } });
+  }
+  wakeJobWorker();
+}
+
+/**
+ * Queues an event for every active webhook of the booking's owner that
+ * covers its page and subscribes to the event. The payload describes the
+ * booking as it is now.
+ */
+export async function emitBookingEvent(
+  pool: Pool,
+  event: WebhookEvent,
+  bookingId: string
+): Promise<void> {
+  const { rows } = await pool.query(
+    `SELECT b.id, b.page_id, b.status, b.start_time, b.end_time, b.timezone,
+            b.requester_name, b.requester_email, b.reason, b.notes, b.meeting_type_name,
+            b.intake_answers, sp.slug, sp.user_id
+     FROM bookings b
+     JOIN scheduling_pages sp ON sp.id = b.page_id
+     WHERE b.id = $1`,
+    [bookingId]
+  );
+  const booking = rows[0];
+  if (!booking?.user_id) return;
+
+  const { rows: hooks } = await pool.query(
+    `SELECT id FROM webhooks
+     WHERE user_id = $1 AND is_active AND (page_id IS NULL OR page_id = $2) AND $3 = ANY(events)`,
+    [booking.user_id, booking.page_id, event]
+  );
+
+  await queueDeliveries(pool, hooks.map((h) => h.id), event, {
+    booking: {
+      id: booking.id,
+      pageId: booking.page_id,
+      pageSlug: booking.slug,
+      status: booking.status,
+      startIso: new Date(booking.start_time).toISOString(),
+      endIso: new Date(booking.end_time).toISOString(),
+      timezone: booking.timezone ?? null,
+      meetingTypeName: booking.meeting_type_name ?? null,
+      requesterName: booking.requester_name,
+      requesterEmail: booking.requester_email,
+      reason: booking.reason,
+      notes: booking.notes ?? null,
+      intakeAnswers: booking.intake_answers ?? [],
+    },
+  });
+}
+
+/** Queues a "ping" event to one webhook, whatever events it subscribes to. */
+export async function sendTestWebhook(pool: Pool, webhookId: string): Promise<void> {
+  await queueDeliveries(pool, [webhookId], "ping", {});
+}
+
+/**
+ * Runs a delivery job: POSTs the event to the webhook's endpoint and logs
+ * the attempt. Throws unless the endpoint answers with a 2xx status, so the
+ * job is retried. A webhook that has been removed or paused is skipped.
+ */
+export async function deliverWebhook(pool: Pool, raw: JobPayload): Promise<void> {
+  const payload = raw as unknown as DeliveryJobPayload;
+  const { rows } = await pool.query(
+    "SELECT url, secret_enc, secret_iv, secret_tag, is_active FROM webhooks WHERE id = $1",
+    [payload.webhookId]
+  );
+  const webhook = rows[0];
+  if (!webhook || !webhook.is_active) return;
+
+  let statusCode: number | null = null;
+  let error: string | null = null;
+  const started = Date.now();
+  try {
+    if (!(await isSafeToFetch(webhook.url))) {
+      throw new Error("The endpoint is not reachable or resolves to a private network address.");
+    }
+    const secret = decrypt({
+      ciphertext: webhook.secret_enc,
+      iv: webhook.secret_iv,
+      tag: webhook.secret_tag,
+    });
+    const body = decrypt(payload.body);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    const response = await axios.post(webhook.url, body, {
+      timeout: DELIVERY_TIMEOUT_MS,
+      maxRedirects: 0,
+      maxContentLength: 64 * 1024,
+      responseType: "text",
+      validateStatus: () => true,
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "CalAnywhere-Webhooks/1.0",
+        "X-CalAnywhere-Event": payload.event,
+        "X-CalAnywhere-Delivery": payload.eventId,
+        [SIGNATURE_HEADER]: signWebhookBody(secret, timestamp, body),
+      },
+    });
+    statusCode = response.status;
+    if (statusCode < 200 || statusCode >= 300) {
+      error = `The endpoint responded with status ${statusCode}.`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  await pool.query(
+    `INSERT INTO webhook_deliveries
+       (webhook_id, event_id, event, attempt, status_code, error, duration_ms)
+     VALUES ($1, $2, $3,
+       (SELECT COUNT(*) + 1 FROM webhook_deliveries WHERE webhook_id = $1 AND event_id = $2),
+       $4, $5, $6)`,
+    [payload.webhookId, payload.eventId, payload.event, statusCode, error, Date.now() - started]
+  );
+
+  if (error) throw new Error(error);
+}
+
+/** A webhook's most recent delivery attempts, newest first. */
+export async function listWebhookDeliveries(
+  pool: Pool,
+  webhookId: string
+): Promise<WebhookDelivery[]> {
+  const { rows } = await pool.query(
+    `SELECT id, event_id, event, attempt, status_code, error, duration_ms, created_at
+     FROM webhook_deliveries
+     WHERE webhook_id = $1
+     ORDER BY created_at DESC
+     LIMIT $2`,
+    [webhookId, DELIVERY_LOG_LIMIT]
+  );
+  return rows.map((row) => ({
+    id: row.id,
+    eventId: row.event_id,
+    event: row.event,
+    attempt: row.attempt,
+    statusCode: row.status_code,
+    error: row.error,
+    durationMs: row.duration_ms,
+    createdAt: new Date(row.created_at).toISOString(),
+  }));
+}
+
+/** Deletes delivery logs older than a month. */
+export async function purgeWebhookDeliveries(pool: Pool): Promise<void> {
+  await pool.query(
+    "DELETE FROM webhook_deliveries WHERE created_at < NOW() - INTERVAL '30 days'"
+  );
+}
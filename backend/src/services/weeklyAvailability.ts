@@ -0,0 +1,122 @@
+/**
+ * Weekly availability schedule.
+ *
+ * A page's bookable hours are a set of wall-clock ranges per weekday in the
+ * owner's timezone, e.g. Monday and Wednesday 10:00–12:00 and 14:00–17:00,
+ * Friday 09:00–12:00. Pages created before the schedule existed have a single
+ * daily window plus an include-weekends flag; those map onto the same shape.
+ */
+
+/** Bookable hours within one day. */
+export interface TimeRange {
+  start: string; // wall-clock "HH:MM"
+  end: string; // wall-clock "HH:MM", after start on the same day
+}
+
+export interface AvailabilityRange extends TimeRange {
+  weekday: number; // 0 = Sunday … 6 = Saturday
+}
+
+export type WeeklyAvailability = AvailabilityRange[];
+
+export const MAX_RANGES_PER_DAY = 6;
+
+// Same format the single availability window has always used
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function isTimeRange(value: unknown): value is TimeRange {
+  const { start, end } = (value ?? {}) as Record<string, unknown>;
+  return typeof start === "string" && TIME_RE.test(start) && typeof end === "string" && TIME_RE.test(end);
+}
+
+/**
+ * Checks one day's ranges, sorted by start time: each must end after it
+ * starts, and they must not overlap or be too many.
+ */
+export function dayRangesError(ranges: TimeRange[]): string | null {
+  if (ranges.some((r) => r.start >= r.end)) {
+    return "Each time range must end after it starts.";
+  }
+  if (ranges.length > MAX_RANGES_PER_DAY) {
+    return `You can add up to ${MAX_RANGES_PER_DAY} time ranges per day.`;
+  }
+  for (let i = 1; i < ranges.length; i++) {
+    if (ranges[i].start < ranges[i - 1].end) {
+      return "Time ranges on the same day must not overlap.";
+    }
+  }
+  return null;
+}
+
+/** The schedule equivalent to a single daily window. */
+export function legacyWeeklyAvailability(
+  start: string,
+  end: string,
+  includeWeekends: boolean
+): WeeklyAvailability {
+  const weekdays = includeWeekends ? [0, 1, 2, 3, 4, 5, 6] : [1, 2, 3, 4, 5];
+  return weekdays.map((weekday) => ({ weekday, start, end }));
+}
+
+/**
+ * The closest single daily window to a schedule, kept on the page for
+ * clients that predate it: the earliest start to the latest end, with
+ * weekends included if either weekend day has hours.
+ */
+export function legacyWindowFor(weekly: WeeklyAvailability): {
+  availabilityStart: string;
+  availabilityEnd: string;
+  includeWeekends: boolean;
+} {
+  if (weekly.length === 0) {
+    return { availabilityStart: "09:00", availabilityEnd: "17:00", includeWeekends: false };
+  }
+  return {
+    availabilityStart: weekly.reduce((min, r) => (r.start < min ? r.start : min), weekly[0].start),
+    availabilityEnd: weekly.reduce((max, r) => (r.end > max ? r.end : max), weekly[0].end),
+    includeWeekends: weekly.some((r) => r.weekday === 0 || r.weekday === 6)
+  };
+}
+
+/** The ranges on one weekday, in order. */
+export function rangesOn(weekly: WeeklyAvailability, weekday: number): AvailabilityRange[] {
+  return weekly
+    .filter((r) => r.weekday === weekday)
+    .sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/**
+ * Validates a schedule from a request. Returns the ranges sorted by weekday
+ * and start time, or an error message.
+ */
+export function parseWeeklyAvailability(
+  raw: unknown
+): { ranges: WeeklyAvailability } | { error: string } {
+  if (!Array.isArray(raw)) {
+    return { error: "Weekly availability must be a list of time ranges." };
+  }
+
+  const ranges: WeeklyAvailability = [];
+  for (const item of raw) {
+    const { weekday } = (item ?? {}) as Record<string, unknown>;
+    if (typeof weekday !== "number" || !Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+      return { error: "Each time range needs a weekday from 0 (Sunday) to 6 (Saturday)." };
+    }
+    if (!isTimeRange(item)) {
+      return { error: "Times must be in HH:MM format." };
+    }
+    ranges.push({ weekday, start: item.start, end: item.end });
+  }
+
+  if (ranges.length === 0) {
+    return { error: "Add at least one range of available hours." };
+  }
+
+  ranges.sort((a, b) => a.weekday - b.weekday || a.start.localeCompare(b.start));
+  for (let weekday = 0; weekday <= 6; weekday++) {
+    const error = dayRangesError(ranges.filter((r) => r.weekday === weekday));
+    if (error) return { error };
+  }
+
+  return { ranges };
+}
@@ -1,16 +1,81 @@
 import { randomUUID } from "crypto";
-import type { IBookingsStore, Booking } from "./interfaces";
+import type { IBookingsStore, Booking, NewBooking } from "./interfaces";
+import { ACTIVE_BOOKING_STATUSES } from "../services/bookingStatus";
 
 export class InMemoryBookingsStore implements IBookingsStore {
   private bookings: Booking[] = [];
 
-  async create(data: Omit<Booking, "id" | "createdAt">): Promise<Booking> {
+  async create(data: NewBooking): Promise<Booking> {
     const booking: Booking = {
       ...data,
       id: randomUUID(),
+      status: "requested",
+      revision: 0,
       createdAt: new Date().toISOString(),
     };
     this.bookings.push(booking);
     return booking;
   }
+
+  async createIfAvailable(data: NewBooking): Promise<Booking | null> {
+    // Single-threaded: no await between the check and the insert
+    const conflicts = this.overlapping(
+      data.pageId,
+      new Date(data.startTime),
+      new Date(data.endTime)
+    );
+    if (conflicts.length > 0) return null;
+    return this.create(data);
+  }
+
+  async listOverlapping(pageId: string, from: Date, to: Date): Promise<Booking[]> {
+    return this.overlapping(pageId, from, to);
+  }
+
+  async get(id: string): Promise<Booking | undefined> {
+    // A copy, so later changes do not show through (as with a database read)
+    const booking = this.bookings.find((b) => b.id === id);
+    return booking ? { ...booking } : undefined;
+  }
+
+  async cancel(id: string): Promise<Booking | null> {
+    const booking = this.bookings.find((b) => b.id === id);
+    if (!booking || !ACTIVE_BOOKING_STATUSES.includes(booking.status)) return null;
+    booking.status = "cancelled";
+    booking.statusMessage = undefined;
+    booking.statusChangedAt = new Date().toISOString();
+    booking.revision += 1;
+    return booking;
+  }
+
+  async rescheduleIfAvailable(
+    id: string,
+    startTime: string,
+    endTime: string
+  ): Promise<Booking | null> {
+    const booking = this.bookings.find((b) => b.id === id);
+    if (!booking || !ACTIVE_BOOKING_STATUSES.includes(booking.status)) return null;
+
+    const conflicts = this.overlapping(booking.pageId, new Date(startTime), new Date(endTime))
+      .filter((b) => b.id !== id);
+    if (conflicts.length > 0) return null;
+
+    booking.startTime = startTime;
+    booking.endTime = endTime;
+    booking.status = "requested";
+    booking.statusMessage = undefined;
+    booking.statusChangedAt = new Date().toISOString();
+    booking.revision += 1;
+    return booking;
+  }
+
+  private overlapping(pageId: string, from: Date, to: Date): Booking[] {
+    return this.bookings.filter(
+      (b) =>
+        b.pageId === pageId &&
+        ACTIVE_BOOKING_STATUSES.includes(b.status) &&
+        new Date(b.startTime) < to &&
+        new Date(b.endTime) > from
+    );
+  }
 }
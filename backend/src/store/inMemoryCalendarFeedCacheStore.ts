@@ -0,0 +1,30 @@
+import type { CalendarFeedCacheEntry, ICalendarFeedCacheStore } from "./interfaces";
+
+const MAX_ENTRIES = 1000;
+// Stale entries are kept as the fallback for a feed that starts failing
+const STALE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+export class InMemoryCalendarFeedCacheStore implements ICalendarFeedCacheStore {
+  private entries = new Map<string, CalendarFeedCacheEntry>();
+
+  async get(key: string): Promise<CalendarFeedCacheEntry | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(entry: CalendarFeedCacheEntry): Promise<void> {
+    // Re-insert so Map order tracks recency, then evict the oldest
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    if (this.entries.size > MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+  }
+
+  async purgeExpired(): Promise<void> {
+    const cutoff = Date.now() - STALE_RETENTION_MS;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt < cutoff) this.entries.delete(key);
+    }
+  }
+}
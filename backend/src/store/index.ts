@@ -1,15 +1,25 @@
 import { getPool } from "../db/client";
-import type { IPagesStore, IPendingRequestsStore, IBookingsStore } from "./interfaces";
+import type {
+  IPagesStore,
+  IPendingRequestsStore,
+  IBookingsStore,
+  ICalendarFeedCacheStore
+} from "./interfaces";
 import { InMemoryPagesStore } from "./pagesStore";
 import { InMemoryPendingRequestsStore } from "./pendingRequestsStore";
 import { InMemoryBookingsStore } from "./inMemoryBookingsStore";
 import { PgPagesStore } from "./pgPagesStore";
 import { PgPendingRequestsStore } from "./pgPendingRequestsStore";
 import { PgBookingsStore } from "./pgBookingsStore";
+import { InMemoryCalendarFeedCacheStore } from "./inMemoryCalendarFeedCacheStore";
+import { PgCalendarFeedCacheStore } from "./pgCalendarFeedCacheStore";
+import { purgeFinishedJobs } from "../services/jobs";
+import { purgeWebhookDeliveries } from "../services/webhooks";
 
 export let pagesStore: IPagesStore;
 export let pendingRequestsStore: IPendingRequestsStore;
 export let bookingsStore: IBookingsStore;
+export let calendarFeedCacheStore: ICalendarFeedCacheStore;
 
 let purgeTimers: NodeJS.Timeout[] = [];
 
@@ -33,18 +43,40 @@ export function initStores(): void {
     bookingsStore = new InMemoryBookingsStore();
   }
 
+  // The feed cache follows the database unless CALENDAR_CACHE_BACKEND=memory
+  // (e.g. to keep cache churn off a small database)
+  const cacheBackend = process.env.CALENDAR_CACHE_BACKEND;
+  if (cacheBackend && !["memory", "postgres"].includes(cacheBackend)) {
+    throw new Error(`Unknown CALENDAR_CACHE_BACKEND "${cacheBackend}". Use memory or postgres.`);
+  }
+  if (cacheBackend === "postgres" && !pool) {
+    throw new Error("CALENDAR_CACHE_BACKEND=postgres requires DATABASE_URL.");
+  }
+  calendarFeedCacheStore = pool && cacheBackend !== "memory"
+    ? new PgCalendarFeedCacheStore(pool)
+    : new InMemoryCalendarFeedCacheStore();
+
   purgeTimers.push(
     setInterval(() => { pagesStore.purgeExpired(); }, 15 * 60 * 1000)
   );
   purgeTimers.push(
     setInterval(() => { pendingRequestsStore.purgeExpired(); }, 5 * 60 * 1000)
   );
+  purgeTimers.push(
+    setInterval(() => { calendarFeedCacheStore.purgeExpired(); }, 60 * 60 * 1000)
+  );
 
-  // Purge expired auth sessions daily
+  // Purge expired auth sessions, finished jobs and old webhook logs daily
   if (pool) {
     const { purgeExpiredSessions } = require("../auth");
     purgeTimers.push(
       setInterval(() => { purgeExpiredSessions(pool); }, 24 * 60 * 60 * 1000)
     );
+    purgeTimers.push(
+      setInterval(() => { purgeFinishedJobs(pool); }, 24 * 60 * 60 * 1000)
+    );
+    purgeTimers.push(
+      setInterval(() => { purgeWebhookDeliveries(pool); }, 24 * 60 * 60 * 1000)
+    );
   }
 }
@@ -1,7 +1,12 @@
 import type { SchedulingPage } from "./pagesStore";
 import type { PendingRequest } from "./pendingRequestsStore";
+import type { BookingStatus } from "../services/bookingStatus";
+import type { BusySlot } from "../services/calendar";
+import type { IntakeAnswer } from "../services/intakeQuestions";
+import type { TimeFormat } from "../utils/timeFormat";
+import type { Language } from "../i18n";
 
-export type { SchedulingPage, PendingRequest };
+export type { SchedulingPage, PendingRequest, BookingStatus };
 
 export interface Booking {
   id: string;
@@ -13,9 +18,24 @@ export interface Booking {
   startTime: string;
   endTime: string;
   timezone?: string;
+  meetingTypeId?: string;
+  meetingTypeName?: string; // as it was when booked
+  intakeAnswers?: IntakeAnswer[];
+  timeFormat?: TimeFormat; // the requester's, for their emails
+  language?: Language;     // likewise
+  status: BookingStatus;
+  statusMessage?: string;
+  statusChangedAt?: string;
+  revision: number; // changes so far, the SEQUENCE of its calendar invites
   createdAt: string;
 }
 
+/** Fields supplied when recording a booking; new bookings start as "requested". */
+export type NewBooking = Omit<
+  Booking,
+  "id" | "createdAt" | "status" | "statusMessage" | "statusChangedAt" | "revision"
+>;
+
 export interface IPagesStore {
   create(page: SchedulingPage): Promise<SchedulingPage>;
   get(slug: string): Promise<SchedulingPage | undefined>;
@@ -28,9 +48,56 @@ export interface IPendingRequestsStore {
   get(token: string): Promise<PendingRequest | undefined>;
   getAndDelete(token: string): Promise<PendingRequest | undefined>;
   delete(token: string): Promise<void>;
+  /** Unexpired requests for a page whose slot overlaps [from, to). */
+  listOverlapping(slug: string, from: Date, to: Date): Promise<PendingRequest[]>;
   purgeExpired(): Promise<void>;
 }
 
 export interface IBookingsStore {
-  create(booking: Omit<Booking, "id" | "createdAt">): Promise<Booking>;
+  create(booking: NewBooking): Promise<Booking>;
+  /**
+   * Records the booking unless it overlaps an active one for the same page.
+   * Returns null on conflict. The check and insert are atomic.
+   */
+  createIfAvailable(booking: NewBooking): Promise<Booking | null>;
+  /** Active (requested or accepted) bookings for a page that overlap [from, to). */
+  listOverlapping(pageId: string, from: Date, to: Date): Promise<Booking[]>;
+  get(id: string): Promise<Booking | undefined>;
+  /**
+   * Cancels an active booking and counts the change in its revision.
+   * Returns null if it is no longer active.
+   */
+  cancel(id: string): Promise<Booking | null>;
+  /**
+   * Moves an active booking to a new slot and back to "requested", counting
+   * the change in its revision, unless the slot overlaps another active
+   * booking for the same page. Returns null on
+   * conflict or if the booking is no longer active. The check and update are
+   * atomic.
+   */
+  rescheduleIfAvailable(id: string, startTime: string, endTime: string): Promise<Booking | null>;
+}
+
+/**
+ * A parsed calendar feed. Busy slots are expanded over [windowStart, windowEnd]
+ * when the feed is downloaded, so lookups inside that window need no parsing.
+ */
+export interface CalendarFeedCacheEntry {
+  key: string; // SHA-256 of the feed URL; the URL itself is a secret
+  etag?: string;
+  lastModified?: string;
+  busySlots: BusySlot[];
+  windowStart: number; // epoch ms
+  windowEnd: number; // epoch ms
+  fetchedAt: number; // epoch ms of the last good download; 0 if there has never been one
+  expiresAt: number; // epoch ms; after this the feed is revalidated
+  failingSince?: number; // epoch ms of the first failed download since the last good one
+  lastError?: string;
+}
+
+export interface ICalendarFeedCacheStore {
+  get(key: string): Promise<CalendarFeedCacheEntry | undefined>;
+  set(entry: CalendarFeedCacheEntry): Promise<void>;
+  /** Drops entries that have been stale for longer than they are useful as a fallback. */
+  purgeExpired(): Promise<void>;
 }
@@ -1,4 +1,11 @@
 import type { IPagesStore } from "./interfaces";
+import type { BusyRules } from "../services/busyRules";
+import type { WeeklyAvailability } from "../services/weeklyAvailability";
+import type { DateOverride } from "../services/dateOverrides";
+import type { MeetingType } from "../services/meetingTypes";
+import type { EmbedSettings } from "../services/embedding";
+import type { IntakeQuestion } from "../services/intakeQuestions";
+import type { Language } from "../i18n";
 
 export interface SchedulingPage {
   slug: string;
@@ -8,13 +15,24 @@ export interface SchedulingPage {
   title?: string;
   userId?: string;
   defaultDurationMinutes: number;
-  bufferMinutes: number;
+  bufferMinutes: number;     // after each meeting
+  bufferBeforeMinutes?: number;
+  maxBookingsPerDay?: number | null;  // null or undefined = no limit
+  maxBookingsPerWeek?: number | null; // Monday to Sunday in ownerTimezone
+  slotIncrementMinutes?: number | null; // null or undefined = back to back
   dateRangeDays: number;
   minNoticeHours: number;
   includeWeekends: boolean;
   availabilityStart: string; // wall-clock "HH:MM"
   availabilityEnd: string;   // wall-clock "HH:MM"
   ownerTimezone: string;     // IANA timezone name
+  weeklyAvailability?: WeeklyAvailability; // undefined = the single window above
+  dateOverrides?: DateOverride[];
+  busyRules?: BusyRules;     // undefined = DEFAULT_BUSY_RULES
+  meetingTypes?: MeetingType[]; // in display order; none = defaultDurationMinutes
+  embed?: EmbedSettings;     // undefined = not embeddable
+  intakeQuestions?: IntakeQuestion[]; // asked after the fixed form fields
+  language?: Language;       // undefined = each visitor's own
   createdAt: number;
   expiresAt: number | null; // null = no expiry
 }
@@ -1,5 +1,8 @@
 import { randomUUID } from "crypto";
 import type { IPendingRequestsStore } from "./interfaces";
+import type { IntakeAnswer } from "../services/intakeQuestions";
+import type { TimeFormat } from "../utils/timeFormat";
+import type { Language } from "../i18n";
 
 export interface PendingRequest {
   token: string;
@@ -11,6 +14,11 @@ export interface PendingRequest {
   startIso: string;
   endIso: string;
   timezone?: string;
+  meetingTypeId?: string;
+  meetingTypeName?: string;
+  intakeAnswers?: IntakeAnswer[];
+  timeFormat?: TimeFormat; // the requester's, for their emails
+  language?: Language;     // likewise
   createdAt: number;
 }
 
@@ -54,6 +62,17 @@ export class InMemoryPendingRequestsStore implements IPendingRequestsStore {
     this.requests.delete(token);
   }
 
+  async listOverlapping(slug: string, from: Date, to: Date): Promise<PendingRequest[]> {
+    const now = Date.now();
+    return [...this.requests.values()].filter(
+      (r) =>
+        r.slug === slug &&
+        now - r.createdAt <= TTL_MS &&
+        new Date(r.startIso) < to &&
+        new Date(r.endIso) > from
+    );
+  }
+
   async purgeExpired(): Promise<void> {
     const now = Date.now();
     for (const [token, request] of this.requests.entries()) {
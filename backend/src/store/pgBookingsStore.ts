@@ -1,15 +1,148 @@
-import type { Pool } from "pg";
-import type { IBookingsStore, Booking } from "./interfaces";
+import type { Pool, PoolClient } from "pg";
+import type { IBookingsStore, Booking, NewBooking } from "./interfaces";
+import { timeFormatFromColumns } from "../utils/timeFormat";
+import { languageFromColumn } from "../i18n";
+
+const BOOKING_COLUMNS = `id, page_id, requester_name, requester_email,
+              reason, notes, start_time, end_time, timezone,
+              meeting_type_id, meeting_type_name, intake_answers,
+              locale, hour_cycle, language,
+              status, status_message, status_changed_at, revision, created_at`;
 
 export class PgBookingsStore implements IBookingsStore {
   constructor(private pool: Pool) {}
 
-  async create(data: Omit<Booking, "id" | "createdAt">): Promise<Booking> {
+  async create(data: NewBooking): Promise<Booking> {
+    return this.insert(this.pool, data);
+  }
+
+  async createIfAvailable(data: NewBooking): Promise<Booking | null> {
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      // Serialise bookings per page so two concurrent confirmations
+      // cannot both pass the overlap check
+      await client.query("SELECT pg_advisory_xact_lock(hashtext($1))", [data.pageId]);
+
+      const { rows } = await client.query(
+        `SELECT 1 FROM bookings
+         WHERE page_id = $1 AND start_time < $3 AND end_time > $2
+           AND status IN ('requested', 'accepted')
+         LIMIT 1`,
+        [data.pageId, data.startTime, data.endTime]
+      );
+      if (rows.length > 0) {
+        await client.query("ROLLBACK");
+        return null;
+      }
+
+      const booking = await this.insert(client, data);
+      await client.query("COMMIT");
+      return booking;
+    } catch (err) {
+      await client.query("ROLLBACK");
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  async listOverlapping(pageId: string, from: Date, to: Date): Promise<Booking[]> {
+    const result = await this.pool.query(
+      `SELECT ${BOOKING_COLUMNS}
+       FROM bookings
+       WHERE page_id = $1 AND start_time < $3 AND end_time > $2
+         AND status IN ('requested', 'accepted')
+       ORDER BY start_time`,
+      [pageId, from.toISOString(), to.toISOString()]
+    );
+    return result.rows.map((row) => this.rowToBooking(row));
+  }
+
+  async get(id: string): Promise<Booking | undefined> {
+    const result = await this.pool.query(
+      `SELECT ${BOOKING_COLUMNS} FROM bookings WHERE id = $1`,
+      [id]
+    );
+    return result.rows.length > 0 ? this.rowToBooking(result.rows[0]) : undefined;
+  }
+
+  async cancel(id: string): Promise<Booking | null> {
     const result = await this.pool.query(
+      `UPDATE bookings
+       SET status = 'cancelled', status_message = NULL, status_changed_at = NOW(),
+           revision = revision + 1
+       WHERE id = $1 AND status IN ('requested', 'accepted')
+       RETURNING ${BOOKING_COLUMNS}`,
+      [id]
+    );
+    return result.rows.length > 0 ? this.rowToBooking(result.rows[0]) : null;
+  }
+
+  async rescheduleIfAvailable(
+    id: string,
+    startTime: string,
+    endTime: string
+  ): Promise<Booking | null> {
+    const client = await this.pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const { rows: current } = await client.query(
+        "SELECT page_id FROM bookings WHERE id = $1 AND status IN ('requested', 'accepted')",
+        [id]
+      );
+      if (current.length === 0) {
+        await client.query("ROLLBACK");
+        return null;
+      }
+
+      // Same per-page lock as createIfAvailable
+      await client.query("SELECT pg_advisory_xact_lock(hashtext($1))", [current[0].page_id]);
+
+      const { rows: clashes } = await client.query(
+        `SELECT 1 FROM bookings
+         WHERE page_id = $1 AND id <> $2 AND start_time < $4 AND end_time > $3
+           AND status IN ('requested', 'accepted')
+         LIMIT 1`,
+        [current[0].page_id, id, startTime, endTime]
+      );
+      if (clashes.length > 0) {
+        await client.query("ROLLBACK");
+        return null;
+      }
+
+      const { rows } = await client.query(
+        `UPDATE bookings
+         SET start_time = $2, end_time = $3, status = 'requested',
+             status_message = NULL, status_changed_at = NOW(),
+             revision = revision + 1
+         WHERE id = $1 AND status IN ('requested', 'accepted')
+         RETURNING ${BOOKING_COLUMNS}`,
+        [id, startTime, endTime]
+      );
+      await client.query("COMMIT");
+      return rows.length > 0 ? this.rowToBooking(rows[0]) : null;
+    } catch (err) {
+      await client.query("ROLLBACK");
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async insert(
+    db: Pool | PoolClient,
+    data: NewBooking
+  ): Promise<Booking> {
+    const result = await db.query(
       `INSERT INTO bookings
          (page_id, requester_name, requester_email,
-          reason, notes, start_time, end_time, timezone)
-       VALUES ($1,$2,$3,$4,$5,$6,$7,$8)
+          reason, notes, start_time, end_time, timezone,
+          meeting_type_id, meeting_type_name, intake_answers,
+          locale, hour_cycle, language)
+       VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14)
        RETURNING id, created_at`,
       [
         data.pageId,
@@ -20,6 +153,12 @@ export class PgBookingsStore implements IBookingsStore {
         data.startTime,
         data.endTime,
         data.timezone || null,
+        data.meetingTypeId || null,
+        data.meetingTypeName || null,
+        data.intakeAnswers?.length ? JSON.stringify(data.intakeAnswers) : null,
+        data.timeFormat?.locale || null,
+        data.timeFormat?.hourCycle || null,
+        data.language || null,
       ]
     );
 
@@ -27,6 +166,34 @@ export class PgBookingsStore implements IBookingsStore {
     return {
       ...data,
       id: row.id,
+      status: "requested",
+      revision: 0,
+      createdAt: new Date(row.created_at).toISOString(),
+    };
+  }
+
+  private rowToBooking(row: any): Booking {
+    return {
+      id: row.id,
+      pageId: row.page_id,
+      requesterName: row.requester_name,
+      requesterEmail: row.requester_email,
+      reason: row.reason,
+      notes: row.notes || undefined,
+      startTime: new Date(row.start_time).toISOString(),
+      endTime: new Date(row.end_time).toISOString(),
+      timezone: row.timezone || undefined,
+      meetingTypeId: row.meeting_type_id || undefined,
+      meetingTypeName: row.meeting_type_name || undefined,
+      intakeAnswers: row.intake_answers ?? undefined,
+      timeFormat: timeFormatFromColumns(row.locale, row.hour_cycle),
+      language: languageFromColumn(row.language),
+      status: row.status,
+      statusMessage: row.status_message || undefined,
+      statusChangedAt: row.status_changed_at
+        ? new Date(row.status_changed_at).toISOString()
+        : undefined,
+      revision: row.revision ?? 0,
       createdAt: new Date(row.created_at).toISOString(),
     };
   }
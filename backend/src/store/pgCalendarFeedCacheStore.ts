@@ -0,0 +1,70 @@
+import type { Pool } from "pg";
+import type { CalendarFeedCacheEntry, ICalendarFeedCacheStore } from "./interfaces";
+
+export class PgCalendarFeedCacheStore implements ICalendarFeedCacheStore {
+  constructor(private pool: Pool) {}
+
+  async get(key: string): Promise<CalendarFeedCacheEntry | undefined> {
+    const result = await this.pool.query(
+      `SELECT url_hash, etag, last_modified, busy_slots,
+              window_start, window_end, fetched_at, expires_at,
+              failing_since, last_error
+       FROM calendar_feed_cache
+       WHERE url_hash = $1`,
+      [key]
+    );
+
+    if (result.rows.length === 0) return undefined;
+    const row = result.rows[0];
+    return {
+      key: row.url_hash,
+      etag: row.etag || undefined,
+      lastModified: row.last_modified || undefined,
+      busySlots: row.busy_slots,
+      windowStart: new Date(row.window_start).getTime(),
+      windowEnd: new Date(row.window_end).getTime(),
+      fetchedAt: new Date(row.fetched_at).getTime(),
+      expiresAt: new Date(row.expires_at).getTime(),
+      failingSince: row.failing_since ? new Date(row.failing_since).getTime() : undefined,
+      lastError: row.last_error || undefined,
+    };
+  }
+
+  async set(entry: CalendarFeedCacheEntry): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO calendar_feed_cache
+         (url_hash, etag, last_modified, busy_slots,
+          window_start, window_end, fetched_at, expires_at,
+          failing_since, last_error)
+       VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)
+       ON CONFLICT (url_hash) DO UPDATE SET
+         etag = EXCLUDED.etag,
+         last_modified = EXCLUDED.last_modified,
+         busy_slots = EXCLUDED.busy_slots,
+         window_start = EXCLUDED.window_start,
+         window_end = EXCLUDED.window_end,
+         fetched_at = EXCLUDED.fetched_at,
+         expires_at = EXCLUDED.expires_at,
+         failing_since = EXCLUDED.failing_since,
+         last_error = EXCLUDED.last_error`,
+      [
+        entry.key,
+        entry.etag || null,
+        entry.lastModified || null,
+        JSON.stringify(entry.busySlots),
+        new Date(entry.windowStart).toISOString(),
+        new Date(entry.windowEnd).toISOString(),
+        new Date(entry.fetchedAt).toISOString(),
+        new Date(entry.expiresAt).toISOString(),
+        entry.failingSince ? new Date(entry.failingSince).toISOString() : null,
+        entry.lastError || null,
+      ]
+    );
+  }
+
+  async purgeExpired(): Promise<void> {
+    await this.pool.query(
+      "DELETE FROM calendar_feed_cache WHERE expires_at < NOW() - INTERVAL '7 days'"
+    );
+  }
+}
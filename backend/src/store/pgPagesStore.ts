@@ -1,6 +1,8 @@
 import type { Pool } from "pg";
 import type { IPagesStore } from "./interfaces";
 import type { SchedulingPage } from "./pagesStore";
+import { legacyWeeklyAvailability } from "../services/weeklyAvailability";
+import { languageFromColumn } from "../i18n";
 
 export class PgPagesStore implements IPagesStore {
   constructor(private pool: Pool) {}
@@ -13,11 +15,12 @@ export class PgPagesStore implements IPagesStore {
       const result = await client.query(
         `INSERT INTO scheduling_pages
            (slug, user_id, owner_name, title, bio,
-            default_duration_minutes, buffer_minutes, date_range_days,
-            min_notice_hours, include_weekends, is_anonymous,
+            default_duration_minutes, buffer_minutes, buffer_before_minutes,
+            max_bookings_per_day, max_bookings_per_week, slot_increment_minutes,
+            date_range_days, min_notice_hours, include_weekends, is_anonymous,
             availability_start, availability_end, owner_timezone,
             created_at, expires_at)
-         VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16)
+         VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19,$20)
          RETURNING id`,
         [
           page.slug,
@@ -27,6 +30,10 @@ export class PgPagesStore implements IPagesStore {
           page.bio || null,
           page.defaultDurationMinutes,
           page.bufferMinutes,
+          page.bufferBeforeMinutes ?? 0,
+          page.maxBookingsPerDay ?? null,
+          page.maxBookingsPerWeek ?? null,
+          page.slotIncrementMinutes ?? null,
           page.dateRangeDays,
           page.minNoticeHours,
           page.includeWeekends,
@@ -48,6 +55,18 @@ export class PgPagesStore implements IPagesStore {
         );
       }
 
+      const weekly = page.weeklyAvailability ?? legacyWeeklyAvailability(
+        page.availabilityStart ?? '09:00',
+        page.availabilityEnd ?? '17:00',
+        page.includeWeekends
+      );
+      for (const range of weekly) {
+        await client.query(
+          "INSERT INTO page_availability (page_id, weekday, start_time, end_time) VALUES ($1,$2,$3,$4)",
+          [pageId, range.weekday, range.start, range.end]
+        );
+      }
+
       await client.query("COMMIT");
       return page;
     } catch (err) {
@@ -68,19 +87,60 @@ export class PgPagesStore implements IPagesStore {
          sp.bio,
          sp.default_duration_minutes,
          sp.buffer_minutes,
+         sp.buffer_before_minutes,
+         sp.max_bookings_per_day,
+         sp.max_bookings_per_week,
+         sp.slot_increment_minutes,
          sp.date_range_days,
          sp.min_notice_hours,
          sp.include_weekends,
          sp.availability_start,
          sp.availability_end,
          sp.owner_timezone,
+         sp.all_day_busy,
+         sp.tentative_busy,
+         sp.ignore_declined,
+         sp.ignore_summary_patterns,
+         sp.embed_enabled,
+         sp.embed_origins,
+         sp.language,
+         sp.intake_questions,
          sp.created_at,
          sp.expires_at,
          COALESCE(
            array_agg(pc.raw_calendar_url)
              FILTER (WHERE pc.raw_calendar_url IS NOT NULL),
            ARRAY[]::text[]
-         ) AS calendar_urls
+         ) AS calendar_urls,
+         (SELECT json_agg(
+                   json_build_object('weekday', pa.weekday, 'start', pa.start_time, 'end', pa.end_time)
+                   ORDER BY pa.weekday, pa.start_time)
+            FROM page_availability pa
+           WHERE pa.page_id = sp.id) AS weekly_availability,
+         (SELECT json_agg(
+                   json_build_object(
+                     'startDate', to_char(pdo.start_date, 'YYYY-MM-DD'),
+                     'endDate', to_char(pdo.end_date, 'YYYY-MM-DD'),
+                     'ranges', pdo.ranges)
+                   ORDER BY pdo.start_date)
+            FROM page_date_overrides pdo
+           WHERE pdo.page_id = sp.id
+             -- A day's slack keeps today in every timezone covered
+             AND pdo.end_date >= CURRENT_DATE - 1
+         ) AS date_overrides,
+         (SELECT json_agg(
+                   -- Unset description and hours are left out rather than null
+                   json_strip_nulls(json_build_object(
+                     'id', mt.id,
+                     'name', mt.name,
+                     'description', mt.description,
+                     'durationMinutes', mt.duration_minutes,
+                     'bufferMinutes', mt.buffer_minutes,
+                     'bufferBeforeMinutes', mt.buffer_before_minutes,
+                     'weeklyAvailability', mt.weekly_availability))
+                   ORDER BY mt.position, mt.created_at)
+            FROM meeting_types mt
+           WHERE mt.page_id = sp.id) AS meeting_types
        FROM scheduling_pages sp
        LEFT JOIN page_calendars pc ON pc.page_id = sp.id
        WHERE sp.slug = $1 AND (sp.expires_at IS NULL OR sp.expires_at > NOW())
@@ -100,12 +160,31 @@ export class PgPagesStore implements IPagesStore {
       bio: row.bio || undefined,
       defaultDurationMinutes: row.default_duration_minutes,
       bufferMinutes: row.buffer_minutes,
+      bufferBeforeMinutes: row.buffer_before_minutes ?? 0,
+      maxBookingsPerDay: row.max_bookings_per_day ?? null,
+      maxBookingsPerWeek: row.max_bookings_per_week ?? null,
+      slotIncrementMinutes: row.slot_increment_minutes ?? null,
       dateRangeDays: row.date_range_days,
       minNoticeHours: row.min_notice_hours,
       includeWeekends: row.include_weekends,
       availabilityStart: row.availability_start ?? '09:00',
       availabilityEnd: row.availability_end ?? '17:00',
       ownerTimezone: row.owner_timezone ?? 'UTC',
+      weeklyAvailability: row.weekly_availability ?? undefined,
+      dateOverrides: row.date_overrides ?? [],
+      meetingTypes: row.meeting_types ?? [],
+      busyRules: {
+        allDayBusy: row.all_day_busy ?? true,
+        tentativeBusy: row.tentative_busy ?? true,
+        ignoreDeclined: row.ignore_declined ?? false,
+        ignoreSummaries: row.ignore_summary_patterns ?? [],
+      },
+      embed: {
+        enabled: row.embed_enabled ?? false,
+        origins: row.embed_origins ?? [],
+      },
+      language: languageFromColumn(row.language),
+      intakeQuestions: row.intake_questions ?? [],
       createdAt: new Date(row.created_at).getTime(),
       expiresAt: row.expires_at ? new Date(row.expires_at).getTime() : null,
     };
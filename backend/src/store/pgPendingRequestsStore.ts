@@ -2,6 +2,8 @@ import type { Pool } from "pg";
 import { randomUUID } from "crypto";
 import type { IPendingRequestsStore } from "./interfaces";
 import type { PendingRequest } from "./pendingRequestsStore";
+import { timeFormatFromColumns } from "../utils/timeFormat";
+import { languageFromColumn } from "../i18n";
 
 const TTL_MS = 60 * 60 * 1000; // 1 hour
 
@@ -18,8 +20,10 @@ export class PgPendingRequestsStore implements IPendingRequestsStore {
     await this.pool.query(
       `INSERT INTO pending_requests
          (token, page_slug, requester_name, requester_email,
-          reason, notes, start_iso, end_iso, timezone, expires_at)
-       VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)`,
+          reason, notes, start_iso, end_iso, timezone,
+          meeting_type_id, meeting_type_name, intake_answers,
+          locale, hour_cycle, language, expires_at)
+       VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16)`,
       [
         token,
         data.slug,
@@ -30,6 +34,12 @@ export class PgPendingRequestsStore implements IPendingRequestsStore {
         data.startIso,
         data.endIso,
         data.timezone || null,
+        data.meetingTypeId || null,
+        data.meetingTypeName || null,
+        data.intakeAnswers?.length ? JSON.stringify(data.intakeAnswers) : null,
+        data.timeFormat?.locale || null,
+        data.timeFormat?.hourCycle || null,
+        data.language || null,
         expiresAt,
       ]
     );
@@ -40,7 +50,9 @@ export class PgPendingRequestsStore implements IPendingRequestsStore {
   async get(token: string): Promise<PendingRequest | undefined> {
     const result = await this.pool.query(
       `SELECT token, page_slug, requester_name, requester_email,
-              reason, notes, start_iso, end_iso, timezone, created_at
+              reason, notes, start_iso, end_iso, timezone,
+              meeting_type_id, meeting_type_name, intake_answers,
+              locale, hour_cycle, language, created_at
        FROM pending_requests
        WHERE token = $1 AND expires_at > NOW()`,
       [token]
@@ -55,7 +67,9 @@ export class PgPendingRequestsStore implements IPendingRequestsStore {
       `DELETE FROM pending_requests
        WHERE token = $1 AND expires_at > NOW()
        RETURNING token, page_slug, requester_name, requester_email,
-                 reason, notes, start_iso, end_iso, timezone, created_at`,
+                 reason, notes, start_iso, end_iso, timezone,
+                 meeting_type_id, meeting_type_name, intake_answers,
+                 locale, hour_cycle, language, created_at`,
       [token]
     );
 
@@ -70,6 +84,22 @@ export class PgPendingRequestsStore implements IPendingRequestsStore {
     );
   }
 
+  async listOverlapping(slug: string, from: Date, to: Date): Promise<PendingRequest[]> {
+    const result = await this.pool.query(
+      `SELECT token, page_slug, requester_name, requester_email,
+              reason, notes, start_iso, end_iso, timezone,
+              meeting_type_id, meeting_type_name, intake_answers,
+              locale, hour_cycle, language, created_at
+       FROM pending_requests
+       WHERE page_slug = $1
+         AND expires_at > NOW()
+         AND start_iso::timestamptz < $3
+         AND end_iso::timestamptz > $2`,
+      [slug, from.toISOString(), to.toISOString()]
+    );
+    return result.rows.map((row) => this.rowToRequest(row));
+  }
+
   async purgeExpired(): Promise<void> {
     await this.pool.query(
       "DELETE FROM pending_requests WHERE expires_at < NOW()"
@@ -87,6 +117,11 @@ export class PgPendingRequestsStore implements IPendingRequestsStore {
       startIso: row.start_iso,
       endIso: row.end_iso,
       timezone: row.timezone || undefined,
+      meetingTypeId: row.meeting_type_id || undefined,
+      meetingTypeName: row.meeting_type_name || undefined,
+      intakeAnswers: row.intake_answers ?? undefined,
+      timeFormat: timeFormatFromColumns(row.locale, row.hour_cycle),
+      language: languageFromColumn(row.language),
       createdAt: new Date(row.created_at).getTime(),
     };
   }
@@ -0,0 +1,47 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const KEY_ENV = 'EMAIL_ENCRYPTION_KEY';
+
+// Without the app secret (local development), sign with a key that lasts
+// as long as the process; links then stop working after a restart
+let fallbackKey: Buffer | null = null;
+
+function getKey(): Buffer {
+  const hex = process.env[KEY_ENV];
+  if (hex) return Buffer.from(hex, 'hex');
+  if (!fallbackKey) fallbackKey = randomBytes(32);
+  return fallbackKey;
+}
+
+function sign(bookingId: string): string {
+  return createHmac('sha256', getKey()).update(`manage:${bookingId}`).digest('base64url');
+}
+
+/**
+ * Creates the token in a requester's link for managing their booking: the
+ * booking id plus an HMAC of it, so nothing needs storing and a token for
+ * one booking cannot be turned into another's.
+ */
+export function createManageToken(bookingId: string): string {
+  return `${bookingId}.${sign(bookingId)}`;
+}
+
+/**
+ * Returns the booking id a manage token was issued for, or null if the
+ * token is malformed or its signature does not match.
+ */
+export function verifyManageToken(token: string): string | null {
+  const dot = token.lastIndexOf('.');
+  if (dot <= 0 || token.length > 200) return null;
+
+  const bookingId = token.slice(0, dot);
+  const given = Buffer.from(token.slice(dot + 1));
+  const expected = Buffer.from(sign(bookingId));
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+  return bookingId;
+}
+
+/** The frontend page where a requester reschedules or cancels a booking. */
+export function manageUrl(baseUrl: string, slug: string, bookingId: string): string {
+  return `${baseUrl}/s/${slug}/manage/${createManageToken(bookingId)}`;
+}
@@ -0,0 +1,140 @@
+/**
+ * Date and time formatting for emails, following the reader's preferences.
+ * Mirrors frontend/src/utils/timeFormat.ts so emails read like the app.
+ *
+ * A preference has a locale (e.g. "en-US"), which decides the order and
+ * names in a date, and an hour cycle: "h12" for 3:00 pm or "h23" for 15:00.
+ * Either may be unset to follow the locale's own convention. Without a
+ * locale, emails use British English as they always have.
+ */
+
+export const HOUR_CYCLES = ['h12', 'h23'] as const;
+export type HourCycle = (typeof HOUR_CYCLES)[number];
+
+export interface TimeFormat {
+  locale?: string;
+  hourCycle?: HourCycle;
+}
+
+export const DEFAULT_LOCALE = 'en-GB';
+
+const MAX_LOCALE_LENGTH = 35;
+
+export function isHourCycle(value: unknown): value is HourCycle {
+  return typeof value === 'string' && (HOUR_CYCLES as readonly string[]).includes(value);
+}
+
+/**
+ * Returns the canonical form of a BCP 47 locale tag ("en-us" → "en-US"),
+ * or null if the value is not one.
+ */
+export function normalizeLocale(value: unknown): string | null {
+  if (typeof value !== 'string' || value.length === 0 || value.length > MAX_LOCALE_LENGTH) {
+    return null;
+  }
+  try {
+    return Intl.getCanonicalLocales(value)[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads a locale and hour cycle from a request body. Both are optional, and
+ * null or a missing value leaves that part to the locale's convention.
+ */
+export function parseTimeFormat(raw: {
+  locale?: unknown;
+  hourCycle?: unknown;
+}): { format: TimeFormat } | { error: string } {
+  const format: TimeFormat = {};
+
+  if (raw.locale !== undefined && raw.locale !== null) {
+    const locale = normalizeLocale(raw.locale);
+    if (!locale) return { error: 'Invalid locale.' };
+    format.locale = locale;
+  }
+  if (raw.hourCycle !== undefined && raw.hourCycle !== null) {
+    if (!isHourCycle(raw.hourCycle)) {
+      return { error: 'hourCycle must be "h12" or "h23".' };
+    }
+    format.hourCycle = raw.hourCycle;
+  }
+
+  return { format };
+}
+
+/** A stored locale and hour cycle, as read from database columns. */
+export function timeFormatFromColumns(locale: unknown, hourCycle: unknown): TimeFormat {
+  const format: TimeFormat = {};
+  if (typeof locale === 'string' && locale) format.locale = locale;
+  if (isHourCycle(hourCycle)) format.hourCycle = hourCycle;
+  return format;
+}
+
+/**
+ * The hour cycle a format shows: its own, or else its locale's.
+ */
+export function resolvedHourCycle(format: TimeFormat = {}): HourCycle {
+  if (format.hourCycle) return format.hourCycle;
+  try {
+    const { hour12 } = new Intl.DateTimeFormat(format.locale ?? DEFAULT_LOCALE, { hour: 'numeric' })
+      .resolvedOptions();
+    return hour12 ? 'h12' : 'h23';
+  } catch {
+    return 'h23';
+  }
+}
+
+// Formats in the given zone and locale, falling back to UTC and the default
+// locale if either is not understood
+function formatParts(
+  date: Date,
+  timezone: string | undefined,
+  format: TimeFormat,
+  options: Intl.DateTimeFormatOptions
+): string {
+  const withHour = options.hour !== undefined;
+  const cycle = withHour ? resolvedHourCycle(format) : undefined;
+  const resolved: Intl.DateTimeFormatOptions = withHour
+    ? { ...options, hour: cycle === 'h12' ? 'numeric' : '2-digit', hourCycle: cycle }
+    : options;
+
+  try {
+    return new Intl.DateTimeFormat(format.locale ?? DEFAULT_LOCALE, {
+      ...resolved,
+      timeZone: timezone || 'UTC',
+    }).format(date);
+  } catch {
+    return new Intl.DateTimeFormat(DEFAULT_LOCALE, { ...resolved, timeZone: 'UTC' }).format(date);
+  }
+}
+
+/** e.g. "Monday 15 January 2024" */
+export function formatDate(date: Date, timezone?: string, format: TimeFormat = {}): string {
+  return formatParts(date, timezone, format, {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+/** e.g. "15:00 CET", or "3:00 pm CET" on a 12-hour clock */
+export function formatTime(date: Date, timezone?: string, format: TimeFormat = {}): string {
+  return formatParts(date, timezone, format, {
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+}
+
+/** e.g. "15:00 CET – 15:30 CET" */
+export function formatTimeRange(
+  start: Date,
+  end: Date,
+  timezone?: string,
+  format: TimeFormat = {}
+): string {
+  return `${formatTime(start, timezone, format)} – ${formatTime(end, timezone, format)}`;
+}
@@ -0,0 +1,126 @@
+/**
+ * Timezone helpers shared by slot generation and the route handlers.
+ * Mirrors frontend/src/utils/timezone.ts so both sides agree on the maths.
+ */
+
+/**
+ * Returns true if the string is an IANA timezone name this runtime understands.
+ */
+export function isValidTimezone(tz: string): boolean {
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the wall-clock components of a UTC instant in the given timezone.
+ */
+function wallClockParts(date: Date, timezone: string) {
+  const fmt = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hour12: false,
+  });
+
+  const parts = fmt.formatToParts(date);
+  const get = (type: string) =>
+    parseInt(parts.find((p) => p.type === type)?.value ?? '0');
+
+  let hour = get('hour');
+  if (hour === 24) hour = 0; // midnight edge case from some Intl implementations
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour,
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/**
+ * Convert a wall-clock time in an IANA timezone to a UTC Date.
+ *
+ * The UTC offset is computed for the specific calendar date, so DST
+ * transitions are handled: "09:00 Europe/London" is 09:00 UTC in winter
+ * and 08:00 UTC in summer.
+ *
+ * @param dateStr  - Calendar date as "YYYY-MM-DD"
+ * @param timeStr  - Wall-clock time as "HH:MM"
+ * @param timezone - IANA timezone name (e.g. "Europe/London")
+ */
+export function wallClockToUtc(dateStr: string, timeStr: string, timezone: string): Date {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const [hour, minute] = timeStr.split(':').map(Number);
+  return fromWallClock(new Date(Date.UTC(year, month - 1, day, hour, minute, 0)), timezone);
+}
+
+/**
+ * Convert a wall-clock time, given as a Date whose UTC fields hold the local
+ * time, to the instant it names in an IANA timezone.
+ */
+export function fromWallClock(wall: Date, timezone: string): Date {
+  // Treat the wall-clock time as UTC, then correct by the zone's offset at that instant
+  const local = wallClockParts(wall, timezone);
+  const localAsUtcMs = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second
+  );
+
+  const offsetMs = wall.getTime() - localAsUtcMs;
+  return new Date(wall.getTime() + offsetMs);
+}
+
+/**
+ * The wall-clock time of a UTC instant in an IANA timezone, as a Date whose
+ * UTC fields hold the local time. The inverse of fromWallClock.
+ */
+export function toWallClock(date: Date, timezone: string): Date {
+  const local = wallClockParts(date, timezone);
+  return new Date(Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second
+  ));
+}
+
+/**
+ * Format a UTC instant as the "YYYY-MM-DD" calendar date in the given timezone.
+ */
+export function toDateStrInTimezone(date: Date, timezone: string): string {
+  const { year, month, day } = wallClockParts(date, timezone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Add a number of calendar days to a "YYYY-MM-DD" date string.
+ */
+export function addDays(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const d = new Date(Date.UTC(year, month - 1, day + days));
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Day of the week for a "YYYY-MM-DD" date string (0 = Sunday, 6 = Saturday).
+ */
+export function dayOfWeek(dateStr: string): number {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
@@ -0,0 +1,76 @@
+/*
+ * CalAnywhere booking widget loader.
+ *
+ *   <div data-calanywhere="your-page-slug" data-accent="#2563eb"></div>
+ *   <script src="https://calanywhere.example/embed.js" async></script>
+ *
+ * Each element with data-calanywhere gets an iframe of that booking page,
+ * which grows to fit its content. Optional data-accent, data-background,
+ * data-card and data-text set the widget's colours (six-digit hex), and
+ * data-timezone (an IANA name) the timezone times are first shown in. When a
+ * visitor sends a request, the element fires a bubbling
+ * "calanywhere:booking-requested" event whose detail holds the slug and the
+ * requested start and end times.
+ *
+ * The page owner must allow embedding, and list this site, in the page's
+ * settings.
+ */
+(function () {
+  "use strict";
+
+  var script = document.currentScript;
+  if (!script) return;
+  var origin = new URL(script.src).origin;
+  var THEME = ["accent", "background", "card", "text"];
+
+  function mount(el) {
+    if (el.getAttribute("data-calanywhere-mounted")) return;
+    var slug = el.getAttribute("data-calanywhere");
+    if (!slug) return;
+    el.setAttribute("data-calanywhere-mounted", "true");
+
+    var params = new URLSearchParams();
+    THEME.forEach(function (name) {
+      var value = el.getAttribute("data-" + name);
+      if (value) params.set(name, value.replace(/^#/, ""));
+    });
+    var timezone = el.getAttribute("data-timezone");
+    if (timezone) params.set("tz", timezone);
+    var query = params.toString();
+
+    var iframe = document.createElement("iframe");
+    iframe.src = origin + "/embed/" + encodeURIComponent(slug) + (query ? "?" + query : "");
+    iframe.title = el.getAttribute("data-title") || "Book an appointment";
+    iframe.loading = "lazy";
+    iframe.style.width = "100%";
+    iframe.style.height = "720px";
+    iframe.style.border = "0";
+    iframe.style.display = "block";
+    el.appendChild(iframe);
+
+    window.addEventListener("message", function (event) {
+      if (event.origin !== origin || event.source !== iframe.contentWindow) return;
+      var data = event.data || {};
+      if (data.type === "calanywhere:resize" && typeof data.height === "number") {
+        iframe.style.height = data.height + "px";
+      } else if (data.type === "calanywhere:booking-requested") {
+        el.dispatchEvent(
+          new CustomEvent("calanywhere:booking-requested", {
+            bubbles: true,
+            detail: { slug: data.slug, start: data.start, end: data.end }
+          })
+        );
+      }
+    });
+  }
+
+  function mountAll() {
+    Array.prototype.forEach.call(document.querySelectorAll("[data-calanywhere]"), mount);
+  }
+
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", mountAll);
+  } else {
+    mountAll();
+  }
+})();
@@ -1,6 +1,7 @@
 import { Routes, Route, useLocation } from "react-router-dom";
 import { HomePage } from "./pages/HomePage";
 import { SchedulingPage } from "./pages/SchedulingPage";
+import { ManageBookingPage } from "./pages/ManageBookingPage";
 import { SignupPage } from "./pages/SignupPage";
 import { SigninPage } from "./pages/SigninPage";
 import { RecoverPage } from "./pages/RecoverPage";
@@ -8,20 +9,28 @@ import { DashboardPage } from "./pages/DashboardPage";
 import { CreatePagePage } from "./pages/CreatePagePage";
 import { EditPagePage } from "./pages/EditPagePage";
 import { RequestsPage } from "./pages/RequestsPage";
+import { DateOverridesPage } from "./pages/DateOverridesPage";
+import { MeetingTypesPage } from "./pages/MeetingTypesPage";
+import { WebhooksPage } from "./pages/WebhooksPage";
+import { ApiTokensPage } from "./pages/ApiTokensPage";
+import { PreferencesPage } from "./pages/PreferencesPage";
 import { NotFoundPage } from "./pages/NotFoundPage";
 import { AdminLoginPage } from "./pages/AdminLoginPage";
 import { AdminDashboardPage } from "./pages/AdminDashboardPage";
 import { NavBar } from "./components/NavBar";
 import { ProtectedRoute } from "./components/ProtectedRoute";
+import { useTranslation } from "./contexts/LanguageContext";
 
 export default function App() {
   const { pathname } = useLocation();
-  const hideNav = pathname.startsWith("/s/") || pathname.startsWith("/admin");
+  const { t } = useTranslation();
+  const hideNav =
+    pathname.startsWith("/s/") || pathname.startsWith("/embed/") || pathname.startsWith("/admin");
 
   return (
     <div className="min-h-screen bg-surface-base text-content">
       <a href="#main-content" className="skip-link">
-        Skip to main content
+        {t("app.skipToContent")}
       </a>
       {!hideNav && <NavBar />}
       <Routes>
@@ -61,7 +70,49 @@ export default function App() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/dashboard/pages/:id/dates"
+          element={
+            <ProtectedRoute>
+              <DateOverridesPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/dashboard/pages/:id/meeting-types"
+          element={
+            <ProtectedRoute>
+              <MeetingTypesPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/dashboard/webhooks"
+          element={
+            <ProtectedRoute>
+              <WebhooksPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/dashboard/tokens"
+          element={
+            <ProtectedRoute>
+              <ApiTokensPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/dashboard/preferences"
+          element={
+            <ProtectedRoute>
+              <PreferencesPage />
+            </ProtectedRoute>
+          }
+        />
         <Route path="/s/:slug" element={<SchedulingPage />} />
+        <Route path="/s/:slug/manage/:token" element={<ManageBookingPage />} />
+        <Route path="/embed/:slug" element={<SchedulingPage embedded />} />
         <Route path="/admin/login" element={<AdminLoginPage />} />
         <Route path="/admin" element={<AdminDashboardPage />} />
         <Route path="*" element={<NotFoundPage />} />
@@ -0,0 +1,54 @@
+import { buildTimeRows } from "../components/WeekView";
+import type { WeekDayData } from "../components/WeekView";
+
+function day(...starts: [number, number][]): WeekDayData {
+  return {
+    date: new Date(2026, 2, 2),
+    dateStr: "2026-03-02",
+    slots: starts.map(([h, m]) => ({
+      start: new Date(2026, 2, 2, h, m),
+      end: new Date(2026, 2, 2, h, m + 45),
+    })),
+  };
+}
+
+const labels = (rows: { label: string }[]) => rows.map((r) => r.label);
+
+describe("buildTimeRows", () => {
+  it("keeps rows for meetings that run past the hour they start in", () => {
+    expect(labels(buildTimeRows([], 9, 12, 45, 45))).toEqual([
+      "09:00",
+      "09:45",
+      "10:30",
+      "11:15",
+    ]);
+  });
+
+  it("steps rows by the start increment rather than the duration", () => {
+    expect(labels(buildTimeRows([], 9, 11, 45, 15))).toEqual([
+      "09:00",
+      "09:15",
+      "09:30",
+      "09:45",
+      "10:00",
+      "10:15",
+    ]);
+  });
+
+  it("adds rows for slots off the grid without duplicating the rest", () => {
+    const rows = buildTimeRows([day([9, 0], [10, 50])], 9, 12, 60, 60);
+    expect(labels(rows)).toEqual(["09:00", "10:00", "10:50", "11:00"]);
+  });
+
+  it("places slots by their time in the given timezone", () => {
+    const slot = {
+      start: new Date("2026-03-02T14:00:00Z"),
+      end: new Date("2026-03-02T14:45:00Z"),
+    };
+    const week = [{ date: new Date(2026, 2, 2), dateStr: "2026-03-02", slots: [slot] }];
+    expect(labels(buildTimeRows(week, 19, 20, 60, 60, "Asia/Kolkata"))).toEqual([
+      "19:00",
+      "19:30",
+    ]);
+  });
+});
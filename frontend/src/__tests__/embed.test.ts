@@ -0,0 +1,20 @@
+import { embedThemeVariables } from "../utils/embed";
+
+describe("embedThemeVariables", () => {
+  it("turns hex colours into the theme's rgb variables", () => {
+    const vars = embedThemeVariables(new URLSearchParams("accent=2563eb&background=%23ffffff"));
+    expect(vars).toEqual({
+      "--color-accent": "37 99 235",
+      "--color-accent-hover": "37 99 235",
+      "--color-accent-text": "37 99 235",
+      "--color-surface-base": "255 255 255",
+    });
+  });
+
+  it("ignores anything that is not a six-digit hex colour", () => {
+    const vars = embedThemeVariables(
+      new URLSearchParams("accent=red&text=fff&card=12345g&unknown=000000")
+    );
+    expect(vars).toEqual({});
+  });
+});
@@ -0,0 +1,43 @@
+import { interpolate, negotiateLanguage, translate } from "../i18n";
+import { en, type MessageKey } from "../i18n/en";
+import { de } from "../i18n/de";
+import { fr } from "../i18n/fr";
+
+describe("catalogues", () => {
+  it("keep the placeholders of the English message", () => {
+    const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort();
+    for (const key of Object.keys(en) as MessageKey[]) {
+      expect([key, placeholders(de[key])]).toEqual([key, placeholders(en[key])]);
+      expect([key, placeholders(fr[key])]).toEqual([key, placeholders(en[key])]);
+    }
+  });
+});
+
+describe("negotiateLanguage", () => {
+  it("picks the first of the browser's languages we have", () => {
+    expect(negotiateLanguage(["es-ES", "fr-CA", "en"])).toBe("fr");
+    expect(negotiateLanguage(["de-AT"])).toBe("de");
+  });
+
+  it("falls back to English", () => {
+    expect(negotiateLanguage(["pt-BR"])).toBe("en");
+    expect(negotiateLanguage([])).toBe("en");
+  });
+});
+
+describe("translate", () => {
+  it("fills in placeholders", () => {
+    expect(translate("de", "booking.title", { owner: "Ada" })).toBe("Termin bei Ada");
+    expect(translate("en", "booking.minutes", { count: 30 })).toBe("30 min");
+  });
+});
+
+describe("interpolate", () => {
+  it("puts params of any kind in their place", () => {
+    const link = { href: "/s/ada" };
+    expect(interpolate("{link} to request an appointment.", { link })).toEqual([
+      link,
+      " to request an appointment.",
+    ]);
+  });
+});
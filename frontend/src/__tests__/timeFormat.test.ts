@@ -0,0 +1,50 @@
+import {
+  formatClock,
+  formatDateTime,
+  formatForLanguage,
+  resolvedHourCycle,
+} from "../utils/timeFormat";
+
+describe("formatClock", () => {
+  it("follows the hour cycle over the locale", () => {
+    expect(formatClock(15, 5, { locale: "en-US", hourCycle: "h23" })).toBe("15:05");
+    expect(formatClock(15, 5, { locale: "en-GB", hourCycle: "h12" })).toBe("3:05 pm");
+  });
+
+  it("shows midnight as 00 on a 24-hour clock", () => {
+    expect(formatClock(0, 30, { locale: "en-US", hourCycle: "h23" })).toBe("00:30");
+  });
+});
+
+describe("formatDateTime", () => {
+  it("orders dates by the locale", () => {
+    const date = new Date(Date.UTC(2024, 0, 15, 12));
+    const options = { day: "numeric", month: "long", timeZone: "UTC" } as const;
+    expect(formatDateTime(date, options, { locale: "en-US", hourCycle: null })).toBe("January 15");
+    expect(formatDateTime(date, options, { locale: "en-GB", hourCycle: null })).toBe("15 January");
+  });
+});
+
+describe("resolvedHourCycle", () => {
+  it("falls back to the locale's convention", () => {
+    expect(resolvedHourCycle({ locale: "en-US", hourCycle: null })).toBe("h12");
+    expect(resolvedHourCycle({ locale: "de-DE", hourCycle: null })).toBe("h23");
+  });
+});
+
+describe("formatForLanguage", () => {
+  const browser = { locale: null, hourCycle: null };
+
+  it("keeps the browser's locale when it speaks the language", () => {
+    expect(formatForLanguage(browser, "de", "de-AT")).toEqual(browser);
+  });
+
+  it("writes dates in the language when the browser speaks another", () => {
+    expect(formatForLanguage(browser, "fr", "en-US")).toEqual({ locale: "fr", hourCycle: null });
+  });
+
+  it("keeps a chosen locale", () => {
+    const chosen = { locale: "en-GB", hourCycle: "h12" } as const;
+    expect(formatForLanguage(chosen, "de", "en-US")).toEqual(chosen);
+  });
+});
@@ -0,0 +1,42 @@
+const DAY_OPTIONS = [1, 2, 3, 4, 5, 6, 8, 10];
+const WEEK_OPTIONS = [1, 2, 3, 5, 10, 15, 20, 25, 30];
+
+interface BookingLimitSelectProps {
+  id: string;
+  period: "day" | "week";
+  value: number | null; // null = no limit
+  onChange: (value: number | null) => void;
+  className?: string;
+}
+
+/** Picks the most meetings that can be booked per day or per week. */
+export function BookingLimitSelect({
+  id,
+  period,
+  value,
+  onChange,
+  className,
+}: BookingLimitSelectProps) {
+  const options = period === "day" ? DAY_OPTIONS : WEEK_OPTIONS;
+  // Keep a limit set elsewhere selectable
+  const shown =
+    value === null || options.includes(value)
+      ? options
+      : [...options, value].sort((a, b) => a - b);
+
+  return (
+    <select
+      id={id}
+      value={value ?? ""}
+      onChange={(e) => onChange(e.target.value === "" ? null : Number(e.target.value))}
+      className={className}
+    >
+      <option value="">No limit</option>
+      {shown.map((n) => (
+        <option key={n} value={n}>
+          {n === 1 ? `1 meeting a ${period}` : `${n} meetings a ${period}`}
+        </option>
+      ))}
+    </select>
+  );
+}
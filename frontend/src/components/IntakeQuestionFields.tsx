@@ -0,0 +1,111 @@
+import type { IntakeQuestionType } from "../services/dashboard";
+import { useTranslation } from "../contexts/LanguageContext";
+
+/** A question as the public page API returns it. */
+export interface IntakeQuestionData {
+  id: string;
+  label: string;
+  type: IntakeQuestionType;
+  required: boolean;
+  options?: string[];
+}
+
+/** Answers keyed by question id; several for multiple choice. */
+export type IntakeAnswers = Record<string, string | string[]>;
+
+interface IntakeQuestionFieldsProps {
+  questions: IntakeQuestionData[];
+  answers: IntakeAnswers;
+  onChange: (answers: IntakeAnswers) => void;
+}
+
+/** The owner's own questions on the booking form. */
+export function IntakeQuestionFields({ questions, answers, onChange }: IntakeQuestionFieldsProps) {
+  const { t } = useTranslation();
+  const set = (id: string, value: string | string[]) => onChange({ ...answers, [id]: value });
+
+  return (
+    <>
+      {questions.map((q) => {
+        const fieldId = `question-${q.id}`;
+        const labelClass = `label text-xs${q.required ? " required-indicator" : ""}`;
+        const optional = !q.required && (
+          <span className="font-normal text-content-subtle"> {t("form.optional")}</span>
+        );
+        const text = typeof answers[q.id] === "string" ? (answers[q.id] as string) : "";
+
+        if (q.type === "single_choice" || q.type === "multiple_choice") {
+          const chosen = Array.isArray(answers[q.id]) ? (answers[q.id] as string[]) : [];
+          const multiple = q.type === "multiple_choice";
+          return (
+            <fieldset key={q.id}>
+              <legend className={labelClass}>
+                {q.label}
+                {optional}
+              </legend>
+              <div className="mt-1 space-y-1">
+                {q.options?.map((option, i) => (
+                  <div key={option} className="flex items-center gap-2">
+                    <input
+                      id={`${fieldId}-${i}`}
+                      type={multiple ? "checkbox" : "radio"}
+                      name={fieldId}
+                      value={option}
+                      required={!multiple && q.required}
+                      checked={multiple ? chosen.includes(option) : text === option}
+                      onChange={(e) =>
+                        multiple
+                          ? set(
+                              q.id,
+                              e.target.checked
+                                ? [...chosen, option]
+                                : chosen.filter((c) => c !== option)
+                            )
+                          : set(q.id, option)
+                      }
+                      className={multiple ? "checkbox" : "checkbox rounded-full"}
+                    />
+                    <label htmlFor={`${fieldId}-${i}`} className="text-sm text-content">
+                      {option}
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </fieldset>
+          );
+        }
+
+        return (
+          <div key={q.id}>
+            <label htmlFor={fieldId} className={labelClass}>
+              {q.label}
+              {optional}
+            </label>
+            {q.type === "long_text" ? (
+              <textarea
+                id={fieldId}
+                required={q.required}
+                maxLength={2000}
+                rows={3}
+                value={text}
+                onChange={(e) => set(q.id, e.target.value)}
+                className="input-dark mt-1"
+              />
+            ) : (
+              <input
+                id={fieldId}
+                type={q.type === "phone" ? "tel" : "text"}
+                required={q.required}
+                maxLength={q.type === "phone" ? 30 : 200}
+                autoComplete={q.type === "phone" ? "tel" : undefined}
+                value={text}
+                onChange={(e) => set(q.id, e.target.value)}
+                className="input-dark mt-1"
+              />
+            )}
+          </div>
+        );
+      })}
+    </>
+  );
+}
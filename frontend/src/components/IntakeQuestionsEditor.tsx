@@ -0,0 +1,180 @@
+import type { IntakeQuestion, IntakeQuestionType } from "../services/dashboard";
+
+export const MAX_INTAKE_QUESTIONS = 10;
+
+const TYPE_LABELS: Record<IntakeQuestionType, string> = {
+  short_text: "Short answer",
+  long_text: "Paragraph",
+  phone: "Phone number",
+  single_choice: "One choice",
+  multiple_choice: "Several choices",
+};
+
+const isChoice = (type: IntakeQuestionType) =>
+  type === "single_choice" || type === "multiple_choice";
+
+/**
+ * Problem with the questions, if any. Options are edited one per line, so
+ * blank lines are ignored here and dropped when saving.
+ */
+export function intakeQuestionsError(questions: IntakeQuestion[]): string | null {
+  for (const [i, q] of questions.entries()) {
+    if (!q.label.trim()) return `Question ${i + 1} needs a label.`;
+    if (isChoice(q.type) && (q.options ?? []).filter((o) => o.trim()).length < 2) {
+      return `Question ${i + 1} needs at least two options.`;
+    }
+  }
+  return null;
+}
+
+/** The questions as the API expects them: trimmed, with options only on choices. */
+export function cleanIntakeQuestions(questions: IntakeQuestion[]): IntakeQuestion[] {
+  return questions.map((q) => ({
+    id: q.id,
+    label: q.label.trim(),
+    type: q.type,
+    required: q.required,
+    options: isChoice(q.type)
+      ? (q.options ?? []).map((o) => o.trim()).filter(Boolean)
+      : undefined,
+  }));
+}
+
+interface IntakeQuestionsEditorProps {
+  questions: IntakeQuestion[];
+  onChange: (questions: IntakeQuestion[]) => void;
+}
+
+/** Adds, edits, orders and removes the questions on a page's booking form. */
+export function IntakeQuestionsEditor({ questions, onChange }: IntakeQuestionsEditorProps) {
+  const update = (index: number, patch: Partial<IntakeQuestion>) =>
+    onChange(questions.map((q, i) => (i === index ? { ...q, ...patch } : q)));
+
+  const move = (index: number, by: -1 | 1) => {
+    const next = [...questions];
+    [next[index], next[index + by]] = [next[index + by], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      {questions.map((q, i) => (
+        <fieldset key={q.id ?? `new-${i}`} className="rounded-input border border-border p-4">
+          <legend className="px-1 text-xs font-semibold text-content-muted">
+            Question {i + 1}
+          </legend>
+
+          <div className="grid gap-3 sm:grid-cols-[1fr,auto]">
+            <div>
+              <label htmlFor={`question-label-${i}`} className="label text-xs">
+                Question
+              </label>
+              <input
+                id={`question-label-${i}`}
+                type="text"
+                maxLength={200}
+                value={q.label}
+                onChange={(e) => update(i, { label: e.target.value })}
+                placeholder="e.g. Company name"
+                className="input mt-1"
+              />
+            </div>
+            <div>
+              <label htmlFor={`question-type-${i}`} className="label text-xs">
+                Answer type
+              </label>
+              <select
+                id={`question-type-${i}`}
+                value={q.type}
+                onChange={(e) => {
+                  const type = e.target.value as IntakeQuestionType;
+                  update(i, { type, options: isChoice(type) ? q.options ?? ["", ""] : undefined });
+                }}
+                className="input mt-1"
+              >
+                {Object.entries(TYPE_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {isChoice(q.type) && (
+            <div className="mt-3">
+              <label htmlFor={`question-options-${i}`} className="label text-xs">
+                Options
+              </label>
+              <textarea
+                id={`question-options-${i}`}
+                rows={3}
+                value={(q.options ?? []).join("\n")}
+                onChange={(e) => update(i, { options: e.target.value.split("\n") })}
+                className="input mt-1"
+                aria-describedby={`question-options-hint-${i}`}
+              />
+              <p id={`question-options-hint-${i}`} className="label-hint">
+                One per line, from 2 to 10.
+              </p>
+            </div>
+          )}
+
+          <div className="mt-3 flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <input
+                id={`question-required-${i}`}
+                type="checkbox"
+                checked={q.required}
+                onChange={(e) => update(i, { required: e.target.checked })}
+                className="checkbox"
+              />
+              <label htmlFor={`question-required-${i}`} className="text-sm text-content">
+                Required
+              </label>
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => move(i, -1)}
+                disabled={i === 0}
+                className="btn-ghost text-xs"
+                aria-label={`Move question ${i + 1} up`}
+              >
+                &uarr;
+              </button>
+              <button
+                type="button"
+                onClick={() => move(i, 1)}
+                disabled={i === questions.length - 1}
+                className="btn-ghost text-xs"
+                aria-label={`Move question ${i + 1} down`}
+              >
+                &darr;
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(questions.filter((_, j) => j !== i))}
+                className="text-xs text-red-400 hover:text-red-300"
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+        </fieldset>
+      ))}
+
+      {questions.length < MAX_INTAKE_QUESTIONS && (
+        <button
+          type="button"
+          onClick={() =>
+            onChange([...questions, { label: "", type: "short_text", required: false }])
+          }
+          className="btn-secondary"
+        >
+          + Add question
+        </button>
+      )}
+    </div>
+  );
+}
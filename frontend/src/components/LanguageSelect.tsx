@@ -0,0 +1,26 @@
+import { LANGUAGES, LANGUAGE_NAMES, type Language } from "../i18n";
+import { useTranslation } from "../contexts/LanguageContext";
+
+interface LanguageSelectProps {
+  className?: string;
+}
+
+/** Picks the language the app is shown in, saved like the other preferences. */
+export function LanguageSelect({ className }: LanguageSelectProps) {
+  const { language, setLanguage, t } = useTranslation();
+
+  return (
+    <select
+      value={language}
+      onChange={(e) => void setLanguage(e.target.value as Language)}
+      className={className}
+      aria-label={t("language.label")}
+    >
+      {LANGUAGES.map((code) => (
+        <option key={code} value={code} lang={code}>
+          {LANGUAGE_NAMES[code]}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -1,4 +1,7 @@
 import { toDateStr } from "../utils/date";
+import { formatDateTime, type TimeFormat } from "../utils/timeFormat";
+import { useTimeFormat } from "../contexts/TimeFormatContext";
+import { useTranslation } from "../contexts/LanguageContext";
 
 interface MiniCalendarProps {
   displayMonth: Date;
@@ -7,16 +10,23 @@ interface MiniCalendarProps {
   onSelectDate: (dateStr: string) => void;
   onPrevMonth: () => void;
   onNextMonth: () => void;
+  /** Last day of a selected range starting at `selectedDate`. */
+  selectedEndDate?: string | null;
+  /** Lets dates without a dot be picked too. */
+  isSelectable?: (dateStr: string) => boolean;
+  /** What a dot means, for screen readers; by default, that there are free slots. */
+  markedLabel?: string;
 }
 
-const DAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+// Weekday headings, Monday first; 1 January 2024 was a Monday
+function dayLabels(format: TimeFormat): string[] {
+  return Array.from({ length: 7 }, (_, i) =>
+    formatDateTime(new Date(2024, 0, 1 + i), { weekday: "short" }, format)
+  );
+}
 
-function toReadableDate(d: Date): string {
-  return d.toLocaleDateString(undefined, {
-    weekday: "long",
-    month: "long",
-    day: "numeric"
-  });
+function toReadableDate(d: Date, format: TimeFormat): string {
+  return formatDateTime(d, { weekday: "long", month: "long", day: "numeric" }, format);
 }
 
 export function MiniCalendar({
@@ -25,8 +35,14 @@ export function MiniCalendar({
   selectedDate,
   onSelectDate,
   onPrevMonth,
-  onNextMonth
+  onNextMonth,
+  selectedEndDate = null,
+  isSelectable,
+  markedLabel
 }: MiniCalendarProps) {
+  const { timeFormat } = useTimeFormat();
+  const { t } = useTranslation();
+  const dotLabel = markedLabel ?? t("calendar.hasSlots");
   const year = displayMonth.getFullYear();
   const month = displayMonth.getMonth();
 
@@ -61,10 +77,7 @@ export function MiniCalendar({
     });
   }
 
-  const monthLabel = displayMonth.toLocaleDateString(undefined, {
-    month: "long",
-    year: "numeric"
-  });
+  const monthLabel = formatDateTime(displayMonth, { month: "long", year: "numeric" }, timeFormat);
 
   return (
     <div className="select-none" role="group" aria-label={monthLabel}>
@@ -73,7 +86,7 @@ export function MiniCalendar({
           type="button"
           onClick={onPrevMonth}
           className="week-nav-btn"
-          aria-label="Previous month"
+          aria-label={t("calendar.prevMonth")}
         >
           ‹
         </button>
@@ -82,14 +95,14 @@ export function MiniCalendar({
           type="button"
           onClick={onNextMonth}
           className="week-nav-btn"
-          aria-label="Next month"
+          aria-label={t("calendar.nextMonth")}
         >
           ›
         </button>
       </div>
 
       <div className="grid grid-cols-7 gap-0.5">
-        {DAY_LABELS.map((d) => (
+        {dayLabels(timeFormat).map((d) => (
           <div
             key={d}
             className="flex h-9 items-center justify-center text-xs font-medium uppercase tracking-wider text-content-muted"
@@ -100,8 +113,14 @@ export function MiniCalendar({
 
         {cells.map(({ date, inMonth }, i) => {
           const dateStr = toDateStr(date);
-          const isSelected = selectedDate === dateStr;
+          const isSelected = selectedDate === dateStr || selectedEndDate === dateStr;
+          const inRange =
+            selectedDate !== null &&
+            selectedEndDate !== null &&
+            dateStr > selectedDate &&
+            dateStr < selectedEndDate;
           const hasSlots = availableDates.has(dateStr);
+          const canSelect = hasSlots || (isSelectable?.(dateStr) ?? false);
 
           if (!inMonth) {
             return (
@@ -118,7 +137,7 @@ export function MiniCalendar({
                   type="button"
                   onClick={() => onSelectDate(dateStr)}
                   className="mini-cal-selected"
-                  aria-label={`${toReadableDate(date)}, selected`}
+                  aria-label={t("calendar.selected", { date: toReadableDate(date, timeFormat) })}
                 >
                   {date.getDate()}
                 </button>
@@ -127,18 +146,34 @@ export function MiniCalendar({
             );
           }
 
-          if (hasSlots) {
+          if (inRange) {
+            return (
+              <div key={i} className="flex flex-col items-center">
+                <button
+                  type="button"
+                  onClick={() => onSelectDate(dateStr)}
+                  className="mini-cal-in-range"
+                  aria-label={t("calendar.selected", { date: toReadableDate(date, timeFormat) })}
+                >
+                  {date.getDate()}
+                </button>
+                {hasSlots && <div className="mini-cal-dot" />}
+              </div>
+            );
+          }
+
+          if (canSelect) {
             return (
               <div key={i} className="flex flex-col items-center">
                 <button
                   type="button"
                   onClick={() => onSelectDate(dateStr)}
                   className="mini-cal-available"
-                  aria-label={`${toReadableDate(date)}, has available slots`}
+                  aria-label={hasSlots ? `${toReadableDate(date, timeFormat)}, ${dotLabel}` : toReadableDate(date, timeFormat)}
                 >
                   {date.getDate()}
                 </button>
-                <div className="mini-cal-dot" />
+                {hasSlots && <div className="mini-cal-dot" />}
               </div>
             );
           }
@@ -1,15 +1,18 @@
 import { Link } from "react-router-dom";
 import { useAuth } from "../contexts/AuthContext";
 import { useConfig } from "../contexts/ConfigContext";
+import { useTranslation } from "../contexts/LanguageContext";
+import { LanguageSelect } from "./LanguageSelect";
 
 export function NavBar() {
   const { session, isLoading, isAuthenticated, logout } = useAuth();
   const { signupsEnabled } = useConfig();
+  const { t } = useTranslation();
 
   return (
     <nav
       className="border-b border-border-muted bg-surface-elevated/60"
-      aria-label="Main navigation"
+      aria-label={t("nav.label")}
     >
       <div className="mx-auto flex max-w-3xl items-center justify-between px-4 py-3">
         <Link
@@ -26,6 +29,7 @@ export function NavBar() {
         </Link>
 
         <div className="flex items-center gap-3">
+          <LanguageSelect className="bg-transparent text-sm text-content-muted hover:text-content" />
           {isLoading ? (
             <span className="text-xs text-content-muted">...</span>
           ) : isAuthenticated && session ? (
@@ -33,7 +37,7 @@ export function NavBar() {
               <span
                 className="emoji-spaced text-lg"
                 role="img"
-                aria-label={`Signed in as ${session.emojiId}`}
+                aria-label={t("nav.signedInAs", { emoji: session.emojiId })}
               >
                 {session.emojiId}
               </span>
@@ -42,7 +46,7 @@ export function NavBar() {
                 onClick={logout}
                 className="text-sm text-content-muted hover:text-content"
               >
-                Sign out
+                {t("nav.signOut")}
               </button>
             </>
           ) : (
@@ -51,11 +55,11 @@ export function NavBar() {
                 to="/signin"
                 className="text-sm text-content-muted hover:text-content"
               >
-                Sign in
+                {t("nav.signIn")}
               </Link>
               {signupsEnabled && (
                 <Link to="/signup" className="btn-primary !min-h-0 !py-1.5 text-sm">
-                  Sign up
+                  {t("nav.signUp")}
                 </Link>
               )}
             </>
@@ -0,0 +1,61 @@
+const OPTIONS = [10080, 1440, 120, 60, 15];
+const MAX_REMINDERS = 3;
+
+function offsetLabel(minutes: number): string {
+  if (minutes % 1440 === 0) {
+    const days = minutes / 1440;
+    return days === 7 ? "1 week before" : days === 1 ? "1 day before" : `${days} days before`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return hours === 1 ? "1 hour before" : `${hours} hours before`;
+  }
+  return `${minutes} minutes before`;
+}
+
+interface ReminderOffsetsPickerProps {
+  value: number[]; // minutes before the appointment
+  onChange: (value: number[]) => void;
+}
+
+/** Picks when reminder emails go out before an accepted appointment. */
+export function ReminderOffsetsPicker({ value, onChange }: ReminderOffsetsPickerProps) {
+  // Keep offsets set elsewhere selectable
+  const shown = [...new Set([...OPTIONS, ...value])].sort((a, b) => b - a);
+  const full = value.length >= MAX_REMINDERS;
+
+  const toggle = (minutes: number, checked: boolean) => {
+    const next = checked ? [...value, minutes] : value.filter((m) => m !== minutes);
+    onChange(next.sort((a, b) => b - a));
+  };
+
+  return (
+    <fieldset>
+      <legend className="label">Reminder emails</legend>
+      <div className="mt-2 grid gap-2 sm:grid-cols-2">
+        {shown.map((minutes) => {
+          const checked = value.includes(minutes);
+          return (
+            <div key={minutes} className="flex items-center gap-3">
+              <input
+                id={`reminder-${minutes}`}
+                type="checkbox"
+                checked={checked}
+                disabled={!checked && full}
+                onChange={(e) => toggle(minutes, e.target.checked)}
+                className="checkbox"
+              />
+              <label htmlFor={`reminder-${minutes}`} className="text-sm text-content">
+                {offsetLabel(minutes)}
+              </label>
+            </div>
+          );
+        })}
+      </div>
+      <p className="label-hint">
+        Up to {MAX_REMINDERS}. Sent to you and the requester before each accepted
+        appointment; yours go to the notification email.
+      </p>
+    </fieldset>
+  );
+}
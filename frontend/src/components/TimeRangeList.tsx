@@ -0,0 +1,113 @@
+import type { TimeRange } from "../services/dashboard";
+
+export const MAX_RANGES_PER_DAY = 6;
+
+/** Generate HH:MM options from 00:00 to 23:30 in 30-minute steps. */
+function timeOptions(): string[] {
+  const opts: string[] = [];
+  for (let h = 0; h < 24; h++) {
+    for (const m of [0, 30]) {
+      opts.push(`${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`);
+    }
+  }
+  return opts;
+}
+
+const TIME_OPTIONS = timeOptions();
+
+function addHour(time: string): string | null {
+  const [h, m] = time.split(":").map(Number);
+  if (h + 1 > 23) return null;
+  return `${String(h + 1).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+/** Problem with one day's ranges, if any. Ranges must be in start order. */
+export function timeRangesError(ranges: TimeRange[]): string | null {
+  if (ranges.some((r) => r.start >= r.end)) return "End time must be after start time.";
+  for (let i = 1; i < ranges.length; i++) {
+    if (ranges[i].start < ranges[i - 1].end) return "Time ranges must not overlap.";
+  }
+  return null;
+}
+
+interface TimeRangeListProps {
+  ranges: TimeRange[];
+  onChange: (ranges: TimeRange[]) => void;
+  /** Names the day in control labels, e.g. "Monday". */
+  label: string;
+}
+
+/**
+ * Editable list of one day's time ranges with a button to add the next
+ * hour. Shows "Unavailable" when there are none.
+ */
+export function TimeRangeList({ ranges, onChange, label }: TimeRangeListProps) {
+  const error = timeRangesError(ranges);
+  const last = ranges[ranges.length - 1];
+  const nextStart = last ? last.end : "09:00";
+  const nextEnd = last ? addHour(last.end) : "17:00";
+  const canAdd = ranges.length < MAX_RANGES_PER_DAY && nextEnd !== null;
+
+  const updateRange = (index: number, patch: Partial<TimeRange>) =>
+    onChange(ranges.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+  return (
+    <div className="flex-1 space-y-2">
+      {ranges.length === 0 && (
+        <p className="flex min-h-touch items-center text-sm text-content-subtle">
+          Unavailable
+        </p>
+      )}
+
+      {ranges.map((range, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <select
+            value={range.start}
+            onChange={(e) => updateRange(index, { start: e.target.value })}
+            className="input w-28"
+            aria-label={`${label} range ${index + 1} start`}
+          >
+            {TIME_OPTIONS.map((t) => (
+              <option key={t} value={t}>{t}</option>
+            ))}
+          </select>
+          <span className="text-sm text-content-muted" aria-hidden="true">–</span>
+          <select
+            value={range.end}
+            onChange={(e) => updateRange(index, { end: e.target.value })}
+            className="input w-28"
+            aria-label={`${label} range ${index + 1} end`}
+          >
+            {TIME_OPTIONS.map((t) => (
+              <option key={t} value={t}>{t}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => onChange(ranges.filter((_, i) => i !== index))}
+            className="btn-ghost text-xs"
+            aria-label={`Remove ${range.start}–${range.end} on ${label}`}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+
+      {ranges.length > 0 && canAdd && (
+        <button
+          type="button"
+          onClick={() => onChange([...ranges, { start: nextStart, end: nextEnd! }])}
+          className="btn-ghost text-sm"
+        >
+          + Add hours
+        </button>
+      )}
+
+      {error && (
+        <p className="text-xs text-error-text" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,8 @@
 import { Fragment, useState } from "react";
+import { detectTimezone, zonedTime } from "../utils/timezone";
+import { formatClock, formatDateRange, formatDateTime } from "../utils/timeFormat";
+import { useTimeFormat } from "../contexts/TimeFormatContext";
+import { useTranslation } from "../contexts/LanguageContext";
 
 export interface Slot {
   start: Date;
@@ -23,27 +27,56 @@ interface WeekViewProps {
   startHour: number;
   endHour: number;
   durationMinutes: number;
-  bufferMinutes: number;
+  slotIncrementMinutes: number | null; // null = back to back
+  timezone: string; // slots are placed by their time here
 }
 
-function formatWeekRange(start: Date, days: WeekDayData[]): string {
-  if (days.length === 0) return "";
-  const first = days[0].date;
-  const last = days[days.length - 1].date;
-  const opts: Intl.DateTimeFormatOptions = { month: "short", day: "numeric" };
-  if (first.getFullYear() !== last.getFullYear()) {
-    return `${first.toLocaleDateString(undefined, { ...opts, year: "numeric" })} – ${last.toLocaleDateString(undefined, { ...opts, year: "numeric" })}`;
-  }
-  if (first.getMonth() === last.getMonth()) {
-    return `${first.toLocaleDateString(undefined, { month: "short" })} ${first.getDate()} – ${last.getDate()}, ${first.getFullYear()}`;
-  }
-  return `${first.toLocaleDateString(undefined, opts)} – ${last.toLocaleDateString(undefined, opts)}, ${first.getFullYear()}`;
+interface TimeRow {
+  hour: number;
+  minute: number;
+  label: string;
 }
 
 function padTime(h: number, m: number): string {
   return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
 }
 
+/**
+ * Rows of the week grid: one every `incrementMinutes` from `startHour` for as
+ * long as a meeting fits before `endHour`, whether or not it runs into the
+ * next hour, plus a row for every slot that starts off that grid, e.g. at
+ * the start of a later range of hours or in a half-hour-offset timezone.
+ * Slot times are read in `timezone`.
+ */
+export function buildTimeRows(
+  weekDays: WeekDayData[],
+  startHour: number,
+  endHour: number,
+  durationMinutes: number,
+  incrementMinutes: number,
+  timezone: string = detectTimezone()
+): TimeRow[] {
+  const rows = new Map<string, TimeRow>();
+  const addRow = (hour: number, minute: number) => {
+    const label = padTime(hour, minute);
+    if (!rows.has(label)) rows.set(label, { hour, minute, label });
+  };
+
+  if (incrementMinutes > 0) {
+    for (let t = startHour * 60; t + durationMinutes <= endHour * 60; t += incrementMinutes) {
+      addRow(Math.floor(t / 60), t % 60);
+    }
+  }
+  for (const day of weekDays) {
+    for (const slot of day.slots) {
+      const { hour, minute } = zonedTime(slot.start, timezone);
+      addRow(hour, minute);
+    }
+  }
+
+  return [...rows.values()].sort((a, b) => a.label.localeCompare(b.label));
+}
+
 export function WeekView({
   weekStart: _weekStart,
   onPrevWeek,
@@ -56,25 +89,38 @@ export function WeekView({
   startHour,
   endHour,
   durationMinutes,
-  bufferMinutes
+  slotIncrementMinutes,
+  timezone
 }: WeekViewProps) {
-  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const { timeFormat } = useTimeFormat();
+  const { t } = useTranslation();
   const numCols = weekDays.length;
-  const slotInterval = durationMinutes + bufferMinutes;
+  const timeRows = buildTimeRows(
+    weekDays,
+    startHour,
+    endHour,
+    durationMinutes,
+    slotIncrementMinutes ?? durationMinutes,
+    timezone
+  );
 
-  // Build time rows
-  const timeRows: { hour: number; minute: number; label: string }[] = [];
-  for (let h = startHour; h < endHour; h++) {
-    for (let m = 0; m + durationMinutes <= 60 && h * 60 + m + durationMinutes <= endHour * 60; m += slotInterval) {
-      timeRows.push({ hour: h, minute: m, label: padTime(h, m) });
-    }
-  }
+  // Slots are matched to rows by "HH:MM" and shown in the reader's format
+  const slotKey = (slot: Slot) => {
+    const { hour, minute } = zonedTime(slot.start, timezone);
+    return padTime(hour, minute);
+  };
+  const timeLabel = (slot: Slot) => {
+    const { hour, minute } = zonedTime(slot.start, timezone);
+    return formatClock(hour, minute, timeFormat);
+  };
+  const formatDay = (d: Date, options: Intl.DateTimeFormatOptions) =>
+    formatDateTime(d, options, timeFormat);
 
   // Build a set of slot keys for quick lookup: "dateStr|HH:MM"
   const slotMap = new Map<string, Slot>();
   for (const day of weekDays) {
     for (const slot of day.slots) {
-      const key = `${day.dateStr}|${padTime(slot.start.getHours(), slot.start.getMinutes())}`;
+      const key = `${day.dateStr}|${slotKey(slot)}`;
       slotMap.set(key, slot);
     }
   }
@@ -110,11 +156,7 @@ export function WeekView({
   };
 
   const formatMobileDate = (d: Date) =>
-    d.toLocaleDateString(undefined, {
-      weekday: "long",
-      month: "short",
-      day: "numeric"
-    });
+    formatDay(d, { weekday: "long", month: "short", day: "numeric" });
 
   return (
     <div>
@@ -127,7 +169,7 @@ export function WeekView({
             onClick={handleMobilePrev}
             disabled={!canMobilePrev}
             className="week-nav-btn disabled:opacity-30"
-            aria-label="Previous day"
+            aria-label={t("week.prevDay")}
           >
             ‹
           </button>
@@ -142,16 +184,16 @@ export function WeekView({
             onClick={handleMobileNext}
             disabled={!canMobileNext}
             className="week-nav-btn disabled:opacity-30"
-            aria-label="Next day"
+            aria-label={t("week.nextDay")}
           >
             ›
           </button>
         </div>
 
         {/* Mobile day tabs — scroll horizontally through current week */}
-        <div className="mb-3 flex gap-1 overflow-x-auto pb-1" role="tablist" aria-label="Days of the week">
+        <div className="mb-3 flex gap-1 overflow-x-auto pb-1" role="tablist" aria-label={t("week.days")}>
           {weekDays.map((day, i) => {
-            const dow = day.date.toLocaleDateString(undefined, { weekday: "short" });
+            const dow = formatDay(day.date, { weekday: "short" });
             const isActive = i === mobileDayIndex;
             return (
               <button
@@ -180,30 +222,28 @@ export function WeekView({
           <div className="grid grid-cols-2 gap-2" role="tabpanel">
             {mobileDay.slots.map((slot) => {
               const sel = isSelected(slot);
-              const timeLabel = padTime(slot.start.getHours(), slot.start.getMinutes());
+              const label = timeLabel(slot);
               return (
                 <button
                   key={slot.start.toISOString()}
                   type="button"
                   onClick={() => onSelectSlot(slot)}
                   className={sel ? "slot-pill-selected" : "slot-pill-default"}
-                  aria-label={`${formatMobileDate(mobileDay.date)} at ${timeLabel}, available`}
+                  aria-label={t("week.slot", { date: formatMobileDate(mobileDay.date), time: label })}
                   aria-pressed={sel}
                 >
-                  {timeLabel}
+                  {label}
                 </button>
               );
             })}
           </div>
         ) : (
           <p className="py-6 text-center text-sm text-content-muted">
-            No available slots on this day.
+            {t("week.noSlots")}
           </p>
         )}
 
-        <p className="mt-3 text-xs text-content-subtle">
-          Only availability shown — event details remain private.
-        </p>
+        <p className="mt-3 text-xs text-content-subtle">{t("week.privacy")}</p>
       </div>
 
       {/* ===== DESKTOP: Week grid view (>= md) ===== */}
@@ -216,7 +256,7 @@ export function WeekView({
               onClick={onPrevWeek}
               disabled={!canGoPrev}
               className="week-nav-btn disabled:opacity-30"
-              aria-label="Previous week"
+              aria-label={t("week.prevWeek")}
             >
               ‹
             </button>
@@ -225,12 +265,18 @@ export function WeekView({
               onClick={onNextWeek}
               disabled={!canGoNext}
               className="week-nav-btn disabled:opacity-30"
-              aria-label="Next week"
+              aria-label={t("week.nextWeek")}
             >
               ›
             </button>
             <span className="ml-2 text-sm font-medium text-content">
-              {formatWeekRange(_weekStart, weekDays)}
+              {weekDays.length > 0 &&
+                formatDateRange(
+                  weekDays[0].date,
+                  weekDays[weekDays.length - 1].date,
+                  { month: "short", day: "numeric", year: "numeric" },
+                  timeFormat
+                )}
             </span>
           </div>
           <span className="text-xs text-content-subtle">{timezone}</span>
@@ -247,7 +293,7 @@ export function WeekView({
             {/* Column headers */}
             <div /> {/* Empty top-left corner */}
             {weekDays.map((day) => {
-              const dow = day.date.toLocaleDateString(undefined, { weekday: "short" }).toUpperCase();
+              const dow = formatDay(day.date, { weekday: "short" }).toUpperCase();
               const dayNum = day.date.getDate();
               return (
                 <div key={day.dateStr} className="week-header-cell pb-2">
@@ -258,50 +304,54 @@ export function WeekView({
             })}
 
             {/* Time rows */}
-            {timeRows.map((row) => (
-              <Fragment key={`row-${row.label}`}>
-                {/* Time label */}
-                <div
-                  className="week-time-label flex items-center justify-end"
-                >
-                  {row.label}
-                </div>
+            {timeRows.map((row) => {
+              const rowLabel = formatClock(row.hour, row.minute, timeFormat);
+              return (
+                <Fragment key={`row-${row.label}`}>
+                  {/* Time label */}
+                  <div
+                    className="week-time-label flex items-center justify-end"
+                  >
+                    {rowLabel}
+                  </div>
+
+                  {/* Day cells */}
+                  {weekDays.map((day) => {
+                    const key = `${day.dateStr}|${row.label}`;
+                    const slot = slotMap.get(key);
 
-                {/* Day cells */}
-                {weekDays.map((day) => {
-                  const key = `${day.dateStr}|${row.label}`;
-                  const slot = slotMap.get(key);
+                    if (slot) {
+                      const sel = isSelected(slot);
+                      return (
+                        <button
+                          key={key}
+                          type="button"
+                          onClick={() => onSelectSlot(slot)}
+                          className={sel ? "week-cell-selected" : "week-cell-available"}
+                          aria-label={t("week.slot", {
+                            date: formatDay(day.date, { weekday: "long", month: "long", day: "numeric" }),
+                            time: rowLabel,
+                          })}
+                          aria-pressed={sel}
+                        >
+                          {rowLabel}
+                        </button>
+                      );
+                    }
 
-                  if (slot) {
-                    const sel = isSelected(slot);
                     return (
-                      <button
-                        key={key}
-                        type="button"
-                        onClick={() => onSelectSlot(slot)}
-                        className={sel ? "week-cell-selected" : "week-cell-available"}
-                        aria-label={`${day.date.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })} at ${row.label}, available`}
-                        aria-pressed={sel}
-                      >
-                        {row.label}
-                      </button>
+                      <div key={key} className="week-cell-busy" role="img" aria-label={t("week.busy")}>
+                        <span aria-hidden="true">—</span>
+                      </div>
                     );
-                  }
-
-                  return (
-                    <div key={key} className="week-cell-busy" role="img" aria-label="Busy">
-                      <span aria-hidden="true">—</span>
-                    </div>
-                  );
-                })}
-              </Fragment>
-            ))}
+                  })}
+                </Fragment>
+              );
+            })}
           </div>
         </div>
 
-        <p className="mt-3 text-xs text-content-subtle">
-          Only availability shown — event details remain private.
-        </p>
+        <p className="mt-3 text-xs text-content-subtle">{t("week.privacy")}</p>
       </div>
     </div>
   );
@@ -0,0 +1,83 @@
+import type { AvailabilityRange } from "../services/dashboard";
+import { TimeRangeList, timeRangesError } from "./TimeRangeList";
+
+/** Weekdays in display order, Monday first. */
+export const WEEKDAYS = [
+  { weekday: 1, label: "Monday" },
+  { weekday: 2, label: "Tuesday" },
+  { weekday: 3, label: "Wednesday" },
+  { weekday: 4, label: "Thursday" },
+  { weekday: 5, label: "Friday" },
+  { weekday: 6, label: "Saturday" },
+  { weekday: 0, label: "Sunday" },
+];
+
+export function rangesOn(value: AvailabilityRange[], weekday: number): AvailabilityRange[] {
+  return value
+    .filter((r) => r.weekday === weekday)
+    .sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/** Why a schedule cannot be saved, or null if it can. */
+export function weeklyAvailabilityError(value: AvailabilityRange[]): string | null {
+  if (value.length === 0) return "Choose at least one day with available hours.";
+  for (const { weekday, label } of WEEKDAYS) {
+    const error = timeRangesError(rangesOn(value, weekday));
+    if (error) return `${label}: ${error}`;
+  }
+  return null;
+}
+
+interface WeeklyAvailabilityEditorProps {
+  value: AvailabilityRange[];
+  onChange: (value: AvailabilityRange[]) => void;
+}
+
+/**
+ * Grid of weekdays, each with any number of time ranges. A day without
+ * ranges is unavailable.
+ */
+export function WeeklyAvailabilityEditor({ value, onChange }: WeeklyAvailabilityEditorProps) {
+  const setDay = (weekday: number, ranges: { start: string; end: string }[]) => {
+    onChange([
+      ...value.filter((r) => r.weekday !== weekday),
+      ...ranges.map(({ start, end }) => ({ weekday, start, end })),
+    ]);
+  };
+
+  return (
+    <div className="divide-y divide-border">
+      {WEEKDAYS.map(({ weekday, label }) => {
+        const ranges = rangesOn(value, weekday);
+
+        return (
+          <div
+            key={weekday}
+            className="flex flex-col gap-2 py-3 first:pt-0 last:pb-0 sm:flex-row sm:items-start"
+          >
+            <div className="flex min-h-touch items-center gap-3 sm:w-36">
+              <input
+                id={`weekday-${weekday}`}
+                type="checkbox"
+                checked={ranges.length > 0}
+                onChange={(e) =>
+                  setDay(weekday, e.target.checked ? [{ start: "09:00", end: "17:00" }] : [])
+                }
+                className="checkbox"
+              />
+              <label htmlFor={`weekday-${weekday}`} className="text-sm text-content">
+                {label}
+              </label>
+            </div>
+
+            <TimeRangeList
+              ranges={ranges}
+              onChange={(next) => setDay(weekday, next)}
+              label={label}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
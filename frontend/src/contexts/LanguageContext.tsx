@@ -0,0 +1,116 @@
+import {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  Fragment,
+  ReactNode,
+} from "react";
+import { useAuth } from "./AuthContext";
+import { getPreferences, updatePreferences } from "../services/dashboard";
+import {
+  DEFAULT_LANGUAGE,
+  interpolate,
+  loadVisitorLanguage,
+  negotiateLanguage,
+  saveVisitorLanguage,
+  translate,
+  type Language,
+  type MessageKey,
+} from "../i18n";
+
+interface LanguageContextValue {
+  language: Language;
+  /** The language chosen by the reader, if any; null follows the page or browser. */
+  chosenLanguage: Language | null;
+  setLanguage: (language: Language | null) => Promise<void>;
+  /** The language the page being shown asks for, e.g. its owner's choice. */
+  setPageLanguage: (language: Language | null) => void;
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  /** A message with elements, e.g. a link, in its placeholders. */
+  tRich: (key: MessageKey, params: Record<string, ReactNode>) => ReactNode;
+}
+
+const LanguageContext = createContext<LanguageContextValue>({
+  language: DEFAULT_LANGUAGE,
+  chosenLanguage: null,
+  setLanguage: async () => {},
+  setPageLanguage: () => {},
+  t: (key, params) => translate(DEFAULT_LANGUAGE, key, params),
+  tRich: (key, params) => interpolate(translate(DEFAULT_LANGUAGE, key), params),
+});
+
+/**
+ * The language the app is shown in: the signed-in user's saved choice, or
+ * else the one a visitor chose on this device, or else the page's (a
+ * booking page can be set to one), or else the browser's.
+ */
+export function LanguageProvider({ children }: { children: ReactNode }) {
+  const { isAuthenticated } = useAuth();
+  const [accountLanguage, setAccountLanguage] = useState<Language | null>(null);
+  const [visitorLanguage, setVisitorLanguage] = useState<Language | null>(loadVisitorLanguage);
+  const [pageLanguage, setPageLanguage] = useState<Language | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setAccountLanguage(null);
+      return;
+    }
+    let cancelled = false;
+    getPreferences()
+      .then((preferences) => {
+        if (!cancelled) setAccountLanguage(preferences.language);
+      })
+      .catch(() => {
+        // Fall back to this device's choice
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated]);
+
+  const setLanguage = useCallback(
+    async (language: Language | null) => {
+      if (isAuthenticated) {
+        setAccountLanguage((await updatePreferences({ language })).language);
+      } else {
+        saveVisitorLanguage(language);
+        setVisitorLanguage(language);
+      }
+    },
+    [isAuthenticated]
+  );
+
+  const chosenLanguage = isAuthenticated ? accountLanguage : visitorLanguage;
+  const language = chosenLanguage ?? pageLanguage ?? negotiateLanguage();
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const t = useCallback<LanguageContextValue["t"]>(
+    (key, params) => translate(language, key, params),
+    [language]
+  );
+
+  const tRich = useCallback<LanguageContextValue["tRich"]>(
+    (key, params) =>
+      interpolate(translate(language, key), params).map((part, i) => (
+        <Fragment key={i}>{part}</Fragment>
+      )),
+    [language]
+  );
+
+  return (
+    <LanguageContext.Provider
+      value={{ language, chosenLanguage, setLanguage, setPageLanguage, t, tRich }}
+    >
+      {children}
+    </LanguageContext.Provider>
+  );
+}
+
+export function useTranslation(): LanguageContextValue {
+  return useContext(LanguageContext);
+}
@@ -0,0 +1,81 @@
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from "react";
+import { useAuth } from "./AuthContext";
+import { useTranslation } from "./LanguageContext";
+import { getPreferences, updatePreferences } from "../services/dashboard";
+import {
+  BROWSER_TIME_FORMAT,
+  formatForLanguage,
+  loadVisitorTimeFormat,
+  saveVisitorTimeFormat,
+  type TimeFormat,
+} from "../utils/timeFormat";
+
+interface TimeFormatContextValue {
+  timeFormat: TimeFormat;
+  /** The saved preference, before falling back to the app's language. */
+  preference: TimeFormat;
+  setTimeFormat: (format: TimeFormat) => Promise<void>;
+}
+
+const TimeFormatContext = createContext<TimeFormatContextValue>({
+  timeFormat: BROWSER_TIME_FORMAT,
+  preference: BROWSER_TIME_FORMAT,
+  setTimeFormat: async () => {},
+});
+
+/**
+ * How dates and times are written: the signed-in user's saved preference,
+ * or else the one a visitor chose on this device. Dates follow the app's
+ * language where no locale is chosen and the browser's would not match it.
+ */
+export function TimeFormatProvider({ children }: { children: ReactNode }) {
+  const { isAuthenticated } = useAuth();
+  const { language } = useTranslation();
+  const [accountFormat, setAccountFormat] = useState<TimeFormat | null>(null);
+  const [visitorFormat, setVisitorFormat] = useState<TimeFormat>(loadVisitorTimeFormat);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setAccountFormat(null);
+      return;
+    }
+    let cancelled = false;
+    getPreferences()
+      .then(({ locale, hourCycle }) => {
+        if (!cancelled) setAccountFormat({ locale, hourCycle });
+      })
+      .catch(() => {
+        // Fall back to this device's preference
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated]);
+
+  const setTimeFormat = useCallback(
+    async (format: TimeFormat) => {
+      if (isAuthenticated) {
+        const { locale, hourCycle } = await updatePreferences(format);
+        setAccountFormat({ locale, hourCycle });
+      } else {
+        saveVisitorTimeFormat(format);
+        setVisitorFormat(format);
+      }
+    },
+    [isAuthenticated]
+  );
+
+  const preference = accountFormat ?? visitorFormat;
+
+  return (
+    <TimeFormatContext.Provider
+      value={{ timeFormat: formatForLanguage(preference, language), preference, setTimeFormat }}
+    >
+      {children}
+    </TimeFormatContext.Provider>
+  );
+}
+
+export function useTimeFormat(): TimeFormatContextValue {
+  return useContext(TimeFormatContext);
+}
@@ -0,0 +1,121 @@
+import type { MessageKey } from "./en";
+
+/** German messages. */
+export const de: Record<MessageKey, string> = {
+  "app.skipToContent": "Zum Inhalt springen",
+  "language.label": "Sprache",
+  "form.optional": "(optional)",
+
+  "nav.label": "Hauptnavigation",
+  "nav.signIn": "Anmelden",
+  "nav.signUp": "Registrieren",
+  "nav.signOut": "Abmelden",
+  "nav.signedInAs": "Angemeldet als {emoji}",
+
+  "notFound.title": "Seite nicht gefunden",
+  "notFound.heading": "Diese Seite gibt es nicht oder der Link ist abgelaufen.",
+  "notFound.body":
+    "Terminlinks laufen zum Schutz der Privatsphäre nach einer festen Zeit ab. Danach werden keine Daten mehr gespeichert.",
+  "notFound.create": "Neue Terminseite erstellen",
+
+  "calendar.prevMonth": "Vorheriger Monat",
+  "calendar.nextMonth": "Nächster Monat",
+  "calendar.selected": "{date}, ausgewählt",
+  "calendar.hasSlots": "freie Zeiten verfügbar",
+
+  "week.prevDay": "Vorheriger Tag",
+  "week.nextDay": "Nächster Tag",
+  "week.prevWeek": "Vorherige Woche",
+  "week.nextWeek": "Nächste Woche",
+  "week.days": "Wochentage",
+  "week.slot": "{date} um {time}, frei",
+  "week.busy": "Belegt",
+  "week.noSlots": "An diesem Tag sind keine Zeiten frei.",
+  "week.privacy": "Es wird nur die Verfügbarkeit angezeigt — Termindetails bleiben privat.",
+
+  "booking.title": "Termin bei {owner}",
+  "booking.titleExpired": "Seite nicht mehr aktiv",
+  "booking.titleUnavailable": "Link nicht verfügbar",
+  "booking.titleLoading": "Wird geladen...",
+  "booking.loading": "Terminseite wird geladen",
+  "booking.loadError": "Dieser Terminlink ist nicht verfügbar. Möglicherweise ist er abgelaufen.",
+  "booking.slotsError": "Die freien Zeiten konnten nicht geladen werden. Bitte versuchen Sie es erneut.",
+  "booking.unavailable": "Terminseite konnte nicht geladen werden",
+  "booking.expired.heading": "Diese Terminseite ist nicht mehr aktiv",
+  "booking.expired.body":
+    "Der Terminlink von {owner} ist abgelaufen und nimmt keine Terminanfragen mehr an.",
+  "booking.blocked.heading": "Diese Terminseite kann hier nicht angezeigt werden",
+  "booking.blocked.body": "{link}, um einen Termin anzufragen.",
+  "booking.blocked.link": "Öffnen Sie die Terminseite von {owner}",
+  "booking.intro": "Wählen Sie unten eine freie Zeit, um einen Termin anzufragen.",
+  "booking.expiresIn": "Link läuft ab in {time}",
+  "booking.schedule": "Termin vereinbaren",
+  "booking.jumpToDate": "Zu Datum springen",
+  "booking.showCalendar": "Kalender anzeigen",
+  "booking.hideCalendar": "Ausblenden",
+  "booking.monthCalendar": "Monatskalender",
+  "booking.slots": "Freie Zeiten",
+  "booking.weeklySlots": "Freie Zeiten der Woche",
+  "booking.stale":
+    "Ein Teil des Kalenders von {owner} konnte gerade nicht aktualisiert werden, daher sind einige dieser Zeiten womöglich nicht mehr frei. Ihre Anfrage wird vor der Annahme trotzdem geprüft.",
+  "booking.meetingType": "Terminart",
+  "booking.minutes": "{count} Min.",
+  "booking.timezone": "Zeiten anzeigen in",
+  "booking.timezoneDevice":
+    "Die Zeitzone Ihres Geräts. Ändern Sie sie, wenn Sie zum Termin woanders sind.",
+  "booking.timezoneOther":
+    "Nicht die Zeitzone Ihres Geräts ({device}). Ihre Anfrage und E-Mails verwenden {timezone}.",
+  "booking.clock": "Uhr",
+  "booking.h12": "12 Stunden",
+  "booking.h23": "24 Stunden",
+  "booking.formHeading": "Termin anfragen",
+  "booking.selected": "Ausgewählt: {slot} ({timezone})",
+  "booking.chooseSlot": "Wählen Sie eine freie Zeit, um fortzufahren.",
+  "booking.sent":
+    "Sie erhalten eine E-Mail mit einem Bestätigungslink an {email}. Ihre Anfrage wird erst an {owner} gesendet, wenn Sie bestätigen.",
+  "booking.sendError": "Ihre Anfrage konnte nicht gesendet werden. Bitte versuchen Sie es später erneut.",
+  "booking.required": "Mit {mark} markierte Felder sind Pflichtfelder.",
+  "booking.name": "Ihr Name",
+  "booking.email": "Ihre E-Mail-Adresse",
+  "booking.reason": "Anlass des Termins",
+  "booking.reasonCount": "{count}/500 Zeichen (mind. 10)",
+  "booking.notes": "Weitere Hinweise",
+  "booking.notesCount": "{count}/500 Zeichen",
+  "booking.submit": "Terminanfrage senden",
+  "booking.submitting": "Anfrage wird gesendet...",
+  "booking.selectFirst": "Zuerst eine Zeit wählen",
+
+  "manage.title": "Termin verwalten",
+  "manage.heading": "Ihr Termin bei {owner}",
+  "manage.loading": "Termin wird geladen...",
+  "manage.loadError": "Der Termin konnte nicht geladen werden. Bitte versuchen Sie es später erneut.",
+  "manage.unavailable": "Termin konnte nicht geladen werden",
+  "manage.slotsError": "Die freien Zeiten konnten nicht geladen werden. Bitte versuchen Sie es später erneut.",
+  "manage.status": "Status: {status}",
+  "manage.status.requested": "Wartet auf Antwort",
+  "manage.status.accepted": "Angenommen",
+  "manage.status.declined": "Abgelehnt",
+  "manage.status.cancelled": "Abgesagt",
+  "manage.details": "Termindetails",
+  "manage.meeting": "Termin",
+  "manage.date": "Datum",
+  "manage.time": "Uhrzeit",
+  "manage.locked": "Dieser Termin kann nicht mehr geändert werden.",
+  "manage.bookNew": "Neue Zeit buchen",
+  "manage.pickHeading": "Neue Zeit wählen",
+  "manage.pickLead": "{owner} wird gebeten, die neue Zeit anzunehmen.",
+  "manage.chooseDay": "Wählen Sie einen Tag mit freien Zeiten.",
+  "manage.noTimes": "An diesem Tag ist keine Zeit frei.",
+  "manage.timesOn": "Zeiten am {date}",
+  "manage.sendChange": "Änderung senden",
+  "manage.message": "Nachricht an {owner}",
+  "manage.move": "Verschieben auf {date}, {time}",
+  "manage.selectFirst": "Zuerst eine neue Zeit wählen",
+  "manage.moved": "Ihre neue Zeit wurde an {owner} gesendet. Sie erhalten eine Antwort per E-Mail.",
+  "manage.moveError": "Ihr Termin konnte nicht geändert werden. Bitte versuchen Sie es später erneut.",
+  "manage.cancel": "Termin absagen",
+  "manage.confirmCancel": "Ja, absagen",
+  "manage.keep": "Behalten",
+  "manage.cancelled": "Ihr Termin wurde abgesagt und {owner} wurde benachrichtigt.",
+  "manage.cancelError": "Ihr Termin konnte nicht abgesagt werden. Bitte versuchen Sie es später erneut.",
+};
@@ -0,0 +1,121 @@
+/** English messages, the source catalogue. */
+export const en = {
+  "app.skipToContent": "Skip to main content",
+  "language.label": "Language",
+  "form.optional": "(optional)",
+
+  "nav.label": "Main navigation",
+  "nav.signIn": "Sign in",
+  "nav.signUp": "Sign up",
+  "nav.signOut": "Sign out",
+  "nav.signedInAs": "Signed in as {emoji}",
+
+  "notFound.title": "Page Not Found",
+  "notFound.heading": "This page doesn't exist or the link has expired.",
+  "notFound.body":
+    "Scheduling links expire after a set duration for privacy. No data is stored once a link expires.",
+  "notFound.create": "Create a new scheduling page",
+
+  "calendar.prevMonth": "Previous month",
+  "calendar.nextMonth": "Next month",
+  "calendar.selected": "{date}, selected",
+  "calendar.hasSlots": "has available slots",
+
+  "week.prevDay": "Previous day",
+  "week.nextDay": "Next day",
+  "week.prevWeek": "Previous week",
+  "week.nextWeek": "Next week",
+  "week.days": "Days of the week",
+  "week.slot": "{date} at {time}, available",
+  "week.busy": "Busy",
+  "week.noSlots": "No available slots on this day.",
+  "week.privacy": "Only availability shown — event details remain private.",
+
+  "booking.title": "Schedule with {owner}",
+  "booking.titleExpired": "Page No Longer Active",
+  "booking.titleUnavailable": "Link Unavailable",
+  "booking.titleLoading": "Loading...",
+  "booking.loading": "Loading scheduling page",
+  "booking.loadError": "This scheduling link is not available. It may have expired.",
+  "booking.slotsError": "We could not load the available times. Please try again.",
+  "booking.unavailable": "Unable to load scheduling page",
+  "booking.expired.heading": "This scheduling page is no longer active",
+  "booking.expired.body":
+    "{owner}'s scheduling link has expired and is no longer accepting appointment requests.",
+  "booking.blocked.heading": "This booking page can't be shown here",
+  "booking.blocked.body": "{link} to request an appointment.",
+  "booking.blocked.link": "Open {owner}'s booking page",
+  "booking.intro": "Choose an available time below to request an appointment.",
+  "booking.expiresIn": "Link expires in {time}",
+  "booking.schedule": "Schedule appointment",
+  "booking.jumpToDate": "Jump to date",
+  "booking.showCalendar": "Show calendar",
+  "booking.hideCalendar": "Hide",
+  "booking.monthCalendar": "Month calendar",
+  "booking.slots": "Available time slots",
+  "booking.weeklySlots": "Weekly time slots",
+  "booking.stale":
+    "Some of {owner}'s calendar could not be refreshed just now, so a few of these times may no longer be free. Your request will still be checked before it is accepted.",
+  "booking.meetingType": "Meeting type",
+  "booking.minutes": "{count} min",
+  "booking.timezone": "Show times in",
+  "booking.timezoneDevice":
+    "Your device's timezone. Change it if you will be somewhere else at the time.",
+  "booking.timezoneOther":
+    "Not your device's timezone ({device}). Your request and emails will use {timezone}.",
+  "booking.clock": "Clock",
+  "booking.h12": "12-hour",
+  "booking.h23": "24-hour",
+  "booking.formHeading": "Request an appointment",
+  "booking.selected": "Selected: {slot} ({timezone})",
+  "booking.chooseSlot": "Choose an available time slot to continue.",
+  "booking.sent":
+    "Check your email at {email} for a confirmation link. Your request won't be sent to {owner} until you confirm.",
+  "booking.sendError": "We could not send your request. Please try again later.",
+  "booking.required": "Fields marked with {mark} are required.",
+  "booking.name": "Your name",
+  "booking.email": "Your email",
+  "booking.reason": "Reason for meeting",
+  "booking.reasonCount": "{count}/500 characters (min 10)",
+  "booking.notes": "Additional notes",
+  "booking.notesCount": "{count}/500 characters",
+  "booking.submit": "Send appointment request",
+  "booking.submitting": "Sending request...",
+  "booking.selectFirst": "Select a time slot first",
+
+  "manage.title": "Manage Appointment",
+  "manage.heading": "Your appointment with {owner}",
+  "manage.loading": "Loading appointment...",
+  "manage.loadError": "We could not load this appointment. Please try again later.",
+  "manage.unavailable": "Unable to load appointment",
+  "manage.slotsError": "We could not load the available times. Please try again later.",
+  "manage.status": "Status: {status}",
+  "manage.status.requested": "Waiting for a reply",
+  "manage.status.accepted": "Accepted",
+  "manage.status.declined": "Declined",
+  "manage.status.cancelled": "Cancelled",
+  "manage.details": "Appointment details",
+  "manage.meeting": "Meeting",
+  "manage.date": "Date",
+  "manage.time": "Time",
+  "manage.locked": "This appointment can no longer be changed.",
+  "manage.bookNew": "Book a new time",
+  "manage.pickHeading": "Pick a new time",
+  "manage.pickLead": "{owner} will be asked to accept the new time.",
+  "manage.chooseDay": "Choose a day with available times.",
+  "manage.noTimes": "No times are free that day.",
+  "manage.timesOn": "Times on {date}",
+  "manage.sendChange": "Send your change",
+  "manage.message": "Message for {owner}",
+  "manage.move": "Move to {date}, {time}",
+  "manage.selectFirst": "Select a new time first",
+  "manage.moved": "Your new time has been sent to {owner}, who will reply by email.",
+  "manage.moveError": "We could not change your appointment. Please try again later.",
+  "manage.cancel": "Cancel appointment",
+  "manage.confirmCancel": "Yes, cancel it",
+  "manage.keep": "Keep it",
+  "manage.cancelled": "Your appointment has been cancelled and {owner} has been told.",
+  "manage.cancelError": "We could not cancel your appointment. Please try again later.",
+};
+
+export type MessageKey = keyof typeof en;
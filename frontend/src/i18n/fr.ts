@@ -0,0 +1,121 @@
+import type { MessageKey } from "./en";
+
+/** French messages. */
+export const fr: Record<MessageKey, string> = {
+  "app.skipToContent": "Aller au contenu principal",
+  "language.label": "Langue",
+  "form.optional": "(facultatif)",
+
+  "nav.label": "Navigation principale",
+  "nav.signIn": "Se connecter",
+  "nav.signUp": "S’inscrire",
+  "nav.signOut": "Se déconnecter",
+  "nav.signedInAs": "Connecté en tant que {emoji}",
+
+  "notFound.title": "Page introuvable",
+  "notFound.heading": "Cette page n’existe pas ou le lien a expiré.",
+  "notFound.body":
+    "Par respect de la vie privée, les liens de rendez-vous expirent après une durée fixée. Aucune donnée n’est conservée ensuite.",
+  "notFound.create": "Créer une page de rendez-vous",
+
+  "calendar.prevMonth": "Mois précédent",
+  "calendar.nextMonth": "Mois suivant",
+  "calendar.selected": "{date}, sélectionné",
+  "calendar.hasSlots": "créneaux disponibles",
+
+  "week.prevDay": "Jour précédent",
+  "week.nextDay": "Jour suivant",
+  "week.prevWeek": "Semaine précédente",
+  "week.nextWeek": "Semaine suivante",
+  "week.days": "Jours de la semaine",
+  "week.slot": "{date} à {time}, disponible",
+  "week.busy": "Occupé",
+  "week.noSlots": "Aucun créneau disponible ce jour-là.",
+  "week.privacy": "Seules les disponibilités sont affichées — le détail des événements reste privé.",
+
+  "booking.title": "Rendez-vous avec {owner}",
+  "booking.titleExpired": "Page inactive",
+  "booking.titleUnavailable": "Lien indisponible",
+  "booking.titleLoading": "Chargement...",
+  "booking.loading": "Chargement de la page de rendez-vous",
+  "booking.loadError": "Ce lien de rendez-vous n’est pas disponible. Il a peut-être expiré.",
+  "booking.slotsError": "Impossible de charger les créneaux disponibles. Veuillez réessayer.",
+  "booking.unavailable": "Impossible de charger la page de rendez-vous",
+  "booking.expired.heading": "Cette page de rendez-vous n’est plus active",
+  "booking.expired.body":
+    "Le lien de rendez-vous de {owner} a expiré et n’accepte plus de demandes.",
+  "booking.blocked.heading": "Cette page de rendez-vous ne peut pas s’afficher ici",
+  "booking.blocked.body": "{link} pour demander un rendez-vous.",
+  "booking.blocked.link": "Ouvrez la page de rendez-vous de {owner}",
+  "booking.intro": "Choisissez un créneau disponible ci-dessous pour demander un rendez-vous.",
+  "booking.expiresIn": "Le lien expire dans {time}",
+  "booking.schedule": "Prendre rendez-vous",
+  "booking.jumpToDate": "Aller à une date",
+  "booking.showCalendar": "Afficher le calendrier",
+  "booking.hideCalendar": "Masquer",
+  "booking.monthCalendar": "Calendrier du mois",
+  "booking.slots": "Créneaux disponibles",
+  "booking.weeklySlots": "Créneaux de la semaine",
+  "booking.stale":
+    "Une partie de l’agenda de {owner} n’a pas pu être actualisée, certains créneaux ne sont donc peut-être plus libres. Votre demande sera tout de même vérifiée avant d’être acceptée.",
+  "booking.meetingType": "Type de rendez-vous",
+  "booking.minutes": "{count} min",
+  "booking.timezone": "Afficher les heures en",
+  "booking.timezoneDevice":
+    "Le fuseau horaire de votre appareil. Changez-le si vous serez ailleurs au moment du rendez-vous.",
+  "booking.timezoneOther":
+    "Ce n’est pas le fuseau horaire de votre appareil ({device}). Votre demande et vos e-mails utiliseront {timezone}.",
+  "booking.clock": "Horloge",
+  "booking.h12": "12 heures",
+  "booking.h23": "24 heures",
+  "booking.formHeading": "Demander un rendez-vous",
+  "booking.selected": "Sélectionné : {slot} ({timezone})",
+  "booking.chooseSlot": "Choisissez un créneau disponible pour continuer.",
+  "booking.sent":
+    "Un lien de confirmation a été envoyé à {email}. Votre demande ne sera transmise à {owner} qu’après votre confirmation.",
+  "booking.sendError": "Impossible d’envoyer votre demande. Veuillez réessayer plus tard.",
+  "booking.required": "Les champs marqués d’un {mark} sont obligatoires.",
+  "booking.name": "Votre nom",
+  "booking.email": "Votre e-mail",
+  "booking.reason": "Objet du rendez-vous",
+  "booking.reasonCount": "{count}/500 caractères (10 min.)",
+  "booking.notes": "Remarques",
+  "booking.notesCount": "{count}/500 caractères",
+  "booking.submit": "Envoyer la demande",
+  "booking.submitting": "Envoi de la demande...",
+  "booking.selectFirst": "Choisissez d’abord un créneau",
+
+  "manage.title": "Gérer le rendez-vous",
+  "manage.heading": "Votre rendez-vous avec {owner}",
+  "manage.loading": "Chargement du rendez-vous...",
+  "manage.loadError": "Impossible de charger ce rendez-vous. Veuillez réessayer plus tard.",
+  "manage.unavailable": "Impossible de charger le rendez-vous",
+  "manage.slotsError": "Impossible de charger les créneaux disponibles. Veuillez réessayer plus tard.",
+  "manage.status": "Statut : {status}",
+  "manage.status.requested": "En attente de réponse",
+  "manage.status.accepted": "Accepté",
+  "manage.status.declined": "Refusé",
+  "manage.status.cancelled": "Annulé",
+  "manage.details": "Détails du rendez-vous",
+  "manage.meeting": "Rendez-vous",
+  "manage.date": "Date",
+  "manage.time": "Heure",
+  "manage.locked": "Ce rendez-vous ne peut plus être modifié.",
+  "manage.bookNew": "Réserver un autre créneau",
+  "manage.pickHeading": "Choisir un nouveau créneau",
+  "manage.pickLead": "{owner} devra accepter le nouveau créneau.",
+  "manage.chooseDay": "Choisissez un jour avec des créneaux disponibles.",
+  "manage.noTimes": "Aucun créneau libre ce jour-là.",
+  "manage.timesOn": "Créneaux du {date}",
+  "manage.sendChange": "Envoyer la modification",
+  "manage.message": "Message pour {owner}",
+  "manage.move": "Déplacer au {date}, {time}",
+  "manage.selectFirst": "Choisissez d’abord un nouveau créneau",
+  "manage.moved": "Votre nouveau créneau a été envoyé à {owner}, qui vous répondra par e-mail.",
+  "manage.moveError": "Impossible de modifier votre rendez-vous. Veuillez réessayer plus tard.",
+  "manage.cancel": "Annuler le rendez-vous",
+  "manage.confirmCancel": "Oui, annuler",
+  "manage.keep": "Le conserver",
+  "manage.cancelled": "Votre rendez-vous a été annulé et {owner} en a été informé.",
+  "manage.cancelError": "Impossible d’annuler votre rendez-vous. Veuillez réessayer plus tard.",
+};
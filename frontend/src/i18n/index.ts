@@ -0,0 +1,88 @@
+/**
+ * Translations for the app's own text. Mirrors backend/src/i18n, which
+ * translates the emails and confirmation pages, for the same languages.
+ *
+ * English (./en) is the source catalogue. The others have to translate
+ * every key, which the compiler checks. Messages take {name} placeholders.
+ */
+
+import { en, type MessageKey } from "./en";
+import { de } from "./de";
+import { fr } from "./fr";
+
+export type { MessageKey } from "./en";
+
+export const LANGUAGES = ["en", "de", "fr"] as const;
+export type Language = (typeof LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+/** Each language in its own words, for pickers. */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  de: "Deutsch",
+  fr: "Français",
+};
+
+const CATALOGUES: Record<Language, Record<MessageKey, string>> = { en, de, fr };
+
+const VISITOR_STORAGE_KEY = "calanywhere.language";
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === "string" && (LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * The first of the browser's languages we have, matched on the primary
+ * subtag so "de-AT" is answered in German, or the default.
+ */
+export function negotiateLanguage(preferred: readonly string[] = navigator.languages): Language {
+  for (const tag of preferred) {
+    const primary = tag.split("-")[0].toLowerCase();
+    if (isLanguage(primary)) return primary;
+  }
+  return DEFAULT_LANGUAGE;
+}
+
+/** Splits a message at its placeholders, putting each param in its place. */
+export function interpolate<T>(
+  template: string,
+  params: Record<string, T>
+): (string | T)[] {
+  return template
+    .split(/(\{\w+\})/)
+    .filter((part) => part !== "")
+    .map((part) => {
+      const name = /^\{(\w+)\}$/.exec(part)?.[1];
+      return name !== undefined && name in params ? params[name] : part;
+    });
+}
+
+export function translate(
+  language: Language,
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): string {
+  const catalogue = CATALOGUES[language] ?? CATALOGUES[DEFAULT_LANGUAGE];
+  return interpolate(catalogue[key], params).join("");
+}
+
+/** The language a visitor without an account chose on this device. */
+export function loadVisitorLanguage(): Language | null {
+  try {
+    const saved = localStorage.getItem(VISITOR_STORAGE_KEY);
+    return isLanguage(saved) ? saved : null;
+  } catch {
+    // Storage can be unavailable, e.g. in a third-party frame
+    return null;
+  }
+}
+
+export function saveVisitorLanguage(language: Language | null): void {
+  try {
+    if (language) localStorage.setItem(VISITOR_STORAGE_KEY, language);
+    else localStorage.removeItem(VISITOR_STORAGE_KEY);
+  } catch {
+    // Kept for this visit only
+  }
+}
@@ -3,6 +3,8 @@ import ReactDOM from "react-dom/client";
 import { BrowserRouter } from "react-router-dom";
 import { ConfigProvider } from "./contexts/ConfigContext";
 import { AuthProvider } from "./contexts/AuthContext";
+import { LanguageProvider } from "./contexts/LanguageContext";
+import { TimeFormatProvider } from "./contexts/TimeFormatContext";
 import App from "./App";
 import "./styles.css";
 
@@ -11,7 +13,11 @@ ReactDOM.createRoot(document.getElementById("root") as HTMLElement).render(
     <BrowserRouter>
       <ConfigProvider>
         <AuthProvider>
-          <App />
+          <LanguageProvider>
+            <TimeFormatProvider>
+              <App />
+            </TimeFormatProvider>
+          </LanguageProvider>
         </AuthProvider>
       </ConfigProvider>
     </BrowserRouter>
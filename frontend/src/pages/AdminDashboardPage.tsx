@@ -4,11 +4,14 @@ import {
   checkAdminSession,
   adminLogout,
   getAdminStats,
+  getAdminEmails,
+  retryAdminEmail,
   getAdminSettings,
   patchAdminSettings,
   lookupUser,
   setUserTier,
   type AdminStats,
+  type OutboxStatus,
   type AdminUser,
 } from "../services/admin";
 
@@ -20,6 +23,11 @@ export function AdminDashboardPage() {
   const [saveError, setSaveError] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
 
+  // Email outbox
+  const [outbox, setOutbox] = useState<OutboxStatus | null>(null);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [outboxError, setOutboxError] = useState<string | null>(null);
+
   // User management
   const [userSearch, setUserSearch] = useState("");
   const [userResult, setUserResult] = useState<AdminUser | null>(null);
@@ -38,6 +46,10 @@ export function AdminDashboardPage() {
         setSettings(cfg);
       })
       .catch(() => setLoadError("Could not load dashboard data."));
+
+    getAdminEmails()
+      .then(setOutbox)
+      .catch(() => setOutboxError("Could not load the email outbox."));
   }, [navigate]);
 
   const handleSignupsToggle = async (enabled: boolean) => {
@@ -53,6 +65,19 @@ export function AdminDashboardPage() {
     }
   };
 
+  const handleEmailRetry = async (id: string) => {
+    setOutboxError(null);
+    setRetryingId(id);
+    try {
+      await retryAdminEmail(id);
+      setOutbox(await getAdminEmails());
+    } catch {
+      setOutboxError("Could not retry the email. Please try again.");
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
   const handleLogout = async () => {
     await adminLogout();
     navigate("/admin/login", { replace: true });
@@ -138,6 +163,70 @@ export function AdminDashboardPage() {
         )}
       </section>
 
+      {/* Calendar feed cache */}
+      {stats && (
+        <section className="mb-6" aria-label="Calendar feed cache">
+          <h2 className="mb-3 text-sm font-semibold text-content">
+            Calendar feed cache
+          </h2>
+          <div className="grid grid-cols-4 gap-4">
+            <StatCard label="Hits" value={stats.calendarCache.hits} />
+            <StatCard label="Revalidated" value={stats.calendarCache.revalidations} />
+            <StatCard label="Misses" value={stats.calendarCache.misses} />
+            <StatCard label="Errors" value={stats.calendarCache.errors} />
+          </div>
+          <p className="mt-2 text-xs text-content-muted">
+            Since the server last restarted.
+          </p>
+        </section>
+      )}
+
+      {/* Email outbox */}
+      {(outbox || outboxError) && (
+        <section className="mb-6" aria-label="Email outbox">
+          <h2 className="mb-3 text-sm font-semibold text-content">Email outbox</h2>
+          {outbox && (
+            <div className="grid grid-cols-2 gap-4">
+              <StatCard label="Waiting to send" value={outbox.pending} />
+              <StatCard label="Failed" value={outbox.failed} />
+            </div>
+          )}
+          {outboxError && (
+            <p className="mt-2 text-sm text-error-text" role="alert">{outboxError}</p>
+          )}
+          {outbox && outbox.deadLetters.length > 0 && (
+            <ul className="card mt-4 divide-y divide-border p-0">
+              {outbox.deadLetters.map((letter) => (
+                <li key={letter.id} className="flex items-start justify-between gap-4 p-4">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium text-content">{letter.subject}</p>
+                    <p className="mt-0.5 text-xs text-content-muted">
+                      To {letter.to} &middot; {letter.attempts} attempt{letter.attempts !== 1 ? "s" : ""} &middot; failed {new Date(letter.failedAt).toLocaleString("en-GB", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" })}
+                    </p>
+                    {letter.lastError && (
+                      <p className="mt-1 break-words text-xs text-error-text">{letter.lastError}</p>
+                    )}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleEmailRetry(letter.id)}
+                    disabled={retryingId !== null}
+                    className="btn-secondary shrink-0 text-xs"
+                  >
+                    {retryingId === letter.id ? "Retrying…" : "Retry"}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {outbox && outbox.failed > 0 && (
+            <p className="mt-2 text-xs text-content-muted">
+              Failed emails are kept for 30 days.
+            </p>
+          )}
+        </section>
+      )}
+
       {/* Feature flags */}
       <section className="card space-y-5" aria-label="Feature flags">
         <h2 className="text-sm font-semibold text-content">Feature flags</h2>
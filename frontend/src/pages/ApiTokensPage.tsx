@@ -0,0 +1,314 @@
+import { FormEvent, useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import axios from "axios";
+import {
+  listApiTokens,
+  createApiToken,
+  revokeApiToken,
+  type ApiToken,
+  type ApiTokenScope,
+} from "../services/dashboard";
+
+const MAX_API_TOKENS = 10;
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  "pages:read": "Read pages, date overrides and meeting types",
+  "pages:write": "Create, change and delete pages",
+  "bookings:read": "Read booking requests",
+  "bookings:write": "Accept, decline and cancel booking requests",
+};
+
+const ALL_SCOPES = Object.keys(SCOPE_LABELS) as ApiTokenScope[];
+
+// "" = never expires
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "", label: "Never" },
+];
+
+function apiError(err: unknown): string | undefined {
+  return axios.isAxiosError(err)
+    ? (err.response?.data as { error?: string } | undefined)?.error
+    : undefined;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+function describeExpiry(token: ApiToken): string {
+  if (!token.expiresAt) return "Never expires";
+  return new Date(token.expiresAt) <= new Date()
+    ? `Expired ${formatDate(token.expiresAt)}`
+    : `Expires ${formatDate(token.expiresAt)}`;
+}
+
+export function ApiTokensPage() {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // A token is only shown once, just after it is created
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["pages:read", "bookings:read"]);
+  const [expiry, setExpiry] = useState("90");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchTokens = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setTokens(await listApiTokens());
+    } catch {
+      setError("Could not load API tokens. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    document.title = "API tokens - CalAnywhere";
+    fetchTokens();
+  }, [fetchTokens]);
+
+  function toggleScope(scope: ApiTokenScope) {
+    setScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]
+    );
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (scopes.length === 0) {
+      setError("Choose at least one scope.");
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const created = await createApiToken({
+        name: name.trim(),
+        scopes,
+        expiresInDays: expiry ? Number(expiry) : null,
+      });
+      setTokens((prev) => [created.apiToken, ...prev]);
+      setNewToken(created.token);
+      setIsAdding(false);
+      setName("");
+    } catch (err) {
+      setError(apiError(err) || "Could not create the token. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleRevoke(token: ApiToken) {
+    if (!window.confirm(`Revoke "${token.name}"? Anything using it will stop working.`)) {
+      return;
+    }
+    setBusyId(token.id);
+    setError(null);
+    try {
+      await revokeApiToken(token.id);
+      setTokens((prev) => prev.filter((t) => t.id !== token.id));
+    } catch (err) {
+      setError(apiError(err) || "Could not revoke the token. Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <main
+      id="main-content"
+      className="mx-auto flex min-h-screen max-w-3xl flex-col px-4 py-10"
+    >
+      <header className="mb-8">
+        <Link
+          to="/dashboard"
+          className="text-sm text-content-muted hover:text-content"
+        >
+          &larr; Back to dashboard
+        </Link>
+        <h1 className="mt-3 text-2xl font-semibold tracking-tight text-content">
+          API tokens
+        </h1>
+        <p className="mt-2 text-sm text-content-muted">
+          Script your pages and bookings by sending a token in the{" "}
+          <code className="text-xs">Authorization: Bearer</code> header. The
+          endpoints are described in{" "}
+          <a href="/api/openapi.json" className="underline hover:text-content">
+            the OpenAPI document
+          </a>
+          . A token can only do what its scopes allow, and cannot manage tokens
+          or webhooks.
+        </p>
+      </header>
+
+      {error && (
+        <div className="alert-error mb-6" role="alert">
+          {error}
+        </div>
+      )}
+
+      {newToken && (
+        <section className="card mb-6" aria-label="New API token">
+          <p className="text-sm font-medium text-content">
+            Copy this token now. It will not be shown again.
+          </p>
+          <code className="mt-2 block break-all rounded bg-surface-overlay p-2 text-xs text-content">
+            {newToken}
+          </code>
+          <button
+            type="button"
+            onClick={() => setNewToken(null)}
+            className="btn-ghost mt-3 text-xs"
+          >
+            Done
+          </button>
+        </section>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-16">
+          <p className="text-sm text-content-muted">Loading API tokens...</p>
+        </div>
+      )}
+
+      {!isLoading && tokens.length === 0 && !isAdding && !error && (
+        <section className="card mb-6 py-12 text-center">
+          <h2 className="text-lg font-semibold text-content">No API tokens yet</h2>
+          <p className="mx-auto mt-2 max-w-md text-sm text-content-muted">
+            Create a token to read your bookings or manage your pages from
+            your own scripts.
+          </p>
+        </section>
+      )}
+
+      {!isLoading && tokens.length > 0 && (
+        <ul className="mb-6 space-y-4" role="list">
+          {tokens.map((token) => (
+            <li key={token.id} className="card">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 flex-1">
+                  <h2 className="text-sm font-semibold text-content">{token.name}</h2>
+                  <p className="mt-0.5 text-xs text-content-muted">
+                    <code>{token.prefix}…</code>
+                    {" · "}
+                    {describeExpiry(token)}
+                    {" · "}
+                    {token.lastUsedAt ? `Last used ${formatDate(token.lastUsedAt)}` : "Never used"}
+                  </p>
+                  <p className="mt-2 text-xs text-content-subtle">
+                    {token.scopes.join(", ")}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRevoke(token)}
+                  disabled={busyId === token.id}
+                  className="shrink-0 text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+                >
+                  Revoke
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!isLoading && !isAdding && tokens.length < MAX_API_TOKENS && (
+        <div>
+          <button onClick={() => setIsAdding(true)} className="btn-secondary">
+            + Create token
+          </button>
+        </div>
+      )}
+
+      {isAdding && (
+        <form onSubmit={handleSubmit} className="card space-y-5">
+          <h2 className="text-base font-semibold text-content">New API token</h2>
+
+          <div>
+            <label htmlFor="token-name" className="label required-indicator">
+              Name
+            </label>
+            <input
+              id="token-name"
+              type="text"
+              required
+              maxLength={100}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Bookings export"
+              className="input mt-2"
+            />
+          </div>
+
+          <fieldset>
+            <legend className="label">Scopes</legend>
+            <div className="mt-2 space-y-1">
+              {ALL_SCOPES.map((scope) => (
+                <div key={scope} className="flex min-h-touch items-center gap-3">
+                  <input
+                    id={`token-scope-${scope}`}
+                    type="checkbox"
+                    checked={scopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    className="checkbox"
+                  />
+                  <label htmlFor={`token-scope-${scope}`} className="text-sm text-content">
+                    {SCOPE_LABELS[scope]}{" "}
+                    <code className="text-xs text-content-subtle">{scope}</code>
+                  </label>
+                </div>
+              ))}
+            </div>
+          </fieldset>
+
+          <div>
+            <label htmlFor="token-expiry" className="label">
+              Expires after
+            </label>
+            <select
+              id="token-expiry"
+              value={expiry}
+              onChange={(e) => setExpiry(e.target.value)}
+              className="input mt-2"
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex gap-2">
+            <button type="submit" disabled={isSaving} className="btn-primary">
+              {isSaving ? "Creating..." : "Create token"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsAdding(false)}
+              disabled={isSaving}
+              className="btn-ghost"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </main>
+  );
+}
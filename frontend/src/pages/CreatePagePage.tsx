@@ -1,22 +1,17 @@
 import { FormEvent, useState, useEffect, useCallback } from "react";
 import { useNavigate, Link } from "react-router-dom";
 import axios from "axios";
-import { createPage } from "../services/dashboard";
+import { createPage, type AvailabilityRange } from "../services/dashboard";
 import { TimezoneSelect } from "../components/TimezoneSelect";
+import { BookingLimitSelect } from "../components/BookingLimitSelect";
+import { ReminderOffsetsPicker } from "../components/ReminderOffsetsPicker";
+import {
+  WeeklyAvailabilityEditor,
+  weeklyAvailabilityError,
+} from "../components/WeeklyAvailabilityEditor";
 import { detectTimezone } from "../utils/timezone";
 import { useAuth } from "../contexts/AuthContext";
 
-/** Generate HH:MM options from 00:00 to 23:30 in 30-minute steps. */
-function availabilityTimeOptions(): string[] {
-  const opts: string[] = [];
-  for (let h = 0; h < 24; h++) {
-    for (const m of [0, 30]) {
-      opts.push(`${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`);
-    }
-  }
-  return opts;
-}
-
 const FREE_EXPIRY_PRESETS = [
   { label: "7 days", days: 7 },
   { label: "14 days", days: 14 },
@@ -70,11 +65,16 @@ export function CreatePagePage() {
   >([{ valid: null, eventCount: null }]);
   const [defaultDurationMinutes, setDefaultDurationMinutes] = useState(30);
   const [bufferMinutes, setBufferMinutes] = useState(0);
+  const [bufferBeforeMinutes, setBufferBeforeMinutes] = useState(0);
+  const [maxBookingsPerDay, setMaxBookingsPerDay] = useState<number | null>(null);
+  const [maxBookingsPerWeek, setMaxBookingsPerWeek] = useState<number | null>(null);
+  const [slotIncrementMinutes, setSlotIncrementMinutes] = useState<number | null>(null);
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>([]);
   const [dateRangeDays, setDateRangeDays] = useState(60);
   const [minNoticeHours, setMinNoticeHours] = useState(8);
-  const [includeWeekends, setIncludeWeekends] = useState(false);
-  const [availabilityStart, setAvailabilityStart] = useState("09:00");
-  const [availabilityEnd, setAvailabilityEnd] = useState("17:00");
+  const [weeklyAvailability, setWeeklyAvailability] = useState<AvailabilityRange[]>(
+    () => [1, 2, 3, 4, 5].map((weekday) => ({ weekday, start: "09:00", end: "17:00" }))
+  );
   const [ownerTimezone, setOwnerTimezone] = useState(() => detectTimezone());
   const [expiryDays, setExpiryDays] = useState<number | null>(30);
 
@@ -147,6 +147,12 @@ export function CreatePagePage() {
       return;
     }
 
+    const availabilityError = weeklyAvailabilityError(weeklyAvailability);
+    if (availabilityError) {
+      setError(availabilityError);
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -158,12 +164,15 @@ export function CreatePagePage() {
         calendarUrls: filledUrls,
         defaultDurationMinutes,
         bufferMinutes,
+        bufferBeforeMinutes,
+        maxBookingsPerDay,
+        maxBookingsPerWeek,
+        slotIncrementMinutes,
+        reminderOffsetsMinutes: reminderOffsets,
         dateRangeDays,
         minNoticeHours,
-        includeWeekends,
-        availabilityStart,
-        availabilityEnd,
         ownerTimezone,
+        weeklyAvailability,
         expiryDays,
       });
       navigate("/dashboard");
@@ -402,43 +411,16 @@ export function CreatePagePage() {
             </p>
           </div>
 
-          <div className="grid grid-cols-2 gap-5">
-            <div>
-              <label htmlFor="avail-start" className="label">
-                Available from
-              </label>
-              <select
-                id="avail-start"
-                value={availabilityStart}
-                onChange={(e) => setAvailabilityStart(e.target.value)}
-                className="input mt-2"
-              >
-                {availabilityTimeOptions().map((t) => (
-                  <option key={t} value={t}>{t}</option>
-                ))}
-              </select>
-            </div>
-
-            <div>
-              <label htmlFor="avail-end" className="label">
-                Available until
-              </label>
-              <select
-                id="avail-end"
-                value={availabilityEnd}
-                onChange={(e) => setAvailabilityEnd(e.target.value)}
-                className="input mt-2"
-              >
-                {availabilityTimeOptions().map((t) => (
-                  <option key={t} value={t}>{t}</option>
-                ))}
-              </select>
-              {availabilityStart >= availabilityEnd && (
-                <p className="mt-1 text-xs text-error-text" role="alert">
-                  End time must be after start time.
-                </p>
-              )}
-            </div>
+          <div>
+            <h3 className="label">Weekly hours</h3>
+            <p className="label-hint mb-3">
+              When people can book you, in your timezone. Add more than one
+              range to a day to leave gaps, e.g. for lunch.
+            </p>
+            <WeeklyAvailabilityEditor
+              value={weeklyAvailability}
+              onChange={setWeeklyAvailability}
+            />
           </div>
         </section>
 
@@ -469,9 +451,56 @@ export function CreatePagePage() {
               </select>
             </div>
 
+            <div>
+              <label htmlFor="slot-increment" className="label">
+                Start times every
+              </label>
+              <select
+                id="slot-increment"
+                value={slotIncrementMinutes ?? ""}
+                onChange={(e) =>
+                  setSlotIncrementMinutes(
+                    e.target.value === "" ? null : Number(e.target.value)
+                  )
+                }
+                className="input mt-2"
+                aria-describedby="slot-increment-hint"
+              >
+                <option value="">Meeting length</option>
+                <option value={5}>5 minutes</option>
+                <option value={10}>10 minutes</option>
+                <option value={15}>15 minutes</option>
+                <option value={20}>20 minutes</option>
+                <option value={30}>30 minutes</option>
+                <option value={60}>60 minutes</option>
+              </select>
+              <p id="slot-increment-hint" className="label-hint">
+                E.g. every 15 minutes offers a 45-minute meeting at 09:00,
+                09:15, 09:30 and so on.
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="buffer-before" className="label">
+                Buffer before meetings
+              </label>
+              <select
+                id="buffer-before"
+                value={bufferBeforeMinutes}
+                onChange={(e) => setBufferBeforeMinutes(Number(e.target.value))}
+                className="input mt-2"
+              >
+                <option value={0}>No buffer</option>
+                <option value={5}>5 minutes</option>
+                <option value={10}>10 minutes</option>
+                <option value={15}>15 minutes</option>
+                <option value={30}>30 minutes</option>
+              </select>
+            </div>
+
             <div>
               <label htmlFor="buffer" className="label">
-                Buffer between meetings
+                Buffer after meetings
               </label>
               <select
                 id="buffer"
@@ -526,19 +555,36 @@ export function CreatePagePage() {
                 How much advance notice you need before a meeting.
               </p>
             </div>
-          </div>
 
-          <div className="flex items-center gap-3">
-            <input
-              id="weekends"
-              type="checkbox"
-              checked={includeWeekends}
-              onChange={(e) => setIncludeWeekends(e.target.checked)}
-              className="checkbox"
-            />
-            <label htmlFor="weekends" className="text-sm text-content">
-              Include weekends
-            </label>
+            <div>
+              <label htmlFor="max-per-day" className="label">
+                Daily limit
+              </label>
+              <BookingLimitSelect
+                id="max-per-day"
+                period="day"
+                value={maxBookingsPerDay}
+                onChange={setMaxBookingsPerDay}
+                className="input mt-2"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="max-per-week" className="label">
+                Weekly limit
+              </label>
+              <BookingLimitSelect
+                id="max-per-week"
+                period="week"
+                value={maxBookingsPerWeek}
+                onChange={setMaxBookingsPerWeek}
+                className="input mt-2"
+              />
+              <p className="label-hint">
+                Counted Monday to Sunday, including requests awaiting
+                confirmation.
+              </p>
+            </div>
           </div>
         </section>
 
@@ -567,6 +613,8 @@ export function CreatePagePage() {
               dashboard instead.
             </p>
           </div>
+
+          <ReminderOffsetsPicker value={reminderOffsets} onChange={setReminderOffsets} />
         </section>
 
         {/* --- Expiry --- */}
@@ -7,6 +7,8 @@ import {
   type DashboardPage,
   type PagesListResponse,
 } from "../services/dashboard";
+import { formatDateTime as formatWith, type TimeFormat } from "../utils/timeFormat";
+import { useTimeFormat } from "../contexts/TimeFormatContext";
 
 function formatExpiry(expiresAt: string | null): string {
   if (!expiresAt) return "No expiry";
@@ -26,17 +28,31 @@ function formatExpiry(expiresAt: string | null): string {
   return "Less than 1h remaining";
 }
 
-function formatDate(dateStr: string): string {
-  return new Date(dateStr).toLocaleDateString("en-GB", {
-    day: "numeric",
-    month: "short",
-    year: "numeric",
-  });
+function formatDate(dateStr: string, format: TimeFormat): string {
+  return formatWith(new Date(dateStr), { day: "numeric", month: "short", year: "numeric" }, format);
+}
+
+function formatDateTime(dateStr: string, format: TimeFormat): string {
+  return formatWith(
+    new Date(dateStr),
+    { day: "numeric", month: "short", hour: "numeric", minute: "2-digit" },
+    format
+  );
+}
+
+/** "Calendar 2 (calendar.google.com)" — never the full URL, which holds a secret token. */
+function feedLabel(url: string, index: number): string {
+  try {
+    return `Calendar ${index + 1} (${new URL(url).hostname})`;
+  } catch {
+    return `Calendar ${index + 1}`;
+  }
 }
 
 export function DashboardPage() {
   const navigate = useNavigate();
   const { session } = useAuth();
+  const { timeFormat } = useTimeFormat();
 
   const [data, setData] = useState<PagesListResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -117,6 +133,15 @@ export function DashboardPage() {
 
         {session && (
           <div className="flex items-center gap-3 text-sm text-content-muted">
+            <Link to="/dashboard/webhooks" className="hover:text-content">
+              Webhooks
+            </Link>
+            <Link to="/dashboard/tokens" className="hover:text-content">
+              API tokens
+            </Link>
+            <Link to="/dashboard/preferences" className="hover:text-content">
+              Preferences
+            </Link>
             <span className="emoji-spaced text-lg">{session.emojiId}</span>
           </div>
         )}
@@ -207,17 +232,39 @@ export function DashboardPage() {
                     )}
 
                     <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-content-muted">
-                      <span>Created {formatDate(page.createdAt)}</span>
+                      <span>Created {formatDate(page.createdAt, timeFormat)}</span>
                       <span>
                         {page.isActive
                           ? formatExpiry(page.expiresAt)
-                          : `Expired ${page.expiresAt ? formatDate(page.expiresAt) : ""}`}
+                          : `Expired ${page.expiresAt ? formatDate(page.expiresAt, timeFormat) : ""}`}
                       </span>
                       <span>{page.defaultDurationMinutes}min slots</span>
                       {page.hasNotificationEmail && (
                         <span>Email notifications on</span>
                       )}
                     </div>
+
+                    {page.calendarHealth.some((h) => h.status === "failing") && (
+                      <ul className="mt-3 space-y-1" role="list">
+                        {page.calendarHealth.map((health, i) =>
+                          health.status === "failing" ? (
+                            <li
+                              key={i}
+                              className="rounded-input bg-red-900/30 px-2 py-1 text-xs text-red-400"
+                              title={health.lastError ?? undefined}
+                            >
+                              {feedLabel(page.calendarUrls[i], i)} failing since{" "}
+                              {health.failingSince
+                                ? formatDateTime(health.failingSince, timeFormat)
+                                : "recently"}
+                              {health.lastSuccessAt
+                                ? `; showing busy times from ${formatDateTime(health.lastSuccessAt, timeFormat)}`
+                                : "; your page cannot show availability until it recovers"}
+                            </li>
+                          ) : null
+                        )}
+                      </ul>
+                    )}
                   </div>
 
                   <div className="flex shrink-0 flex-col gap-2">
@@ -235,6 +282,18 @@ export function DashboardPage() {
                     >
                       Requests
                     </Link>
+                    <Link
+                      to={`/dashboard/pages/${page.id}/dates`}
+                      className="btn-ghost text-center text-xs"
+                    >
+                      Dates
+                    </Link>
+                    <Link
+                      to={`/dashboard/pages/${page.id}/meeting-types`}
+                      className="btn-ghost text-center text-xs"
+                    >
+                      Meeting types
+                    </Link>
                     <Link
                       to={`/dashboard/edit/${page.id}`}
                       className="btn-ghost text-center text-xs"
@@ -0,0 +1,370 @@
+import { FormEvent, useState, useEffect, useCallback, useMemo } from "react";
+import { useParams, Link } from "react-router-dom";
+import axios from "axios";
+import { MiniCalendar } from "../components/MiniCalendar";
+import { TimeRangeList, timeRangesError } from "../components/TimeRangeList";
+import { rangesOn } from "../components/WeeklyAvailabilityEditor";
+import {
+  listPages,
+  listDateOverrides,
+  createDateOverride,
+  deleteDateOverride,
+  type AvailabilityRange,
+  type DateOverride,
+  type TimeRange,
+} from "../services/dashboard";
+import { toDateStr } from "../utils/date";
+
+const LABEL_MAX_LENGTH = 100;
+
+/** Parse "YYYY-MM-DD" as a local date. */
+function parseDateStr(dateStr: string): Date {
+  const [y, m, d] = dateStr.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+function formatDate(dateStr: string): string {
+  return parseDateStr(dateStr).toLocaleDateString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+function formatDates(startDate: string, endDate: string): string {
+  if (startDate === endDate) return formatDate(startDate);
+  return `${formatDate(startDate)} – ${formatDate(endDate)}`;
+}
+
+/** Every date an override covers. */
+function datesOf(override: DateOverride): string[] {
+  const dates: string[] = [];
+  const end = parseDateStr(override.endDate);
+  for (let d = parseDateStr(override.startDate); d <= end; d.setDate(d.getDate() + 1)) {
+    dates.push(toDateStr(d));
+  }
+  return dates;
+}
+
+/** The weekly hours on a date's weekday, or a working day if there are none. */
+function weeklyHoursOn(weekly: AvailabilityRange[], dateStr: string): TimeRange[] {
+  const ranges = rangesOn(weekly, parseDateStr(dateStr).getDay());
+  if (ranges.length === 0) return [{ start: "09:00", end: "17:00" }];
+  return ranges.map(({ start, end }) => ({ start, end }));
+}
+
+export function DateOverridesPage() {
+  const { id } = useParams<{ id: string }>();
+  const today = toDateStr(new Date());
+
+  const [weeklyAvailability, setWeeklyAvailability] = useState<AvailabilityRange[]>([]);
+  const [pageTitle, setPageTitle] = useState<string | null>(null);
+  const [overrides, setOverrides] = useState<DateOverride[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // New override form
+  const [displayMonth, setDisplayMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const [startDate, setStartDate] = useState<string | null>(null);
+  const [endDate, setEndDate] = useState<string | null>(null);
+  const [unavailable, setUnavailable] = useState(true);
+  const [ranges, setRanges] = useState<TimeRange[]>([]);
+  const [label, setLabel] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const fetchOverrides = useCallback(async () => {
+    if (!id) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [pages, result] = await Promise.all([listPages(), listDateOverrides(id)]);
+      const found = pages.pages.find((p) => p.id === id);
+      if (found) {
+        setWeeklyAvailability(found.weeklyAvailability);
+        setPageTitle(found.title ?? found.slug);
+      }
+      setOverrides(result);
+    } catch {
+      setError("Could not load date overrides. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    document.title = "Date overrides - CalAnywhere";
+    fetchOverrides();
+  }, [fetchOverrides]);
+
+  const overrideDates = useMemo(
+    () => new Set(overrides.flatMap(datesOf)),
+    [overrides]
+  );
+
+  // First click picks a day; a later day then extends it into a range
+  function handleSelectDate(dateStr: string) {
+    if (startDate === null || endDate !== startDate || dateStr < startDate) {
+      setStartDate(dateStr);
+      setEndDate(dateStr);
+      setRanges(weeklyHoursOn(weeklyAvailability, dateStr));
+    } else {
+      setEndDate(dateStr);
+    }
+  }
+
+  function clearSelection() {
+    setStartDate(null);
+    setEndDate(null);
+    setLabel("");
+    setUnavailable(true);
+  }
+
+  const sortedRanges = [...ranges].sort((a, b) => a.start.localeCompare(b.start));
+  const rangesError = unavailable ? null : timeRangesError(sortedRanges);
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (!id || !startDate || !endDate) return;
+    if (!unavailable && ranges.length === 0) {
+      setError("Add at least one range of hours, or mark the dates unavailable.");
+      return;
+    }
+    if (rangesError) {
+      setError(rangesError);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await createDateOverride(id, {
+        startDate,
+        endDate,
+        ranges: unavailable ? [] : sortedRanges,
+        label: label.trim() || undefined,
+      });
+      clearSelection();
+      await fetchOverrides();
+    } catch (err) {
+      const apiError = axios.isAxiosError(err)
+        ? (err.response?.data as { error?: string } | undefined)?.error
+        : undefined;
+      setError(apiError || "Could not save the date override. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDelete(override: DateOverride) {
+    if (!id) return;
+    setDeletingId(override.id);
+    setError(null);
+    try {
+      await deleteDateOverride(id, override.id);
+      setOverrides((prev) => prev.filter((o) => o.id !== override.id));
+    } catch {
+      setError("Could not remove the date override. Please try again.");
+    } finally {
+      setDeletingId(null);
+    }
+  }
+
+  return (
+    <main
+      id="main-content"
+      className="mx-auto flex min-h-screen max-w-3xl flex-col px-4 py-10"
+    >
+      <header className="mb-8">
+        <Link
+          to="/dashboard"
+          className="text-sm text-content-muted hover:text-content"
+        >
+          &larr; Back to dashboard
+        </Link>
+        <h1 className="mt-3 text-2xl font-semibold tracking-tight text-content">
+          Date overrides
+        </h1>
+        <p className="mt-2 text-sm text-content-muted">
+          {pageTitle ? `For ${pageTitle}. ` : ""}
+          Block out holidays or set different hours on particular dates. These
+          replace your weekly hours on the dates they cover.
+        </p>
+      </header>
+
+      {error && (
+        <div className="alert-error mb-6" role="alert">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="card mb-8 space-y-5">
+        <h2 className="text-base font-semibold text-content">Add dates</h2>
+
+        <div className="flex flex-col gap-6 sm:flex-row">
+          <div className="sm:w-64">
+            <MiniCalendar
+              displayMonth={displayMonth}
+              availableDates={overrideDates}
+              selectedDate={startDate}
+              selectedEndDate={endDate}
+              onSelectDate={handleSelectDate}
+              onPrevMonth={() =>
+                setDisplayMonth(
+                  (m) => new Date(m.getFullYear(), m.getMonth() - 1, 1)
+                )
+              }
+              onNextMonth={() =>
+                setDisplayMonth(
+                  (m) => new Date(m.getFullYear(), m.getMonth() + 1, 1)
+                )
+              }
+              isSelectable={(dateStr) => dateStr >= today}
+              markedLabel="has a date override"
+            />
+            <p className="label-hint mt-2">
+              Pick a day, then a later day to cover a range.
+            </p>
+          </div>
+
+          <div className="flex-1 space-y-4">
+            {!startDate || !endDate ? (
+              <p className="text-sm text-content-subtle">No dates selected.</p>
+            ) : (
+              <>
+                <p className="text-sm font-medium text-content">
+                  {formatDates(startDate, endDate)}
+                </p>
+
+                <fieldset className="space-y-2">
+                  <legend className="sr-only">Availability on these dates</legend>
+                  <label className="flex min-h-touch items-center gap-3 text-sm text-content">
+                    <input
+                      type="radio"
+                      name="override-kind"
+                      className="h-4 w-4 cursor-pointer accent-accent"
+                      checked={unavailable}
+                      onChange={() => setUnavailable(true)}
+                    />
+                    Unavailable
+                  </label>
+                  <label className="flex min-h-touch items-center gap-3 text-sm text-content">
+                    <input
+                      type="radio"
+                      name="override-kind"
+                      className="h-4 w-4 cursor-pointer accent-accent"
+                      checked={!unavailable}
+                      onChange={() => setUnavailable(false)}
+                    />
+                    Different hours
+                  </label>
+                </fieldset>
+
+                {!unavailable && (
+                  <TimeRangeList
+                    ranges={ranges}
+                    onChange={setRanges}
+                    label={formatDate(startDate)}
+                  />
+                )}
+
+                <div>
+                  <label htmlFor="override-label" className="label">
+                    Note
+                  </label>
+                  <input
+                    id="override-label"
+                    type="text"
+                    maxLength={LABEL_MAX_LENGTH}
+                    value={label}
+                    onChange={(e) => setLabel(e.target.value)}
+                    placeholder="e.g. Annual leave"
+                    className="input mt-2"
+                    aria-describedby="override-label-hint"
+                  />
+                  <p id="override-label-hint" className="label-hint">
+                    Optional. Only you can see it.
+                  </p>
+                </div>
+
+                <div className="flex gap-2">
+                  <button
+                    type="submit"
+                    disabled={isSaving || rangesError !== null}
+                    className="btn-primary text-sm"
+                  >
+                    {isSaving ? "Saving..." : "Save dates"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={clearSelection}
+                    disabled={isSaving}
+                    className="btn-ghost text-sm"
+                  >
+                    Clear
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </form>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-16">
+          <p className="text-sm text-content-muted">Loading date overrides...</p>
+        </div>
+      )}
+
+      {!isLoading && overrides.length === 0 && !error && (
+        <section className="card py-12 text-center">
+          <h2 className="text-lg font-semibold text-content">
+            No upcoming date overrides
+          </h2>
+          <p className="mx-auto mt-2 max-w-md text-sm text-content-muted">
+            Your weekly hours apply on every date.
+          </p>
+        </section>
+      )}
+
+      {!isLoading && overrides.length > 0 && (
+        <ul className="space-y-4" role="list">
+          {overrides.map((override) => (
+            <li key={override.id} className="card">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 flex-1">
+                  <h2 className="text-base font-semibold text-content">
+                    {formatDates(override.startDate, override.endDate)}
+                  </h2>
+                  <p className="mt-0.5 text-sm text-content-muted">
+                    {override.ranges.length === 0
+                      ? "Unavailable"
+                      : override.ranges
+                          .map((r) => `${r.start}–${r.end}`)
+                          .join(", ")}
+                  </p>
+                  {override.label && (
+                    <p className="mt-2 text-sm text-content-subtle italic">
+                      {override.label}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={() => handleDelete(override)}
+                  disabled={deletingId === override.id}
+                  className="shrink-0 text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+                >
+                  {deletingId === override.id ? "Removing..." : "Remove"}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </main>
+  );
+}
@@ -4,22 +4,25 @@ import axios from "axios";
 import {
   listPages,
   updatePage,
+  type AvailabilityRange,
   type DashboardPage,
+  type IntakeQuestion,
 } from "../services/dashboard";
 import { TimezoneSelect } from "../components/TimezoneSelect";
+import { LANGUAGES, LANGUAGE_NAMES, type Language } from "../i18n";
+import { BookingLimitSelect } from "../components/BookingLimitSelect";
+import { ReminderOffsetsPicker } from "../components/ReminderOffsetsPicker";
+import {
+  WeeklyAvailabilityEditor,
+  weeklyAvailabilityError,
+} from "../components/WeeklyAvailabilityEditor";
+import {
+  IntakeQuestionsEditor,
+  cleanIntakeQuestions,
+  intakeQuestionsError,
+} from "../components/IntakeQuestionsEditor";
 import { detectTimezone } from "../utils/timezone";
 
-/** Generate HH:MM options from 00:00 to 23:30 in 30-minute steps. */
-function availabilityTimeOptions(): string[] {
-  const opts: string[] = [];
-  for (let h = 0; h < 24; h++) {
-    for (const m of [0, 30]) {
-      opts.push(`${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`);
-    }
-  }
-  return opts;
-}
-
 export function EditPagePage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -39,12 +42,25 @@ export function EditPagePage() {
   >([{ valid: null, eventCount: null }]);
   const [defaultDurationMinutes, setDefaultDurationMinutes] = useState(30);
   const [bufferMinutes, setBufferMinutes] = useState(0);
+  const [bufferBeforeMinutes, setBufferBeforeMinutes] = useState(0);
+  const [maxBookingsPerDay, setMaxBookingsPerDay] = useState<number | null>(null);
+  const [maxBookingsPerWeek, setMaxBookingsPerWeek] = useState<number | null>(null);
+  const [slotIncrementMinutes, setSlotIncrementMinutes] = useState<number | null>(null);
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>([]);
   const [dateRangeDays, setDateRangeDays] = useState(60);
   const [minNoticeHours, setMinNoticeHours] = useState(8);
-  const [includeWeekends, setIncludeWeekends] = useState(false);
-  const [availabilityStart, setAvailabilityStart] = useState("09:00");
-  const [availabilityEnd, setAvailabilityEnd] = useState("17:00");
+  const [weeklyAvailability, setWeeklyAvailability] = useState<AvailabilityRange[]>(
+    () => [1, 2, 3, 4, 5].map((weekday) => ({ weekday, start: "09:00", end: "17:00" }))
+  );
   const [ownerTimezone, setOwnerTimezone] = useState(() => detectTimezone());
+  const [allDayBusy, setAllDayBusy] = useState(true);
+  const [tentativeBusy, setTentativeBusy] = useState(true);
+  const [ignoreDeclined, setIgnoreDeclined] = useState(false);
+  const [ignoreSummaries, setIgnoreSummaries] = useState(""); // one pattern per line
+  const [embedEnabled, setEmbedEnabled] = useState(false);
+  const [embedOrigins, setEmbedOrigins] = useState(""); // one site per line
+  const [intakeQuestions, setIntakeQuestions] = useState<IntakeQuestion[]>([]);
+  const [language, setLanguage] = useState<Language | "">(""); // "" = each visitor's browser
 
   // UI state
   const [isValidating, setIsValidating] = useState(false);
@@ -74,12 +90,23 @@ export function EditPagePage() {
         setCalendarValidation(urls.map(() => ({ valid: null, eventCount: null })));
         setDefaultDurationMinutes(found.defaultDurationMinutes);
         setBufferMinutes(found.bufferMinutes);
+        setBufferBeforeMinutes(found.bufferBeforeMinutes ?? 0);
+        setMaxBookingsPerDay(found.maxBookingsPerDay ?? null);
+        setMaxBookingsPerWeek(found.maxBookingsPerWeek ?? null);
+        setSlotIncrementMinutes(found.slotIncrementMinutes ?? null);
+        setReminderOffsets(found.reminderOffsetsMinutes ?? []);
         setDateRangeDays(found.dateRangeDays);
         setMinNoticeHours(found.minNoticeHours);
-        setIncludeWeekends(found.includeWeekends);
-        setAvailabilityStart(found.availabilityStart ?? "09:00");
-        setAvailabilityEnd(found.availabilityEnd ?? "17:00");
+        setWeeklyAvailability(found.weeklyAvailability);
         setOwnerTimezone(found.ownerTimezone ?? detectTimezone());
+        setAllDayBusy(found.busyRules.allDayBusy);
+        setTentativeBusy(found.busyRules.tentativeBusy);
+        setIgnoreDeclined(found.busyRules.ignoreDeclined);
+        setIgnoreSummaries(found.busyRules.ignoreSummaries.join("\n"));
+        setEmbedEnabled(found.embed.enabled);
+        setEmbedOrigins(found.embed.origins.join("\n"));
+        setIntakeQuestions(found.intakeQuestions ?? []);
+        setLanguage(found.language ?? "");
       } catch {
         if (!cancelled) setLoadError("Could not load page details. Please try again.");
       }
@@ -149,6 +176,18 @@ export function EditPagePage() {
       return;
     }
 
+    const availabilityError = weeklyAvailabilityError(weeklyAvailability);
+    if (availabilityError) {
+      setError(availabilityError);
+      return;
+    }
+
+    const questionsError = intakeQuestionsError(intakeQuestions);
+    if (questionsError) {
+      setError(questionsError);
+      return;
+    }
+
     setIsSubmitting(true);
     try {
       const patch: Parameters<typeof updatePage>[1] = {
@@ -158,12 +197,33 @@ export function EditPagePage() {
         calendarUrls: filledUrls,
         defaultDurationMinutes,
         bufferMinutes,
+        bufferBeforeMinutes,
+        maxBookingsPerDay,
+        maxBookingsPerWeek,
+        slotIncrementMinutes,
+        reminderOffsetsMinutes: reminderOffsets,
         dateRangeDays,
         minNoticeHours,
-        includeWeekends,
-        availabilityStart,
-        availabilityEnd,
         ownerTimezone,
+        weeklyAvailability,
+        busyRules: {
+          allDayBusy,
+          tentativeBusy,
+          ignoreDeclined,
+          ignoreSummaries: ignoreSummaries
+            .split("\n")
+            .map((p) => p.trim())
+            .filter(Boolean),
+        },
+        embed: {
+          enabled: embedEnabled,
+          origins: embedOrigins
+            .split("\n")
+            .map((o) => o.trim())
+            .filter(Boolean),
+        },
+        intakeQuestions: cleanIntakeQuestions(intakeQuestions),
+        language: language || null,
       };
 
       if (clearEmail) {
@@ -296,6 +356,30 @@ export function EditPagePage() {
               Optional. Helps you tell pages apart in the dashboard.
             </p>
           </div>
+
+          <div>
+            <label htmlFor="page-language" className="label">
+              Language
+            </label>
+            <select
+              id="page-language"
+              value={language}
+              onChange={(e) => setLanguage(e.target.value as Language | "")}
+              className="input mt-2"
+              aria-describedby="page-language-hint"
+            >
+              <option value="">Visitor&apos;s browser</option>
+              {LANGUAGES.map((code) => (
+                <option key={code} value={code} lang={code}>
+                  {LANGUAGE_NAMES[code]}
+                </option>
+              ))}
+            </select>
+            <p id="page-language-hint" className="label-hint">
+              The language of the booking page and of the emails requesters
+              get. Visitors can still pick another.
+            </p>
+          </div>
         </section>
 
         {/* --- Calendar --- */}
@@ -373,6 +457,87 @@ export function EditPagePage() {
           </p>
         </section>
 
+        {/* --- Busy times --- */}
+        <section className="card space-y-5">
+          <div>
+            <h2 className="text-base font-semibold text-content">Busy times</h2>
+            <p className="mt-1 text-sm text-content-muted">
+              Choose which events in your calendar stop visitors from booking.
+              Events marked as free and cancelled events never do.
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center gap-3">
+              <input
+                id="all-day-busy"
+                type="checkbox"
+                checked={allDayBusy}
+                onChange={(e) => setAllDayBusy(e.target.checked)}
+                className="checkbox"
+              />
+              <label htmlFor="all-day-busy" className="text-sm text-content">
+                All-day events block the whole day
+              </label>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <input
+                id="tentative-busy"
+                type="checkbox"
+                checked={tentativeBusy}
+                onChange={(e) => setTentativeBusy(e.target.checked)}
+                className="checkbox"
+              />
+              <label htmlFor="tentative-busy" className="text-sm text-content">
+                Tentative events block time
+              </label>
+            </div>
+
+            <div>
+              <div className="flex items-center gap-3">
+                <input
+                  id="ignore-declined"
+                  type="checkbox"
+                  checked={ignoreDeclined}
+                  onChange={(e) => setIgnoreDeclined(e.target.checked)}
+                  className="checkbox"
+                  aria-describedby="ignore-declined-hint"
+                />
+                <label htmlFor="ignore-declined" className="text-sm text-content">
+                  Ignore invitations I have declined
+                </label>
+              </div>
+              <p id="ignore-declined-hint" className="label-hint">
+                Your replies are recognised by your notification email, so it
+                must be the address the invitations were sent to.
+                {!page.hasNotificationEmail &&
+                  " Add a notification email below to use this."}
+              </p>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="ignore-summaries" className="label">
+              Ignore events named
+            </label>
+            <textarea
+              id="ignore-summaries"
+              rows={3}
+              value={ignoreSummaries}
+              onChange={(e) => setIgnoreSummaries(e.target.value)}
+              placeholder={"Focus time\n*optional*"}
+              className="input mt-2 resize-none"
+              aria-describedby="ignore-summaries-hint"
+            />
+            <p id="ignore-summaries-hint" className="label-hint">
+              Optional. One pattern per line, up to 10. Events whose title
+              contains a pattern are treated as free; use * to match any text.
+              Capitalisation is ignored.
+            </p>
+          </div>
+        </section>
+
         {/* --- Availability --- */}
         <section className="card space-y-5">
           <h2 className="text-base font-semibold text-content">
@@ -396,43 +561,25 @@ export function EditPagePage() {
             </p>
           </div>
 
-          <div className="grid grid-cols-2 gap-5">
-            <div>
-              <label htmlFor="avail-start" className="label">
-                Available from
-              </label>
-              <select
-                id="avail-start"
-                value={availabilityStart}
-                onChange={(e) => setAvailabilityStart(e.target.value)}
-                className="input mt-2"
-              >
-                {availabilityTimeOptions().map((t) => (
-                  <option key={t} value={t}>{t}</option>
-                ))}
-              </select>
-            </div>
-
-            <div>
-              <label htmlFor="avail-end" className="label">
-                Available until
-              </label>
-              <select
-                id="avail-end"
-                value={availabilityEnd}
-                onChange={(e) => setAvailabilityEnd(e.target.value)}
-                className="input mt-2"
+          <div>
+            <h3 className="label">Weekly hours</h3>
+            <p className="label-hint mb-3">
+              When people can book you, in your timezone. Add more than one
+              range to a day to leave gaps, e.g. for lunch.
+            </p>
+            <WeeklyAvailabilityEditor
+              value={weeklyAvailability}
+              onChange={setWeeklyAvailability}
+            />
+            <p className="label-hint mt-3">
+              Away or working different hours on particular dates?{" "}
+              <Link
+                to={`/dashboard/pages/${id}/dates`}
+                className="text-accent-text hover:text-accent-hover"
               >
-                {availabilityTimeOptions().map((t) => (
-                  <option key={t} value={t}>{t}</option>
-                ))}
-              </select>
-              {availabilityStart >= availabilityEnd && (
-                <p className="mt-1 text-xs text-error-text" role="alert">
-                  End time must be after start time.
-                </p>
-              )}
-            </div>
+                Set date overrides
+              </Link>
+            </p>
           </div>
         </section>
 
@@ -463,9 +610,56 @@ export function EditPagePage() {
               </select>
             </div>
 
+            <div>
+              <label htmlFor="slot-increment" className="label">
+                Start times every
+              </label>
+              <select
+                id="slot-increment"
+                value={slotIncrementMinutes ?? ""}
+                onChange={(e) =>
+                  setSlotIncrementMinutes(
+                    e.target.value === "" ? null : Number(e.target.value)
+                  )
+                }
+                className="input mt-2"
+                aria-describedby="slot-increment-hint"
+              >
+                <option value="">Meeting length</option>
+                <option value={5}>5 minutes</option>
+                <option value={10}>10 minutes</option>
+                <option value={15}>15 minutes</option>
+                <option value={20}>20 minutes</option>
+                <option value={30}>30 minutes</option>
+                <option value={60}>60 minutes</option>
+              </select>
+              <p id="slot-increment-hint" className="label-hint">
+                E.g. every 15 minutes offers a 45-minute meeting at 09:00,
+                09:15, 09:30 and so on.
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="buffer-before" className="label">
+                Buffer before meetings
+              </label>
+              <select
+                id="buffer-before"
+                value={bufferBeforeMinutes}
+                onChange={(e) => setBufferBeforeMinutes(Number(e.target.value))}
+                className="input mt-2"
+              >
+                <option value={0}>No buffer</option>
+                <option value={5}>5 minutes</option>
+                <option value={10}>10 minutes</option>
+                <option value={15}>15 minutes</option>
+                <option value={30}>30 minutes</option>
+              </select>
+            </div>
+
             <div>
               <label htmlFor="buffer" className="label">
-                Buffer between meetings
+                Buffer after meetings
               </label>
               <select
                 id="buffer"
@@ -520,19 +714,36 @@ export function EditPagePage() {
                 How much advance notice you need before a meeting.
               </p>
             </div>
-          </div>
 
-          <div className="flex items-center gap-3">
-            <input
-              id="weekends"
-              type="checkbox"
-              checked={includeWeekends}
-              onChange={(e) => setIncludeWeekends(e.target.checked)}
-              className="checkbox"
-            />
-            <label htmlFor="weekends" className="text-sm text-content">
-              Include weekends
-            </label>
+            <div>
+              <label htmlFor="max-per-day" className="label">
+                Daily limit
+              </label>
+              <BookingLimitSelect
+                id="max-per-day"
+                period="day"
+                value={maxBookingsPerDay}
+                onChange={setMaxBookingsPerDay}
+                className="input mt-2"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="max-per-week" className="label">
+                Weekly limit
+              </label>
+              <BookingLimitSelect
+                id="max-per-week"
+                period="week"
+                value={maxBookingsPerWeek}
+                onChange={setMaxBookingsPerWeek}
+                className="input mt-2"
+              />
+              <p className="label-hint">
+                Counted Monday to Sunday, including requests awaiting
+                confirmation.
+              </p>
+            </div>
           </div>
         </section>
 
@@ -585,6 +796,84 @@ export function EditPagePage() {
               </label>
             </div>
           )}
+
+          <ReminderOffsetsPicker value={reminderOffsets} onChange={setReminderOffsets} />
+        </section>
+
+        {/* --- Booking form --- */}
+        <section className="card space-y-5">
+          <div>
+            <h2 className="text-base font-semibold text-content">
+              Questions for requesters
+            </h2>
+            <p className="label-hint">
+              Asked on the booking form after the reason and notes. Answers
+              appear with the request and in your notification email.
+            </p>
+          </div>
+
+          <IntakeQuestionsEditor
+            questions={intakeQuestions}
+            onChange={setIntakeQuestions}
+          />
+        </section>
+
+        {/* --- Embedding --- */}
+        <section className="card space-y-5">
+          <h2 className="text-base font-semibold text-content">
+            Embed on your website
+          </h2>
+
+          <div className="flex items-center gap-3">
+            <input
+              id="embed-enabled"
+              type="checkbox"
+              checked={embedEnabled}
+              onChange={(e) => setEmbedEnabled(e.target.checked)}
+              className="checkbox"
+            />
+            <label htmlFor="embed-enabled" className="text-sm text-content">
+              Let other websites show this booking page
+            </label>
+          </div>
+
+          {embedEnabled && (
+            <>
+              <div>
+                <label htmlFor="embed-origins" className="label">
+                  Allowed websites
+                </label>
+                <textarea
+                  id="embed-origins"
+                  rows={3}
+                  value={embedOrigins}
+                  onChange={(e) => setEmbedOrigins(e.target.value)}
+                  placeholder="https://www.example.com"
+                  className="input mt-2"
+                  aria-describedby="embed-origins-hint"
+                />
+                <p id="embed-origins-hint" className="label-hint">
+                  One https address per line, up to 10. Leave empty to allow
+                  any website.
+                </p>
+              </div>
+
+              <div>
+                <p className="label">Code to paste into your site</p>
+                <code className="mt-2 block whitespace-pre-wrap break-all rounded bg-surface-overlay p-2 text-xs text-content">
+                  {`<div data-calanywhere="${page.slug}"></div>\n<script src="${window.location.origin}/embed.js" async></script>`}
+                </code>
+                <p className="label-hint">
+                  Add <code>data-accent</code>, <code>data-background</code>,{" "}
+                  <code>data-card</code> or <code>data-text</code> with a hex
+                  colour to match your site. The widget grows to fit and fires
+                  a <code>calanywhere:booking-requested</code> event when a
+                  request is sent. Or use an iframe of{" "}
+                  <code>{`${window.location.origin}/embed/${page.slug}`}</code>.
+                </p>
+              </div>
+            </>
+          )}
         </section>
 
         {/* --- Error + Submit --- */}
@@ -0,0 +1,385 @@
+import axios from "axios";
+import { useEffect, useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { MiniCalendar } from "../components/MiniCalendar";
+import { detectTimezone } from "../utils/timezone";
+import { formatDateTime, formatTime, type TimeFormat } from "../utils/timeFormat";
+import { useTimeFormat } from "../contexts/TimeFormatContext";
+import { useTranslation } from "../contexts/LanguageContext";
+import type { Language, MessageKey } from "../i18n";
+
+/** A requester's booking from GET /api/pages/:slug/bookings/:token. */
+interface BookingData {
+  ownerName: string;
+  status: "requested" | "accepted" | "declined" | "cancelled";
+  startIso: string;
+  endIso: string;
+  timezone: string | null;
+  meetingTypeId: string | null;
+  meetingTypeName: string | null;
+  changeable: boolean; // still active and not yet started
+  language: Language; // the one the request was made in
+}
+
+interface SlotsResponse {
+  timezone: string;
+  days: { date: string; slots: { start: string; end: string }[] }[];
+}
+
+const STATUS_LABELS: Record<BookingData["status"], MessageKey> = {
+  requested: "manage.status.requested",
+  accepted: "manage.status.accepted",
+  declined: "manage.status.declined",
+  cancelled: "manage.status.cancelled",
+};
+
+function formatDate(date: Date, format: TimeFormat): string {
+  return formatDateTime(date, { weekday: "long", month: "long", day: "numeric" }, format);
+}
+
+export function ManageBookingPage() {
+  const { slug, token } = useParams<{ slug: string; token: string }>();
+  const { timeFormat } = useTimeFormat();
+  const { t, tRich, setPageLanguage } = useTranslation();
+  const [booking, setBooking] = useState<BookingData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const [slotDays, setSlotDays] = useState<SlotsResponse["days"]>([]);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [selectedStart, setSelectedStart] = useState<string | null>(null);
+  const [miniCalMonth, setMiniCalMonth] = useState<Date>(
+    () => new Date(new Date().getFullYear(), new Date().getMonth(), 1)
+  );
+
+  const [message, setMessage] = useState("");
+  const [confirmingCancel, setConfirmingCancel] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const apiBase = `/api/pages/${slug}/bookings/${token}`;
+
+  useEffect(() => {
+    document.title = booking
+      ? `${t("manage.heading", { owner: booking.ownerName })} - CalAnywhere`
+      : `${t("manage.title")} - CalAnywhere`;
+  }, [booking, t]);
+
+  // Shown in the language the request was made in, unless the reader chose one
+  const bookingLanguage = booking?.language ?? null;
+  useEffect(() => {
+    setPageLanguage(bookingLanguage);
+    return () => setPageLanguage(null);
+  }, [bookingLanguage, setPageLanguage]);
+
+  useEffect(() => {
+    if (!slug || !token) return;
+    let isMounted = true;
+    setIsLoading(true);
+    axios
+      .get<BookingData>(`/api/pages/${slug}/bookings/${token}`)
+      .then((resp) => {
+        if (!isMounted) return;
+        setBooking(resp.data);
+      })
+      .catch((err) => {
+        if (!isMounted) return;
+        setLoadError(
+          err?.response?.data?.error ?? t("manage.loadError")
+        );
+      })
+      .finally(() => {
+        if (isMounted) setIsLoading(false);
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [slug, token]);
+
+  // The times the booking can move to, once it can be moved: of its own
+  // length, even if its meeting type has since changed or gone; fetched
+  // again after a move frees the old time
+  const canChange = booking?.changeable ?? false;
+  const bookedStart = booking?.startIso;
+  useEffect(() => {
+    if (!slug || !token || !canChange) return;
+    let isMounted = true;
+    axios
+      .get<SlotsResponse>(`/api/pages/${slug}/bookings/${token}/slots`, {
+        params: { tz: detectTimezone() },
+      })
+      .then((resp) => {
+        if (isMounted) setSlotDays(resp.data.days);
+      })
+      .catch(() => {
+        if (isMounted) setError(t("manage.slotsError"));
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [slug, token, canChange, bookedStart]);
+
+  const slotsByDate = useMemo(() => {
+    const map = new Map<string, { start: Date; end: Date }[]>();
+    for (const day of slotDays) {
+      const slots = day.slots.map((s) => ({ start: new Date(s.start), end: new Date(s.end) }));
+      if (slots.length > 0) map.set(day.date, slots);
+    }
+    return map;
+  }, [slotDays]);
+
+  const availableDates = useMemo(() => new Set(slotsByDate.keys()), [slotsByDate]);
+  const selectedSlots = selectedDate ? slotsByDate.get(selectedDate) ?? [] : [];
+  const selectedSlot = selectedSlots.find((s) => s.start.toISOString() === selectedStart) ?? null;
+
+  const handleReschedule = async () => {
+    if (!selectedSlot || !booking) return;
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const resp = await axios.post<{ status: BookingData["status"]; startIso: string; endIso: string }>(
+        `${apiBase}/reschedule`,
+        {
+          startIso: selectedSlot.start.toISOString(),
+          endIso: selectedSlot.end.toISOString(),
+          message: message.trim() || undefined,
+        }
+      );
+      setBooking({ ...booking, ...resp.data });
+      setNotice(t("manage.moved", { owner: booking.ownerName }));
+      setSelectedDate(null);
+      setSelectedStart(null);
+      setMessage("");
+    } catch (err: any) {
+      setError(
+        err?.response?.data?.error ?? t("manage.moveError")
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!booking) return;
+    setIsSubmitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await axios.post(`${apiBase}/cancel`, { message: message.trim() || undefined });
+      setBooking({ ...booking, status: "cancelled", changeable: false });
+      setNotice(t("manage.cancelled", { owner: booking.ownerName }));
+      setConfirmingCancel(false);
+    } catch (err: any) {
+      setError(
+        err?.response?.data?.error ?? t("manage.cancelError")
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const start = booking ? new Date(booking.startIso) : null;
+  const end = booking ? new Date(booking.endIso) : null;
+
+  return (
+    <main id="main-content" className="mx-auto flex min-h-screen max-w-2xl flex-col px-4 py-10">
+      {isLoading && (
+        <div className="flex items-center justify-center py-16">
+          <p className="text-sm text-content-muted">{t("manage.loading")}</p>
+        </div>
+      )}
+
+      {!isLoading && loadError && (
+        <div className="alert-error" role="alert">
+          <p className="font-medium">{t("manage.unavailable")}</p>
+          <p className="mt-1 text-error-text/80">{loadError}</p>
+        </div>
+      )}
+
+      {!isLoading && booking && start && end && (
+        <>
+          <header className="mb-6">
+            <h1 className="text-2xl font-semibold text-content">
+              {t("manage.heading", { owner: booking.ownerName })}
+            </h1>
+            <p className="mt-1 text-sm text-content-muted">
+              {tRich("manage.status", {
+                status: (
+                  <span className="font-medium text-accent-text">
+                    {t(STATUS_LABELS[booking.status])}
+                  </span>
+                ),
+              })}
+            </p>
+          </header>
+
+          {notice && (
+            <div className="alert-success mb-4" role="status" aria-live="polite">
+              {notice}
+            </div>
+          )}
+
+          {error && (
+            <div className="alert-error mb-4" role="alert" aria-live="assertive">
+              {error}
+            </div>
+          )}
+
+          <section className="card mb-6" aria-label={t("manage.details")}>
+            <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-2 text-sm">
+              {booking.meetingTypeName && (
+                <>
+                  <dt className="text-content-muted">{t("manage.meeting")}</dt>
+                  <dd className="text-content">{booking.meetingTypeName}</dd>
+                </>
+              )}
+              <dt className="text-content-muted">{t("manage.date")}</dt>
+              <dd className="text-content">{formatDate(start, timeFormat)}</dd>
+              <dt className="text-content-muted">{t("manage.time")}</dt>
+              <dd className="text-content">
+                {formatTime(start, timeFormat)} – {formatTime(end, timeFormat)}
+              </dd>
+            </dl>
+          </section>
+
+          {!booking.changeable && !notice && (
+            <p className="text-sm text-content-muted">
+              {t("manage.locked")}{" "}
+              <Link to={`/s/${slug}`} className="text-accent-text hover:text-accent-hover">
+                {t("manage.bookNew")}
+              </Link>
+            </p>
+          )}
+
+          {booking.changeable && (
+            <>
+              <section className="card mb-6" aria-labelledby="reschedule-heading">
+                <h2 id="reschedule-heading" className="mb-3 text-sm font-semibold text-content">
+                  {t("manage.pickHeading")}
+                </h2>
+                <p className="mb-3 text-xs text-content-muted">
+                  {t("manage.pickLead", { owner: booking.ownerName })}
+                </p>
+                <div className="grid gap-4 sm:grid-cols-[220px,1fr]">
+                  <MiniCalendar
+                    displayMonth={miniCalMonth}
+                    availableDates={availableDates}
+                    selectedDate={selectedDate}
+                    onSelectDate={(dateStr) => {
+                      setSelectedDate(dateStr);
+                      setSelectedStart(null);
+                    }}
+                    onPrevMonth={() =>
+                      setMiniCalMonth((prev) => new Date(prev.getFullYear(), prev.getMonth() - 1, 1))
+                    }
+                    onNextMonth={() =>
+                      setMiniCalMonth((prev) => new Date(prev.getFullYear(), prev.getMonth() + 1, 1))
+                    }
+                  />
+                  <div>
+                    {!selectedDate && (
+                      <p className="text-xs text-content-muted">
+                        {t("manage.chooseDay")}
+                      </p>
+                    )}
+                    {selectedDate && selectedSlots.length === 0 && (
+                      <p className="text-xs text-content-muted">{t("manage.noTimes")}</p>
+                    )}
+                    {selectedSlots.length > 0 && (
+                      <div
+                        className="grid grid-cols-2 gap-2"
+                        role="group"
+                        aria-label={t("manage.timesOn", {
+                          date: formatDate(selectedSlots[0].start, timeFormat),
+                        })}
+                      >
+                        {selectedSlots.map((slot) => {
+                          const iso = slot.start.toISOString();
+                          const checked = iso === selectedStart;
+                          return (
+                            <button
+                              key={iso}
+                              type="button"
+                              aria-pressed={checked}
+                              onClick={() => setSelectedStart(iso)}
+                              className={`${checked ? "btn-primary" : "btn-secondary"} text-xs`}
+                            >
+                              {formatTime(slot.start, timeFormat)}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </section>
+
+              <section className="card" aria-label={t("manage.sendChange")}>
+                <label htmlFor="manage-message" className="label text-xs">
+                  {t("manage.message", { owner: booking.ownerName })}{" "}
+                  <span className="font-normal text-content-subtle">{t("form.optional")}</span>
+                </label>
+                <textarea
+                  id="manage-message"
+                  maxLength={500}
+                  rows={2}
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  className="input-dark mt-1"
+                />
+
+                <div className="mt-4 flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={handleReschedule}
+                    disabled={!selectedSlot || isSubmitting}
+                    aria-busy={isSubmitting}
+                    className="btn-primary"
+                  >
+                    {selectedSlot
+                      ? t("manage.move", {
+                          date: formatDate(selectedSlot.start, timeFormat),
+                          time: formatTime(selectedSlot.start, timeFormat),
+                        })
+                      : t("manage.selectFirst")}
+                  </button>
+                  {confirmingCancel ? (
+                    <>
+                      <button
+                        type="button"
+                        onClick={handleCancel}
+                        disabled={isSubmitting}
+                        aria-busy={isSubmitting}
+                        className="btn-secondary"
+                      >
+                        {t("manage.confirmCancel")}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setConfirmingCancel(false)}
+                        className="btn-ghost"
+                      >
+                        {t("manage.keep")}
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => setConfirmingCancel(true)}
+                      disabled={isSubmitting}
+                      className="btn-ghost"
+                    >
+                      {t("manage.cancel")}
+                    </button>
+                  )}
+                </div>
+              </section>
+            </>
+          )}
+        </>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,432 @@
+import { FormEvent, useState, useEffect, useCallback } from "react";
+import { useParams, Link } from "react-router-dom";
+import axios from "axios";
+import {
+  WeeklyAvailabilityEditor,
+  weeklyAvailabilityError,
+} from "../components/WeeklyAvailabilityEditor";
+import {
+  listPages,
+  listMeetingTypes,
+  createMeetingType,
+  updateMeetingType,
+  deleteMeetingType,
+  type AvailabilityRange,
+  type MeetingType,
+} from "../services/dashboard";
+
+const NAME_MAX_LENGTH = 100;
+const DESCRIPTION_MAX_LENGTH = 500;
+const MAX_MEETING_TYPES = 10;
+
+const DURATION_OPTIONS = [15, 20, 30, 45, 60, 90, 120, 180];
+const BUFFER_OPTIONS = [0, 5, 10, 15, 30, 60];
+
+function durationLabel(minutes: number): string {
+  if (minutes < 60 || minutes % 60 !== 0) return `${minutes} minutes`;
+  return minutes === 60 ? "1 hour" : `${minutes / 60} hours`;
+}
+
+/** The buffer choices, keeping a value set elsewhere selectable. */
+function bufferOptions(current: number): number[] {
+  return BUFFER_OPTIONS.includes(current)
+    ? BUFFER_OPTIONS
+    : [...BUFFER_OPTIONS, current].sort((a, b) => a - b);
+}
+
+function buffersLabel(type: MeetingType): string {
+  const parts: string[] = [];
+  if (type.bufferBeforeMinutes > 0) parts.push(`${type.bufferBeforeMinutes} min before`);
+  if (type.bufferMinutes > 0) parts.push(`${type.bufferMinutes} min after`);
+  return parts.length > 0 ? ` · Buffer ${parts.join(", ")}` : "";
+}
+
+/** The form's state; `id` is null while adding a new type. */
+interface Draft {
+  id: string | null;
+  name: string;
+  description: string;
+  durationMinutes: number;
+  bufferMinutes: number;
+  bufferBeforeMinutes: number;
+  customHours: boolean;
+  weeklyAvailability: AvailabilityRange[];
+}
+
+export function MeetingTypesPage() {
+  const { id } = useParams<{ id: string }>();
+
+  const [pageTitle, setPageTitle] = useState<string | null>(null);
+  const [pageHours, setPageHours] = useState<AvailabilityRange[]>([]);
+  const [meetingTypes, setMeetingTypes] = useState<MeetingType[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const fetchMeetingTypes = useCallback(async () => {
+    if (!id) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [pages, result] = await Promise.all([listPages(), listMeetingTypes(id)]);
+      const found = pages.pages.find((p) => p.id === id);
+      if (found) {
+        setPageTitle(found.title ?? found.slug);
+        setPageHours(found.weeklyAvailability);
+      }
+      setMeetingTypes(result);
+    } catch {
+      setError("Could not load meeting types. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    document.title = "Meeting types - CalAnywhere";
+    fetchMeetingTypes();
+  }, [fetchMeetingTypes]);
+
+  function startNew() {
+    setError(null);
+    setDraft({
+      id: null,
+      name: "",
+      description: "",
+      durationMinutes: 30,
+      bufferMinutes: 0,
+      bufferBeforeMinutes: 0,
+      customHours: false,
+      weeklyAvailability: pageHours,
+    });
+  }
+
+  function startEdit(type: MeetingType) {
+    setError(null);
+    setDraft({
+      id: type.id,
+      name: type.name,
+      description: type.description ?? "",
+      durationMinutes: type.durationMinutes,
+      bufferMinutes: type.bufferMinutes,
+      bufferBeforeMinutes: type.bufferBeforeMinutes ?? 0,
+      customHours: type.weeklyAvailability !== undefined,
+      weeklyAvailability: type.weeklyAvailability ?? pageHours,
+    });
+  }
+
+  const updateDraft = (patch: Partial<Draft>) =>
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (!id || !draft) return;
+
+    if (draft.name.trim().length === 0) {
+      setError("Give the meeting type a name.");
+      return;
+    }
+    if (draft.customHours) {
+      const hoursError = weeklyAvailabilityError(draft.weeklyAvailability);
+      if (hoursError) {
+        setError(hoursError);
+        return;
+      }
+    }
+
+    const input = {
+      name: draft.name.trim(),
+      description: draft.description.trim() || undefined,
+      durationMinutes: draft.durationMinutes,
+      bufferMinutes: draft.bufferMinutes,
+      bufferBeforeMinutes: draft.bufferBeforeMinutes,
+      weeklyAvailability: draft.customHours ? draft.weeklyAvailability : null,
+    };
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (draft.id) {
+        await updateMeetingType(id, draft.id, input);
+      } else {
+        await createMeetingType(id, input);
+      }
+      setDraft(null);
+      await fetchMeetingTypes();
+    } catch (err) {
+      const apiError = axios.isAxiosError(err)
+        ? (err.response?.data as { error?: string } | undefined)?.error
+        : undefined;
+      setError(apiError || "Could not save the meeting type. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleDelete(type: MeetingType) {
+    if (!id) return;
+    if (!window.confirm(`Remove "${type.name}"? Existing requests keep its name.`)) return;
+    setDeletingId(type.id);
+    setError(null);
+    try {
+      await deleteMeetingType(id, type.id);
+      setMeetingTypes((prev) => prev.filter((t) => t.id !== type.id));
+      if (draft?.id === type.id) setDraft(null);
+    } catch {
+      setError("Could not remove the meeting type. Please try again.");
+    } finally {
+      setDeletingId(null);
+    }
+  }
+
+  return (
+    <main
+      id="main-content"
+      className="mx-auto flex min-h-screen max-w-3xl flex-col px-4 py-10"
+    >
+      <header className="mb-8">
+        <Link
+          to="/dashboard"
+          className="text-sm text-content-muted hover:text-content"
+        >
+          &larr; Back to dashboard
+        </Link>
+        <h1 className="mt-3 text-2xl font-semibold tracking-tight text-content">
+          Meeting types
+        </h1>
+        <p className="mt-2 text-sm text-content-muted">
+          {pageTitle ? `For ${pageTitle}. ` : ""}
+          Let visitors choose what kind of meeting to book, each with its own
+          length and, if you like, its own hours. Without any, visitors book
+          the page&apos;s meeting duration.
+        </p>
+      </header>
+
+      {error && (
+        <div className="alert-error mb-6" role="alert">
+          {error}
+        </div>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-16">
+          <p className="text-sm text-content-muted">Loading meeting types...</p>
+        </div>
+      )}
+
+      {!isLoading && meetingTypes.length === 0 && !draft && !error && (
+        <section className="card mb-6 py-12 text-center">
+          <h2 className="text-lg font-semibold text-content">
+            No meeting types yet
+          </h2>
+          <p className="mx-auto mt-2 max-w-md text-sm text-content-muted">
+            Add one for each kind of meeting you offer, e.g. a 15-minute chat
+            and a 1-hour workshop.
+          </p>
+        </section>
+      )}
+
+      {!isLoading && meetingTypes.length > 0 && (
+        <ul className="mb-6 space-y-4" role="list">
+          {meetingTypes.map((type) => (
+            <li key={type.id} className="card">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 flex-1">
+                  <h2 className="text-base font-semibold text-content">
+                    {type.name}
+                  </h2>
+                  <p className="mt-0.5 text-sm text-content-muted">
+                    {durationLabel(type.durationMinutes)}
+                    {buffersLabel(type)}
+                    {type.weeklyAvailability && " · Own hours"}
+                  </p>
+                  {type.description && (
+                    <p className="mt-2 text-sm text-content-subtle">
+                      {type.description}
+                    </p>
+                  )}
+                </div>
+                <div className="flex shrink-0 flex-col gap-2">
+                  <button
+                    onClick={() => startEdit(type)}
+                    className="btn-ghost text-xs"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => handleDelete(type)}
+                    disabled={deletingId === type.id}
+                    className="text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+                  >
+                    {deletingId === type.id ? "Removing..." : "Remove"}
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!isLoading && !draft && meetingTypes.length < MAX_MEETING_TYPES && (
+        <div>
+          <button onClick={startNew} className="btn-secondary">
+            + Add meeting type
+          </button>
+        </div>
+      )}
+
+      {draft && (
+        <form onSubmit={handleSubmit} className="card space-y-5">
+          <h2 className="text-base font-semibold text-content">
+            {draft.id ? "Edit meeting type" : "New meeting type"}
+          </h2>
+
+          <div>
+            <label htmlFor="type-name" className="label required-indicator">
+              Name
+            </label>
+            <input
+              id="type-name"
+              type="text"
+              required
+              maxLength={NAME_MAX_LENGTH}
+              value={draft.name}
+              onChange={(e) => updateDraft({ name: e.target.value })}
+              placeholder="e.g. Quick chat"
+              className="input mt-2"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="type-description" className="label">
+              Description
+            </label>
+            <textarea
+              id="type-description"
+              maxLength={DESCRIPTION_MAX_LENGTH}
+              rows={2}
+              value={draft.description}
+              onChange={(e) => updateDraft({ description: e.target.value })}
+              className="input mt-2 resize-none"
+              aria-describedby="type-description-hint"
+            />
+            <p id="type-description-hint" className="label-hint">
+              Optional. Shown to visitors when they choose a meeting type.
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 gap-5 sm:grid-cols-2">
+            <div>
+              <label htmlFor="type-duration" className="label">
+                Duration
+              </label>
+              <select
+                id="type-duration"
+                value={draft.durationMinutes}
+                onChange={(e) =>
+                  updateDraft({ durationMinutes: Number(e.target.value) })
+                }
+                className="input mt-2"
+              >
+                {(DURATION_OPTIONS.includes(draft.durationMinutes)
+                  ? DURATION_OPTIONS
+                  : [...DURATION_OPTIONS, draft.durationMinutes].sort((a, b) => a - b)
+                ).map((m) => (
+                  <option key={m} value={m}>
+                    {durationLabel(m)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="type-buffer-before" className="label">
+                Buffer before meetings
+              </label>
+              <select
+                id="type-buffer-before"
+                value={draft.bufferBeforeMinutes}
+                onChange={(e) =>
+                  updateDraft({ bufferBeforeMinutes: Number(e.target.value) })
+                }
+                className="input mt-2"
+              >
+                {bufferOptions(draft.bufferBeforeMinutes).map((m) => (
+                  <option key={m} value={m}>
+                    {m === 0 ? "No buffer" : `${m} minutes`}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="type-buffer" className="label">
+                Buffer after meetings
+              </label>
+              <select
+                id="type-buffer"
+                value={draft.bufferMinutes}
+                onChange={(e) =>
+                  updateDraft({ bufferMinutes: Number(e.target.value) })
+                }
+                className="input mt-2"
+              >
+                {bufferOptions(draft.bufferMinutes).map((m) => (
+                  <option key={m} value={m}>
+                    {m === 0 ? "No buffer" : `${m} minutes`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex min-h-touch items-center gap-3">
+              <input
+                id="type-custom-hours"
+                type="checkbox"
+                checked={draft.customHours}
+                onChange={(e) => updateDraft({ customHours: e.target.checked })}
+                className="checkbox"
+              />
+              <label htmlFor="type-custom-hours" className="text-sm text-content">
+                Use different hours for this meeting type
+              </label>
+            </div>
+            <p className="label-hint">
+              Otherwise it follows the page&apos;s weekly hours. Date
+              overrides apply either way.
+            </p>
+            {draft.customHours && (
+              <div className="mt-4">
+                <WeeklyAvailabilityEditor
+                  value={draft.weeklyAvailability}
+                  onChange={(weeklyAvailability) =>
+                    updateDraft({ weeklyAvailability })
+                  }
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <button type="submit" disabled={isSaving} className="btn-primary">
+              {isSaving ? "Saving..." : draft.id ? "Save changes" : "Add meeting type"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              disabled={isSaving}
+              className="btn-ghost"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </main>
+  );
+}
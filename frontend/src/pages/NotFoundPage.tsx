@@ -1,10 +1,13 @@
 import { useEffect } from "react";
 import { Link } from "react-router-dom";
+import { useTranslation } from "../contexts/LanguageContext";
 
 export function NotFoundPage() {
+  const { t } = useTranslation();
+
   useEffect(() => {
-    document.title = "Page Not Found - CalAnywhere";
-  }, []);
+    document.title = `${t("notFound.title")} - CalAnywhere`;
+  }, [t]);
 
   return (
     <main
@@ -13,14 +16,13 @@ export function NotFoundPage() {
     >
       <h1 className="text-6xl font-bold text-content-muted">404</h1>
       <p className="mt-4 text-lg text-content-muted">
-        This page doesn&apos;t exist or the link has expired.
+        {t("notFound.heading")}
       </p>
       <p className="mt-2 text-sm text-content-subtle">
-        Scheduling links expire after a set duration for privacy.
-        No data is stored once a link expires.
+        {t("notFound.body")}
       </p>
       <Link to="/" className="btn-primary mt-8 px-6 py-3">
-        Create a new scheduling page
+        {t("notFound.create")}
       </Link>
     </main>
   );
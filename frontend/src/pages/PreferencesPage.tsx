@@ -0,0 +1,198 @@
+import { FormEvent, useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import axios from "axios";
+import { useTimeFormat } from "../contexts/TimeFormatContext";
+import { useTranslation } from "../contexts/LanguageContext";
+import { LANGUAGES, LANGUAGE_NAMES, negotiateLanguage, type Language } from "../i18n";
+import { formatDateTime, formatForLanguage, type HourCycle } from "../utils/timeFormat";
+
+// Offered besides the browser's own; any valid tag is accepted by the API
+const LOCALES = [
+  "en-GB",
+  "en-US",
+  "en-AU",
+  "de-DE",
+  "es-ES",
+  "fr-FR",
+  "it-IT",
+  "ja-JP",
+  "nl-NL",
+  "pt-BR",
+  "sv-SE",
+];
+
+// "" = follow the locale
+const HOUR_CYCLE_OPTIONS: { value: HourCycle | ""; label: string }[] = [
+  { value: "", label: "Automatic" },
+  { value: "h12", label: "12-hour (3:00 PM)" },
+  { value: "h23", label: "24-hour (15:00)" },
+];
+
+function localeName(locale: string): string {
+  try {
+    return new Intl.DisplayNames([locale], { type: "language" }).of(locale) ?? locale;
+  } catch {
+    return locale;
+  }
+}
+
+export function PreferencesPage() {
+  const { preference, setTimeFormat } = useTimeFormat();
+  const { chosenLanguage, setLanguage } = useTranslation();
+  const [language, setLanguageDraft] = useState<Language | "">(chosenLanguage ?? "");
+  const [locale, setLocale] = useState(preference.locale ?? "");
+  const [hourCycle, setHourCycle] = useState<HourCycle | "">(preference.hourCycle ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    document.title = "Preferences - CalAnywhere";
+  }, []);
+
+  // The saved preference arrives after the first render
+  useEffect(() => {
+    setLocale(preference.locale ?? "");
+    setHourCycle(preference.hourCycle ?? "");
+  }, [preference]);
+
+  useEffect(() => {
+    setLanguageDraft(chosenLanguage ?? "");
+  }, [chosenLanguage]);
+
+  const draft = { locale: locale || null, hourCycle: hourCycle || null };
+  const preview = formatDateTime(
+    new Date(),
+    { weekday: "long", day: "numeric", month: "long", hour: "numeric", minute: "2-digit" },
+    formatForLanguage(draft, language || negotiateLanguage())
+  );
+  const locales = preference.locale && !LOCALES.includes(preference.locale)
+    ? [preference.locale, ...LOCALES]
+    : LOCALES;
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    setSaved(false);
+    try {
+      await setTimeFormat(draft);
+      await setLanguage(language || null);
+      setSaved(true);
+    } catch (err) {
+      const message = axios.isAxiosError(err)
+        ? (err.response?.data as { error?: string } | undefined)?.error
+        : undefined;
+      setError(message || "Could not save your preferences. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <main
+      id="main-content"
+      className="mx-auto flex min-h-screen max-w-3xl flex-col px-4 py-10"
+    >
+      <header className="mb-8">
+        <Link
+          to="/dashboard"
+          className="text-sm text-content-muted hover:text-content"
+        >
+          &larr; Back to dashboard
+        </Link>
+        <h1 className="mt-3 text-2xl font-semibold tracking-tight text-content">
+          Preferences
+        </h1>
+        <p className="mt-2 text-sm text-content-muted">
+          The language, and how dates and times are written, in the app and in
+          the emails you receive about bookings.
+        </p>
+      </header>
+
+      {error && (
+        <div className="alert-error mb-6" role="alert">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="card space-y-5">
+        <div>
+          <label htmlFor="pref-language" className="label">
+            Language
+          </label>
+          <select
+            id="pref-language"
+            value={language}
+            onChange={(e) => setLanguageDraft(e.target.value as Language | "")}
+            className="input mt-2"
+            aria-describedby="pref-language-hint"
+          >
+            <option value="">Browser default</option>
+            {LANGUAGES.map((code) => (
+              <option key={code} value={code} lang={code}>
+                {LANGUAGE_NAMES[code]}
+              </option>
+            ))}
+          </select>
+          <p id="pref-language-hint" className="label-hint">
+            Booking pages and emails are translated; the dashboard is in
+            English for now.
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="pref-locale" className="label">
+            Date format
+          </label>
+          <select
+            id="pref-locale"
+            value={locale}
+            onChange={(e) => setLocale(e.target.value)}
+            className="input mt-2"
+          >
+            <option value="">Browser default</option>
+            {locales.map((tag) => (
+              <option key={tag} value={tag}>
+                {localeName(tag)} ({tag})
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor="pref-hour-cycle" className="label">
+            Clock
+          </label>
+          <select
+            id="pref-hour-cycle"
+            value={hourCycle}
+            onChange={(e) => setHourCycle(e.target.value as HourCycle | "")}
+            className="input mt-2"
+          >
+            {HOUR_CYCLE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <p className="text-sm text-content-muted" aria-live="polite">
+          Preview: <span className="text-content">{preview}</span>
+        </p>
+
+        <div className="flex items-center gap-3">
+          <button type="submit" disabled={isSaving} className="btn-primary">
+            {isSaving ? "Saving..." : "Save preferences"}
+          </button>
+          {saved && (
+            <span className="text-sm text-content-muted" role="status">
+              Saved
+            </span>
+          )}
+        </div>
+      </form>
+    </main>
+  );
+}
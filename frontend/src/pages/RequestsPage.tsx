@@ -1,47 +1,69 @@
 import { useState, useEffect, useCallback } from "react";
 import { useParams, Link } from "react-router-dom";
+import axios from "axios";
 import {
   listRequests,
+  updateRequestStatus,
   type AppointmentRequest,
+  type BookingStatus,
 } from "../services/dashboard";
+import { formatDateTime as formatWith, formatTime, type TimeFormat } from "../utils/timeFormat";
+import { useTimeFormat } from "../contexts/TimeFormatContext";
 
-function formatDateTime(iso: string): string {
-  const d = new Date(iso);
-  return d.toLocaleString("en-GB", {
-    weekday: "short",
-    day: "numeric",
-    month: "short",
-    year: "numeric",
-    hour: "numeric",
-    minute: "2-digit",
-  });
+type StatusAction = Exclude<BookingStatus, "requested">;
+
+const STATUS_BADGES: Record<BookingStatus, { label: string; className: string }> = {
+  requested: { label: "Awaiting reply", className: "bg-yellow-900/30 text-yellow-400" },
+  accepted: { label: "Accepted", className: "bg-green-900/30 text-green-400" },
+  declined: { label: "Declined", className: "bg-red-900/30 text-red-400" },
+  cancelled: { label: "Cancelled", className: "bg-surface-overlay text-content-muted" },
+};
+
+const ACTION_LABELS: Record<StatusAction, string> = {
+  accepted: "Accept",
+  declined: "Decline",
+  cancelled: "Cancel meeting",
+};
+
+const MESSAGE_MAX_LENGTH = 1000;
+
+function formatDateTime(iso: string, format: TimeFormat): string {
+  return formatWith(
+    new Date(iso),
+    {
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    },
+    format
+  );
 }
 
-function formatTimeRange(startIso: string, endIso: string): string {
+function formatTimeRange(startIso: string, endIso: string, format: TimeFormat): string {
   const start = new Date(startIso);
-  const end = new Date(endIso);
-  const date = start.toLocaleDateString("en-GB", {
-    weekday: "short",
-    day: "numeric",
-    month: "short",
-  });
-  const startTime = start.toLocaleTimeString("en-GB", {
-    hour: "numeric",
-    minute: "2-digit",
-  });
-  const endTime = end.toLocaleTimeString("en-GB", {
-    hour: "numeric",
-    minute: "2-digit",
-  });
-  return `${date}, ${startTime}\u2013${endTime}`;
+  const date = formatWith(start, { weekday: "short", day: "numeric", month: "short" }, format);
+  return `${date}, ${formatTime(start, format)}\u2013${formatTime(new Date(endIso), format)}`;
 }
 
 export function RequestsPage() {
   const { id } = useParams<{ id: string }>();
+  const { timeFormat } = useTimeFormat();
 
   const [requests, setRequests] = useState<AppointmentRequest[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // The request whose accept/decline/cancel form is open, if any
+  const [action, setAction] = useState<{
+    requestId: string;
+    status: StatusAction;
+  } | null>(null);
+  const [message, setMessage] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
 
   const fetchRequests = useCallback(async () => {
     if (!id) return;
@@ -62,6 +84,41 @@ export function RequestsPage() {
     fetchRequests();
   }, [fetchRequests]);
 
+  function openAction(requestId: string, status: StatusAction) {
+    setAction({ requestId, status });
+    setMessage("");
+    setNotice(null);
+    setError(null);
+  }
+
+  async function handleConfirmAction() {
+    if (!id || !action) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await updateRequestStatus(
+        id,
+        action.requestId,
+        action.status,
+        message.trim()
+      );
+      setNotice(
+        result.emailSent
+          ? "Request updated. The requester has been emailed."
+          : "Request updated, but we could not email the requester. Please let them know directly."
+      );
+      setAction(null);
+      await fetchRequests();
+    } catch (err) {
+      const apiError = axios.isAxiosError(err)
+        ? (err.response?.data as { error?: string } | undefined)?.error
+        : undefined;
+      setError(apiError || "Could not update the request. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
   return (
     <main
       id="main-content"
@@ -88,6 +145,12 @@ export function RequestsPage() {
         </div>
       )}
 
+      {notice && (
+        <div className="alert-success mb-6" role="status">
+          {notice}
+        </div>
+      )}
+
       {isLoading && (
         <div className="flex items-center justify-center py-16">
           <p className="text-sm text-content-muted">Loading requests...</p>
@@ -112,15 +175,22 @@ export function RequestsPage() {
             <li key={req.id} className="card">
               <div className="flex items-start justify-between gap-4">
                 <div className="min-w-0 flex-1">
-                  <h2 className="text-base font-semibold text-content">
-                    {req.requesterName}
-                  </h2>
+                  <div className="flex items-center gap-2">
+                    <h2 className="text-base font-semibold text-content">
+                      {req.requesterName}
+                    </h2>
+                    <span
+                      className={`inline-flex rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_BADGES[req.status].className}`}
+                    >
+                      {STATUS_BADGES[req.status].label}
+                    </span>
+                  </div>
                   <p className="mt-0.5 text-sm text-content-muted">
                     {req.requesterEmail}
                   </p>
                 </div>
                 <span className="shrink-0 text-xs text-content-muted">
-                  {formatTimeRange(req.startTime, req.endTime)}
+                  {formatTimeRange(req.startTime, req.endTime, timeFormat)}
                 </span>
               </div>
 
@@ -132,10 +202,103 @@ export function RequestsPage() {
                 </p>
               )}
 
+              {req.intakeAnswers.length > 0 && (
+                <dl className="mt-3 space-y-1 text-sm">
+                  {req.intakeAnswers.map((a) => (
+                    <div key={a.questionId}>
+                      <dt className="text-xs text-content-muted">{a.label}</dt>
+                      <dd className="text-content">
+                        {Array.isArray(a.answer) ? a.answer.join(", ") : a.answer}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+
               <div className="mt-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-content-muted">
-                <span>Requested {formatDateTime(req.createdAt)}</span>
+                {req.meetingTypeName && <span>{req.meetingTypeName}</span>}
+                <span>Requested {formatDateTime(req.createdAt, timeFormat)}</span>
                 {req.timezone && <span>{req.timezone}</span>}
+                {req.statusChangedAt && req.status !== "requested" && (
+                  <span>
+                    {STATUS_BADGES[req.status].label}{" "}
+                    {formatDateTime(req.statusChangedAt, timeFormat)}
+                  </span>
+                )}
               </div>
+
+              {req.statusMessage && (
+                <p className="mt-2 text-sm text-content-subtle">
+                  Your message: {req.statusMessage}
+                </p>
+              )}
+
+              {action?.requestId === req.id ? (
+                <div className="mt-4 space-y-3 border-t border-border-muted pt-4">
+                  <div>
+                    <label htmlFor={`message-${req.id}`} className="label">
+                      Message to {req.requesterName}
+                    </label>
+                    <textarea
+                      id={`message-${req.id}`}
+                      maxLength={MESSAGE_MAX_LENGTH}
+                      rows={3}
+                      value={message}
+                      onChange={(e) => setMessage(e.target.value)}
+                      className="input mt-2 resize-none"
+                      aria-describedby={`message-hint-${req.id}`}
+                    />
+                    <p id={`message-hint-${req.id}`} className="label-hint">
+                      Optional. Included in the email we send them.
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleConfirmAction}
+                      disabled={isSaving}
+                      className="btn-primary text-xs"
+                    >
+                      {isSaving ? "Saving..." : ACTION_LABELS[action.status]}
+                    </button>
+                    <button
+                      onClick={() => setAction(null)}
+                      disabled={isSaving}
+                      className="btn-ghost text-xs"
+                    >
+                      Back
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                (req.status === "requested" || req.status === "accepted") && (
+                  <div className="mt-4 flex gap-2">
+                    {req.status === "requested" && (
+                      <>
+                        <button
+                          onClick={() => openAction(req.id, "accepted")}
+                          className="btn-secondary text-xs"
+                        >
+                          Accept
+                        </button>
+                        <button
+                          onClick={() => openAction(req.id, "declined")}
+                          className="btn-ghost text-xs"
+                        >
+                          Decline
+                        </button>
+                      </>
+                    )}
+                    {req.status === "accepted" && (
+                      <button
+                        onClick={() => openAction(req.id, "cancelled")}
+                        className="text-xs text-red-400 hover:text-red-300"
+                      >
+                        Cancel meeting
+                      </button>
+                    )}
+                  </div>
+                )
+              )}
             </li>
           ))}
         </ul>
@@ -2,10 +2,31 @@ import axios from "axios";
 import { FormEvent, useEffect, useState, useRef, useMemo, useCallback } from "react";
 import { useParams } from "react-router-dom";
 import { MiniCalendar } from "../components/MiniCalendar";
+import { TimezoneSelect } from "../components/TimezoneSelect";
+import { LanguageSelect } from "../components/LanguageSelect";
 import { WeekView } from "../components/WeekView";
+import {
+  IntakeQuestionFields,
+  type IntakeAnswers,
+  type IntakeQuestionData,
+} from "../components/IntakeQuestionFields";
 import type { Slot, WeekDayData } from "../components/WeekView";
 import { toDateStr, countdownLabel } from "../utils/date";
-import { wallClockToUtc } from "../utils/timezone";
+import { detectTimezone, isValidTimezone, zonedTime } from "../utils/timezone";
+import { embedThemeVariables, postToHost } from "../utils/embed";
+import { formatDateTime, formatTime, resolvedHourCycle } from "../utils/timeFormat";
+import { useTimeFormat } from "../contexts/TimeFormatContext";
+import { useTranslation } from "../contexts/LanguageContext";
+import type { Language } from "../i18n";
+
+interface MeetingTypeData {
+  id: string;
+  name: string;
+  description?: string;
+  durationMinutes: number;
+  bufferMinutes: number;
+  weeklyAvailability?: { weekday: number; start: string; end: string }[]; // unset = the page's hours
+}
 
 interface PageData {
   slug: string;
@@ -13,14 +34,26 @@ interface PageData {
   bio?: string;
   defaultDurationMinutes: number;
   bufferMinutes: number;
+  slotIncrementMinutes: number | null; // between slot starts; null = back to back
   dateRangeDays: number;
   minNoticeHours: number;
   includeWeekends: boolean;
   availabilityStart: string; // "HH:MM" in owner's timezone
   availabilityEnd: string;   // "HH:MM" in owner's timezone
   ownerTimezone: string;     // IANA name
+  weeklyAvailability: { weekday: number; start: string; end: string }[]; // owner's timezone
+  meetingTypes: MeetingTypeData[]; // empty = book defaultDurationMinutes
+  intakeQuestions: IntakeQuestionData[]; // asked after the notes
+  embeddable: boolean;       // the owner allows other sites to embed the page
+  language: Language;        // the owner's choice, else the best for the browser
   expiresAt: number;
-  busySlots: { start: string; end: string }[];
+}
+
+/** Free slots from GET /api/pages/:slug/slots, grouped by date in the chosen timezone. */
+interface SlotsResponse {
+  timezone: string;
+  days: { date: string; slots: { start: string; end: string }[] }[];
+  stale: boolean; // one of the owner's calendars could not be refreshed
 }
 
 interface ExpiredInfo {
@@ -28,6 +61,34 @@ interface ExpiredInfo {
   expiredAt: string;
 }
 
+async function fetchSlots(
+  slug: string,
+  meetingTypeId: string | null,
+  timezone: string
+): Promise<SlotsResponse> {
+  const resp = await axios.get<SlotsResponse>(`/api/pages/${slug}/slots`, {
+    params: { tz: timezone, type: meetingTypeId ?? undefined }
+  });
+  return resp.data;
+}
+
+/** The timezone to show times in: `?tz=` when it names one, else the browser's. */
+function initialTimezone(): string {
+  const tz = new URLSearchParams(window.location.search).get("tz");
+  return tz && isValidTimezone(tz) ? tz : detectTimezone();
+}
+
+/** Midnight local time on a "YYYY-MM-DD" date, for the calendar and grid. */
+function calendarDate(dateStr: string): Date {
+  const [y, m, d] = dateStr.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+/** Today's date in `timezone`, as a calendar date. */
+function todayIn(timezone: string): Date {
+  return calendarDate(zonedTime(new Date(), timezone).dateStr);
+}
+
 function getMondayOfWeek(d: Date): Date {
   const day = new Date(d.getFullYear(), d.getMonth(), d.getDate());
   const dow = day.getDay();
@@ -36,25 +97,45 @@ function getMondayOfWeek(d: Date): Date {
   return day;
 }
 
-export function SchedulingPage() {
+/**
+ * The booking page, at /s/:slug. With `embedded` it is the widget other sites
+ * frame at /embed/:slug: themed from the URL, and reporting its height and
+ * finished requests to the page around it.
+ */
+export function SchedulingPage({ embedded = false }: { embedded?: boolean }) {
   const { slug } = useParams<{ slug: string }>();
   const [page, setPage] = useState<PageData | null>(null);
+  const [slotDays, setSlotDays] = useState<SlotsResponse["days"]>([]);
+  const [slotsStale, setSlotsStale] = useState(false);
   const [expired, setExpired] = useState<ExpiredInfo | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
+  // Meeting type whose slots are shown; null on pages without types
+  const [meetingTypeId, setMeetingTypeId] = useState<string | null>(null);
+  const meetingTypeRef = useRef<string | null>(null);
+
+  // Timezone times are shown, and the request is made, in
+  const [timezone, setTimezone] = useState(initialTimezone);
+  const timezoneRef = useRef(timezone);
+  const { timeFormat, preference, setTimeFormat } = useTimeFormat();
+  const { language, t, tRich, setPageLanguage } = useTranslation();
+  const hourCycle = resolvedHourCycle(timeFormat);
+
   const [selectedSlot, setSelectedSlot] = useState<Slot | null>(null);
   const [currentWeekStart, setCurrentWeekStart] = useState<Date>(() =>
-    getMondayOfWeek(new Date())
-  );
-  const [miniCalMonth, setMiniCalMonth] = useState<Date>(
-    () => new Date(new Date().getFullYear(), new Date().getMonth(), 1)
+    getMondayOfWeek(todayIn(timezone))
   );
+  const [miniCalMonth, setMiniCalMonth] = useState<Date>(() => {
+    const today = todayIn(timezone);
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
 
   const [requesterName, setRequesterName] = useState("");
   const [requesterEmail, setRequesterEmail] = useState("");
   const [reason, setReason] = useState("");
   const [notes, setNotes] = useState("");
+  const [answers, setAnswers] = useState<IntakeAnswers>({});
   const [website, setWebsite] = useState(""); // honeypot
   const [miniCalOpen, setMiniCalOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -63,6 +144,31 @@ export function SchedulingPage() {
   const [, setTick] = useState(0);
 
   const formRef = useRef<HTMLFormElement>(null);
+  const mainRef = useRef<HTMLElement>(null);
+
+  // Widget colours chosen by the embedding site
+  useEffect(() => {
+    if (!embedded) return;
+    const variables = embedThemeVariables(new URLSearchParams(window.location.search));
+    const root = document.documentElement;
+    for (const [name, value] of Object.entries(variables)) {
+      root.style.setProperty(name, value);
+    }
+    return () => {
+      for (const name of Object.keys(variables)) root.style.removeProperty(name);
+    };
+  }, [embedded]);
+
+  // Let the embedding site size its iframe to the widget
+  useEffect(() => {
+    const main = mainRef.current;
+    if (!embedded || !slug || !main || typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(() => {
+      postToHost({ type: "calanywhere:resize", slug, height: Math.ceil(main.scrollHeight) });
+    });
+    observer.observe(main);
+    return () => observer.disconnect();
+  }, [embedded, slug]);
 
   // Re-render every 60s so the countdown label stays fresh
   useEffect(() => {
@@ -72,15 +178,22 @@ export function SchedulingPage() {
 
   useEffect(() => {
     if (page) {
-      document.title = `Schedule with ${page.ownerName} - CalAnywhere`;
+      document.title = `${t("booking.title", { owner: page.ownerName })} - CalAnywhere`;
     } else if (expired) {
-      document.title = "Page No Longer Active - CalAnywhere";
+      document.title = `${t("booking.titleExpired")} - CalAnywhere`;
     } else if (error) {
-      document.title = "Link Unavailable - CalAnywhere";
+      document.title = `${t("booking.titleUnavailable")} - CalAnywhere`;
     } else {
-      document.title = "Loading... - CalAnywhere";
+      document.title = `${t("booking.titleLoading")} - CalAnywhere`;
     }
-  }, [page, expired, error]);
+  }, [page, expired, error, t]);
+
+  // Shown in the page's language unless the visitor chose one
+  const pageLanguage = page?.language ?? null;
+  useEffect(() => {
+    setPageLanguage(pageLanguage);
+    return () => setPageLanguage(null);
+  }, [pageLanguage, setPageLanguage]);
 
   useEffect(() => {
     if (!slug) return;
@@ -88,9 +201,15 @@ export function SchedulingPage() {
     setIsLoading(true);
     axios
       .get<PageData>(`/api/pages/${slug}`)
-      .then((resp) => {
+      .then(async (resp) => {
+        const typeId = resp.data.meetingTypes?.[0]?.id ?? null;
+        const slots = await fetchSlots(slug, typeId, timezoneRef.current);
         if (!isMounted) return;
-        setPage(resp.data);
+        meetingTypeRef.current = typeId;
+        setMeetingTypeId(typeId);
+        setPage({ ...resp.data, meetingTypes: resp.data.meetingTypes ?? [] });
+        setSlotDays(slots.days);
+        setSlotsStale(slots.stale);
       })
       .catch((err) => {
         if (!isMounted) return;
@@ -102,10 +221,7 @@ export function SchedulingPage() {
           });
           return;
         }
-        setError(
-          err?.response?.data?.error ??
-            "This scheduling link is not available. It may have expired."
-        );
+        setError(err?.response?.data?.error ?? t("booking.loadError"));
       })
       .finally(() => {
         if (!isMounted) return;
@@ -117,73 +233,51 @@ export function SchedulingPage() {
     };
   }, [slug]);
 
-  // Build all slots for the entire date range
-  const allSlots = useMemo<Map<string, Slot[]>>(() => {
-    if (!page) return new Map();
-    const map = new Map<string, Slot[]>();
-    const duration = page.defaultDurationMinutes;
-    const buffer = page.bufferMinutes ?? 0;
-    const slotInterval = duration + buffer;
-    const now = new Date();
-    const minNoticeMs = (page.minNoticeHours ?? 8) * 60 * 60 * 1000;
-    const earliestStart = new Date(now.getTime() + minNoticeMs);
-    const includeWeekends = page.includeWeekends ?? false;
-    const maxDate = new Date(
-      now.getTime() + (page.dateRangeDays ?? 60) * 24 * 60 * 60 * 1000
-    );
+  const selectedType = useMemo(
+    () => page?.meetingTypes.find((t) => t.id === meetingTypeId) ?? null,
+    [page, meetingTypeId]
+  );
 
-    const isBusy = (start: Date, end: Date) =>
-      page.busySlots.some((slot) => {
-        const s = new Date(slot.start);
-        const e = new Date(slot.end);
-        return s < end && e > start;
+  const reloadSlots = (typeId: string | null, tz: string) => {
+    if (!slug) return;
+    setSelectedSlot(null);
+    fetchSlots(slug, typeId, tz)
+      .then((slots) => {
+        // Ignore a response for a type or timezone the visitor has already moved on from
+        if (meetingTypeRef.current !== typeId || timezoneRef.current !== tz) return;
+        setSlotDays(slots.days);
+        setSlotsStale(slots.stale);
+      })
+      .catch(() => {
+        setError(t("booking.slotsError"));
       });
+  };
 
-    let dayOffset = 0;
-    while (dayOffset < (page.dateRangeDays ?? 60) + 14) {
-      const day = new Date(
-        now.getFullYear(),
-        now.getMonth(),
-        now.getDate() + dayOffset,
-        0, 0, 0, 0
-      );
-
-      if (day > maxDate) break;
-
-      const dayOfWeek = day.getDay();
-      const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
-
-      if (isWeekend && !includeWeekends) {
-        dayOffset++;
-        continue;
-      }
+  const handleMeetingTypeChange = (typeId: string) => {
+    if (typeId === meetingTypeId) return;
+    meetingTypeRef.current = typeId;
+    setMeetingTypeId(typeId);
+    reloadSlots(typeId, timezone);
+  };
 
-      const slots: Slot[] = [];
-      const dateStr = toDateStr(day);
-      const tz = page.ownerTimezone ?? 'UTC';
-      const dayStart = wallClockToUtc(dateStr, page.availabilityStart ?? '09:00', tz);
-      const dayEnd   = wallClockToUtc(dateStr, page.availabilityEnd   ?? '17:00', tz);
-
-      for (
-        let slotStart = dayStart.getTime();
-        slotStart + duration * 60000 <= dayEnd.getTime();
-        slotStart += slotInterval * 60000
-      ) {
-        const start = new Date(slotStart);
-        const end = new Date(slotStart + duration * 60000);
-
-        if (start < earliestStart) continue;
-        if (!isBusy(start, end)) {
-          slots.push({ start, end });
-        }
-      }
+  const handleTimezoneChange = (tz: string) => {
+    if (tz === timezone) return;
+    timezoneRef.current = tz;
+    setTimezone(tz);
+    reloadSlots(meetingTypeId, tz);
+  };
 
-      map.set(toDateStr(day), slots);
-      dayOffset++;
+  // Slots are computed server-side; index them by date for the grid
+  const allSlots = useMemo<Map<string, Slot[]>>(() => {
+    const map = new Map<string, Slot[]>();
+    for (const day of slotDays) {
+      map.set(
+        day.date,
+        day.slots.map((s) => ({ start: new Date(s.start), end: new Date(s.end) }))
+      );
     }
-
     return map;
-  }, [page]);
+  }, [slotDays]);
 
   // Dates that have at least one available slot
   const availableDates = useMemo<Set<string>>(() => {
@@ -194,14 +288,15 @@ export function SchedulingPage() {
     return set;
   }, [allSlots]);
 
-  // Compute grid display range from actual slot times (visitor's local timezone)
+  // Compute grid display range from actual slot times (chosen timezone)
   const { gridStartHour, gridEndHour } = useMemo(() => {
     let min = 23;
     let max = 0;
     for (const slots of allSlots.values()) {
       for (const slot of slots) {
-        const startH = slot.start.getHours();
-        const endH = slot.end.getHours() + (slot.end.getMinutes() > 0 ? 1 : 0);
+        const startH = zonedTime(slot.start, timezone).hour;
+        const end = zonedTime(slot.end, timezone);
+        const endH = end.hour + (end.minute > 0 ? 1 : 0);
         if (startH < min) min = startH;
         if (endH > max) max = endH;
       }
@@ -209,24 +304,32 @@ export function SchedulingPage() {
     return max > min
       ? { gridStartHour: min, gridEndHour: max }
       : { gridStartHour: 9, gridEndHour: 17 };
-  }, [allSlots]);
+  }, [allSlots, timezone]);
+
+  // Weekdays shown in the grid: those the owner has hours on, plus any that
+  // have slots once converted to the chosen timezone
+  const shownWeekdays = useMemo<Set<number>>(() => {
+    const set = new Set<number>();
+    const hours = selectedType?.weeklyAvailability ?? page?.weeklyAvailability ?? [];
+    for (const range of hours) set.add(range.weekday);
+    for (const slots of allSlots.values()) {
+      for (const slot of slots) set.add(zonedTime(slot.start, timezone).weekday);
+    }
+    return set.size > 0 ? set : new Set([1, 2, 3, 4, 5]);
+  }, [page, selectedType, allSlots, timezone]);
 
   // Current week's days
   const weekDays = useMemo<WeekDayData[]>(() => {
     if (!page) return [];
-    const includeWeekends = page.includeWeekends ?? false;
-    const numDays = includeWeekends ? 7 : 5;
     const days: WeekDayData[] = [];
 
-    for (let i = 0; i < (includeWeekends ? 7 : 7); i++) {
+    for (let i = 0; i < 7; i++) {
       const d = new Date(
         currentWeekStart.getFullYear(),
         currentWeekStart.getMonth(),
         currentWeekStart.getDate() + i
       );
-      const dow = d.getDay();
-      const isWeekend = dow === 0 || dow === 6;
-      if (!includeWeekends && isWeekend) continue;
+      if (!shownWeekdays.has(d.getDay())) continue;
 
       const dateStr = toDateStr(d);
       days.push({
@@ -234,23 +337,20 @@ export function SchedulingPage() {
         dateStr,
         slots: allSlots.get(dateStr) ?? []
       });
-
-      if (days.length >= numDays) break;
     }
 
     return days;
-  }, [page, currentWeekStart, allSlots]);
+  }, [page, currentWeekStart, allSlots, shownWeekdays]);
 
   // Week navigation
-  const thisMonday = getMondayOfWeek(new Date());
+  const today = todayIn(timezone);
+  const thisMonday = getMondayOfWeek(today);
   const maxWeekStart = useMemo(() => {
     if (!page) return thisMonday;
-    const now = new Date();
-    const maxDate = new Date(
-      now.getTime() + (page.dateRangeDays ?? 60) * 24 * 60 * 60 * 1000
-    );
+    const maxDate = todayIn(timezone);
+    maxDate.setDate(maxDate.getDate() + (page.dateRangeDays ?? 60));
     return getMondayOfWeek(maxDate);
-  }, [page]);
+  }, [page, timezone]);
 
   const canGoPrev = currentWeekStart.getTime() > thisMonday.getTime();
   const canGoNext = currentWeekStart.getTime() < maxWeekStart.getTime();
@@ -266,9 +366,7 @@ export function SchedulingPage() {
   };
 
   const handleMiniCalSelect = (dateStr: string) => {
-    const [y, m, d] = dateStr.split("-").map(Number);
-    const date = new Date(y, m - 1, d);
-    const monday = getMondayOfWeek(date);
+    const monday = getMondayOfWeek(calendarDate(dateStr));
     // Clamp
     if (monday.getTime() < thisMonday.getTime()) {
       setCurrentWeekStart(thisMonday);
@@ -300,65 +398,82 @@ export function SchedulingPage() {
     setError(null);
     try {
       const savedEmail = requesterEmail;
+      const requestedSlot = selectedSlot;
       await axios.post(`/api/pages/${slug}/requests`, {
         requesterName,
         requesterEmail,
         reason,
         notes,
+        answers,
+        // So the emails they get are written the way this page was
+        language,
+        locale: timeFormat.locale ?? navigator.language,
+        hourCycle,
         startIso: selectedSlot.start.toISOString(),
         endIso: selectedSlot.end.toISOString(),
-        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        timezone,
+        meetingTypeId: meetingTypeId ?? undefined,
         honeypot: website
       });
       setVerificationSent(true);
-      setSuccessMessage(
-        `Check your email at ${savedEmail} for a confirmation link. Your request won't be sent to ${page.ownerName} until you confirm.`
-      );
+      setSuccessMessage(t("booking.sent", { email: savedEmail, owner: page.ownerName }));
       setRequesterName("");
       setRequesterEmail("");
       setReason("");
       setNotes("");
+      setAnswers({});
       setSelectedSlot(null);
+      if (embedded) {
+        postToHost({
+          type: "calanywhere:booking-requested",
+          slug,
+          start: requestedSlot.start.toISOString(),
+          end: requestedSlot.end.toISOString()
+        });
+      }
     } catch (err: any) {
-      setError(
-        err?.response?.data?.error ??
-          "We could not send your request. Please try again later."
-      );
+      setError(err?.response?.data?.error ?? t("booking.sendError"));
+      // Slot was taken in the meantime: refresh so it disappears from the grid
+      if (err?.response?.status === 409) {
+        setSelectedSlot(null);
+        fetchSlots(slug, meetingTypeId, timezone)
+          .then((slots) => {
+            setSlotDays(slots.days);
+            setSlotsStale(slots.stale);
+          })
+          .catch(() => {});
+      }
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const formatTimeRange = (slot: Slot) => {
-    const start = slot.start.toLocaleTimeString([], {
-      hour: "numeric",
-      minute: "2-digit"
-    });
-    const end = slot.end.toLocaleTimeString([], {
-      hour: "numeric",
-      minute: "2-digit"
-    });
-    return `${start} – ${end}`;
-  };
+  const formatTimeRange = (slot: Slot) =>
+    `${formatTime(slot.start, timeFormat, timezone)} – ${formatTime(slot.end, timeFormat, timezone)}`;
 
   const formatDate = (date: Date) =>
-    date.toLocaleDateString(undefined, {
-      weekday: "short",
-      month: "short",
-      day: "numeric"
-    });
+    formatDateTime(
+      date,
+      { weekday: "short", month: "short", day: "numeric", timeZone: timezone },
+      timeFormat
+    );
 
   // Selected date string for mini calendar highlighting
-  const selectedDateStr = selectedSlot ? toDateStr(selectedSlot.start) : null;
+  const selectedDateStr = selectedSlot ? zonedTime(selectedSlot.start, timezone).dateStr : null;
+
+  // Framed by a site the page was not opened up to (only reachable where the
+  // web server does not enforce the page's frame-ancestors policy)
+  const embedBlocked = embedded && page !== null && !page.embeddable;
 
   return (
     <main
+      ref={mainRef}
       id="main-content"
-      className="mx-auto flex min-h-screen max-w-7xl flex-col px-4 py-8"
+      className={`mx-auto flex max-w-7xl flex-col px-4 ${embedded ? "py-4" : "min-h-screen py-8"}`}
     >
       {/* Loading skeleton */}
       {isLoading && (
-        <div role="status" aria-busy="true" aria-label="Loading scheduling page">
+        <div role="status" aria-busy="true" aria-label={t("booking.loading")}>
           <div className="mb-6 flex flex-col gap-2 md:flex-row md:items-baseline md:justify-between">
             <div className="flex-1">
               <div className="skeleton h-8 w-48" />
@@ -403,11 +518,10 @@ export function SchedulingPage() {
         <div className="flex flex-1 items-center justify-center">
           <div className="card mx-auto max-w-md py-12 text-center">
             <h1 className="text-xl font-semibold text-content">
-              This scheduling page is no longer active
+              {t("booking.expired.heading")}
             </h1>
             <p className="mt-3 text-sm text-content-muted">
-              {expired.ownerName}&rsquo;s scheduling link has expired and is no
-              longer accepting appointment requests.
+              {t("booking.expired.body", { owner: expired.ownerName })}
             </p>
           </div>
         </div>
@@ -416,13 +530,36 @@ export function SchedulingPage() {
       {/* Error state */}
       {!isLoading && error && !page && !expired && (
         <div className="alert-error" role="alert">
-          <p className="font-medium">Unable to load scheduling page</p>
+          <p className="font-medium">{t("booking.unavailable")}</p>
           <p className="mt-1 text-error-text/80">{error}</p>
         </div>
       )}
 
+      {/* Embedding not allowed */}
+      {!isLoading && embedBlocked && (
+        <div className="card mx-auto max-w-md py-12 text-center">
+          <h1 className="text-xl font-semibold text-content">
+            {t("booking.blocked.heading")}
+          </h1>
+          <p className="mt-3 text-sm text-content-muted">
+            {tRich("booking.blocked.body", {
+              link: (
+                <a
+                  href={`/s/${slug}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-accent-text hover:text-accent-hover"
+                >
+                  {t("booking.blocked.link", { owner: page.ownerName })}
+                </a>
+              ),
+            })}
+          </p>
+        </div>
+      )}
+
       {/* Main content */}
-      {!isLoading && !expired && page && (
+      {!isLoading && !expired && page && !embedBlocked && (
         <>
           <header className="mb-6 flex flex-col gap-2 md:flex-row md:items-baseline md:justify-between">
             <div className="min-w-0 flex-1">
@@ -435,26 +572,32 @@ export function SchedulingPage() {
                 </p>
               )}
               <p className="mt-1 text-xs text-content-muted">
-                Choose an available time below to request an appointment.
+                {t("booking.intro")}
               </p>
             </div>
-            <div className="shrink-0 text-xs text-content-muted">
-              Link expires in{" "}
-              <span className="font-medium text-accent-text">
-                {countdownLabel(page.expiresAt)}
+            <div className="flex shrink-0 items-center gap-3 text-xs text-content-muted">
+              <span>
+                {tRich("booking.expiresIn", {
+                  time: (
+                    <span className="font-medium text-accent-text">
+                      {countdownLabel(page.expiresAt, language)}
+                    </span>
+                  ),
+                })}
               </span>
+              <LanguageSelect className="bg-transparent text-xs text-content-muted hover:text-content" />
             </div>
           </header>
 
           <section
             className="grid gap-6 md:grid-cols-[220px,1fr] lg:grid-cols-[220px,1fr,340px]"
-            aria-label="Schedule appointment"
+            aria-label={t("booking.schedule")}
           >
             {/* Left: Mini Calendar — collapsible on mobile, always visible on desktop */}
             <div>
               <div className="card">
                 <div className="flex items-center justify-between md:hidden">
-                  <h2 className="text-xs font-semibold text-content">Jump to date</h2>
+                  <h2 className="text-xs font-semibold text-content">{t("booking.jumpToDate")}</h2>
                   <button
                     type="button"
                     onClick={() => setMiniCalOpen((v) => !v)}
@@ -462,14 +605,14 @@ export function SchedulingPage() {
                     aria-expanded={miniCalOpen}
                     aria-controls="mini-cal-panel"
                   >
-                    {miniCalOpen ? "Hide" : "Show calendar"}
+                    {miniCalOpen ? t("booking.hideCalendar") : t("booking.showCalendar")}
                   </button>
                 </div>
                 <div
                   id="mini-cal-panel"
                   className={`${miniCalOpen ? "mt-3" : "hidden"} md:mt-0 md:block`}
                 >
-                  <h2 className="sr-only">Month calendar</h2>
+                  <h2 className="sr-only">{t("booking.monthCalendar")}</h2>
                   <MiniCalendar
                     displayMonth={miniCalMonth}
                     availableDates={availableDates}
@@ -493,8 +636,90 @@ export function SchedulingPage() {
             </div>
 
             {/* Center: Week View */}
-            <div className="card" role="region" aria-label="Available time slots">
-              <h2 className="sr-only">Weekly time slots</h2>
+            <div className="card" role="region" aria-label={t("booking.slots")}>
+              <h2 className="sr-only">{t("booking.weeklySlots")}</h2>
+              {slotsStale && (
+                <p className="alert-info mb-3" role="status">
+                  {t("booking.stale", { owner: page.ownerName })}
+                </p>
+              )}
+              {page.meetingTypes.length > 0 && (
+                <fieldset className="mb-4">
+                  <legend className="mb-2 text-xs font-semibold text-content">
+                    {t("booking.meetingType")}
+                  </legend>
+                  <div className="grid gap-2 sm:grid-cols-2">
+                    {page.meetingTypes.map((type) => {
+                      const checked = type.id === meetingTypeId;
+                      return (
+                        <label
+                          key={type.id}
+                          className={`flex cursor-pointer gap-3 rounded-input border p-3 ${
+                            checked
+                              ? "border-accent bg-accent/10"
+                              : "border-border hover:border-accent/60"
+                          }`}
+                        >
+                          <input
+                            type="radio"
+                            name="meeting-type"
+                            checked={checked}
+                            onChange={() => handleMeetingTypeChange(type.id)}
+                            className="mt-0.5 h-4 w-4 shrink-0 cursor-pointer accent-accent"
+                          />
+                          <span className="min-w-0">
+                            <span className="block text-sm font-medium text-content">
+                              {type.name}
+                            </span>
+                            <span className="block text-xs text-content-muted">
+                              {t("booking.minutes", { count: type.durationMinutes })}
+                            </span>
+                            {type.description && (
+                              <span className="mt-1 block text-xs text-content-subtle">
+                                {type.description}
+                              </span>
+                            )}
+                          </span>
+                        </label>
+                      );
+                    })}
+                  </div>
+                </fieldset>
+              )}
+              <div className="mb-4">
+                <label htmlFor="booking-timezone" className="label text-xs">
+                  {t("booking.timezone")}
+                </label>
+                <TimezoneSelect
+                  id="booking-timezone"
+                  value={timezone}
+                  onChange={handleTimezoneChange}
+                  className="input-dark mt-1"
+                  aria-describedby="booking-timezone-hint"
+                />
+                <p id="booking-timezone-hint" className="label-hint">
+                  {timezone === detectTimezone()
+                    ? t("booking.timezoneDevice")
+                    : t("booking.timezoneOther", { device: detectTimezone(), timezone })}
+                </p>
+                <div
+                  className="mt-2 flex gap-2 text-xs"
+                  role="group"
+                  aria-label={t("booking.clock")}
+                >
+                  {(["h12", "h23"] as const).map((cycle) => (
+                    <button
+                      key={cycle}
+                      type="button"
+                      onClick={() => setTimeFormat({ ...preference, hourCycle: cycle })}
+                      aria-pressed={hourCycle === cycle}
+                      className={hourCycle === cycle ? "slot-pill-selected" : "slot-pill-default"}
+                    >
+                      {cycle === "h12" ? t("booking.h12") : t("booking.h23")}
+                    </button>
+                  ))}
+                </div>
+              </div>
               <WeekView
                 weekStart={currentWeekStart}
                 onPrevWeek={() => navigateWeek(-1)}
@@ -506,28 +731,34 @@ export function SchedulingPage() {
                 onSelectSlot={handleSlotSelect}
                 startHour={gridStartHour}
                 endHour={gridEndHour}
-                durationMinutes={page.defaultDurationMinutes}
-                bufferMinutes={page.bufferMinutes}
+                durationMinutes={selectedType?.durationMinutes ?? page.defaultDurationMinutes}
+                slotIncrementMinutes={page.slotIncrementMinutes}
+                timezone={timezone}
               />
             </div>
 
             {/* Right: Request form */}
             <div className="card md:col-span-2 lg:col-span-1">
               <h2 className="mb-3 text-sm font-semibold text-content">
-                Request an appointment
+                {t("booking.formHeading")}
               </h2>
 
               {selectedSlot ? (
                 <div className="alert-info mb-3" role="status" aria-live="polite">
-                  Selected:{" "}
-                  <span className="font-medium text-accent-text">
-                    {formatDate(selectedSlot.start)} ·{" "}
-                    {formatTimeRange(selectedSlot)}
-                  </span>
+                  {tRich("booking.selected", {
+                    slot: (
+                      <span className="font-medium text-accent-text">
+                        {selectedType && `${selectedType.name} · `}
+                        {formatDate(selectedSlot.start)} ·{" "}
+                        {formatTimeRange(selectedSlot)}
+                      </span>
+                    ),
+                    timezone: <span className="text-content-muted">{timezone}</span>,
+                  })}
                 </div>
               ) : (
                 <p className="mb-3 text-xs text-content-muted">
-                  Choose an available time slot to continue.
+                  {t("booking.chooseSlot")}
                 </p>
               )}
 
@@ -568,8 +799,7 @@ export function SchedulingPage() {
                 </div>
 
                 <p className="text-xs text-content-subtle">
-                  Fields marked with <span className="text-error">*</span> are
-                  required.
+                  {tRich("booking.required", { mark: <span className="text-error">*</span> })}
                 </p>
 
                 <div>
@@ -577,7 +807,7 @@ export function SchedulingPage() {
                     htmlFor="requester-name"
                     className="label required-indicator text-xs"
                   >
-                    Your name
+                    {t("booking.name")}
                   </label>
                   <input
                     id="requester-name"
@@ -597,7 +827,7 @@ export function SchedulingPage() {
                     htmlFor="requester-email"
                     className="label required-indicator text-xs"
                   >
-                    Your email
+                    {t("booking.email")}
                   </label>
                   <input
                     id="requester-email"
@@ -615,7 +845,7 @@ export function SchedulingPage() {
                     htmlFor="reason"
                     className="label required-indicator text-xs"
                   >
-                    Reason for meeting
+                    {t("booking.reason")}
                   </label>
                   <textarea
                     id="reason"
@@ -629,15 +859,15 @@ export function SchedulingPage() {
                     className="input-dark mt-1"
                   />
                   <p id="reason-count" className="label-hint">
-                    {reason.length}/500 characters (min 10)
+                    {t("booking.reasonCount", { count: reason.length })}
                   </p>
                 </div>
 
                 <div>
                   <label htmlFor="notes" className="label text-xs">
-                    Additional notes{" "}
+                    {t("booking.notes")}{" "}
                     <span className="font-normal text-content-subtle">
-                      (optional)
+                      {t("form.optional")}
                     </span>
                   </label>
                   <textarea
@@ -650,10 +880,16 @@ export function SchedulingPage() {
                     className="input-dark mt-1"
                   />
                   <p id="notes-count" className="label-hint">
-                    {notes.length}/500 characters
+                    {t("booking.notesCount", { count: notes.length })}
                   </p>
                 </div>
 
+                <IntakeQuestionFields
+                  questions={page.intakeQuestions ?? []}
+                  answers={answers}
+                  onChange={setAnswers}
+                />
+
                 <button
                   type="submit"
                   disabled={!selectedSlot || isSubmitting}
@@ -663,10 +899,10 @@ export function SchedulingPage() {
                   className="btn-primary w-full"
                 >
                   {isSubmitting
-                    ? "Sending request..."
+                    ? t("booking.submitting")
                     : !selectedSlot
-                      ? "Select a time slot first"
-                      : "Send appointment request"}
+                      ? t("booking.selectFirst")
+                      : t("booking.submit")}
                 </button>
               </form>
             </div>
@@ -718,7 +718,7 @@ export function SignupPage() {
 
               <div>
                 <label htmlFor="buffer" className="label">
-                  Buffer between meetings
+                  Buffer after meetings
                 </label>
                 <select
                   id="buffer"
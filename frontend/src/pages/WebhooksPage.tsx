@@ -0,0 +1,446 @@
+import { FormEvent, useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import axios from "axios";
+import {
+  listPages,
+  listWebhooks,
+  createWebhook,
+  updateWebhook,
+  deleteWebhook,
+  rotateWebhookSecret,
+  testWebhook,
+  listWebhookDeliveries,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookEvent,
+} from "../services/dashboard";
+
+const MAX_WEBHOOKS = 5;
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  "request.created": "New request",
+  "request.confirmed": "Request accepted",
+  "request.declined": "Request declined",
+  "booking.cancelled": "Booking cancelled",
+  "booking.rescheduled": "Booking moved by the requester",
+};
+
+const ALL_EVENTS = Object.keys(EVENT_LABELS) as WebhookEvent[];
+
+function apiError(err: unknown): string | undefined {
+  return axios.isAxiosError(err)
+    ? (err.response?.data as { error?: string } | undefined)?.error
+    : undefined;
+}
+
+function formatWhen(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    day: "numeric",
+    month: "short",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export function WebhooksPage() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [pageNames, setPageNames] = useState<Map<string, string>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // A secret is only shown once, just after it is created or rotated
+  const [newSecret, setNewSecret] = useState<{ webhookId: string; secret: string } | null>(null);
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [url, setUrl] = useState("");
+  const [pageId, setPageId] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(ALL_EVENTS);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+
+  const fetchWebhooks = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const [pages, hooks] = await Promise.all([listPages(), listWebhooks()]);
+      setPageNames(new Map(pages.pages.map((p) => [p.id, p.title ?? p.slug])));
+      setWebhooks(hooks);
+    } catch {
+      setError("Could not load webhooks. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    document.title = "Webhooks - CalAnywhere";
+    fetchWebhooks();
+  }, [fetchWebhooks]);
+
+  function toggleEvent(event: WebhookEvent) {
+    setEvents((prev) =>
+      prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]
+    );
+  }
+
+  async function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (events.length === 0) {
+      setError("Choose at least one event.");
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const created = await createWebhook({ url: url.trim(), events, pageId: pageId || null });
+      setWebhooks((prev) => [...prev, created.webhook]);
+      setNewSecret({ webhookId: created.webhook.id, secret: created.secret });
+      setIsAdding(false);
+      setUrl("");
+      setPageId("");
+      setEvents(ALL_EVENTS);
+    } catch (err) {
+      setError(apiError(err) || "Could not add the webhook. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function runAction(webhook: Webhook, action: () => Promise<void>, failure: string) {
+    setBusyId(webhook.id);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(apiError(err) || failure);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  const handleToggleActive = (webhook: Webhook) =>
+    runAction(
+      webhook,
+      async () => {
+        const updated = await updateWebhook(webhook.id, { isActive: !webhook.isActive });
+        setWebhooks((prev) => prev.map((w) => (w.id === updated.id ? updated : w)));
+      },
+      "Could not update the webhook. Please try again."
+    );
+
+  const handleTest = (webhook: Webhook) =>
+    runAction(
+      webhook,
+      async () => {
+        await testWebhook(webhook.id);
+        setNotice("A test event is on its way. Its delivery will appear in the log.");
+      },
+      "Could not send a test event. Please try again."
+    );
+
+  const handleRotate = (webhook: Webhook) => {
+    if (!window.confirm("Replace the signing secret? Your endpoint must be updated to the new one.")) {
+      return;
+    }
+    return runAction(
+      webhook,
+      async () => {
+        const secret = await rotateWebhookSecret(webhook.id);
+        setNewSecret({ webhookId: webhook.id, secret });
+      },
+      "Could not replace the secret. Please try again."
+    );
+  };
+
+  const handleDelete = (webhook: Webhook) => {
+    if (!window.confirm(`Remove the webhook for ${webhook.url}?`)) return;
+    return runAction(
+      webhook,
+      async () => {
+        await deleteWebhook(webhook.id);
+        setWebhooks((prev) => prev.filter((w) => w.id !== webhook.id));
+        if (newSecret?.webhookId === webhook.id) setNewSecret(null);
+      },
+      "Could not remove the webhook. Please try again."
+    );
+  };
+
+  const handleToggleLog = (webhook: Webhook) => {
+    if (openLogId === webhook.id) {
+      setOpenLogId(null);
+      return;
+    }
+    return runAction(
+      webhook,
+      async () => {
+        setDeliveries(await listWebhookDeliveries(webhook.id));
+        setOpenLogId(webhook.id);
+      },
+      "Could not load the delivery log. Please try again."
+    );
+  };
+
+  return (
+    <main
+      id="main-content"
+      className="mx-auto flex min-h-screen max-w-3xl flex-col px-4 py-10"
+    >
+      <header className="mb-8">
+        <Link
+          to="/dashboard"
+          className="text-sm text-content-muted hover:text-content"
+        >
+          &larr; Back to dashboard
+        </Link>
+        <h1 className="mt-3 text-2xl font-semibold tracking-tight text-content">
+          Webhooks
+        </h1>
+        <p className="mt-2 text-sm text-content-muted">
+          Tell your own systems when something happens to a booking. Each event
+          is sent as a JSON POST, signed in the{" "}
+          <code className="text-xs">X-CalAnywhere-Signature</code> header with
+          an HMAC-SHA256 of <code className="text-xs">timestamp.body</code>{" "}
+          using the webhook&apos;s secret. A delivery that fails is retried
+          four more times over the next hour and a half.
+        </p>
+      </header>
+
+      {error && (
+        <div className="alert-error mb-6" role="alert">
+          {error}
+        </div>
+      )}
+
+      {notice && (
+        <div className="alert-success mb-6" role="status" aria-live="polite">
+          {notice}
+        </div>
+      )}
+
+      {newSecret && (
+        <section className="card mb-6" aria-label="Signing secret">
+          <p className="text-sm font-medium text-content">
+            Copy this signing secret now. It will not be shown again.
+          </p>
+          <code className="mt-2 block break-all rounded bg-surface-overlay p-2 text-xs text-content">
+            {newSecret.secret}
+          </code>
+          <button
+            type="button"
+            onClick={() => setNewSecret(null)}
+            className="btn-ghost mt-3 text-xs"
+          >
+            Done
+          </button>
+        </section>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-16">
+          <p className="text-sm text-content-muted">Loading webhooks...</p>
+        </div>
+      )}
+
+      {!isLoading && webhooks.length === 0 && !isAdding && !error && (
+        <section className="card mb-6 py-12 text-center">
+          <h2 className="text-lg font-semibold text-content">No webhooks yet</h2>
+          <p className="mx-auto mt-2 max-w-md text-sm text-content-muted">
+            Add an HTTPS endpoint to hear about new requests, accepted and
+            declined requests, cancellations and new times.
+          </p>
+        </section>
+      )}
+
+      {!isLoading && webhooks.length > 0 && (
+        <ul className="mb-6 space-y-4" role="list">
+          {webhooks.map((webhook) => (
+            <li key={webhook.id} className="card">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 flex-1">
+                  <h2 className="break-all text-sm font-semibold text-content">
+                    {webhook.url}
+                  </h2>
+                  <p className="mt-0.5 text-xs text-content-muted">
+                    {webhook.pageId
+                      ? `For ${pageNames.get(webhook.pageId) ?? "one page"}`
+                      : "For all your pages"}
+                    {" · "}
+                    {webhook.isActive ? "Active" : "Paused"}
+                  </p>
+                  <p className="mt-2 text-xs text-content-subtle">
+                    {webhook.events.map((e) => EVENT_LABELS[e]).join(", ")}
+                  </p>
+                </div>
+                <div className="flex shrink-0 flex-col items-end gap-2">
+                  <button
+                    onClick={() => handleTest(webhook)}
+                    disabled={busyId === webhook.id || !webhook.isActive}
+                    className="btn-ghost text-xs"
+                  >
+                    Send test
+                  </button>
+                  <button
+                    onClick={() => handleToggleLog(webhook)}
+                    disabled={busyId === webhook.id}
+                    aria-expanded={openLogId === webhook.id}
+                    className="btn-ghost text-xs"
+                  >
+                    {openLogId === webhook.id ? "Hide deliveries" : "Deliveries"}
+                  </button>
+                  <button
+                    onClick={() => handleToggleActive(webhook)}
+                    disabled={busyId === webhook.id}
+                    className="btn-ghost text-xs"
+                  >
+                    {webhook.isActive ? "Pause" : "Resume"}
+                  </button>
+                  <button
+                    onClick={() => handleRotate(webhook)}
+                    disabled={busyId === webhook.id}
+                    className="btn-ghost text-xs"
+                  >
+                    New secret
+                  </button>
+                  <button
+                    onClick={() => handleDelete(webhook)}
+                    disabled={busyId === webhook.id}
+                    className="text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+
+              {openLogId === webhook.id && (
+                <div className="mt-4 border-t border-border pt-4">
+                  {deliveries.length === 0 ? (
+                    <p className="text-xs text-content-muted">No deliveries yet.</p>
+                  ) : (
+                    <ul className="divide-y divide-border" aria-label="Recent deliveries">
+                      {deliveries.map((d) => (
+                        <li key={d.id} className="py-2 text-xs">
+                          <div className="flex justify-between gap-4">
+                            <span className="text-content">
+                              {d.event}
+                              {d.attempt > 1 ? ` (attempt ${d.attempt})` : ""}
+                            </span>
+                            <span
+                              className={
+                                d.error ? "text-error-text" : "text-accent-text"
+                              }
+                            >
+                              {d.statusCode ?? "No response"}
+                            </span>
+                          </div>
+                          <p className="text-content-muted">
+                            {formatWhen(d.createdAt)}
+                            {d.durationMs !== null ? ` · ${d.durationMs} ms` : ""}
+                          </p>
+                          {d.error && (
+                            <p className="break-words text-error-text">{d.error}</p>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {!isLoading && !isAdding && webhooks.length < MAX_WEBHOOKS && (
+        <div>
+          <button onClick={() => setIsAdding(true)} className="btn-secondary">
+            + Add webhook
+          </button>
+        </div>
+      )}
+
+      {isAdding && (
+        <form onSubmit={handleSubmit} className="card space-y-5">
+          <h2 className="text-base font-semibold text-content">New webhook</h2>
+
+          <div>
+            <label htmlFor="webhook-url" className="label required-indicator">
+              Endpoint URL
+            </label>
+            <input
+              id="webhook-url"
+              type="url"
+              required
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/hooks/calanywhere"
+              className="input mt-2"
+              aria-describedby="webhook-url-hint"
+            />
+            <p id="webhook-url-hint" className="label-hint">
+              Must use https and be reachable from the internet.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="webhook-page" className="label">
+              Pages
+            </label>
+            <select
+              id="webhook-page"
+              value={pageId}
+              onChange={(e) => setPageId(e.target.value)}
+              className="input mt-2"
+            >
+              <option value="">All your pages</option>
+              {[...pageNames].map(([id, name]) => (
+                <option key={id} value={id}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <fieldset>
+            <legend className="label">Events</legend>
+            <div className="mt-2 space-y-1">
+              {ALL_EVENTS.map((event) => (
+                <div key={event} className="flex min-h-touch items-center gap-3">
+                  <input
+                    id={`webhook-event-${event}`}
+                    type="checkbox"
+                    checked={events.includes(event)}
+                    onChange={() => toggleEvent(event)}
+                    className="checkbox"
+                  />
+                  <label htmlFor={`webhook-event-${event}`} className="text-sm text-content">
+                    {EVENT_LABELS[event]}{" "}
+                    <code className="text-xs text-content-subtle">{event}</code>
+                  </label>
+                </div>
+              ))}
+            </div>
+          </fieldset>
+
+          <div className="flex gap-2">
+            <button type="submit" disabled={isSaving} className="btn-primary">
+              {isSaving ? "Saving..." : "Add webhook"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsAdding(false)}
+              disabled={isSaving}
+              className="btn-ghost"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </main>
+  );
+}
@@ -1,9 +1,33 @@
 import axios from "axios";
 
+export interface CalendarCacheMetrics {
+  hits: number;
+  revalidations: number;
+  misses: number;
+  errors: number;
+}
+
 export interface AdminStats {
   users: number;
   pages: number;
   activePages: number;
+  calendarCache: CalendarCacheMetrics;
+}
+
+/** An email that failed every send attempt; the recipient is masked. */
+export interface DeadLetter {
+  id: string;
+  to: string;
+  subject: string;
+  attempts: number;
+  lastError: string | null;
+  failedAt: string;
+}
+
+export interface OutboxStatus {
+  pending: number;
+  failed: number;
+  deadLetters: DeadLetter[];
 }
 
 export async function adminLogin(username: string, password: string): Promise<void> {
@@ -23,6 +47,15 @@ export async function getAdminStats(): Promise<AdminStats> {
   return r.data;
 }
 
+export async function getAdminEmails(): Promise<OutboxStatus> {
+  const r = await axios.get<OutboxStatus>("/api/admin/emails");
+  return r.data;
+}
+
+export async function retryAdminEmail(id: string): Promise<void> {
+  await axios.post(`/api/admin/emails/${id}/retry`);
+}
+
 export async function getAdminSettings(): Promise<Record<string, string>> {
   const r = await axios.get<{ settings: Record<string, string> }>("/api/admin/settings");
   return r.data.settings;
@@ -1,4 +1,136 @@
 import axios from "axios";
+import type { TimeFormat } from "../utils/timeFormat";
+import type { Language } from "../i18n";
+
+/** Health of one calendar feed, as last seen when the page was viewed. */
+export interface CalendarFeedHealth {
+  status: "ok" | "failing" | "unknown";
+  failingSince: string | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+}
+
+/** Bookable hours within one day, in the owner's timezone. */
+export interface TimeRange {
+  start: string; // "HH:MM"
+  end: string; // "HH:MM"
+}
+
+/** One range of bookable hours on a weekday. */
+export interface AvailabilityRange extends TimeRange {
+  weekday: number; // 0 = Sunday … 6 = Saturday
+}
+
+/** Hours that replace the weekly schedule on a date or run of dates. */
+export interface DateOverride {
+  id: string;
+  startDate: string; // "YYYY-MM-DD"
+  endDate: string; // "YYYY-MM-DD", inclusive
+  ranges: TimeRange[]; // empty = unavailable
+  label?: string;
+}
+
+/** A kind of meeting a page offers, e.g. a 15-minute chat. */
+export interface MeetingType {
+  id: string;
+  name: string;
+  description?: string;
+  durationMinutes: number;
+  bufferMinutes: number; // after the meeting
+  bufferBeforeMinutes: number;
+  weeklyAvailability?: AvailabilityRange[]; // unset = the page's hours
+}
+
+export interface MeetingTypeInput {
+  name: string;
+  description?: string;
+  durationMinutes: number;
+  bufferMinutes: number;
+  bufferBeforeMinutes: number;
+  weeklyAvailability: AvailabilityRange[] | null; // null = the page's hours
+}
+
+export type WebhookEvent =
+  | "request.created"
+  | "request.confirmed"
+  | "request.declined"
+  | "booking.cancelled"
+  | "booking.rescheduled";
+
+export interface Webhook {
+  id: string;
+  url: string;
+  pageId: string | null; // null = all your pages
+  events: WebhookEvent[];
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  eventId: string;
+  event: string;
+  attempt: number;
+  statusCode: number | null; // null if the endpoint could not be reached
+  error: string | null;
+  durationMs: number | null;
+  createdAt: string;
+}
+
+export type ApiTokenScope = "pages:read" | "pages:write" | "bookings:read" | "bookings:write";
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  prefix: string; // the token's first characters, to tell tokens apart
+  scopes: ApiTokenScope[];
+  expiresAt: string | null; // null = never
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+export interface CreateDateOverrideInput {
+  startDate: string;
+  endDate: string;
+  ranges: TimeRange[];
+  label?: string;
+}
+
+/** Which calendar events block booking on a page. */
+export interface BusyRules {
+  allDayBusy: boolean;
+  tentativeBusy: boolean;
+  ignoreDeclined: boolean;
+  ignoreSummaries: string[]; // case-insensitive, "*" matches any text
+}
+
+export type IntakeQuestionType =
+  | "short_text"
+  | "long_text"
+  | "single_choice"
+  | "multiple_choice"
+  | "phone";
+
+/** A question of the owner's own on the booking form. */
+export interface IntakeQuestion {
+  id?: string; // unset until the page is saved
+  label: string;
+  type: IntakeQuestionType;
+  required: boolean;
+  options?: string[]; // choice questions only
+}
+
+export interface IntakeAnswer {
+  questionId: string;
+  label: string; // the question as it was when answered
+  answer: string | string[]; // several for multiple choice
+}
+
+/** Whether other websites may embed a page's booking widget. */
+export interface EmbedSettings {
+  enabled: boolean;
+  origins: string[]; // e.g. "https://www.example.com"; empty = any site
+}
 
 export interface DashboardPage {
   id: string;
@@ -7,14 +139,25 @@ export interface DashboardPage {
   ownerName: string;
   bio: string | null;
   calendarUrls: string[];
+  calendarHealth: CalendarFeedHealth[]; // aligned with calendarUrls
   defaultDurationMinutes: number;
-  bufferMinutes: number;
+  bufferMinutes: number; // after each meeting
+  bufferBeforeMinutes: number;
+  maxBookingsPerDay: number | null; // null = no limit
+  maxBookingsPerWeek: number | null;
+  slotIncrementMinutes: number | null; // null = back to back
+  reminderOffsetsMinutes: number[]; // minutes before accepted appointments
   dateRangeDays: number;
   minNoticeHours: number;
   includeWeekends: boolean;
   availabilityStart: string;
   availabilityEnd: string;
   ownerTimezone: string;
+  weeklyAvailability: AvailabilityRange[];
+  busyRules: BusyRules;
+  embed: EmbedSettings;
+  intakeQuestions: IntakeQuestion[];
+  language: Language | null; // null = each visitor's browser
   hasNotificationEmail: boolean;
   isActive: boolean;
   createdAt: string;
@@ -36,12 +179,18 @@ export interface CreatePageInput {
   calendarUrls: string[];
   defaultDurationMinutes?: number;
   bufferMinutes?: number;
+  bufferBeforeMinutes?: number;
+  maxBookingsPerDay?: number | null;
+  maxBookingsPerWeek?: number | null;
+  slotIncrementMinutes?: number | null;
+  reminderOffsetsMinutes?: number[];
   dateRangeDays?: number;
   minNoticeHours?: number;
   includeWeekends?: boolean;
   availabilityStart?: string;
   availabilityEnd?: string;
   ownerTimezone?: string;
+  weeklyAvailability?: AvailabilityRange[];
   expiryDays?: number | null;
 }
 
@@ -62,14 +211,26 @@ export interface UpdatePageInput {
   calendarUrls?: string[];
   defaultDurationMinutes?: number;
   bufferMinutes?: number;
+  bufferBeforeMinutes?: number;
+  maxBookingsPerDay?: number | null;
+  maxBookingsPerWeek?: number | null;
+  slotIncrementMinutes?: number | null;
+  reminderOffsetsMinutes?: number[];
   dateRangeDays?: number;
   minNoticeHours?: number;
   includeWeekends?: boolean;
   availabilityStart?: string;
   availabilityEnd?: string;
   ownerTimezone?: string;
+  weeklyAvailability?: AvailabilityRange[];
+  busyRules?: Partial<BusyRules>;
+  embed?: Partial<EmbedSettings>;
+  intakeQuestions?: IntakeQuestion[];
+  language?: Language | null;
 }
 
+export type BookingStatus = "requested" | "accepted" | "declined" | "cancelled";
+
 export interface AppointmentRequest {
   id: string;
   requesterName: string;
@@ -79,9 +240,20 @@ export interface AppointmentRequest {
   startTime: string;
   endTime: string;
   timezone: string | null;
+  meetingTypeName: string | null;
+  intakeAnswers: IntakeAnswer[];
+  status: BookingStatus;
+  statusMessage: string | null;
+  statusChangedAt: string | null;
   createdAt: string;
 }
 
+export interface UpdateRequestStatusResult {
+  ok: boolean;
+  status: BookingStatus;
+  emailSent: boolean;
+}
+
 /** List the authenticated user's pages. */
 export async function listPages(): Promise<PagesListResponse> {
   const resp = await axios.get<PagesListResponse>("/api/dashboard/pages");
@@ -121,3 +293,186 @@ export async function listRequests(
   );
   return resp.data.requests;
 }
+
+/** Accept, decline or cancel an appointment request. */
+export async function updateRequestStatus(
+  pageId: string,
+  requestId: string,
+  status: Exclude<BookingStatus, "requested">,
+  message?: string
+): Promise<UpdateRequestStatusResult> {
+  const resp = await axios.patch<UpdateRequestStatusResult>(
+    `/api/dashboard/pages/${pageId}/requests/${requestId}`,
+    { status, message: message || undefined }
+  );
+  return resp.data;
+}
+
+/** List a page's upcoming date overrides. */
+export async function listDateOverrides(
+  pageId: string
+): Promise<DateOverride[]> {
+  const resp = await axios.get<{ overrides: DateOverride[] }>(
+    `/api/dashboard/pages/${pageId}/overrides`
+  );
+  return resp.data.overrides;
+}
+
+/** Add a date override to a page. */
+export async function createDateOverride(
+  pageId: string,
+  input: CreateDateOverrideInput
+): Promise<DateOverride> {
+  const resp = await axios.post<{ override: DateOverride }>(
+    `/api/dashboard/pages/${pageId}/overrides`,
+    input
+  );
+  return resp.data.override;
+}
+
+/** Remove a date override. */
+export async function deleteDateOverride(
+  pageId: string,
+  overrideId: string
+): Promise<void> {
+  await axios.delete(`/api/dashboard/pages/${pageId}/overrides/${overrideId}`);
+}
+
+/** List a page's meeting types. */
+export async function listMeetingTypes(pageId: string): Promise<MeetingType[]> {
+  const resp = await axios.get<{ meetingTypes: MeetingType[] }>(
+    `/api/dashboard/pages/${pageId}/meeting-types`
+  );
+  return resp.data.meetingTypes;
+}
+
+/** Add a meeting type to a page. */
+export async function createMeetingType(
+  pageId: string,
+  input: MeetingTypeInput
+): Promise<MeetingType> {
+  const resp = await axios.post<{ meetingType: MeetingType }>(
+    `/api/dashboard/pages/${pageId}/meeting-types`,
+    input
+  );
+  return resp.data.meetingType;
+}
+
+/** Update a meeting type. */
+export async function updateMeetingType(
+  pageId: string,
+  typeId: string,
+  input: MeetingTypeInput
+): Promise<MeetingType> {
+  const resp = await axios.patch<{ meetingType: MeetingType }>(
+    `/api/dashboard/pages/${pageId}/meeting-types/${typeId}`,
+    input
+  );
+  return resp.data.meetingType;
+}
+
+/** Remove a meeting type. */
+export async function deleteMeetingType(
+  pageId: string,
+  typeId: string
+): Promise<void> {
+  await axios.delete(`/api/dashboard/pages/${pageId}/meeting-types/${typeId}`);
+}
+
+/** List your webhooks. */
+export async function listWebhooks(): Promise<Webhook[]> {
+  const resp = await axios.get<{ webhooks: Webhook[] }>("/api/dashboard/webhooks");
+  return resp.data.webhooks;
+}
+
+/** Add a webhook. The signing secret is only returned here and when rotated. */
+export async function createWebhook(input: {
+  url: string;
+  events: WebhookEvent[];
+  pageId?: string | null;
+}): Promise<{ webhook: Webhook; secret: string }> {
+  const resp = await axios.post<{ webhook: Webhook; secret: string }>(
+    "/api/dashboard/webhooks",
+    input
+  );
+  return resp.data;
+}
+
+/** Update a webhook's endpoint, events or whether it is active. */
+export async function updateWebhook(
+  webhookId: string,
+  input: { url?: string; events?: WebhookEvent[]; isActive?: boolean }
+): Promise<Webhook> {
+  const resp = await axios.patch<{ webhook: Webhook }>(
+    `/api/dashboard/webhooks/${webhookId}`,
+    input
+  );
+  return resp.data.webhook;
+}
+
+/** Remove a webhook. */
+export async function deleteWebhook(webhookId: string): Promise<void> {
+  await axios.delete(`/api/dashboard/webhooks/${webhookId}`);
+}
+
+/** Replace a webhook's signing secret, returning the new one. */
+export async function rotateWebhookSecret(webhookId: string): Promise<string> {
+  const resp = await axios.post<{ secret: string }>(
+    `/api/dashboard/webhooks/${webhookId}/secret`
+  );
+  return resp.data.secret;
+}
+
+/** Send a test "ping" event to a webhook. */
+export async function testWebhook(webhookId: string): Promise<void> {
+  await axios.post(`/api/dashboard/webhooks/${webhookId}/test`);
+}
+
+/** A webhook's most recent delivery attempts, newest first. */
+export async function listWebhookDeliveries(webhookId: string): Promise<WebhookDelivery[]> {
+  const resp = await axios.get<{ deliveries: WebhookDelivery[] }>(
+    `/api/dashboard/webhooks/${webhookId}/deliveries`
+  );
+  return resp.data.deliveries;
+}
+
+/** List your API tokens, including expired ones. */
+export async function listApiTokens(): Promise<ApiToken[]> {
+  const resp = await axios.get<{ tokens: ApiToken[] }>("/api/dashboard/tokens");
+  return resp.data.tokens;
+}
+
+/** Create an API token. The token itself is only returned here. */
+export async function createApiToken(input: {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresInDays: number | null;
+}): Promise<{ apiToken: ApiToken; token: string }> {
+  const resp = await axios.post<{ apiToken: ApiToken; token: string }>(
+    "/api/dashboard/tokens",
+    input
+  );
+  return resp.data;
+}
+
+/** Revoke an API token. Scripts using it stop working at once. */
+export async function revokeApiToken(tokenId: string): Promise<void> {
+  await axios.delete(`/api/dashboard/tokens/${tokenId}`);
+}
+
+/** Your language and date and time preferences; null follows your browser. */
+export interface Preferences extends TimeFormat {
+  language: Language | null;
+}
+
+/** Your preferences, used across the app and in your emails. */
+export async function getPreferences(): Promise<Preferences> {
+  const resp = await axios.get<Preferences>("/api/dashboard/preferences");
+  return resp.data;
+}
+
+/** Save some of your preferences; those left out are unchanged. */
+export async function updatePreferences(changes: Partial<Preferences>): Promise<Preferences> {
+  const resp = await axios.put<Preferences>("/api/dashboard/preferences", changes);
+  return resp.data;
+}
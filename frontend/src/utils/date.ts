@@ -6,16 +6,23 @@ export function toDateStr(d: Date): string {
   return `${y}-${m}-${day}`;
 }
 
-/** Human-readable countdown, e.g. "2d 5h" or "1h 23m". */
-export function countdownLabel(expiresAt: number): string {
+/**
+ * Human-readable countdown in `locale`, e.g. "2d 5h" or "1h 23m" in
+ * English and "2 T 5 Std." in German.
+ */
+export function countdownLabel(expiresAt: number, locale?: string): string {
   const ms = expiresAt - Date.now();
   const totalMinutes = Math.max(0, Math.floor(ms / 60000));
   const totalHours = Math.floor(totalMinutes / 60);
   const minutes = totalMinutes % 60;
+  const unit = (value: number, name: "day" | "hour" | "minute") =>
+    new Intl.NumberFormat(locale, { style: "unit", unit: name, unitDisplay: "narrow" }).format(
+      value
+    );
   if (totalHours >= 24) {
     const days = Math.floor(totalHours / 24);
     const hours = totalHours % 24;
-    return `${days}d ${hours}h`;
+    return `${unit(days, "day")} ${unit(hours, "hour")}`;
   }
-  return `${totalHours}h ${minutes}m`;
+  return `${unit(totalHours, "hour")} ${unit(minutes, "minute")}`;
 }
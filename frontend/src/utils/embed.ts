@@ -0,0 +1,46 @@
+/**
+ * Helpers for the booking page when it runs as an embedded widget
+ * (/embed/:slug inside another site's iframe).
+ */
+
+/** Messages the widget posts to the page around it. */
+export type EmbedMessage =
+  | { type: "calanywhere:resize"; slug: string; height: number }
+  | { type: "calanywhere:booking-requested"; slug: string; start: string; end: string };
+
+// Query parameters the embedding site can set, and the colours they replace
+const THEME_VARIABLES: Record<string, string[]> = {
+  accent: ["--color-accent", "--color-accent-hover", "--color-accent-text"],
+  background: ["--color-surface-base"],
+  card: ["--color-surface-elevated", "--color-surface-overlay"],
+  text: ["--color-content", "--color-content-muted"],
+};
+
+const HEX_COLOR_RE = /^#?([0-9a-f]{6})$/i;
+
+/**
+ * CSS variables for the colours given in the widget's URL, e.g.
+ * `?accent=2563eb&background=ffffff`. Values are six-digit hex colours, with
+ * or without "#"; anything else is ignored.
+ */
+export function embedThemeVariables(params: URLSearchParams): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const [param, names] of Object.entries(THEME_VARIABLES)) {
+    const match = HEX_COLOR_RE.exec(params.get(param) ?? "");
+    if (!match) continue;
+    const n = parseInt(match[1], 16);
+    const rgb = `${(n >> 16) & 255} ${(n >> 8) & 255} ${n & 255}`;
+    for (const name of names) variables[name] = rgb;
+  }
+  return variables;
+}
+
+/**
+ * Posts a message to the embedding page. The widget never sends anything the
+ * visitor typed, so any page that frames it may listen.
+ */
+export function postToHost(message: EmbedMessage): void {
+  if (window.parent !== window) {
+    window.parent.postMessage(message, "*");
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Date and time formatting that follows the reader's preferences.
+ * Mirrors backend/src/utils/timeFormat.ts, which formats the emails.
+ *
+ * A preference has a locale (e.g. "en-US"), which decides the order and
+ * names in a date, and an hour cycle: "h12" for 3:00 PM or "h23" for 15:00.
+ * Either may be null to follow the browser.
+ */
+
+export type HourCycle = "h12" | "h23";
+
+export interface TimeFormat {
+  locale: string | null;
+  hourCycle: HourCycle | null;
+}
+
+export const BROWSER_TIME_FORMAT: TimeFormat = { locale: null, hourCycle: null };
+
+const VISITOR_STORAGE_KEY = "calanywhere.timeFormat";
+
+/**
+ * A format for text in `language`. Without a locale of its own it follows
+ * the browser, unless the browser is set to another language: then dates
+ * are written in `language`, to match the words around them.
+ */
+export function formatForLanguage(
+  format: TimeFormat,
+  language: string,
+  browserLanguage: string = navigator.language
+): TimeFormat {
+  if (format.locale) return format;
+  const browserPrimary = browserLanguage.split("-")[0].toLowerCase();
+  return browserPrimary === language ? format : { ...format, locale: language };
+}
+
+/** The hour cycle a format shows: its own, or else its locale's. */
+export function resolvedHourCycle(format: TimeFormat): HourCycle {
+  if (format.hourCycle) return format.hourCycle;
+  const { hour12 } = new Intl.DateTimeFormat(format.locale ?? undefined, {
+    hour: "numeric",
+  }).resolvedOptions();
+  return hour12 ? "h12" : "h23";
+}
+
+/**
+ * Formats with the given Intl options in the reader's locale. Options with
+ * an hour use their hour cycle, with a leading zero on a 24-hour clock.
+ */
+export function formatDateTime(
+  date: Date,
+  options: Intl.DateTimeFormatOptions,
+  format: TimeFormat
+): string {
+  let resolved = options;
+  if (options.hour !== undefined) {
+    const hourCycle = resolvedHourCycle(format);
+    resolved = { ...options, hour: hourCycle === "h12" ? "numeric" : "2-digit", hourCycle };
+  }
+  return new Intl.DateTimeFormat(format.locale ?? undefined, resolved).format(date);
+}
+
+/** Two dates as one range, e.g. "2–8 Mar 2026", sharing what they have in common. */
+export function formatDateRange(
+  start: Date,
+  end: Date,
+  options: Intl.DateTimeFormatOptions,
+  format: TimeFormat
+): string {
+  return new Intl.DateTimeFormat(format.locale ?? undefined, options).formatRange(start, end);
+}
+
+/** e.g. "15:00" or "3:00 PM", in `timeZone` if given. */
+export function formatTime(date: Date, format: TimeFormat, timeZone?: string): string {
+  return formatDateTime(date, { hour: "numeric", minute: "2-digit", timeZone }, format);
+}
+
+/** A wall-clock time of day, e.g. a row of the booking grid. */
+export function formatClock(hour: number, minute: number, format: TimeFormat): string {
+  return formatTime(new Date(2000, 0, 1, hour, minute), format);
+}
+
+function isLocale(value: unknown): value is string {
+  if (typeof value !== "string") return false;
+  try {
+    return Intl.getCanonicalLocales(value).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+/** The preference saved on this device, for visitors without an account. */
+export function loadVisitorTimeFormat(): TimeFormat {
+  try {
+    const saved = JSON.parse(localStorage.getItem(VISITOR_STORAGE_KEY) ?? "null");
+    return {
+      locale: isLocale(saved?.locale) ? saved.locale : null,
+      hourCycle: saved?.hourCycle === "h12" || saved?.hourCycle === "h23" ? saved.hourCycle : null,
+    };
+  } catch {
+    // Storage can be unavailable, e.g. in a third-party frame
+    return BROWSER_TIME_FORMAT;
+  }
+}
+
+export function saveVisitorTimeFormat(format: TimeFormat): void {
+  try {
+    localStorage.setItem(VISITOR_STORAGE_KEY, JSON.stringify(format));
+  } catch {
+    // Kept for this visit only
+  }
+}
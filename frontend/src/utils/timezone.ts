@@ -109,3 +109,52 @@ export function getGroupedTimezones(): Map<string, TimezoneEntry[]> {
 export function detectTimezone(): string {
   return Intl.DateTimeFormat().resolvedOptions().timeZone;
 }
+
+/** Whether the browser knows `timezone` as an IANA name. */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** An instant as the calendar and clock show it in some timezone. */
+export interface ZonedTime {
+  dateStr: string; // "YYYY-MM-DD"
+  weekday: number; // 0 = Sunday
+  hour: number;
+  minute: number;
+}
+
+// Building a formatter is slow next to using one, and the booking grid asks
+// for every slot's time on each render
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+export function zonedTime(date: Date, timezone: string): ZonedTime {
+  let fmt = zonedFormatters.get(timezone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    zonedFormatters.set(timezone, fmt);
+  }
+
+  const parts = fmt.formatToParts(date);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "0";
+  const [year, month, day] = [get("year"), get("month"), get("day")];
+
+  return {
+    dateStr: `${year}-${month}-${day}`,
+    weekday: new Date(Date.UTC(+year, +month - 1, +day)).getUTCDay(),
+    hour: parseInt(get("hour")) % 24, // some engines still say 24 at midnight
+    minute: parseInt(get("minute")),
+  };
+}